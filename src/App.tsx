@@ -2,6 +2,9 @@ import { Routes, Route, Navigate } from 'react-router-dom';
 import { PlotSelectionPage } from './pages/PlotSelectionPage';
 import { BarChartPage } from './plots/bar/BarChartPage';
 import { ScatterPlotPage } from './plots/scatter/ScatterPlotPage';
+import { LineChartPage } from './plots/line/LineChartPage';
+import { HistogramPage } from './plots/histogram/HistogramPage';
+import { BoxPlotPage } from './plots/box/BoxPlotPage';
 
 function App() {
   return (
@@ -9,6 +12,9 @@ function App() {
       <Route path="/" element={<PlotSelectionPage />} />
       <Route path="/bar" element={<BarChartPage />} />
       <Route path="/scatter" element={<ScatterPlotPage />} />
+      <Route path="/line" element={<LineChartPage />} />
+      <Route path="/histogram" element={<HistogramPage />} />
+      <Route path="/box" element={<BoxPlotPage />} />
       <Route path="*" element={<Navigate to="/" replace />} />
     </Routes>
   );
@@ -1,6 +1,11 @@
-import { BarChart3, ScatterChart } from 'lucide-react';
+import { BarChart3, ChartCandlestick, ChartColumnBig, LineChart, ScatterChart } from 'lucide-react';
+import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
+import type { OpenProjectState } from '../shared/components/ChartPage';
+import { ProjectLibraryModal, ProjectThumbnail } from '../shared/components/ProjectLibraryModal';
 import { useDocumentTitle } from '../shared/hooks/useDocumentTitle';
+import { useProjectLibrary } from '../shared/hooks/useProjectLibrary';
+import { formatEditedAt, plotTypeLabels, type LibraryEntry } from '../shared/utils/projectLibrary';
 import type { PlotType } from '../types/base';
 
 interface PlotTypeOption {
@@ -10,6 +15,7 @@ interface PlotTypeOption {
     icon: React.ComponentType<{ className?: string }>;
     gradient: string;
     backgroundImage?: string;
+    comingSoon?: boolean; // Renders a placeholder card instead of a link
 }
 
 const plotTypes: PlotTypeOption[] = [
@@ -28,16 +34,47 @@ const plotTypes: PlotTypeOption[] = [
         icon: ScatterChart,
         gradient: 'from-green-500 to-blue-500',
     },
+    {
+        type: 'line',
+        title: 'Line Chart',
+        description: 'Track trends across multiple series with smooth or stepped lines, markers and area fills.',
+        icon: LineChart,
+        gradient: 'from-amber-500 to-rose-500',
+    },
+    {
+        type: 'histogram',
+        title: 'Histogram',
+        description: 'Bin raw observations automatically and compare counts, densities and smooth density curves.',
+        icon: ChartColumnBig,
+        gradient: 'from-sky-500 to-indigo-600',
+    },
+    {
+        type: 'box',
+        title: 'Box Plot',
+        description: 'Summarize replicates per group with box plots or violins, Tukey whiskers, outliers and jittered points.',
+        icon: ChartCandlestick,
+        gradient: 'from-emerald-500 to-teal-600',
+    },
 ];
 
+const RECENT_PROJECT_COUNT = 4;
+
 export function PlotSelectionPage() {
     const navigate = useNavigate();
     useDocumentTitle('Chart Studio - Professional Data Visualization Tool');
 
+    const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+    // Reloaded when the library closes so renames and deletions show up in the recent list
+    const { entries: recentProjects } = useProjectLibrary(!isLibraryOpen);
+
     const handleSelectPlotType = (plotType: PlotType) => {
         navigate(`/${plotType}`);
     };
 
+    const handleOpenProject = (entry: LibraryEntry) => {
+        navigate(`/${entry.plotType}`, { state: { openProjectId: entry.id } satisfies OpenProjectState });
+    };
+
     return (
         <div className="flex min-h-screen flex-col bg-gradient-to-br from-slate-950 via-slate-900 to-slate-950">
             <header className="border-b border-white/10 bg-black/20 backdrop-blur">
@@ -57,9 +94,42 @@ export function PlotSelectionPage() {
 
             <main className="flex-1 px-4 sm:px-6 py-8 sm:py-12">
                 <div className="mx-auto max-w-6xl">
+                    {recentProjects.length > 0 && (
+                        <section className="mb-10 sm:mb-12">
+                            <div className="mb-4 flex items-center justify-between gap-4">
+                                <h2 className="text-lg sm:text-xl font-semibold text-white">Recent projects</h2>
+                                <button
+                                    type="button"
+                                    onClick={() => setIsLibraryOpen(true)}
+                                    className="text-sm text-white/60 transition hover:text-white"
+                                >
+                                    All projects ({recentProjects.length})
+                                </button>
+                            </div>
+                            <div className="grid gap-4 grid-cols-2 lg:grid-cols-4">
+                                {recentProjects.slice(0, RECENT_PROJECT_COUNT).map((entry) => (
+                                    <button
+                                        key={entry.id}
+                                        type="button"
+                                        onClick={() => handleOpenProject(entry)}
+                                        className="group overflow-hidden rounded-xl border border-white/10 bg-black/30 text-left transition hover:border-white/20"
+                                    >
+                                        <ProjectThumbnail entry={entry} className="h-28 sm:h-32" />
+                                        <div className="p-3">
+                                            <p className="truncate text-sm font-medium text-white">{entry.name}</p>
+                                            <p className="truncate text-xs text-white/50">
+                                                {plotTypeLabels[entry.plotType]} · {formatEditedAt(entry.updatedAt)}
+                                            </p>
+                                        </div>
+                                    </button>
+                                ))}
+                            </div>
+                        </section>
+                    )}
+
                     <div className="flex flex-wrap justify-center gap-6 sm:gap-8">
                         {plotTypes.map((plotType) => {
-                            const isDisabled = plotType.type === 'scatter';
+                            const isDisabled = Boolean(plotType.comingSoon);
 
                             if (isDisabled) {
                                 return (
@@ -139,11 +209,17 @@ export function PlotSelectionPage() {
 
                     <div className="mt-16 text-center">
                         <p className="text-white/50">
-                            More plot types coming soon! Stay tuned for line charts, histograms, and more.
+                            More plot types coming soon!
                         </p>
                     </div>
                 </div>
             </main>
+
+            <ProjectLibraryModal
+                isOpen={isLibraryOpen}
+                onClose={() => setIsLibraryOpen(false)}
+                onOpen={handleOpenProject}
+            />
         </div>
     );
 }
\ No newline at end of file
@@ -1,126 +1,76 @@
-import { Database, Download, Moon, Settings, Sparkles, Sun, UploadCloud } from 'lucide-react';
+import { Archive, Database, Download, FolderOpen, Link2, Moon, Redo2, Save, Settings, Sparkles, Sun, Undo2, UploadCloud } from 'lucide-react';
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
-import { ChartPage } from '../../shared/components/ChartPage';
+import type { ChangeEvent, SetStateAction } from 'react';
+import { BatchExportModal, type BatchExportRequest } from '../../shared/components/BatchExportModal';
+import { ChartPage, type ChartPageLibrary } from '../../shared/components/ChartPage';
+import { ProjectErrorModal } from '../../shared/components/ProjectErrorModal';
+import { ShareLinkModal } from '../../shared/components/ShareLinkModal';
 import { useDocumentTitle } from '../../shared/hooks/useDocumentTitle';
+import { useLibraryBinding } from '../../shared/hooks/useLibraryBinding';
+import { useShareLinkHydration } from '../../shared/hooks/useShareLinkHydration';
+import { useUndoableState, type UndoableSetOptions } from '../../shared/hooks/useUndoableState';
+import { useUndoShortcuts } from '../../shared/hooks/useUndoShortcuts';
+import { exportChartBatch } from '../../shared/utils/batchExport';
 import { createChartAction } from '../../shared/utils/chartHelpers';
 import { createBar } from '../../shared/utils/barFactory';
+import { findChartSvg } from '../../shared/utils/exportChart';
+import { downloadProjectFile, PROJECT_FILE_EXTENSION } from '../../shared/utils/projectFile';
+import { copyShareLink, type ShareLink } from '../../shared/utils/shareLink';
 import type { BarChartSettings, BarDataPoint } from '../../types/bar';
-import type { FocusRequest, FocusTarget, HighlightKey, PaletteKey } from '../../types/base';
+import type { FocusRequest, FocusTarget, HighlightKey } from '../../types/base';
 import { BarChartLeftPanel } from './components/BarChartLeftPanel';
 import { BarChartCentralPanel } from './components/BarChartCentralPanel';
 import { BarChartRightPanel } from './components/BarChartRightPanel';
-import { defaultBarChartSettings } from './defaultSettings';
+import { ChartPreview } from './components/CentralPanel/ChartPreview';
+import { buildDefaultData, buildDefaultSettings, DEFAULT_DATA_LENGTH } from './defaultSettings';
+import {
+    createBarProjectDocument,
+    embedBarProjectImages,
+    parseBarProject,
+    readBarProject,
+    stripBarProjectImages,
+    type BarProjectParseResult,
+    type PlotTuple,
+} from './project';
 
 const STORAGE_KEY = 'barplot-studio-state-v1';
-const STORAGE_VERSION = 2;
-const DEFAULT_DATA_LENGTH = defaultBarChartSettings.data.length;
 
-function buildDefaultData(paletteName: PaletteKey, length = DEFAULT_DATA_LENGTH) {
-    return Array.from({ length }, (_, index) => createBar(index, paletteName));
-}
-
-function buildDefaultSettings(
-    paletteName: PaletteKey = defaultBarChartSettings.paletteName,
-    length = DEFAULT_DATA_LENGTH,
-): BarChartSettings {
-    return {
-        ...defaultBarChartSettings,
-        paletteName,
-        data: buildDefaultData(paletteName, length),
-        xAxis: { ...defaultBarChartSettings.xAxis },
-        yAxis: { ...defaultBarChartSettings.yAxis },
-    };
-}
-
-function mergeStoredSettings(stored?: Partial<BarChartSettings>): BarChartSettings {
-    if (!stored || typeof stored !== 'object') {
-        return buildDefaultSettings();
-    }
-
-    const paletteName = stored.paletteName ?? defaultBarChartSettings.paletteName;
-    const storedData = Array.isArray(stored.data) ? stored.data : defaultBarChartSettings.data;
-    const defaults = buildDefaultSettings(paletteName, Math.max(storedData.length, DEFAULT_DATA_LENGTH));
-
-    const mergedData = storedData.map((bar, index) => {
-        const template = createBar(index, paletteName);
-        return {
-            ...template,
-            ...bar,
-            fillColor: bar?.fillColor ?? template.fillColor,
-            borderColor: bar?.borderColor ?? template.borderColor,
-            borderWidth: typeof bar?.borderWidth === 'number' ? bar.borderWidth : template.borderWidth,
-            opacity: typeof bar?.opacity === 'number' ? bar.opacity : template.opacity,
-            error: typeof bar?.error === 'number' ? bar.error : template.error,
-            pattern: (bar?.pattern as BarDataPoint['pattern']) ?? template.pattern,
-            patternColor: typeof bar?.patternColor === 'string' ? bar.patternColor : template.patternColor,
-            patternOpacity: typeof bar?.patternOpacity === 'number' ? bar.patternOpacity : template.patternOpacity,
-            patternSize: typeof bar?.patternSize === 'number' ? bar.patternSize : template.patternSize,
-        };
-    });
+type PreviewAction = { type: 'importData' | 'exportChart'; target: 0 | 1 };
 
-    const xAxis = { ...defaultBarChartSettings.xAxis, ...stored.xAxis };
-    const yAxis = { ...defaultBarChartSettings.yAxis, ...stored.yAxis };
-    const axesSynced = typeof stored.axesSynced === 'boolean' ? stored.axesSynced : defaults.axesSynced;
-
-    const globalFontFamily = stored.globalFontFamily ?? defaults.globalFontFamily;
-    const titleColor = typeof stored.titleColor === 'string' ? stored.titleColor : defaults.titleColor;
-    const titleFontFamily = stored.titleFontFamily ?? defaults.titleFontFamily;
-    const titleIsBold = typeof stored.titleIsBold === 'boolean' ? stored.titleIsBold : defaults.titleIsBold;
-    const titleIsItalic = typeof stored.titleIsItalic === 'boolean' ? stored.titleIsItalic : defaults.titleIsItalic;
-    const titleIsUnderline = typeof stored.titleIsUnderline === 'boolean' ? stored.titleIsUnderline : defaults.titleIsUnderline;
-    const titleOffsetX = typeof stored.titleOffsetX === 'number' ? stored.titleOffsetX : defaults.titleOffsetX;
-    const subtitle = typeof stored.subtitle === 'string' ? stored.subtitle : defaults.subtitle;
-    const subtitleColor = typeof stored.subtitleColor === 'string' ? stored.subtitleColor : defaults.subtitleColor;
-    const subtitleFontFamily = stored.subtitleFontFamily ?? defaults.subtitleFontFamily;
-    const subtitleFontSize = typeof stored.subtitleFontSize === 'number' ? stored.subtitleFontSize : defaults.subtitleFontSize;
-    const subtitleIsBold = typeof stored.subtitleIsBold === 'boolean' ? stored.subtitleIsBold : defaults.subtitleIsBold;
-    const subtitleIsItalic = typeof stored.subtitleIsItalic === 'boolean' ? stored.subtitleIsItalic : defaults.subtitleIsItalic;
-    const subtitleIsUnderline = typeof stored.subtitleIsUnderline === 'boolean'
-        ? stored.subtitleIsUnderline
-        : defaults.subtitleIsUnderline;
-    const subtitleOffsetX = typeof stored.subtitleOffsetX === 'number' ? stored.subtitleOffsetX : defaults.subtitleOffsetX;
-    const subtitleOffsetY = typeof stored.subtitleOffsetY === 'number' ? stored.subtitleOffsetY : defaults.subtitleOffsetY;
-
-    return {
-        ...defaults,
-        ...stored,
-        paletteName,
-        data: mergedData,
-        xAxis,
-        yAxis,
-        axesSynced,
-        globalFontFamily,
-        titleColor,
-        titleFontFamily,
-        titleIsBold,
-        titleIsItalic,
-        titleIsUnderline,
-        titleOffsetX,
-        subtitle,
-        subtitleColor,
-        subtitleFontFamily,
-        subtitleFontSize,
-        subtitleIsBold,
-        subtitleIsItalic,
-        subtitleIsUnderline,
-        subtitleOffsetX,
-        subtitleOffsetY,
-    };
-}
+// The theme shares the plots' history because toggling it recolours both plots
+type StudioState = { plots: PlotTuple; isDarkTheme: boolean };
 
-type PreviewAction = { type: 'importData' | 'exportChart'; target: 0 | 1 };
+// Values of the {plot} placeholder in batch export file names, by plot index
+const BATCH_PLOTS = [
+    { name: 'plot1', label: 'Plot 1' },
+    { name: 'plot2', label: 'Plot 2' },
+];
 
-type PlotTuple = [BarChartSettings, BarChartSettings];
+const ignore = () => undefined;
 
 export function BarChartPage() {
     useDocumentTitle('Chart Studio | Bar Chart');
-
-    const [plots, setPlots] = useState<PlotTuple>(() => [buildDefaultSettings(), buildDefaultSettings()]);
+    const { projectId: libraryProjectId, setProjectId: setLibraryProjectId, resetLibraryBinding } = useLibraryBinding();
+
+    // Both plots share one history, so undo also reverts edits made to the inactive plot
+    const [studio, setStudio, studioHistory] = useUndoableState<StudioState>(() => ({
+        plots: [buildDefaultSettings(), buildDefaultSettings()],
+        isDarkTheme: true,
+    }));
+    const { plots, isDarkTheme } = studio;
+    const { undo, redo, canUndo, canRedo, reset: resetStudio } = studioHistory;
+    const setPlots = useCallback((action: SetStateAction<PlotTuple>, options?: UndoableSetOptions) => {
+        setStudio((current) => {
+            const next = typeof action === 'function' ? action(current.plots) : action;
+            return next === current.plots ? current : { ...current, plots: next };
+        }, options);
+    }, [setStudio]);
     const [activePlot, setActivePlot] = useState<0 | 1>(0);
     const [comparisonEnabled, setComparisonEnabled] = useState(false);
     const [previewAction, setPreviewAction] = useState<PreviewAction | null>(null);
     const [isHydrated, setIsHydrated] = useState(false);
-    const [isDarkTheme, setIsDarkTheme] = useState(true);
+    // Plots opened from a share link, kept out of the autosave until they are edited
+    const sharedPlotsRef = useRef<PlotTuple | null>(null);
     const [highlightSignals, setHighlightSignals] = useState<Record<HighlightKey, number>>({
         chartBasics: 0,
         yAxis: 0,
@@ -131,10 +81,19 @@ export function BarChartPage() {
         barDesign: 0,
         valueLabels: 0,
         errorBars: 0,
+        significance: 0,
+        secondaryAxis: 0,
     });
     const focusRequestIdRef = useRef(0);
     const [focusRequest, setFocusRequest] = useState<FocusRequest | null>(null);
     const [selectedBarId, setSelectedBarId] = useState<string | null>(null);
+    const projectInputRef = useRef<HTMLInputElement | null>(null);
+    const [projectError, setProjectError] = useState<{ fileName: string; errors: string[]; opened?: boolean } | null>(null);
+    const [shareLink, setShareLink] = useState<ShareLink | null>(null);
+    const centerPanelRef = useRef<HTMLDivElement | null>(null);
+    const batchHostRef = useRef<HTMLDivElement | null>(null);
+    // Width the off-screen copies of the plots are laid out at; set while the batch export dialog is open
+    const [batchRenderWidth, setBatchRenderWidth] = useState<number | null>(null);
 
     useEffect(() => {
         if (typeof window === 'undefined' || isHydrated) return;
@@ -146,42 +105,31 @@ export function BarChartPage() {
                 return;
             }
 
-            const parsed = JSON.parse(storedRaw);
-
-            if (parsed && Array.isArray(parsed.plots)) {
-                const storedPlots = parsed.plots as Array<Partial<BarChartSettings> | undefined>;
-                const nextPlots: PlotTuple = [
-                    mergeStoredSettings(storedPlots[0]),
-                    mergeStoredSettings(storedPlots[1]),
-                ];
-                setPlots(nextPlots);
-                setActivePlot(parsed.activePlot === 1 ? 1 : 0);
-                setComparisonEnabled(Boolean(parsed.comparisonEnabled));
-            } else if (parsed?.settings) {
-                const merged = mergeStoredSettings(parsed.settings as Partial<BarChartSettings>);
-                setPlots([merged, buildDefaultSettings()]);
-                setActivePlot(0);
-                setComparisonEnabled(false);
+            const result = parseBarProject(storedRaw);
+            if (result.ok) {
+                if (result.issues.length) {
+                    console.warn('Saved chart state had invalid fields that were reset', result.issues);
+                }
+                resetStudio({ plots: result.project.plots, isDarkTheme: true });
+                setActivePlot(result.project.activePlot);
+                setComparisonEnabled(result.project.comparisonEnabled);
             } else {
-                setPlots([buildDefaultSettings(), buildDefaultSettings()]);
+                console.warn('Ignoring saved chart state', result.errors);
             }
         } catch (error) {
             console.warn('Failed to load saved chart state', error);
         } finally {
             setIsHydrated(true);
         }
-    }, [isHydrated]);
+    }, [isHydrated, resetStudio]);
 
     useEffect(() => {
         if (!isHydrated || typeof window === 'undefined') return;
+        // Viewing a colleague's chart must not replace the saved workspace
+        if (plots === sharedPlotsRef.current) return;
 
         try {
-            const payload = {
-                version: STORAGE_VERSION,
-                plots,
-                activePlot,
-                comparisonEnabled,
-            };
+            const payload = createBarProjectDocument({ plots, activePlot, comparisonEnabled });
             window.localStorage.setItem(STORAGE_KEY, JSON.stringify(payload));
         } catch (error) {
             console.warn('Failed to save chart state', error);
@@ -189,7 +137,11 @@ export function BarChartPage() {
     }, [plots, activePlot, comparisonEnabled, isHydrated]);
 
     const setPlot = useCallback(
-        (index: 0 | 1, updater: BarChartSettings | ((prev: BarChartSettings) => BarChartSettings)) => {
+        (
+            index: 0 | 1,
+            updater: BarChartSettings | ((prev: BarChartSettings) => BarChartSettings),
+            options?: UndoableSetOptions,
+        ) => {
             setPlots((current) => {
                 const next = current.slice() as PlotTuple;
                 const previous = current[index];
@@ -197,11 +149,13 @@ export function BarChartPage() {
                     ? (updater as (prev: BarChartSettings) => BarChartSettings)(previous)
                     : updater;
                 return next;
-            });
+            }, options);
         },
-        [],
+        [setPlots],
     );
 
+    useUndoShortcuts(undo, redo);
+
     const triggerHighlight = useCallback((keys: HighlightKey[]) => {
         if (!keys.length) return;
         setHighlightSignals((prev) => {
@@ -219,12 +173,10 @@ export function BarChartPage() {
     }, []);
 
     const toggleTheme = useCallback(() => {
-        const newIsDarkTheme = !isDarkTheme;
-        setIsDarkTheme(newIsDarkTheme);
-
         // Apply theme to both plots
-        setPlots((currentPlots) => {
-            return currentPlots.map((plot) => {
+        setStudio((current) => {
+            const newIsDarkTheme = !current.isDarkTheme;
+            const themedPlots = current.plots.map((plot) => {
                 const themeSettings = newIsDarkTheme
                     ? {
                         // Dark theme (current default)
@@ -244,7 +196,15 @@ export function BarChartPage() {
                             tickLabelColor: '#e2e8f0',
                             gridLineColor: '#334155',
                         },
+                        secondaryAxis: {
+                            ...plot.secondaryAxis,
+                            axisLineColor: '#e2e8f0',
+                            tickLabelColor: '#e2e8f0',
+                            gridLineColor: '#334155',
+                        },
                         errorBarColor: '#f8fafc',
+                        significanceLineColor: '#e2e8f0',
+                        significanceTextColor: '#f8fafc',
                     }
                     : {
                         // Light theme
@@ -264,7 +224,15 @@ export function BarChartPage() {
                             tickLabelColor: '#475569',
                             gridLineColor: '#e2e8f0',
                         },
+                        secondaryAxis: {
+                            ...plot.secondaryAxis,
+                            axisLineColor: '#475569',
+                            tickLabelColor: '#475569',
+                            gridLineColor: '#e2e8f0',
+                        },
                         errorBarColor: '#475569',
+                        significanceLineColor: '#475569',
+                        significanceTextColor: '#1e293b',
                     };
 
                 return {
@@ -272,8 +240,9 @@ export function BarChartPage() {
                     ...themeSettings,
                 };
             }) as PlotTuple;
-        });
-    }, [isDarkTheme]);
+            return { plots: themedPlots, isDarkTheme: newIsDarkTheme };
+        }, { standalone: true });
+    }, [setStudio]);
 
     const activeSettings = plots[activePlot];
 
@@ -296,8 +265,124 @@ export function BarChartPage() {
         setPreviewAction({ type: 'exportChart', target: activePlot });
     }, [activePlot]);
 
+    const handleRequestBatchExport = useCallback(() => {
+        // Match the live preview so on-screen sizes and text layout are the same as a single export
+        const liveSvg = findChartSvg(centerPanelRef.current);
+        setBatchRenderWidth(liveSvg?.width.baseVal.value || 960);
+    }, []);
+
+    const handleBatchExport = useCallback(async (
+        { plots: plotNames, ...options }: BatchExportRequest,
+        onProgress: (done: number, total: number) => void,
+    ) => {
+        const charts = plotNames.map((name) => {
+            const index = BATCH_PLOTS.findIndex((plot) => plot.name === name);
+            const svg = findChartSvg(batchHostRef.current?.querySelector(`[data-plot="${index}"]`) ?? null);
+            if (index < 0 || !svg) {
+                throw new Error(`${name} could not be rendered for export.`);
+            }
+            return {
+                name,
+                svg,
+                canvas: {
+                    width: svg.width.baseVal.value,
+                    height: svg.height.baseVal.value,
+                    backgroundColor: plots[index].backgroundColor,
+                },
+            };
+        });
+        await exportChartBatch(charts, options, onProgress);
+    }, [plots]);
+
+    const handleSaveProject = useCallback(async () => {
+        try {
+            const embeddedPlots = await embedBarProjectImages(plots);
+            const project = createBarProjectDocument({ plots: embeddedPlots, activePlot, comparisonEnabled });
+            downloadProjectFile(plots[activePlot].exportFileName || 'barplot', project);
+        } catch (error) {
+            console.warn('Failed to save project', error);
+        }
+    }, [plots, activePlot, comparisonEnabled]);
+
+    const handleOpenProject = useCallback(() => {
+        projectInputRef.current?.click();
+    }, []);
+
+    const applyProjectResult = useCallback((result: BarProjectParseResult, fileName: string) => {
+        if (!result.ok) {
+            setProjectError({ fileName, errors: result.errors });
+            return false;
+        }
+        // Field problems have already been replaced by defaults, so they only warrant a warning
+        setProjectError(result.issues.length ? { fileName, errors: result.issues, opened: true } : null);
+
+        resetLibraryBinding();
+        // Recorded as one step so opening a project by mistake can be undone
+        setPlots(result.project.plots, { standalone: true });
+        setActivePlot(result.project.activePlot);
+        setComparisonEnabled(result.project.comparisonEnabled);
+        setPreviewAction(null);
+        setFocusRequest(null);
+        triggerHighlight(['chartBasics', 'data']);
+        return true;
+    }, [setPlots, triggerHighlight, resetLibraryBinding]);
+
+    const handleProjectFileChange = useCallback(async (event: ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        // Cleared so picking the same file again still fires a change
+        event.target.value = '';
+        if (!file) return;
+
+        let text: string;
+        try {
+            text = await file.text();
+        } catch {
+            setProjectError({ fileName: file.name, errors: ['The file could not be read.'] });
+            return;
+        }
+
+        applyProjectResult(parseBarProject(text), file.name);
+    }, [applyProjectResult]);
+
+    useShareLinkHydration(
+        (value) => {
+            const result = readBarProject(value);
+            if (applyProjectResult(result, 'The shared link') && result.ok) {
+                sharedPlotsRef.current = result.project.plots;
+            }
+        },
+        (errors) => setProjectError({ fileName: 'The shared link', errors }),
+    );
+
+    const handleCopyShareLink = useCallback(async () => {
+        const { plots: sharedPlots, removedCount } = stripBarProjectImages(plots);
+        const notes = removedCount
+            ? [`${removedCount === 1 ? 'One embedded image was' : `${removedCount} embedded images were`} left out to keep the link short. Save a project file to share images.`]
+            : [];
+        try {
+            const document = createBarProjectDocument({ plots: sharedPlots, activePlot, comparisonEnabled });
+            setShareLink(await copyShareLink(document, notes));
+        } catch (error) {
+            console.warn('Failed to create share link', error);
+        }
+    }, [plots, activePlot, comparisonEnabled]);
+
+    const library = useMemo<ChartPageLibrary>(() => ({
+        plotType: 'bar',
+        defaultName: plots[activePlot].title || 'Bar chart',
+        createDocument: async () => createBarProjectDocument({
+            plots: await embedBarProjectImages(plots),
+            activePlot,
+            comparisonEnabled,
+        }),
+        projectId: libraryProjectId,
+        onProjectIdChange: setLibraryProjectId,
+        openDocument: (document, name) => applyProjectResult(readBarProject(document), name),
+    }), [plots, activePlot, comparisonEnabled, libraryProjectId, setLibraryProjectId, applyProjectResult]);
+
     const handleResetStudio = useCallback(() => {
-        setPlots([buildDefaultSettings(), buildDefaultSettings()]);
+        resetLibraryBinding();
+        setStudio({ plots: [buildDefaultSettings(), buildDefaultSettings()], isDarkTheme: true }, { standalone: true });
         setActivePlot(0);
         setComparisonEnabled(false);
         setPreviewAction(null);
@@ -310,13 +395,13 @@ export function BarChartPage() {
                 console.warn('Failed to clear saved chart state', error);
             }
         }
-    }, [triggerHighlight]);
+    }, [setStudio, triggerHighlight, resetLibraryBinding]);
 
     const handleResetData = useCallback(() => {
         setPlot(activePlot, (current) => ({
             ...current,
             data: buildDefaultData(current.paletteName, Math.max(current.data.length, 1)),
-        }));
+        }), { standalone: true });
         triggerHighlight(['data']);
     }, [activePlot, setPlot, triggerHighlight]);
 
@@ -335,7 +420,7 @@ export function BarChartPage() {
                 ...defaults,
                 data: nextData,
             };
-        });
+        }, { standalone: true });
         triggerHighlight(['chartBasics']);
     }, [activePlot, setPlot, triggerHighlight]);
 
@@ -376,13 +461,35 @@ export function BarChartPage() {
     const actionMenuItems = useMemo(
         () => [
             createChartAction('upload', 'Upload data', UploadCloud, handleRequestImport),
+            createChartAction('open-project', 'Open project', FolderOpen, handleOpenProject),
+            createChartAction('save-project', 'Save project', Save, handleSaveProject),
+            createChartAction('share-link', 'Copy share link', Link2, handleCopyShareLink),
             createChartAction('theme-toggle', isDarkTheme ? 'Light theme' : 'Dark theme', isDarkTheme ? Sun : Moon, toggleTheme),
+            createChartAction('undo', 'Undo (Ctrl+Z)', Undo2, undo, !canUndo),
+            createChartAction('redo', 'Redo (Ctrl+Shift+Z)', Redo2, redo, !canRedo),
             createChartAction('clean-studio', 'Clean Studio', Sparkles, handleResetStudio),
             createChartAction('clean-data', 'Clean Data', Database, handleResetData),
             createChartAction('clean-settings', 'Clean Settings', Settings, handleResetSettings),
+            createChartAction('batch-export', 'Batch export', Archive, handleRequestBatchExport),
             createChartAction('export', 'Export chart', Download, handleRequestExport),
         ],
-        [handleRequestImport, isDarkTheme, toggleTheme, handleResetStudio, handleResetData, handleResetSettings, handleRequestExport],
+        [
+            handleRequestImport,
+            handleOpenProject,
+            handleSaveProject,
+            handleCopyShareLink,
+            isDarkTheme,
+            toggleTheme,
+            undo,
+            redo,
+            canUndo,
+            canRedo,
+            handleResetStudio,
+            handleResetData,
+            handleResetSettings,
+            handleRequestBatchExport,
+            handleRequestExport,
+        ],
     );
 
     const previewIndices = comparisonEnabled ? [0, 1] : [activePlot];
@@ -401,66 +508,126 @@ export function BarChartPage() {
     );
 
     return (
-        <ChartPage
-            title="Bar Chart"
-            subtitle="Build expressive bar charts with precise control over every detail."
-            actions={actionMenuItems}
-            comparison={{
-                comparisonEnabled,
-                activePlot,
-                onToggleComparison: handleToggleComparison,
-                onSelectPlot: handleSelectPlot,
-            }}
-            leftPanel={
-                <BarChartLeftPanel
-                    settings={activeSettings}
-                    bars={activeSettings.data}
-                    onChange={handleSettingsChange}
-                    onBarsChange={(bars: BarDataPoint[]) =>
-                        setPlot(activePlot, (current) => ({ ...current, data: bars }))
-                    }
-                    highlightSignals={highlightSignals}
-                    focusRequest={focusRequest}
-                />
-            }
-            centerPanel={
-                <BarChartCentralPanel
-                    chartPreview={previewIndices.map((index) => {
-                        const plotIndex = index as 0 | 1;
-                        return {
-                            settings: plots[plotIndex],
-                            onUpdateSettings: (next: BarChartSettings) => setPlot(plotIndex, next),
-                            onHighlight: triggerHighlight,
-                            onRequestFocus: (target) => handlePreviewFocus(plotIndex, target),
-                            actionRequest: previewAction?.target === plotIndex ? previewAction.type : null,
-                            onActionHandled: handlePreviewActionHandled,
-                            heading: previewHeading(plotIndex),
-                            isActive: activePlot === plotIndex,
-                            onActivate: () => handleSelectPlot(plotIndex),
-                            comparisonEnabled: comparisonEnabled,
-                        };
-                    })}
-                    dataTable={{
-                        data: activeSettings.data,
-                        paletteName: activeSettings.paletteName,
-                        onChange: (newData: BarDataPoint[]) => setPlot(activePlot, (current) => ({ ...current, data: newData })),
-                        onDesignBar: handleDesignBar,
-                    }}
-                />
-            }
-            rightPanel={
-                <BarChartRightPanel
-                    settings={activeSettings}
-                    bars={activeSettings.data}
-                    onChange={handleSettingsChange}
-                    onBarsChange={(bars: BarDataPoint[]) =>
-                        setPlot(activePlot, (current) => ({ ...current, data: bars }))
-                    }
-                    highlightSignals={highlightSignals}
-                    selectedBarId={selectedBarId}
-                    onSelectBar={setSelectedBarId}
-                />
-            }
-        />
+        <>
+            <ChartPage
+                title="Bar Chart"
+                subtitle="Build expressive bar charts with precise control over every detail."
+                actions={actionMenuItems}
+                clipboard={{
+                    scale: activeSettings.exportScale,
+                    transparent: activeSettings.exportTransparent,
+                    backgroundColor: activeSettings.backgroundColor,
+                    previewIndex: comparisonEnabled ? activePlot : 0,
+                }}
+                library={library}
+                comparison={{
+                    comparisonEnabled,
+                    activePlot,
+                    onToggleComparison: handleToggleComparison,
+                    onSelectPlot: handleSelectPlot,
+                }}
+                leftPanel={
+                    <BarChartLeftPanel
+                        settings={activeSettings}
+                        bars={activeSettings.data}
+                        onChange={handleSettingsChange}
+                        onBarsChange={(bars: BarDataPoint[]) =>
+                            setPlot(activePlot, (current) => ({ ...current, data: bars }))
+                        }
+                        highlightSignals={highlightSignals}
+                        focusRequest={focusRequest}
+                    />
+                }
+                centerPanel={
+                    <div ref={centerPanelRef}>
+                        <BarChartCentralPanel
+                            chartPreview={previewIndices.map((index) => {
+                                const plotIndex = index as 0 | 1;
+                                return {
+                                    settings: plots[plotIndex],
+                                    onUpdateSettings: (next: BarChartSettings) => setPlot(plotIndex, next),
+                                    onHighlight: triggerHighlight,
+                                    onRequestFocus: (target) => handlePreviewFocus(plotIndex, target),
+                                    actionRequest: previewAction?.target === plotIndex ? previewAction.type : null,
+                                    onActionHandled: handlePreviewActionHandled,
+                                    heading: previewHeading(plotIndex),
+                                    isActive: activePlot === plotIndex,
+                                    onActivate: () => handleSelectPlot(plotIndex),
+                                    comparisonEnabled: comparisonEnabled,
+                                };
+                            })}
+                            dataTable={{
+                                data: activeSettings.data,
+                                paletteName: activeSettings.paletteName,
+                                replicateCenter: activeSettings.replicateCenter,
+                                replicateSpread: activeSettings.replicateSpread,
+                                secondaryColumnLabel: activeSettings.showSecondaryAxis
+                                    ? activeSettings.secondarySeriesName || 'Secondary'
+                                    : null,
+                                onChange: (newData: BarDataPoint[]) => setPlot(activePlot, (current) => ({ ...current, data: newData })),
+                                onDesignBar: handleDesignBar,
+                            }}
+                        />
+                    </div>
+                }
+                rightPanel={
+                    <BarChartRightPanel
+                        settings={activeSettings}
+                        bars={activeSettings.data}
+                        onChange={handleSettingsChange}
+                        onBarsChange={(bars: BarDataPoint[]) =>
+                            setPlot(activePlot, (current) => ({ ...current, data: bars }))
+                        }
+                        highlightSignals={highlightSignals}
+                        selectedBarId={selectedBarId}
+                        onSelectBar={setSelectedBarId}
+                    />
+                }
+            />
+            <input
+                ref={projectInputRef}
+                type="file"
+                accept={`${PROJECT_FILE_EXTENSION},application/json`}
+                className="hidden"
+                onChange={handleProjectFileChange}
+            />
+            <ProjectErrorModal
+                fileName={projectError?.fileName ?? null}
+                errors={projectError?.errors ?? []}
+                opened={projectError?.opened}
+                onClose={() => setProjectError(null)}
+            />
+            <ShareLinkModal link={shareLink} onClose={() => setShareLink(null)} />
+            {batchRenderWidth !== null ? (
+                // Off-screen copies of both plots, so a plot hidden outside comparison mode can be exported too
+                <div
+                    ref={batchHostRef}
+                    aria-hidden="true"
+                    className="pointer-events-none fixed top-0"
+                    style={{ left: -100000, width: batchRenderWidth }}
+                >
+                    {plots.map((settings, index) => (
+                        <div key={index} data-plot={index}>
+                            <ChartPreview settings={settings} onUpdateSettings={ignore} onHighlight={ignore} onRequestFocus={ignore} />
+                        </div>
+                    ))}
+                </div>
+            ) : null}
+            <BatchExportModal
+                isOpen={batchRenderWidth !== null}
+                onClose={() => setBatchRenderWidth(null)}
+                onExport={handleBatchExport}
+                plots={BATCH_PLOTS}
+                initial={{
+                    fileName: activeSettings.exportFileName || 'barplot',
+                    scale: activeSettings.exportScale,
+                    transparent: activeSettings.exportTransparent,
+                    plots: comparisonEnabled ? BATCH_PLOTS.map((plot) => plot.name) : [BATCH_PLOTS[activePlot].name],
+                }}
+                presets={plots.flatMap((plot) => plot.exportPresets).filter(
+                    (preset, index, all) => all.findIndex((candidate) => candidate.id === preset.id) === index,
+                )}
+            />
+        </>
     );
 }
@@ -3,7 +3,7 @@ import { ChartPreviewBlock } from '../../../shared/components/ChartPreviewBlock'
 import { DataEditorBlock } from '../../../shared/components/DataEditorBlock';
 import { ChartPreview } from './CentralPanel/ChartPreview';
 import { DataTable } from './CentralPanel/DataTable';
-import type { BarChartSettings, BarDataPoint } from '../../../types/bar';
+import type { BarChartSettings, BarDataPoint, ReplicateCenter, ReplicateSpread } from '../../../types/bar';
 import type { FocusTarget, HighlightKey, PaletteKey } from '../../../types/base';
 
 export type ChartPreviewAction = 'importData' | 'exportChart';
@@ -24,6 +24,9 @@ export interface ChartPreviewProps {
 export interface DataTableProps {
     data: BarDataPoint[];
     paletteName: PaletteKey;
+    replicateCenter: ReplicateCenter;
+    replicateSpread: ReplicateSpread;
+    secondaryColumnLabel?: string | null;
     onChange: (data: BarDataPoint[]) => void;
     onDesignBar?: (barIndex: number) => void;
 }
@@ -4,8 +4,13 @@ import { GeneralSettingsBlock } from './LeftPanel/GeneralSettingsBlock';
 import { ValueLabelsBlock } from './LeftPanel/ValueLabelsBlock';
 import { XAxisBlock } from './LeftPanel/XAxisBlock';
 import { YAxisBlock } from './LeftPanel/YAxisBlock';
+import { SecondaryAxisBlock } from './LeftPanel/SecondaryAxisBlock';
+import { ReferenceElementsBlock } from './LeftPanel/ReferenceElementsBlock';
+import { CalloutsBlock } from './LeftPanel/CalloutsBlock';
 import { GridBlock } from './LeftPanel/GridBlock';
 import { AdditionalElementsBlock } from './LeftPanel/AdditionalElementsBlock';
+import { toggleAxesSync } from './LeftPanel/axisSync';
+import { resolveBar } from '../../../shared/utils/replicates';
 import type { BarChartSettings, BarDataPoint } from '../../../types/bar';
 import type { FocusRequest, HighlightKey } from '../../../types/base';
 
@@ -26,53 +31,19 @@ export function BarChartLeftPanel({
   highlightSignals,
   focusRequest
 }: BarChartLeftPanelProps) {
-  const toggleAxesSync = (source: 'x' | 'y') => {
-    const nextState = !settings.axesSynced;
-
-    if (!nextState) {
-      onChange({ ...settings, axesSynced: false });
-      return;
-    }
-
-    const sourceAxis = source === 'x' ? settings.xAxis : settings.yAxis;
-    const targetAxis = source === 'x' ? { ...settings.yAxis } : { ...settings.xAxis };
-
-    // Sync specific fields between axes
-    targetAxis.showAxisLines = sourceAxis.showAxisLines;
-    targetAxis.axisLineWidth = sourceAxis.axisLineWidth;
-    targetAxis.axisLineColor = sourceAxis.axisLineColor;
-    targetAxis.showTickLabels = sourceAxis.showTickLabels;
-    targetAxis.tickLabelColor = sourceAxis.tickLabelColor;
-    targetAxis.tickLabelOrientation = sourceAxis.tickLabelOrientation;
-
-    if (source === 'x') {
-      onChange({
-        ...settings,
-        axesSynced: true,
-        yAxis: targetAxis,
-        yAxisTitleFontSize: settings.xAxisTitleFontSize,
-        yAxisTickFontSize: settings.xAxisTickFontSize,
-        xAxisTitleFontSize: settings.xAxisTitleFontSize,
-        xAxisTickFontSize: settings.xAxisTickFontSize,
-      });
-    } else {
-      onChange({
-        ...settings,
-        axesSynced: true,
-        xAxis: targetAxis,
-        xAxisTitleFontSize: settings.yAxisTitleFontSize,
-        xAxisTickFontSize: settings.yAxisTickFontSize,
-        yAxisTitleFontSize: settings.yAxisTitleFontSize,
-        yAxisTickFontSize: settings.yAxisTickFontSize,
-      });
-    }
-  };
-
   // Create the blocks using the GeneralSettingsBlock helper
   const generalSettings = GeneralSettingsBlock({ settings, bars, onChange, onBarsChange });
   const valueLabels = ValueLabelsBlock({ settings, onChange });
   const xAxisBlocks = XAxisBlock({ settings, onChange, focusRequest });
-  const yAxisBlocks = YAxisBlock({ settings, onChange, focusRequest });
+  const plottedValues = bars.map((bar) => resolveBar(bar, settings.replicateCenter, settings.replicateSpread).value);
+  const nonPositiveCount = plottedValues.filter((value) => value <= 0).length;
+  const valueExtent = plottedValues.length
+    ? { min: Math.min(...plottedValues), max: Math.max(...plottedValues) }
+    : undefined;
+  const yAxisBlocks = YAxisBlock({ settings, onChange, focusRequest, nonPositiveCount, valueExtent });
+  const secondaryAxisBlocks = SecondaryAxisBlock({ settings, onChange });
+  const referenceElements = ReferenceElementsBlock({ settings, onChange, valueExtent });
+  const callouts = CalloutsBlock({ settings, onChange });
   const gridBlocks = GridBlock({ settings, onChange });
   const additionalElements = AdditionalElementsBlock({ settings, onChange });
 
@@ -112,7 +83,7 @@ export function BarChartLeftPanel({
       id: 'x-axis',
       title: 'X-Axis',
       highlightKey: 'xAxis',
-      headerActions: createAxisSyncButton(settings.axesSynced, () => toggleAxesSync('x')),
+      headerActions: createAxisSyncButton(settings.axesSynced, () => onChange(toggleAxesSync(settings, 'x'))),
       sections: [
         {
           id: 'x-axis-title',
@@ -151,7 +122,7 @@ export function BarChartLeftPanel({
       id: 'y-axis',
       title: 'Y-Axis',
       highlightKey: 'yAxis',
-      headerActions: createAxisSyncButton(settings.axesSynced, () => toggleAxesSync('y')),
+      headerActions: createAxisSyncButton(settings.axesSynced, () => onChange(toggleAxesSync(settings, 'y'))),
       sections: [
         {
           id: 'y-axis-title',
@@ -170,6 +141,20 @@ export function BarChartLeftPanel({
             })
           }
         },
+        {
+          id: 'y-axis-scale',
+          title: 'Scale',
+          content: yAxisBlocks.scale
+        },
+        {
+          id: 'y-axis-break',
+          title: 'Axis Break',
+          content: yAxisBlocks.axisBreak,
+          toggle: {
+            value: settings.yAxisBreakEnabled,
+            onChange: (value: boolean) => onChange({ ...settings, yAxisBreakEnabled: value })
+          }
+        },
         {
           id: 'y-axis-ticks',
           title: 'Ticks',
@@ -185,6 +170,56 @@ export function BarChartLeftPanel({
       ]
     },
 
+    // Secondary Axis Block
+    {
+      id: 'secondary-axis',
+      title: 'Secondary Axis',
+      highlightKey: 'secondaryAxis',
+      sections: [
+        {
+          id: 'secondary-axis-series',
+          title: 'Overlay Series',
+          content: secondaryAxisBlocks.series,
+          toggle: {
+            value: settings.showSecondaryAxis,
+            onChange: (value: boolean) => onChange({ ...settings, showSecondaryAxis: value })
+          }
+        },
+        {
+          id: 'secondary-axis-title',
+          title: 'Title',
+          content: secondaryAxisBlocks.title,
+          disabled: !settings.showSecondaryAxis
+        },
+        {
+          id: 'secondary-axis-appearance',
+          title: 'Appearance',
+          content: secondaryAxisBlocks.appearance,
+          disabled: !settings.showSecondaryAxis,
+          toggle: {
+            value: settings.secondaryAxis.showAxisLines,
+            onChange: (value: boolean) => onChange({
+              ...settings,
+              secondaryAxis: { ...settings.secondaryAxis, showAxisLines: value }
+            })
+          }
+        },
+        {
+          id: 'secondary-axis-ticks',
+          title: 'Ticks',
+          content: secondaryAxisBlocks.ticks,
+          disabled: !settings.showSecondaryAxis,
+          toggle: {
+            value: settings.secondaryAxis.showTickLabels,
+            onChange: (value: boolean) => onChange({
+              ...settings,
+              secondaryAxis: { ...settings.secondaryAxis, showTickLabels: value }
+            })
+          }
+        }
+      ]
+    },
+
     // Grid Block
     {
       id: 'grid',
@@ -236,6 +271,47 @@ export function BarChartLeftPanel({
       ]
     },
 
+    // Reference Lines Block
+    {
+      id: 'reference-elements',
+      title: 'Reference Lines',
+      sections: [
+        {
+          id: 'reference-elements-list',
+          content: referenceElements.elements
+        },
+        {
+          id: 'reference-elements-style',
+          title: 'Labels',
+          content: referenceElements.style
+        }
+      ]
+    },
+
+    // Callouts Block
+    {
+      id: 'callouts',
+      title: 'Callouts',
+      sections: [
+        {
+          id: 'callouts-list',
+          content: callouts.callouts
+        },
+        ...(callouts.connector && callouts.label ? [
+          {
+            id: 'callouts-connector',
+            title: 'Connector',
+            content: callouts.connector
+          },
+          {
+            id: 'callouts-label',
+            title: 'Label',
+            content: callouts.label
+          }
+        ] : [])
+      ]
+    },
+
     // Additional Elements Block
     {
       id: 'additional-elements',
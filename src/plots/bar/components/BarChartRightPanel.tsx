@@ -2,6 +2,8 @@ import { RightPanel } from '../../../shared/components/RightPanel';
 import { BarplotStyleBlock } from './RightPanel/BarplotStyleBlock';
 import { BarDesignBlock } from './RightPanel/BarDesignBlock';
 import { LegendBlock } from './RightPanel/LegendBlock';
+import { ReplicatesBlock } from './RightPanel/ReplicatesBlock';
+import { SignificanceBlock } from './RightPanel/SignificanceBlock';
 import type { BarChartSettings, BarDataPoint } from '../../../types/bar'
 import type { HighlightKey } from '../../../types/base'
 import type { RightPanelBlock } from '../../../shared/components/RightPanel';
@@ -29,6 +31,8 @@ export function BarChartRightPanel({
     const barplotStyle = BarplotStyleBlock({ settings, onChange, highlightSignals });
     const barDesign = BarDesignBlock({ settings, bars, onBarsChange, selectedBarId, onSelectBar });
     const legend = LegendBlock({ settings, onChange });
+    const replicates = ReplicatesBlock({ settings, onChange });
+    const significance = SignificanceBlock({ settings, onChange });
 
     const blocks: RightPanelBlock[] = [
         // Barplot Style Block
@@ -55,10 +59,64 @@ export function BarChartRightPanel({
                     title: 'Error Bars',
                     content: barplotStyle.errorBars,
                     className: 'border-t border-white/10 pt-6',
+                    disabled: settings.layoutMode === 'stacked100',
                     toggle: {
                         value: settings.showErrorBars,
                         onChange: (value: boolean) => onChange({ ...settings, showErrorBars: value })
                     }
+                },
+                {
+                    id: 'value-dragging',
+                    title: 'Drag Editing',
+                    content: barplotStyle.valueDragging,
+                    className: 'border-t border-white/10 pt-6',
+                    disabled: settings.layoutMode === 'stacked100',
+                    toggle: {
+                        value: settings.valueDragEnabled ?? true,
+                        onChange: (value: boolean) => onChange({ ...settings, valueDragEnabled: value })
+                    }
+                }
+            ]
+        },
+
+        // Replicates Block
+        {
+            id: 'replicates',
+            title: 'Replicates',
+            sections: [
+                {
+                    id: 'replicate-statistic',
+                    content: replicates.statistic
+                },
+                {
+                    id: 'replicate-points',
+                    title: 'Individual Points',
+                    content: replicates.points,
+                    className: 'border-t border-white/10 pt-6',
+                    disabled: settings.layoutMode === 'stacked' || settings.layoutMode === 'stacked100',
+                    toggle: {
+                        value: settings.showReplicatePoints,
+                        onChange: (value: boolean) => onChange({ ...settings, showReplicatePoints: value })
+                    }
+                }
+            ]
+        },
+
+        // Significance Block
+        {
+            id: 'significance',
+            title: 'Significance',
+            highlightKey: 'significance',
+            sections: [
+                {
+                    id: 'significance-brackets',
+                    content: significance.brackets
+                },
+                {
+                    id: 'significance-style',
+                    title: 'Style',
+                    content: significance.style,
+                    className: 'border-t border-white/10 pt-6'
                 }
             ]
         },
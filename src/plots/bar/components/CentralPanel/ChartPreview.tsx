@@ -1,10 +1,42 @@
 import { useEffect, useMemo, useRef, useState, type MouseEvent } from 'react'
 import { DEFAULT_FONT_STACK } from '../../../../shared/constants/fonts'
 import useElementSize from '../../../../shared/hooks/useElementSize'
-import type { BarChartSettings, BarDataPoint } from '../../../../types/bar'
+import useSvgDrag, { type DragOffset } from '../../../../shared/hooks/useSvgDrag'
+import type { BarChartSettings, BarDataPoint, ReferenceElement } from '../../../../types/bar'
 import type { FocusTarget, HighlightKey } from '../../../../types/base'
 import DataImportModal from '../../../../shared/components/DataImportModal'
-import ExportModal from '../../../../shared/components/ExportModal'
+import ExportModal, { type ExportRequest } from '../../../../shared/components/ExportModal'
+import { computeBarStacks, getBarCategories, getBarSeries, getGroupKey, type BarCategory } from '../../../../shared/utils/barGrouping'
+import { barImportColumns, createBarsFromImport } from '../../../../shared/utils/barFactory'
+import { createCalloutArrowhead, createCalloutConnector, getCalloutBoxSize } from '../../../../shared/utils/callouts'
+import { createBarPath } from '../../../../shared/utils/barPath'
+import { clamp } from '../../../../shared/utils/chartHelpers'
+import type { ImportedRow } from '../../../../shared/utils/csvImport'
+import { exportSvgChart, type ExportFormat, type ExportOptions } from '../../../../shared/utils/exportChart'
+import { jitterOffset } from '../../../../shared/utils/jitter'
+import { computeLegendLayout } from '../../../../shared/utils/legendLayout'
+import { createLinePath, getLineDashArray, splitAtGaps } from '../../../../shared/utils/linePaths'
+import { createMarkerPath } from '../../../../shared/utils/markers'
+import { getReferenceSpan } from '../../../../shared/utils/referenceElements'
+import { applyErrorDirection, formatStatistic, hasReplicates, resolveBar, type ResolvedBar } from '../../../../shared/utils/replicates'
+import {
+  computeSignificancePValue,
+  countBracketLevels,
+  getSignificanceLabel,
+  stackSignificanceBrackets,
+} from '../../../../shared/utils/significance'
+import {
+  computeBrokenAxisTicks,
+  computeScaleTicks,
+  createBrokenAxisRatio,
+  createScaleInverse,
+  createScaleTransform,
+  formatScaleTick,
+  isLogScale,
+  type BrokenAxisTicks,
+  type ScaleTicks,
+} from '../../../../shared/utils/scales'
+import { computeAxisTicks, formatTickLabel, roundToStep } from '../../../../shared/utils/ticks'
 
 type ChartPreviewAction = 'importData' | 'exportChart'
 
@@ -20,127 +52,18 @@ type ChartPreviewProps = {
   comparisonEnabled?: boolean
 }
 
-type ExportFormat = 'png' | 'svg' | 'pdf'
-
-type ExportOptions = {
-  format: ExportFormat
-  fileName: string
-  scale: number
-  transparent: boolean
-}
-
-const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max)
-
-function createBarPath(
-  x: number,
-  y: number,
-  width: number,
-  height: number,
-  radius: number,
-  style: BarChartSettings['barCornerStyle'],
-  isHorizontal: boolean = false,
-) {
-  const r = Math.max(Math.min(radius, width / 2, height / 2), 0)
-  if (r === 0) return ''
-
-  if (isHorizontal) {
-    // For horizontal bars, rounded corners should be on the right side
-    if (style === 'both') {
-      return [
-        `M ${x + r} ${y}`,
-        `H ${x + width - r}`,
-        `Q ${x + width} ${y} ${x + width} ${y + r}`,
-        `V ${y + height - r}`,
-        `Q ${x + width} ${y + height} ${x + width - r} ${y + height}`,
-        `H ${x + r}`,
-        `Q ${x} ${y + height} ${x} ${y + height - r}`,
-        `V ${y + r}`,
-        `Q ${x} ${y} ${x + r} ${y}`,
-        'Z',
-      ].join(' ')
-    }
-
-    // Only right side rounded for horizontal bars
-    return [
-      `M ${x} ${y}`,
-      `H ${x + width - r}`,
-      `Q ${x + width} ${y} ${x + width} ${y + r}`,
-      `V ${y + height - r}`,
-      `Q ${x + width} ${y + height} ${x + width - r} ${y + height}`,
-      `H ${x}`,
-      'Z',
-    ].join(' ')
-  }
-
-  // Vertical bars (original logic)
-  if (style === 'both') {
-    return [
-      `M ${x + r} ${y}`,
-      `H ${x + width - r}`,
-      `Q ${x + width} ${y} ${x + width} ${y + r}`,
-      `V ${y + height - r}`,
-      `Q ${x + width} ${y + height} ${x + width - r} ${y + height}`,
-      `H ${x + r}`,
-      `Q ${x} ${y + height} ${x} ${y + height - r}`,
-      `V ${y + r}`,
-      `Q ${x} ${y} ${x + r} ${y}`,
-      'Z',
-    ].join(' ')
-  }
-
-  return [
-    `M ${x} ${y + r}`,
-    `Q ${x} ${y} ${x + r} ${y}`,
-    `H ${x + width - r}`,
-    `Q ${x + width} ${y} ${x + width} ${y + r}`,
-    `V ${y + height}`,
-    `H ${x}`,
-    'Z',
-  ].join(' ')
+// State captured when a bar end or error cap starts being dragged. The value mapping is
+// frozen so the axis rescaling under the pointer does not feed back into the drag.
+type ValueDragOrigin = {
+  settings: BarChartSettings
+  position: number
+  start: number
+  endValue: number
+  valueAt: (position: number) => number
 }
 
-function generateTicksRange(minValue: number, maxValue: number, count = 6) {
-  if (!Number.isFinite(minValue) || !Number.isFinite(maxValue)) {
-    return [0, 1]
-  }
-
-  if (minValue === maxValue) {
-    const step = Math.abs(minValue) > 1 ? Math.abs(minValue) * 0.2 : 1
-    return [minValue - step, minValue + step]
-  }
-
-  const niceNumber = (range: number, round: boolean) => {
-    const exponent = Math.floor(Math.log10(range))
-    const fraction = range / 10 ** exponent
-    let niceFraction: number
-
-    if (round) {
-      if (fraction < 1.5) niceFraction = 1
-      else if (fraction < 3) niceFraction = 2
-      else if (fraction < 7) niceFraction = 5
-      else niceFraction = 10
-    } else {
-      if (fraction <= 1) niceFraction = 1
-      else if (fraction <= 2) niceFraction = 2
-      else if (fraction <= 5) niceFraction = 5
-      else niceFraction = 10
-    }
-
-    return niceFraction * 10 ** exponent
-  }
-
-  const rawRange = maxValue - minValue
-  const niceRange = niceNumber(Math.abs(rawRange), false)
-  const spacing = niceNumber(niceRange / Math.max(count - 1, 1), true)
-  const niceMin = Math.floor(minValue / spacing) * spacing
-  const niceMax = Math.ceil(maxValue / spacing) * spacing
-
-  const ticks: number[] = []
-  for (let tick = niceMin; tick <= niceMax + spacing / 2; tick += spacing) {
-    ticks.push(Number.parseFloat(tick.toPrecision(12)))
-  }
-
-  return ticks
+function formatPercent(value: number) {
+  return `${value.toLocaleString(undefined, { maximumFractionDigits: 1 })}%`
 }
 
 export function ChartPreview({
@@ -196,6 +119,112 @@ export function ChartPreview({
     onHighlight(keys)
   }
 
+  const layoutMode = settings.layoutMode ?? 'flat'
+  const isGrouped = layoutMode === 'grouped'
+  const isStacked = layoutMode === 'stacked' || layoutMode === 'stacked100'
+  const isNormalized = layoutMode === 'stacked100'
+  const usesSeries = layoutMode !== 'flat'
+
+  // Replicate bars get their value and error from the selected statistic; one-sided
+  // error bars simply zero the hidden direction
+  const bars = useMemo(
+    () => settings.data.map((bar) => applyErrorDirection(
+      resolveBar(bar, settings.replicateCenter, settings.replicateSpread),
+      settings.errorBarDirection ?? 'both',
+    )),
+    [settings.data, settings.replicateCenter, settings.replicateSpread, settings.errorBarDirection],
+  )
+
+  const series = useMemo(
+    () => getBarSeries(bars, settings.paletteName),
+    [bars, settings.paletteName],
+  )
+
+  // Flat mode keeps one band per bar; other modes cluster or stack bars sharing a label
+  const categories = useMemo<BarCategory<ResolvedBar>[]>(
+    () => (usesSeries
+      ? getBarCategories(bars)
+      : bars.map((bar) => ({ key: bar.id, label: bar.label, bars: [bar] }))),
+    [usesSeries, bars],
+  )
+
+  const stacks = useMemo(
+    () => (isStacked ? computeBarStacks(categories, series, isNormalized) : null),
+    [isStacked, isNormalized, categories, series],
+  )
+
+  // Error bars have no meaningful position on a normalized stack
+  const showErrorBars = settings.showErrorBars && !isNormalized
+  // Individual replicates only line up with unstacked bars
+  const showReplicatePoints = settings.showReplicatePoints && !isStacked
+
+  // Brackets whose bars both still exist, with the bars' positions along the category axis
+  const significanceItems = useMemo(() => {
+    const barsById = new Map(bars.map((bar) => [bar.id, bar]))
+    const seriesIndexByKey = new Map(series.map((item, index) => [item.key, index]))
+    const slotCount = isGrouped ? Math.max(series.length, 1) : 1
+    const slotById = new Map<string, number>()
+    categories.forEach((category, categoryIndex) => {
+      category.bars.forEach((bar) => {
+        const slot = isGrouped ? seriesIndexByKey.get(getGroupKey(bar)) ?? 0 : 0
+        slotById.set(bar.id, categoryIndex + slot / slotCount)
+      })
+    })
+
+    return (settings.significanceAnnotations ?? []).flatMap((annotation) => {
+      const barA = barsById.get(annotation.barA)
+      const barB = barsById.get(annotation.barB)
+      if (!barA || !barB || barA.id === barB.id) return []
+      const pValue = computeSignificancePValue(annotation, barA, barB)
+      return [{
+        annotation,
+        label: getSignificanceLabel(annotation, pValue, settings.significanceLabelMode),
+        slotStart: slotById.get(barA.id) ?? 0,
+        slotEnd: slotById.get(barB.id) ?? 0,
+      }]
+    })
+  }, [bars, categories, series, isGrouped, settings.significanceAnnotations, settings.significanceLabelMode])
+
+  // Room for the stacked brackets beyond the value axis end, so the tallest one never clips
+  const significanceLevels = countBracketLevels(
+    significanceItems.map((item) => ({ id: item.annotation.id, start: item.slotStart, end: item.slotEnd })),
+  )
+  const significanceGap = Math.max(settings.significanceTickLength, 0) + 6
+  const significanceHeadroom = significanceLevels > 0
+    ? significanceGap + (significanceLevels - 1) * settings.significanceSpacing + settings.significanceFontSize * 1.4
+    : 0
+
+  // The overlay shares the category axis, so its right-hand value axis only exists in vertical layouts
+  const showSecondary = Boolean(settings.showSecondaryAxis) && settings.orientation !== 'horizontal'
+  const secondaryAxisStyle = settings.secondaryAxis
+  const secondaryValues = useMemo(
+    () => (showSecondary
+      ? categories.map((category) => {
+        const source = category.bars.find((bar) => typeof bar.secondaryValue === 'number' && Number.isFinite(bar.secondaryValue))
+        return source?.secondaryValue ?? null
+      })
+      : []),
+    [showSecondary, categories],
+  )
+  const secondaryTicks = useMemo(() => {
+    const values = secondaryValues.filter((value): value is number => value !== null)
+    const min = values.length ? Math.min(...values) : 0
+    const max = values.length ? Math.max(...values) : 1
+    return computeAxisTicks(Math.min(min, 0), max, {
+      min: settings.secondaryAxisMin,
+      max: settings.secondaryAxisMax,
+      step: settings.secondaryAxisTickStep,
+    })
+  }, [secondaryValues, settings.secondaryAxisMin, settings.secondaryAxisMax, settings.secondaryAxisTickStep])
+  // Labels are left-aligned next to the axis, so the margin has to fit the widest one
+  const secondaryLabelWidth = showSecondary && secondaryAxisStyle.showTickLabels
+    ? Math.max(...secondaryTicks.ticks.map((tick) => formatTickLabel(tick).length), 1) * settings.secondaryAxisTickFontSize * 0.6 + 10
+    : 0
+  const secondaryTitleWidth = showSecondary && secondaryAxisStyle.title.trim()
+    ? settings.secondaryAxisTitleFontSize + 12 + Math.max(settings.secondaryAxisTitleOffsetX, 0)
+    : 0
+  const secondaryAxisExtra = secondaryLabelWidth + secondaryTitleWidth
+
   const hasTitle = Boolean(settings.title)
   const hasSubtitle = Boolean(settings.subtitle)
   const headingGap = hasTitle && hasSubtitle ? Math.max(settings.subtitleFontSize * 0.5, 12) : 0
@@ -216,10 +245,14 @@ export function ChartPreview({
       Math.max(-settings.yAxisTitleOffsetX, 0)
     const labelExtra = settings.valueLabelOffsetY < 0 ? Math.abs(settings.valueLabelOffsetY) : 0
 
-    const top = clamp(basePadding + topExtra + labelExtra, 24, measuredHeight / 2 - 20)
+    const isHorizontal = settings.orientation === 'horizontal'
+    const verticalHeadroom = isHorizontal ? 0 : significanceHeadroom
+    const horizontalHeadroom = isHorizontal ? significanceHeadroom : 0
+
+    const top = clamp(basePadding + topExtra + labelExtra + verticalHeadroom, 24, measuredHeight / 2 - 20)
     const bottom = clamp(basePadding + bottomExtra, 32, measuredHeight / 2 - 20)
     const left = clamp(basePadding + leftExtra, 32, measuredWidth / 2 - 20)
-    const right = clamp(basePadding + 12, 24, measuredWidth / 2 - 20)
+    const right = clamp(basePadding + 12 + horizontalHeadroom + secondaryAxisExtra, 24, measuredWidth / 2 - 20)
 
     return { top, right, bottom, left }
   }, [
@@ -229,6 +262,9 @@ export function ChartPreview({
     headingGap,
     measuredHeight,
     measuredWidth,
+    significanceHeadroom,
+    secondaryAxisExtra,
+    settings.orientation,
     settings.xAxisTickFontSize,
     settings.yAxisTickFontSize,
     settings.subtitleFontSize,
@@ -247,14 +283,27 @@ export function ChartPreview({
     height: Math.max(measuredHeight - margin.top - margin.bottom, 160),
   }
 
-  const { dataMin, dataMax } = useMemo(() => {
+  const { dataMin, dataMax, positiveMin } = useMemo(() => {
     let min = Number.POSITIVE_INFINITY
     let max = Number.NEGATIVE_INFINITY
-    settings.data.forEach((bar) => {
-      const lower = settings.showErrorBars ? bar.value - bar.error : bar.value
-      const upper = settings.showErrorBars ? bar.value + bar.error : bar.value
-      min = Math.min(min, lower)
-      max = Math.max(max, upper)
+    // Log axes start at the smallest positive value since zero has no position on them
+    let positiveMin = Number.POSITIVE_INFINITY
+    const track = (value: number) => {
+      min = Math.min(min, value)
+      max = Math.max(max, value)
+      if (value > 0) positiveMin = Math.min(positiveMin, value)
+    }
+    bars.forEach((bar) => {
+      // Stacked bars are measured at the end of their segment rather than their own value
+      const position = stacks?.segments.get(bar.id)?.end ?? bar.value
+      track(position)
+      if (showErrorBars) {
+        track(position - bar.errorLower)
+        track(position + bar.errorUpper)
+      }
+      if (showReplicatePoints) {
+        bar.replicates?.forEach(track)
+      }
     })
 
     if (!Number.isFinite(min)) min = 0
@@ -263,131 +312,475 @@ export function ChartPreview({
     return {
       dataMin: Math.min(min, 0),
       dataMax: max,
+      positiveMin: Number.isFinite(positiveMin) ? positiveMin : 1,
     }
-  }, [settings.data, settings.showErrorBars])
+  }, [bars, showErrorBars, showReplicatePoints, stacks])
 
-  const { axisMin, axisMax, ticks } = useMemo(() => {
-    const desiredMin = settings.yAxisMin ?? dataMin
-    const desiredMax = settings.yAxisMax ?? Math.max(dataMax, dataMin + 1)
+  // Percent-stacked charts always use a linear 0–100% axis
+  const valueScale = isNormalized ? 'linear' : settings.yAxisScale ?? 'linear'
+  const symlogConstant = settings.yAxisSymlogConstant ?? 1
 
-    let minValue = Number.isFinite(desiredMin) ? desiredMin : dataMin
-    let maxValue = Number.isFinite(desiredMax) ? desiredMax : dataMax
+  const breakStart = settings.yAxisBreakStart ?? 0
+  const breakEnd = settings.yAxisBreakEnd ?? 0
+  const breakActive = Boolean(settings.yAxisBreakEnabled) && valueScale === 'linear' && breakStart < breakEnd
 
-    if (minValue === maxValue) {
-      maxValue = minValue + 1
-    }
-    if (minValue > maxValue) {
-      const temp = minValue
-      minValue = maxValue
-      maxValue = temp
+  const axisTicks = useMemo((): ScaleTicks | BrokenAxisTicks => {
+    const options = { min: settings.yAxisMin, max: settings.yAxisMax, step: settings.yAxisTickStep }
+    if (breakActive) {
+      return computeBrokenAxisTicks({ min: dataMin, max: dataMax }, options, { start: breakStart, end: breakEnd })
     }
-
-    let tickValues: number[]
-    const step = settings.yAxisTickStep
-
-    if (step && Number.isFinite(step) && step > 0) {
-      const clampedStep = Math.max(step, Number.EPSILON)
-      const firstTick = Math.ceil(minValue / clampedStep) * clampedStep
-      const ticksArray: number[] = []
-      for (let tick = firstTick; tick <= maxValue + clampedStep / 2; tick += clampedStep) {
-        ticksArray.push(Number.parseFloat(tick.toFixed(6)))
-      }
-      if (ticksArray.length === 0 || ticksArray[0] > minValue) {
-        ticksArray.unshift(Number.parseFloat(minValue.toFixed(6)))
-      }
-      if (ticksArray[ticksArray.length - 1] < maxValue) {
-        ticksArray.push(Number.parseFloat(maxValue.toFixed(6)))
-      }
-      tickValues = ticksArray
-    } else {
-      tickValues = generateTicksRange(minValue, maxValue)
+    return computeScaleTicks(valueScale, { min: dataMin, max: dataMax, positiveMin }, { ...options, symlogConstant })
+  }, [
+    breakActive,
+    breakStart,
+    breakEnd,
+    valueScale,
+    symlogConstant,
+    settings.yAxisMin,
+    settings.yAxisMax,
+    settings.yAxisTickStep,
+    dataMin,
+    dataMax,
+    positiveMin,
+  ])
+  const { axisMin, axisMax, ticks, minorTicks } = axisTicks
+  const showMinorTicks = valueScale !== 'linear' && (settings.yAxisMinorTicks ?? true) && minorTicks.length > 0
+
+  // Position of a value along the value axis as a 0–1 ratio, in the axis scale's space.
+  // With an axis break, gapStart/gapEnd are the ratios where the cut-out range begins and ends.
+  const valueAxisLength = settings.orientation === 'horizontal' ? chartBounds.width : chartBounds.height
+  const valueAxis = useMemo(() => {
+    if ('lower' in axisTicks) {
+      const gapRatio = (settings.yAxisBreakGap ?? 12) / Math.max(valueAxisLength, 1)
+      return createBrokenAxisRatio(axisTicks, settings.yAxisBreakRatio ?? 0.6, gapRatio)
     }
-    const finalMin = tickValues[0] ?? minValue
-    const finalMax = tickValues[tickValues.length - 1] ?? maxValue
-
+    const transform = createScaleTransform(valueScale, symlogConstant)
+    const inverse = createScaleInverse(valueScale, symlogConstant)
+    const transformedMin = transform(axisTicks.axisMin)
+    const transformedRange = Math.max(transform(axisTicks.axisMax) - transformedMin, Number.EPSILON)
     return {
-      axisMin: finalMin,
-      axisMax: finalMax,
-      ticks: tickValues.length > 0 ? tickValues : [finalMin, finalMax],
+      ratio: (value: number) => clamp((transform(value) - transformedMin) / transformedRange, 0, 1),
+      invert: (position: number) => inverse(transformedMin + position * transformedRange),
+      gapStart: null,
+      gapEnd: null,
     }
-  }, [settings.yAxisMin, settings.yAxisMax, settings.yAxisTickStep, dataMin, dataMax])
+  }, [axisTicks, valueScale, symlogConstant, valueAxisLength, settings.yAxisBreakGap, settings.yAxisBreakRatio])
+  const valueRatio = valueAxis.ratio
 
-  const axisRange = Math.max(axisMax - axisMin, Number.EPSILON)
+  const scaleY = (value: number) => chartBounds.height - valueRatio(value) * chartBounds.height
 
-  const scaleY = (value: number) => {
-    const ratio = clamp((value - axisMin) / axisRange, 0, 1)
-    return chartBounds.height - ratio * chartBounds.height
-  }
+  const isHorizontalLayout = settings.orientation === 'horizontal'
+  const categoryAxisStart = isHorizontalLayout ? margin.top : margin.left
+  const categoryAxisLength = isHorizontalLayout ? chartBounds.height : chartBounds.width
+  const categoryBand = categoryAxisLength / (categories.length || 1)
+
+  const categoryLayout = categories.map((category, index) => ({
+    key: category.key,
+    label: category.label,
+    barId: category.bars[0]?.id ?? category.key,
+    center: categoryAxisStart + categoryBand * index + categoryBand / 2,
+  }))
 
   const barLayout = useMemo(() => {
-    const { data: bars, barGap, barBorderWidth, barOpacity, orientation } = settings
-    const count = bars.length || 1
-    const isHorizontal = orientation === 'horizontal'
-
-    if (isHorizontal) {
-      // Horizontal bars: spread along Y-axis, extend along X-axis
-      const band = chartBounds.height / count
-      const gap = band * clamp(barGap, 0, 0.9)
-      const barHeight = Math.max(band - gap, 4)
-
-      return bars.map((bar, index) => {
-        const y = margin.top + band * index + (band - barHeight) / 2
-        const valueRatio = clamp((bar.value - axisMin) / axisRange, 0, 1)
-        const barWidth = chartBounds.width * valueRatio
-        const x = margin.left
+    const { barGap, barBorderWidth, barOpacity, groupGap } = settings
+    const seriesIndexByKey = new Map(series.map((item, index) => [item.key, index]))
+    // Only grouped clusters split the band into one slot per series
+    const seriesCount = isGrouped ? Math.max(series.length, 1) : 1
+    const clusterLength = Math.max(categoryBand - categoryBand * clamp(barGap, 0, 0.9), 4)
+    const slotLength = clusterLength / seriesCount
+    const barThickness = isGrouped
+      ? Math.max(slotLength - slotLength * clamp(groupGap ?? 0, 0, 0.9), 2)
+      : slotLength
+    const valueAxisLength = isHorizontalLayout ? chartBounds.width : chartBounds.height
+
+    return categories.flatMap((category, categoryIndex) => {
+      const clusterStart = categoryAxisStart + categoryBand * categoryIndex + (categoryBand - clusterLength) / 2
+
+      return category.bars.map((bar) => {
+        const seriesIndex = usesSeries ? seriesIndexByKey.get(getGroupKey(bar)) ?? 0 : 0
+        const slotIndex = isGrouped ? seriesIndex : 0
+        const offset = clusterStart + slotLength * slotIndex + (slotLength - barThickness) / 2
+        const segment = stacks?.segments.get(bar.id)
+        const startValue = segment ? segment.start : axisMin
+        const endValue = segment ? segment.end : bar.value
+        const startRatio = valueRatio(Math.min(startValue, endValue))
+        const endRatio = valueRatio(Math.max(startValue, endValue))
+        const valueLength = valueAxisLength * (endRatio - startRatio)
         const opacity = Number.isFinite(bar.opacity) ? bar.opacity : barOpacity
         const borderWidth = Number.isFinite(bar.borderWidth) ? bar.borderWidth : barBorderWidth
+        const fillColor = usesSeries ? series[seriesIndex]?.color ?? bar.fillColor : bar.fillColor
+        // Inner stack segments stay square so only the outer end of a stack is rounded
+        const isRounded = segment ? segment.isStackEnd && segment.end >= segment.start : true
+
+        if (isHorizontalLayout) {
+          // Horizontal bars: spread along Y-axis, extend along X-axis
+          return {
+            data: bar,
+            x: margin.left + chartBounds.width * startRatio,
+            y: offset,
+            width: valueLength,
+            height: barThickness,
+            center: offset + barThickness / 2,
+            endValue,
+            segment,
+            isRounded,
+            fillColor,
+            opacity: clamp(opacity, 0, 1),
+            borderWidth,
+          }
+        }
 
+        // Vertical bars: spread along X-axis, extend along Y-axis
         return {
           data: bar,
-          x,
-          y,
-          width: barWidth,
-          height: barHeight,
-          center: y + barHeight / 2,
+          x: offset,
+          y: margin.top + chartBounds.height * (1 - endRatio),
+          width: barThickness,
+          height: valueLength,
+          center: offset + barThickness / 2,
+          endValue,
+          segment,
+          isRounded,
+          fillColor,
           opacity: clamp(opacity, 0, 1),
           borderWidth,
         }
       })
-    } else {
-      // Vertical bars: spread along X-axis, extend along Y-axis (original behavior)
-      const band = chartBounds.width / count
-      const gap = band * clamp(barGap, 0, 0.9)
-      const barWidth = Math.max(band - gap, 4)
-
-      return bars.map((bar, index) => {
-        const x = margin.left + band * index + (band - barWidth) / 2
-        const valueRatio = clamp((bar.value - axisMin) / axisRange, 0, 1)
-        const valueHeight = chartBounds.height * valueRatio
-        const y = margin.top + chartBounds.height - valueHeight
-        const opacity = Number.isFinite(bar.opacity) ? bar.opacity : barOpacity
-        const borderWidth = Number.isFinite(bar.borderWidth) ? bar.borderWidth : barBorderWidth
+    })
+  }, [
+    settings,
+    series,
+    categories,
+    stacks,
+    isGrouped,
+    usesSeries,
+    isHorizontalLayout,
+    categoryAxisStart,
+    categoryBand,
+    axisMin,
+    valueRatio,
+    chartBounds.width,
+    chartBounds.height,
+    margin.left,
+    margin.top,
+  ])
+
+  const formatValueTick = (tick: number) =>
+    isNormalized ? formatPercent(tick) : formatScaleTick(tick, valueScale, settings.yAxisPowerLabels ?? false)
+
+  const toCanvasY = (value: number) => margin.top + scaleY(value)
+
+  const toCanvasX = (value: number) => margin.left + valueRatio(value) * chartBounds.width
+
+  const secondaryRange = Math.max(secondaryTicks.axisMax - secondaryTicks.axisMin, Number.EPSILON)
+  const toSecondaryY = (value: number) =>
+    margin.top + chartBounds.height * (1 - clamp((value - secondaryTicks.axisMin) / secondaryRange, 0, 1))
+  const secondaryPoints = secondaryValues.map((value, index) => (
+    value === null || !categoryLayout[index] ? null : { x: categoryLayout[index].center, y: toSecondaryY(value) }
+  ))
+  const secondaryShowsLine = settings.secondarySeriesStyle !== 'markers'
+  const secondaryShowsMarkers = settings.secondarySeriesStyle !== 'line'
+  const secondaryAxisX = margin.left + chartBounds.width
+
+  // Reference elements in canvas space. Value-axis elements go through the axis scale and
+  // category ones through the band layout, so both follow range and size changes.
+  const plotRight = margin.left + chartBounds.width
+  const plotBottom = margin.top + chartBounds.height
+  const referenceLayout = (settings.referenceElements ?? []).flatMap((element) => {
+    const span = getReferenceSpan(element)
+    const isValueAxis = element.axis === 'value'
+    const [low, high] = isValueAxis ? [axisMin, axisMax] : [0.5, categories.length + 0.5]
+    // Lines outside the axis are hidden rather than pinned to its edge; bands are clipped to it
+    if (span.end < low || span.start > high) return []
+    const toPosition = (value: number) => (isValueAxis
+      ? (isHorizontalLayout ? toCanvasX(value) : toCanvasY(value))
+      : categoryAxisStart + categoryBand * (clamp(value, low, high) - 0.5))
+    const from = toPosition(span.start)
+    const to = toPosition(span.end)
+    // Value elements cross the value axis, so they run along the categories and vice versa
+    const runsHorizontally = isValueAxis !== isHorizontalLayout
+    return [{
+      element,
+      runsHorizontally,
+      from: Math.min(from, to),
+      to: Math.max(from, to),
+    }]
+  })
+
+  const renderReferenceLabel = (item: typeof referenceLayout[number]) => {
+    const { element, runsHorizontally, from, to } = item
+    if (!element.label) return null
+    const fontSize = settings.referenceLabelFontSize ?? 12
+    const atEnd = element.labelPosition !== 'start'
+    const isBand = element.kind === 'band'
+    // Line labels sit just outside the line; band labels sit inside the band
+    const x = runsHorizontally
+      ? (atEnd ? plotRight - 4 : margin.left + 4)
+      : (isBand ? from + 4 : to + 4)
+    const y = runsHorizontally
+      ? (isBand ? from + fontSize + 2 : from - 4)
+      : (atEnd ? margin.top + fontSize + 2 : plotBottom - 4)
+    return (
+      <text
+        x={x}
+        y={y}
+        textAnchor={runsHorizontally && atEnd ? 'end' : 'start'}
+        fill={element.color}
+        fontFamily={globalFontFamily}
+        fontSize={fontSize}
+        fontWeight={500}
+      >
+        {element.label}
+      </text>
+    )
+  }
+
+  const renderReferenceRule = (key: string, element: ReferenceElement, runsHorizontally: boolean, position: number, opacity: number) => (
+    <line
+      key={key}
+      x1={runsHorizontally ? margin.left : position}
+      x2={runsHorizontally ? plotRight : position}
+      y1={runsHorizontally ? position : margin.top}
+      y2={runsHorizontally ? position : plotBottom}
+      stroke={element.color}
+      strokeOpacity={opacity}
+      strokeWidth={element.lineWidth}
+      strokeDasharray={getLineDashArray(element.dashStyle, element.lineWidth)}
+    />
+  )
 
+  // Canvas elements that can be dragged in the preview. Ids are `title`, `subtitle`, `legend`,
+  // the axis titles, or `text:<id>`, `image:<id>` and `callout:<id>` for list items.
+  const applyDragOffset = (base: BarChartSettings, id: string, { dx, dy }: DragOffset): BarChartSettings => {
+    const [kind, itemId] = id.split(':')
+    const moved = (value: number | undefined, delta: number) => Math.round((value ?? 0) + delta)
+    switch (kind) {
+      case 'title':
+        return { ...base, titleOffsetX: moved(base.titleOffsetX, dx), titleOffsetY: moved(base.titleOffsetY, dy) }
+      case 'subtitle':
+        return { ...base, subtitleOffsetX: moved(base.subtitleOffsetX, dx), subtitleOffsetY: moved(base.subtitleOffsetY, dy) }
+      case 'legend':
+        return { ...base, legend: { ...base.legend, offsetX: moved(base.legend.offsetX, dx), offsetY: moved(base.legend.offsetY, dy) } }
+      case 'xAxisTitle':
+        return { ...base, xAxisTitleOffsetY: moved(base.xAxisTitleOffsetY, dy) }
+      case 'yAxisTitle':
+        return { ...base, yAxisTitleOffsetX: moved(base.yAxisTitleOffsetX, dx) }
+      case 'secondaryAxisTitle':
+        return { ...base, secondaryAxisTitleOffsetX: moved(base.secondaryAxisTitleOffsetX, dx) }
+      case 'text':
         return {
-          data: bar,
-          x,
-          y,
-          width: barWidth,
-          height: valueHeight,
-          center: x + barWidth / 2,
-          opacity: clamp(opacity, 0, 1),
-          borderWidth,
+          ...base,
+          additionalTextElements: base.additionalTextElements.map((element) => (
+            element.id === itemId ? { ...element, x: moved(element.x, dx), y: moved(element.y, dy) } : element
+          )),
         }
-      })
+      case 'image':
+        return {
+          ...base,
+          additionalImageElements: base.additionalImageElements.map((element) => (
+            element.id === itemId ? { ...element, x: moved(element.x, dx), y: moved(element.y, dy) } : element
+          )),
+        }
+      case 'callout':
+        return {
+          ...base,
+          calloutAnnotations: (base.calloutAnnotations ?? []).map((callout) => (
+            callout.id === itemId ? { ...callout, offsetX: moved(callout.offsetX, dx), offsetY: moved(callout.offsetY, dy) } : callout
+          )),
+        }
+      default:
+        return base
     }
-  }, [settings, axisMin, axisRange, chartBounds.width, chartBounds.height, margin.left, margin.top])
+  }
 
-  const toCanvasY = (value: number) => margin.top + scaleY(value)
+  // Offsets are applied to the settings captured when the drag started, so every move
+  // (and the final commit) is relative to the same origin and the panel inputs follow live
+  const dragBaseRef = useRef<BarChartSettings | null>(null)
+  const applyDrag = (id: string, offset: DragOffset) => {
+    onUpdateSettings(applyDragOffset(dragBaseRef.current ?? settings, id, offset))
+  }
+  const elementDrag = useSvgDrag((id, offset) => {
+    applyDrag(id, offset)
+    dragBaseRef.current = null
+  }, {
+    onStart: () => {
+      dragBaseRef.current = settings
+    },
+    onMove: applyDrag,
+    guides: {
+      x: [measuredWidth / 2, margin.left, plotRight],
+      y: [measuredHeight / 2, margin.top, plotBottom],
+    },
+  })
+
+  // Canvas position along the value axis and back; the inverse extrapolates past the axis ends
+  const toValuePosition = (value: number) => (isHorizontalLayout ? toCanvasX(value) : toCanvasY(value))
+  const valueAtPosition = (position: number) => valueAxis.invert(
+    isHorizontalLayout
+      ? (position - margin.left) / Math.max(chartBounds.width, 1)
+      : 1 - (position - margin.top) / Math.max(chartBounds.height, 1),
+  )
 
-  const toCanvasX = (value: number) => {
-    const ratio = clamp((value - axisMin) / axisRange, 0, 1)
-    return margin.left + ratio * chartBounds.width
+  // Bars computed from replicates and percent stacks have no value of their own to drag
+  const canDragValues = (settings.valueDragEnabled ?? true) && !isNormalized
+  const isValueEditable = (bar: ResolvedBar) => canDragValues && !hasReplicates(bar)
+
+  // Dragged values snap to the tick step on linear axes, otherwise to the configured decimals
+  const tickStep = settings.yAxisTickStep ?? (ticks.length > 1 ? ticks[1] - ticks[0] : null)
+  const valueSnapStep = settings.valueDragSnap === 'tick' && valueScale === 'linear' && tickStep && tickStep > 0
+    ? tickStep
+    : 10 ** -clamp(Math.round(settings.valueDragPrecision ?? 1), 0, 6)
+
+  // Handle ids are `value:<barId>` for bar ends and `error:<barId>:upper|lower` for caps
+  const valueDragOriginRef = useRef<ValueDragOrigin | null>(null)
+  const updateDraggedBar = (id: string, update: (bar: BarDataPoint, origin: ValueDragOrigin, side: string) => BarDataPoint) => {
+    const origin = valueDragOriginRef.current
+    if (!origin) return
+    const [, barId, side] = id.split(':')
+    onUpdateSettings({
+      ...origin.settings,
+      data: origin.settings.data.map((bar) => (bar.id === barId ? update(bar, origin, side) : bar)),
+    })
+  }
+  const withError = (bar: BarDataPoint, side: string, error: number): BarDataPoint => {
+    const field = side === 'upper' ? 'errorUpper' : 'errorLower'
+    // Asymmetric bars keep their per-side override; symmetric ones change `error` itself
+    return bar[field] === undefined ? { ...bar, error } : { ...bar, [field]: error }
+  }
+  const applyValueDrag = (id: string, offset: DragOffset) => {
+    updateDraggedBar(id, (bar, origin, side) => {
+      const target = origin.valueAt(origin.position + (isHorizontalLayout ? offset.dx : offset.dy))
+      if (id.startsWith('value:')) {
+        const value = roundToStep(target - origin.start, valueSnapStep)
+        return { ...bar, value: isLogScale(valueScale) ? Math.max(value, valueSnapStep) : value }
+      }
+      const distance = side === 'upper' ? target - origin.endValue : origin.endValue - target
+      return withError(bar, side, Math.max(roundToStep(distance, valueSnapStep), 0))
+    })
+  }
+  // Arrow keys move a handle by whole snap steps (ten with Shift) instead of pixels
+  const applyValueStep = (id: string, offset: DragOffset) => {
+    const steps = isHorizontalLayout ? offset.dx : -offset.dy
+    updateDraggedBar(id, (bar, _origin, side) => {
+      if (id.startsWith('value:')) {
+        const value = roundToStep(bar.value + steps * valueSnapStep, valueSnapStep)
+        return { ...bar, value: isLogScale(valueScale) ? Math.max(value, valueSnapStep) : value }
+      }
+      const current = (side === 'upper' ? bar.errorUpper : bar.errorLower) ?? bar.error
+      const direction = side === 'upper' ? 1 : -1
+      return withError(bar, side, Math.max(roundToStep(current + direction * steps * valueSnapStep, valueSnapStep), 0))
+    })
+  }
+  const valueDrag = useSvgDrag((id, offset, source) => {
+    if (source === 'keyboard') {
+      applyValueStep(id, offset)
+    } else {
+      applyValueDrag(id, offset)
+    }
+    valueDragOriginRef.current = null
+  }, {
+    onStart: (id) => {
+      const [kind, barId, side] = id.split(':')
+      const layout = barLayout.find((item) => item.data.id === barId)
+      if (!layout) {
+        valueDragOriginRef.current = null
+        return
+      }
+      const { data, endValue, segment } = layout
+      const handleValue = kind === 'value'
+        ? endValue
+        : side === 'upper' ? endValue + data.errorUpper : endValue - data.errorLower
+      valueDragOriginRef.current = {
+        settings,
+        position: toValuePosition(handleValue),
+        start: segment?.start ?? 0,
+        endValue,
+        valueAt: valueAtPosition,
+      }
+    },
+    onMove: applyValueDrag,
+  })
+
+  // Live readout next to the handle being dragged
+  const valueTooltip = (() => {
+    if (!valueDrag.draggingId) return null
+    const [kind, barId, side] = valueDrag.draggingId.split(':')
+    const layout = barLayout.find((item) => item.data.id === barId)
+    if (!layout) return null
+    const { data, endValue, center } = layout
+    const source = settings.data.find((bar) => bar.id === barId)
+    let text = `${data.value}`
+    let position = toValuePosition(endValue)
+    if (kind === 'error') {
+      const error = side === 'upper' ? data.errorUpper : data.errorLower
+      const symmetric = source?.errorUpper === undefined && source?.errorLower === undefined
+      text = `${symmetric ? '±' : side === 'upper' ? '+' : '−'}${error}`
+      position = toValuePosition(side === 'upper' ? endValue + error : endValue - error)
+    }
+    const fontSize = 12
+    const width = text.length * fontSize * 0.6 + 12
+    const height = fontSize + 8
+    const x = clamp((isHorizontalLayout ? position : center) + 10, 0, Math.max(measuredWidth - width, 0))
+    const y = clamp((isHorizontalLayout ? center : position) - height - 10, 0, Math.max(measuredHeight - height, 0))
+    return { text, x, y, width, height, fontSize }
+  })()
+
+  // Callout anchors in canvas space: the end of the referenced bar, or a category/value coordinate
+  const calloutLayout = (settings.calloutAnnotations ?? []).flatMap((callout) => {
+    let anchor: { x: number; y: number }
+    if (callout.anchorType === 'bar') {
+      const bar = barLayout.find((item) => item.data.id === callout.barId)
+      if (!bar) return []
+      const end = isHorizontalLayout ? toCanvasX(bar.endValue) : toCanvasY(bar.endValue)
+      anchor = isHorizontalLayout ? { x: end, y: bar.center } : { x: bar.center, y: end }
+    } else {
+      const categoryPosition = categoryAxisStart + categoryBand * (clamp(callout.category, 0.5, categories.length + 0.5) - 0.5)
+      anchor = isHorizontalLayout
+        ? { x: toCanvasX(callout.value), y: categoryPosition }
+        : { x: categoryPosition, y: toCanvasY(callout.value) }
+    }
+    return [{
+      callout,
+      anchor,
+      center: { x: anchor.x + callout.offsetX, y: anchor.y + callout.offsetY },
+      box: getCalloutBoxSize(callout),
+    }]
+  })
+
+  // Canvas span of the axis break along the value axis (low/high canvas coordinate)
+  const breakSpan = valueAxis.gapStart !== null && valueAxis.gapEnd !== null
+    ? isHorizontalLayout
+      ? { from: margin.left + valueAxis.gapStart * chartBounds.width, to: margin.left + valueAxis.gapEnd * chartBounds.width }
+      : { from: margin.top + chartBounds.height * (1 - valueAxis.gapEnd), to: margin.top + chartBounds.height * (1 - valueAxis.gapStart) }
+    : null
+
+  // A `//` break mark across the cross-axis span [crossStart, crossEnd]: the gap is painted
+  // over with the background and bounded by two slanted strokes
+  const renderBreakMark = (key: string, crossStart: number, crossEnd: number, stroke: string, strokeWidth: number) => {
+    if (!breakSpan) return null
+    const skew = 4
+    const toPoint = (valuePosition: number, crossPosition: number) =>
+      isHorizontalLayout ? `${valuePosition},${crossPosition}` : `${crossPosition},${valuePosition}`
+    const edge = (valuePosition: number) => [
+      toPoint(valuePosition + skew, crossStart),
+      toPoint(valuePosition - skew, crossEnd),
+    ]
+    const [fromStart, fromEnd] = edge(breakSpan.from)
+    const [toStart, toEnd] = edge(breakSpan.to)
+    return (
+      <g key={key} pointerEvents="none">
+        <polygon points={[fromStart, fromEnd, toEnd, toStart].join(' ')} fill={settings.backgroundColor} />
+        <polyline points={`${fromStart} ${fromEnd}`} fill="none" stroke={stroke} strokeWidth={strokeWidth} />
+        <polyline points={`${toStart} ${toEnd}`} fill="none" stroke={stroke} strokeWidth={strokeWidth} />
+      </g>
+    )
   }
 
   const axisStyles = {
     x: settings.xAxis,
     y: settings.yAxis,
   }
+  const valueAxisStyle = isHorizontalLayout ? axisStyles.x : axisStyles.y
 
   const globalFontFamily = settings.globalFontFamily || DEFAULT_FONT_STACK
   const titleColor = settings.titleColor ?? settings.textColor
@@ -401,6 +794,56 @@ export function ChartPreview({
 
   const chartAreaTop = margin.top
   const chartAreaBottom = margin.top + chartBounds.height
+
+  // Each bracket clears everything drawn on the bars it spans: error caps, points and value labels
+  const significanceBrackets = (() => {
+    if (!significanceItems.length) return []
+    const isHorizontal = settings.orientation === 'horizontal'
+    const pointRadius = Math.max(settings.replicatePointSize, 0) / 2
+    const centerById = new Map(barLayout.map((item) => [item.data.id, item.center]))
+    const obstacles = barLayout.map(({ data, x, y, width, center, endValue }) => {
+      let far = isHorizontal ? x + width : y
+      if (showErrorBars) {
+        far = isHorizontal
+          ? Math.max(far, toCanvasX(endValue + data.errorUpper))
+          : Math.min(far, toCanvasY(endValue + data.errorUpper))
+      }
+      if (showReplicatePoints) {
+        data.replicates?.forEach((value) => {
+          far = isHorizontal ? Math.max(far, toCanvasX(value) + pointRadius) : Math.min(far, toCanvasY(value) - pointRadius)
+        })
+      }
+      if (settings.showValueLabels) {
+        const labelLength = formatStatistic(data.value).length * settings.valueLabelFontSize * 0.6
+        far = isHorizontal ? far + labelLength + 8 : far - settings.valueLabelFontSize * 1.2
+      }
+      return { position: center, extent: isHorizontal ? far - margin.left : chartAreaBottom - far }
+    })
+
+    const positions = stackSignificanceBrackets(
+      significanceItems.map(({ annotation }) => ({
+        id: annotation.id,
+        start: centerById.get(annotation.barA) ?? 0,
+        end: centerById.get(annotation.barB) ?? 0,
+      })),
+      obstacles,
+      significanceGap,
+      settings.significanceSpacing,
+    )
+
+    return significanceItems.map(({ annotation, label }) => {
+      const extent = positions.get(annotation.id) ?? 0
+      return {
+        id: annotation.id,
+        label,
+        start: centerById.get(annotation.barA) ?? 0,
+        end: centerById.get(annotation.barB) ?? 0,
+        line: isHorizontal ? margin.left + extent : chartAreaBottom - extent,
+      }
+    })
+  })()
+  const titleDrag = elementDrag.bind('title')
+  const subtitleDrag = elementDrag.bind('subtitle')
   const chartTitleOffset = clamp(settings.titleFontSize * 0.75, 12, Math.max(margin.top - 8, 12))
   const baseTitleY = margin.top - chartTitleOffset
   const chartTitleY = baseTitleY + settings.titleOffsetY
@@ -430,88 +873,10 @@ export function ChartPreview({
 
   const download = async (options: ExportOptions) => {
     if (!svgRef.current) return
-
-    const serializer = new XMLSerializer()
-    const clone = svgRef.current.cloneNode(true) as SVGSVGElement
-
-    if (options.transparent) {
-      const backgroundRect = clone.querySelector('[data-role="background"]') as SVGRectElement | null
-      if (backgroundRect) {
-        backgroundRect.setAttribute('fill', 'transparent')
-      }
-    }
-
-    const source = serializer.serializeToString(clone)
-    const encoded = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(source)}`
-
-    const safeName = options.fileName.trim() || 'barplot'
-
-    if (options.format === 'svg') {
-      const link = document.createElement('a')
-      link.href = encoded
-      link.download = safeName.endsWith('.svg') ? safeName : `${safeName}.svg`
-      link.click()
-      return
-    }
-
-    const svgImage = new Image()
-    const quality = clamp(options.scale ?? 1, 1, 6)
-    const deviceScale = window.devicePixelRatio || 1
-    const scale = quality * deviceScale
-
-    await new Promise<void>((resolve, reject) => {
-      svgImage.onload = () => {
-        const canvas = document.createElement('canvas')
-        canvas.width = measuredWidth * scale
-        canvas.height = measuredHeight * scale
-        const context = canvas.getContext('2d')
-        if (!context) {
-          reject(new Error('Unable to create canvas context'))
-          return
-        }
-        context.scale(scale, scale)
-        context.imageSmoothingEnabled = true
-        context.imageSmoothingQuality = 'high'
-        if (!options.transparent) {
-          context.fillStyle = settings.backgroundColor
-          context.fillRect(0, 0, measuredWidth, measuredHeight)
-        } else {
-          context.clearRect(0, 0, measuredWidth, measuredHeight)
-        }
-        context.drawImage(svgImage, 0, 0, measuredWidth, measuredHeight)
-
-        if (options.format === 'png') {
-          canvas.toBlob((blob) => {
-            if (!blob) {
-              reject(new Error('Failed to export PNG'))
-              return
-            }
-            const url = URL.createObjectURL(blob)
-            const link = document.createElement('a')
-            link.href = url
-            link.download = safeName.endsWith('.png') ? safeName : `${safeName}.png`
-            link.click()
-            URL.revokeObjectURL(url)
-            resolve()
-          }, 'image/png')
-          return
-        }
-
-        const dataUrl = canvas.toDataURL('image/png', 1)
-          ; (async () => {
-            const { default: jsPDF } = await import('jspdf')
-            const pdf = new jsPDF({
-              orientation: measuredWidth >= measuredHeight ? 'landscape' : 'portrait',
-              unit: 'px',
-              format: [measuredWidth, measuredHeight],
-            })
-            pdf.addImage(dataUrl, 'PNG', 0, 0, measuredWidth, measuredHeight)
-            pdf.save(safeName.endsWith('.pdf') ? safeName : `${safeName}.pdf`)
-            resolve()
-          })().catch((error) => reject(error))
-      }
-      svgImage.onerror = () => reject(new Error('Failed to load SVG image'))
-      svgImage.src = encoded
+    await exportSvgChart(svgRef.current, options, {
+      width: measuredWidth,
+      height: measuredHeight,
+      backgroundColor: settings.backgroundColor,
     })
   }
 
@@ -533,13 +898,11 @@ export function ChartPreview({
     }
   }, [isExportDialogOpen])
 
-  const handleExportConfirm = async () => {
+  const handleExportConfirm = async ({ presetId, ...requested }: ExportRequest) => {
     if (isExporting) return
     const options: ExportOptions = {
-      format: exportFormat,
-      fileName: exportFileName.trim() || 'barplot',
-      scale: exportScale,
-      transparent: exportTransparent,
+      ...requested,
+      fileName: requested.fileName.trim() || 'barplot',
     }
 
     try {
@@ -549,6 +912,7 @@ export function ChartPreview({
         exportScale: options.scale,
         exportFileName: options.fileName,
         exportTransparent: options.transparent,
+        exportPresetId: presetId,
       })
       await download(options)
       setIsExportDialogOpen(false)
@@ -557,8 +921,9 @@ export function ChartPreview({
     }
   }
 
-  const handleImportConfirm = (bars: BarDataPoint[]) => {
+  const handleImportConfirm = (rows: ImportedRow[]) => {
     setIsImportDialogOpen(false)
+    const bars = createBarsFromImport(rows, settings.paletteName)
     if (!bars.length) return
     onUpdateSettings({
       ...settings,
@@ -615,6 +980,7 @@ export function ChartPreview({
           />
           {settings.title ? (
             <text
+              {...titleDrag}
               x={chartTitleX}
               y={chartTitleY}
               textAnchor="middle"
@@ -622,6 +988,7 @@ export function ChartPreview({
               fontSize={settings.titleFontSize}
               fontFamily={globalFontFamily}
               style={{
+                ...titleDrag.style,
                 fontWeight: titleFontWeight,
                 fontStyle: titleFontStyle,
                 textDecoration: titleTextDecoration,
@@ -636,6 +1003,7 @@ export function ChartPreview({
           ) : null}
           {settings.subtitle ? (
             <text
+              {...subtitleDrag}
               x={chartSubtitleX}
               y={chartSubtitleY}
               textAnchor="middle"
@@ -643,6 +1011,7 @@ export function ChartPreview({
               fontSize={settings.subtitleFontSize}
               fontFamily={globalFontFamily}
               style={{
+                ...subtitleDrag.style,
                 fontWeight: subtitleFontWeight,
                 fontStyle: subtitleFontStyle,
                 textDecoration: subtitleTextDecoration,
@@ -660,7 +1029,7 @@ export function ChartPreview({
           <defs>
             {barLayout
               .filter(({ data }) => (data.pattern ?? 'solid') !== 'solid')
-              .map(({ data, opacity }) => {
+              .map(({ data, fillColor, opacity }) => {
                 const patternId = `pattern-${data.id}`
                 const patternType = data.pattern ?? 'solid'
                 const patternSizeRaw = Number.isFinite(data.patternSize) ? data.patternSize : 8
@@ -686,7 +1055,7 @@ export function ChartPreview({
                         width={patternSize}
                         height={patternSize}
                       >
-                        <rect width={patternSize} height={patternSize} fill={data.fillColor} opacity={opacity} />
+                        <rect width={patternSize} height={patternSize} fill={fillColor} opacity={opacity} />
                         <path
                           d={`M0 ${patternSize} L ${patternSize} 0`}
                           stroke={accentColor}
@@ -716,7 +1085,7 @@ export function ChartPreview({
                         width={patternSize}
                         height={patternSize}
                       >
-                        <rect width={patternSize} height={patternSize} fill={data.fillColor} opacity={opacity} />
+                        <rect width={patternSize} height={patternSize} fill={fillColor} opacity={opacity} />
                         <circle
                           cx={quarterSize * 1.5}
                           cy={quarterSize * 1.5}
@@ -742,7 +1111,7 @@ export function ChartPreview({
                         width={patternSize}
                         height={patternSize}
                       >
-                        <rect width={patternSize} height={patternSize} fill={data.fillColor} opacity={opacity} />
+                        <rect width={patternSize} height={patternSize} fill={fillColor} opacity={opacity} />
                         <path
                           d={`M0 ${halfSize} H ${patternSize}`}
                           stroke={accentColor}
@@ -766,7 +1135,7 @@ export function ChartPreview({
                         width={patternSize}
                         height={patternSize}
                       >
-                        <rect width={patternSize} height={patternSize} fill={data.fillColor} opacity={opacity} />
+                        <rect width={patternSize} height={patternSize} fill={fillColor} opacity={opacity} />
                         <path
                           d={`M${quarterSize} 0 V ${patternSize}`}
                           stroke={accentColor}
@@ -827,9 +1196,8 @@ export function ChartPreview({
 
           {/* Vertical grid lines - based on category positions */}
           {axisStyles.x.showGridLines && settings.orientation === 'vertical'
-            ? barLayout.slice(0, -1).map(({ data }, index) => {
-              const band = chartBounds.width / barLayout.length
-              const x = margin.left + band * (index + 1) // Position between bars
+            ? categoryLayout.slice(0, -1).map(({ key }, index) => {
+              const x = margin.left + categoryBand * (index + 1) // Position between categories
 
               // Create stroke dash array based on line style
               let strokeDasharray = 'none'
@@ -848,7 +1216,7 @@ export function ChartPreview({
 
               return (
                 <line
-                  key={`v-grid-${data.id}`}
+                  key={`v-grid-${key}`}
                   x1={x}
                   x2={x}
                   y1={margin.top}
@@ -866,7 +1234,7 @@ export function ChartPreview({
           {/* For horizontal orientation, vertical grid lines based on value ticks */}
           {axisStyles.x.showGridLines && settings.orientation === 'horizontal'
             ? ticks.map((tick) => {
-              const x = margin.left + ((tick - axisMin) / axisRange) * chartBounds.width
+              const x = toCanvasX(tick)
 
               // Create stroke dash array based on line style
               let strokeDasharray = 'none'
@@ -900,14 +1268,62 @@ export function ChartPreview({
             : null
           }
 
+          {/* Minor grid lines between decades on log and symlog axes */}
+          {showMinorTicks && (isHorizontalLayout ? axisStyles.x.showGridLines : axisStyles.y.showGridLines)
+            ? minorTicks.map((tick) => {
+              const gridStyle = isHorizontalLayout ? axisStyles.x : axisStyles.y
+              const position = isHorizontalLayout ? toCanvasX(tick) : toCanvasY(tick)
+              return (
+                <line
+                  key={`minor-grid-${tick}`}
+                  x1={isHorizontalLayout ? position : margin.left}
+                  x2={isHorizontalLayout ? position : measuredWidth - margin.right}
+                  y1={isHorizontalLayout ? margin.top : position}
+                  y2={isHorizontalLayout ? measuredHeight - margin.bottom : position}
+                  stroke={gridStyle.gridLineColor}
+                  strokeWidth={Math.max(gridStyle.gridLineWidth / 2, 0.5)}
+                  strokeOpacity={gridStyle.gridLineOpacity / 2}
+                />
+              )
+            })
+            : null
+          }
+
+          {/* Reference bands sit behind the bars */}
+          {referenceLayout
+            .filter(({ element }) => element.kind === 'band')
+            .map((item) => {
+              const { element, runsHorizontally, from, to } = item
+              const size = Math.max(to - from, 1)
+              return (
+                <g key={`reference-${element.id}`} pointerEvents="none">
+                  <rect
+                    x={runsHorizontally ? margin.left : from}
+                    y={runsHorizontally ? from : margin.top}
+                    width={runsHorizontally ? chartBounds.width : size}
+                    height={runsHorizontally ? size : chartBounds.height}
+                    fill={element.color}
+                    fillOpacity={element.opacity}
+                  />
+                  {element.lineWidth > 0 ? (
+                    <>
+                      {renderReferenceRule('edge-from', element, runsHorizontally, from, 1)}
+                      {renderReferenceRule('edge-to', element, runsHorizontally, to, 1)}
+                    </>
+                  ) : null}
+                  {renderReferenceLabel(item)}
+                </g>
+              )
+            })}
+
           {/* Bars */}
-          {barLayout.map(({ data, x, y, width, height, center, opacity }) => {
+          {barLayout.map(({ data, x, y, width, height, center, endValue, segment, isRounded, fillColor, opacity }, barIndex) => {
             const isHorizontal = settings.orientation === 'horizontal'
             const patternType = data.pattern ?? 'solid'
             const barTop = y
             const barHeight = Math.max(height, 0.01)
             const barWidth = Math.max(width, 0.01)
-            const cornerSetting = clamp(settings.barCornerRadius, 0, 96)
+            const cornerSetting = isRounded ? clamp(settings.barCornerRadius, 0, 96) : 0
             const radius = Math.min(cornerSetting, barHeight / 2, barWidth / 2)
             const pathD = createBarPath(x, barTop, barWidth, barHeight, radius, settings.barCornerStyle, isHorizontal)
 
@@ -917,7 +1333,11 @@ export function ChartPreview({
 
             // Value label positioning
             let valueLabelX: number, valueLabelY: number
-            if (isHorizontal) {
+            if (segment) {
+              // Stacked segments carry their label in the middle of the segment
+              valueLabelX = (isHorizontal ? x + barWidth / 2 : center) + (settings.valueLabelOffsetX ?? 0)
+              valueLabelY = (isHorizontal ? center : barTop + barHeight / 2) + (settings.valueLabelOffsetY ?? 0)
+            } else if (isHorizontal) {
               // For horizontal bars, place label at the end of the bar
               const maxLabelX = x + barWidth + 4
               const desiredLabelX = x + barWidth + settings.valueLabelFontSize * 0.6 + 4
@@ -936,21 +1356,20 @@ export function ChartPreview({
             }
 
             // Error bar positioning
-            const errorValue = Math.max(data.error, 0)
             let errorX1: number, errorY1: number, errorX2: number, errorY2: number
             let errorLength: number
 
             if (isHorizontal) {
-              const leftX = toCanvasX(data.value - errorValue)
-              const rightX = toCanvasX(data.value + errorValue)
+              const leftX = toCanvasX(endValue - data.errorLower)
+              const rightX = toCanvasX(endValue + data.errorUpper)
               errorX1 = Math.min(leftX, rightX)
               errorX2 = Math.max(leftX, rightX)
               errorY1 = center
               errorY2 = center
               errorLength = errorX2 - errorX1
             } else {
-              const upperY = toCanvasY(data.value + errorValue)
-              const lowerY = toCanvasY(data.value - errorValue)
+              const upperY = toCanvasY(endValue + data.errorUpper)
+              const lowerY = toCanvasY(endValue - data.errorLower)
               errorX1 = center
               errorX2 = center
               errorY1 = Math.min(upperY, lowerY)
@@ -961,10 +1380,36 @@ export function ChartPreview({
             const errorColor = settings.errorBarMode === 'match' ? data.borderColor : settings.errorBarColor
             const errorStroke = Math.max(settings.errorBarWidth, 0)
             const capHalfWidth = settings.errorBarCapWidth / 2
-            const errorVisible = settings.showErrorBars && errorLength > 0.5
+            const errorVisible = showErrorBars && errorLength > 0.5
+            // One-sided error bars only get a cap at their far end, never on the bar itself
+            const showLowerCap = data.errorLower > 0
+            const showUpperCap = data.errorUpper > 0
+            const segmentLength = isHorizontal ? barWidth : barHeight
+            const showSegmentLabel = segment
+              ? settings.stackLabelMode !== 'total' && segmentLength >= settings.valueLabelFontSize
+              : true
+            const valueLabelText = segment && isNormalized
+              ? formatPercent(segment.share)
+              : hasReplicates(data) ? formatStatistic(data.value) : `${data.value}`
+            const barThickness = isHorizontal ? barHeight : barWidth
+            const jitterSpread = barThickness * clamp(settings.replicateJitterWidth, 0, 1)
             const patternId = `pattern-${data.id}`
-            const fillValue = patternType === 'solid' ? data.fillColor : `url(#${patternId})`
+            const fillValue = patternType === 'solid' ? fillColor : `url(#${patternId})`
             const fillOpacity = patternType === 'solid' ? opacity : 1
+            // Invisible grab strips over the bar end and the error caps
+            const editable = isValueEditable(data)
+            const handleThickness = 8
+            const capHandleHalf = Math.max(capHalfWidth, 6)
+            const handleRect = (position: number, crossStart: number, crossLength: number) => (isHorizontal
+              ? { x: position - handleThickness / 2, y: crossStart, width: handleThickness, height: crossLength }
+              : { x: crossStart, y: position - handleThickness / 2, width: crossLength, height: handleThickness })
+            const resizeCursor = isHorizontal ? 'ew-resize' : 'ns-resize'
+            const capHandles = editable && errorVisible
+              ? [
+                showUpperCap ? { side: 'upper', position: toValuePosition(endValue + data.errorUpper) } : null,
+                showLowerCap ? { side: 'lower', position: toValuePosition(endValue - data.errorLower) } : null,
+              ].filter((handle) => handle !== null)
+              : []
 
             return (
               <g
@@ -994,12 +1439,12 @@ export function ChartPreview({
                     strokeOpacity={borderOpacity}
                   />
                 )}
-                {settings.showValueLabels ? (
+                {settings.showValueLabels && showSegmentLabel ? (
                   <text
                     x={valueLabelX}
                     y={valueLabelY}
-                    textAnchor={isHorizontal ? "start" : "middle"}
-                    dominantBaseline={isHorizontal ? "middle" : "auto"}
+                    textAnchor={isHorizontal && !segment ? "start" : "middle"}
+                    dominantBaseline={isHorizontal || segment ? "middle" : "auto"}
                     fill={settings.textColor}
                     fontFamily={globalFontFamily}
                     fontSize={settings.valueLabelFontSize}
@@ -1009,7 +1454,7 @@ export function ChartPreview({
                       onRequestFocus({ type: 'dataValue', dataId: data.id })
                     }}
                   >
-                    {`${data.value}`}
+                    {valueLabelText}
                   </text>
                 ) : null}
                 {errorVisible ? (
@@ -1025,53 +1470,217 @@ export function ChartPreview({
                     />
                     {isHorizontal ? (
                       <>
-                        <line
-                          x1={errorX1}
-                          x2={errorX1}
-                          y1={center - capHalfWidth}
-                          y2={center + capHalfWidth}
-                          stroke={errorColor}
-                          strokeWidth={errorStroke}
-                          strokeLinecap="round"
-                        />
-                        <line
-                          x1={errorX2}
-                          x2={errorX2}
-                          y1={center - capHalfWidth}
-                          y2={center + capHalfWidth}
-                          stroke={errorColor}
-                          strokeWidth={errorStroke}
-                          strokeLinecap="round"
-                        />
+                        {showLowerCap ? (
+                          <line
+                            x1={errorX1}
+                            x2={errorX1}
+                            y1={center - capHalfWidth}
+                            y2={center + capHalfWidth}
+                            stroke={errorColor}
+                            strokeWidth={errorStroke}
+                            strokeLinecap="round"
+                          />
+                        ) : null}
+                        {showUpperCap ? (
+                          <line
+                            x1={errorX2}
+                            x2={errorX2}
+                            y1={center - capHalfWidth}
+                            y2={center + capHalfWidth}
+                            stroke={errorColor}
+                            strokeWidth={errorStroke}
+                            strokeLinecap="round"
+                          />
+                        ) : null}
                       </>
                     ) : (
                       <>
-                        <line
-                          x1={center - capHalfWidth}
-                          x2={center + capHalfWidth}
-                          y1={errorY1}
-                          y2={errorY1}
-                          stroke={errorColor}
-                          strokeWidth={errorStroke}
-                          strokeLinecap="round"
-                        />
-                        <line
-                          x1={center - capHalfWidth}
-                          x2={center + capHalfWidth}
-                          y1={errorY2}
-                          y2={errorY2}
-                          stroke={errorColor}
-                          strokeWidth={errorStroke}
-                          strokeLinecap="round"
-                        />
+                        {showUpperCap ? (
+                          <line
+                            x1={center - capHalfWidth}
+                            x2={center + capHalfWidth}
+                            y1={errorY1}
+                            y2={errorY1}
+                            stroke={errorColor}
+                            strokeWidth={errorStroke}
+                            strokeLinecap="round"
+                          />
+                        ) : null}
+                        {showLowerCap ? (
+                          <line
+                            x1={center - capHalfWidth}
+                            x2={center + capHalfWidth}
+                            y1={errorY2}
+                            y2={errorY2}
+                            stroke={errorColor}
+                            strokeWidth={errorStroke}
+                            strokeLinecap="round"
+                          />
+                        ) : null}
                       </>
                     )}
                   </g>
                 ) : null}
+                {editable ? (() => {
+                  const handle = valueDrag.bind(`value:${data.id}`, isHorizontal ? 'x' : 'y')
+                  return (
+                    <rect
+                      {...handle}
+                      {...handleRect(toValuePosition(endValue), isHorizontal ? barTop : x, isHorizontal ? barHeight : barWidth)}
+                      data-role="editor"
+                      fill="transparent"
+                      style={{ ...handle.style, cursor: resizeCursor }}
+                    />
+                  )
+                })() : null}
+                {capHandles.map(({ side, position }) => {
+                  const handle = valueDrag.bind(`error:${data.id}:${side}`, isHorizontal ? 'x' : 'y')
+                  return (
+                    <rect
+                      key={`error-handle-${side}`}
+                      {...handle}
+                      {...handleRect(position, center - capHandleHalf, capHandleHalf * 2)}
+                      data-role="editor"
+                      fill="transparent"
+                      style={{ ...handle.style, cursor: resizeCursor }}
+                    />
+                  )
+                })}
+                {showReplicatePoints && data.replicates
+                  ? data.replicates.map((value, replicateIndex) => {
+                    const offset = jitterOffset(barIndex, replicateIndex) * jitterSpread
+                    return (
+                      <circle
+                        key={`replicate-${replicateIndex}`}
+                        cx={isHorizontal ? toCanvasX(value) : center + offset}
+                        cy={isHorizontal ? center + offset : toCanvasY(value)}
+                        r={Math.max(settings.replicatePointSize, 0) / 2}
+                        fill={settings.replicatePointColor}
+                        fillOpacity={clamp(settings.replicatePointOpacity, 0, 1)}
+                        stroke={data.borderColor}
+                        strokeOpacity={clamp(settings.replicatePointOpacity, 0, 1)}
+                        strokeWidth={0.75}
+                      />
+                    )
+                  })
+                  : null}
+              </g>
+            )
+          })}
+
+          {/* Stack totals */}
+          {settings.showValueLabels && stacks && settings.stackLabelMode !== 'segment'
+            ? stacks.totals.map((total, index) => {
+              const category = categoryLayout[index]
+              if (!category) return null
+              const isHorizontal = settings.orientation === 'horizontal'
+              const isNegative = total.positive <= 0 && total.negative < 0
+              const edgeValue = isNegative ? total.negative : total.positive
+              const gap = settings.valueLabelFontSize * 0.6 + 4
+              const labelX = isHorizontal
+                ? toCanvasX(edgeValue) + (isNegative ? -gap : gap) + (settings.valueLabelOffsetX ?? 0)
+                : category.center + (settings.valueLabelOffsetX ?? 0)
+              const labelY = isHorizontal
+                ? category.center + (settings.valueLabelOffsetY ?? 0)
+                : toCanvasY(edgeValue) + (isNegative ? gap + settings.valueLabelFontSize * 0.4 : -gap) + (settings.valueLabelOffsetY ?? 0)
+
+              return (
+                <text
+                  key={`stack-total-${total.key}`}
+                  x={labelX}
+                  y={labelY}
+                  textAnchor={isHorizontal ? (isNegative ? 'end' : 'start') : 'middle'}
+                  dominantBaseline={isHorizontal ? 'middle' : 'auto'}
+                  fill={settings.textColor}
+                  fontFamily={globalFontFamily}
+                  fontSize={settings.valueLabelFontSize}
+                  fontWeight={600}
+                  onDoubleClick={(event) => sendHighlight(['valueLabels'], event)}
+                >
+                  {Number.parseFloat(total.sum.toPrecision(12))}
+                </text>
+              )
+            })
+            : null}
+
+          {/* Significance brackets */}
+          {significanceBrackets.map(({ id, label, start, end, line }) => {
+            const isHorizontal = settings.orientation === 'horizontal'
+            const tick = Math.max(settings.significanceTickLength, 0)
+            const middle = (start + end) / 2
+            const path = isHorizontal
+              ? `M ${line - tick} ${start} H ${line} V ${end} H ${line - tick}`
+              : `M ${start} ${line + tick} V ${line} H ${end} V ${line + tick}`
+            const labelX = isHorizontal ? line + 4 : middle
+            const labelY = isHorizontal ? middle : line - 4
+
+            return (
+              <g key={`significance-${id}`} onDoubleClick={(event) => sendHighlight(['significance'], event)}>
+                <path
+                  d={path}
+                  fill="none"
+                  stroke={settings.significanceLineColor}
+                  strokeWidth={Math.max(settings.significanceLineWidth, 0)}
+                  strokeLinejoin="miter"
+                />
+                {label ? (
+                  <text
+                    x={labelX}
+                    y={labelY}
+                    textAnchor="middle"
+                    fill={settings.significanceTextColor}
+                    fontFamily={globalFontFamily}
+                    fontSize={settings.significanceFontSize}
+                    transform={isHorizontal ? `rotate(90, ${labelX}, ${labelY})` : undefined}
+                  >
+                    {label}
+                  </text>
+                ) : null}
               </g>
             )
           })}
 
+          {/* Reference lines are drawn above the bars so targets stay visible */}
+          {referenceLayout
+            .filter(({ element }) => element.kind === 'line')
+            .map((item) => (
+              <g key={`reference-${item.element.id}`} pointerEvents="none">
+                {renderReferenceRule('rule', item.element, item.runsHorizontally, item.from, item.element.opacity)}
+                {renderReferenceLabel(item)}
+              </g>
+            ))}
+
+          {/* Overlay series on the secondary axis, drawn above the bars */}
+          {showSecondary ? (
+            <g onDoubleClick={(event) => sendHighlight(['secondaryAxis'], event)}>
+              {secondaryShowsLine
+                ? splitAtGaps(secondaryPoints).map((segment, index) => (
+                  <path
+                    key={`secondary-line-${index}`}
+                    d={createLinePath(segment, 'linear')}
+                    fill="none"
+                    stroke={settings.secondarySeriesColor}
+                    strokeWidth={settings.secondaryLineWidth}
+                    strokeDasharray={getLineDashArray(settings.secondaryDashStyle, settings.secondaryLineWidth)}
+                    strokeLinejoin="round"
+                    strokeLinecap="round"
+                  />
+                ))
+                : null}
+              {secondaryShowsMarkers
+                ? secondaryPoints.map((point, index) => (point ? (
+                  <path
+                    key={`secondary-marker-${index}`}
+                    d={createMarkerPath(settings.secondaryMarkerShape, point.x, point.y, settings.secondaryMarkerSize)}
+                    fill={settings.secondarySeriesColor}
+                    stroke={settings.backgroundColor}
+                    strokeWidth={1}
+                  />
+                ) : null))
+                : null}
+            </g>
+          ) : null}
+
           {/* Axes */}
           {axisStyles.x.showAxisLines ? (
             <line
@@ -1096,9 +1705,114 @@ export function ChartPreview({
             />
           ) : null}
 
+          {showSecondary && secondaryAxisStyle.showAxisLines ? (
+            <line
+              x1={secondaryAxisX}
+              x2={secondaryAxisX}
+              y1={margin.top}
+              y2={margin.top + chartBounds.height}
+              stroke={secondaryAxisStyle.axisLineColor}
+              strokeWidth={secondaryAxisStyle.axisLineWidth}
+              onDoubleClick={(event) => sendHighlight(['secondaryAxis'], event)}
+            />
+          ) : null}
+          {showSecondary && secondaryAxisStyle.showTickLabels
+            ? secondaryTicks.ticks.map((tick) => {
+              const baseX = secondaryAxisX + 10
+              const baseY = toSecondaryY(tick) + settings.secondaryAxisTickFontSize / 3
+              return (
+                <text
+                  key={`secondary-tick-${tick}`}
+                  x={baseX}
+                  y={baseY}
+                  textAnchor="start"
+                  fill={secondaryAxisStyle.tickLabelColor}
+                  fontFamily={globalFontFamily}
+                  fontSize={settings.secondaryAxisTickFontSize}
+                  transform={secondaryAxisStyle.tickLabelOrientation !== 0 ? `rotate(${secondaryAxisStyle.tickLabelOrientation}, ${baseX}, ${baseY})` : undefined}
+                  onDoubleClick={(event) => sendHighlight(['secondaryAxis'], event)}
+                >
+                  {formatTickLabel(tick)}
+                </text>
+              )
+            })
+            : null}
+          {showSecondary && secondaryAxisStyle.title.trim() ? (() => {
+            const titleX = clamp(
+              secondaryAxisX + secondaryLabelWidth + 4 + settings.secondaryAxisTitleFontSize * 0.75 + settings.secondaryAxisTitleOffsetX,
+              secondaryAxisX + 8,
+              measuredWidth - 8,
+            )
+            const titleY = margin.top + chartBounds.height / 2
+            return (
+              <text
+                {...elementDrag.bind('secondaryAxisTitle', 'x')}
+                x={titleX}
+                y={titleY}
+                textAnchor="middle"
+                fill={secondaryAxisStyle.axisLineColor}
+                fontFamily={globalFontFamily}
+                fontSize={settings.secondaryAxisTitleFontSize}
+                fontWeight={500}
+                transform={`rotate(90 ${titleX} ${titleY})`}
+                onDoubleClick={(event) => sendHighlight(['secondaryAxis'], event)}
+              >
+                {secondaryAxisStyle.title}
+              </text>
+            )
+          })() : null}
+
+          {/* Axis break marks across every bar that spans the gap, then on the value axis line */}
+          {breakSpan
+            ? barLayout
+              .filter(({ x, y, width, height }) => isHorizontalLayout
+                ? x <= breakSpan.from && x + width >= breakSpan.to
+                : y <= breakSpan.from && y + height >= breakSpan.to)
+              .map(({ data, x, y, width, height }) => renderBreakMark(
+                `bar-break-${data.id}`,
+                (isHorizontalLayout ? y : x) - 1,
+                (isHorizontalLayout ? y + height : x + width) + 1,
+                valueAxisStyle.axisLineColor,
+                Math.max(valueAxisStyle.axisLineWidth, 1),
+              ))
+            : null}
+          {breakSpan && valueAxisStyle.showAxisLines
+            ? renderBreakMark(
+              'axis-break',
+              isHorizontalLayout ? margin.top + chartBounds.height - 6 : margin.left - 6,
+              isHorizontalLayout ? margin.top + chartBounds.height + 6 : margin.left + 6,
+              valueAxisStyle.axisLineColor,
+              Math.max(valueAxisStyle.axisLineWidth, 1),
+            )
+            : null}
+
+          {/* Major and minor tick marks on the value axis of log and symlog scales */}
+          {showMinorTicks && (isHorizontalLayout ? axisStyles.x.showAxisLines : axisStyles.y.showAxisLines)
+            ? [
+              ...ticks.map((tick) => ({ tick, length: 6 })),
+              ...minorTicks.map((tick) => ({ tick, length: 3 })),
+            ].map(({ tick, length }) => {
+              const axisStyle = isHorizontalLayout ? axisStyles.x : axisStyles.y
+              const axisY = margin.top + chartBounds.height
+              const position = isHorizontalLayout ? toCanvasX(tick) : toCanvasY(tick)
+              return (
+                <line
+                  key={`tick-mark-${length}-${tick}`}
+                  x1={isHorizontalLayout ? position : margin.left - length}
+                  x2={isHorizontalLayout ? position : margin.left}
+                  y1={isHorizontalLayout ? axisY : position}
+                  y2={isHorizontalLayout ? axisY + length : position}
+                  stroke={axisStyle.axisLineColor}
+                  strokeWidth={Math.max(axisStyle.axisLineWidth / 2, 0.75)}
+                />
+              )
+            })
+            : null}
+
           {/* Axis titles */}
           {axisStyles.x.title ? (
             <text
+              {...elementDrag.bind('xAxisTitle', 'y')}
               x={(measuredWidth - margin.right + margin.left) / 2}
               y={xAxisTitleY}
               textAnchor="middle"
@@ -1116,6 +1830,7 @@ export function ChartPreview({
           ) : null}
           {axisStyles.y.title ? (
             <text
+              {...elementDrag.bind('yAxisTitle', 'x')}
               x={yAxisTitleX}
               y={yAxisTitleY}
               textAnchor="middle"
@@ -1139,12 +1854,12 @@ export function ChartPreview({
             <>
               {/* Category labels on Y-axis */}
               {axisStyles.y.showTickLabels
-                ? barLayout.map(({ data, center }) => {
+                ? categoryLayout.map(({ key, label, barId, center }) => {
                   const baseX = margin.left - 10 + (settings.yAxisTickOffsetX ?? 0)
                   const baseY = center + settings.yAxisTickFontSize / 3 + (settings.yAxisTickOffsetY ?? 0)
                   return (
                     <text
-                      key={`ylabel-${data.id}`}
+                      key={`ylabel-${key}`}
                       x={baseX}
                       y={baseY}
                       textAnchor="end"
@@ -1154,10 +1869,10 @@ export function ChartPreview({
                       transform={axisStyles.y.tickLabelOrientation !== 0 ? `rotate(${axisStyles.y.tickLabelOrientation}, ${baseX}, ${baseY})` : undefined}
                       onDoubleClick={(event) => {
                         sendHighlight(['data'], event)
-                        onRequestFocus({ type: 'barLabel', barId: data.id })
+                        onRequestFocus({ type: 'barLabel', barId })
                       }}
                     >
-                      {data.label}
+                      {label}
                     </text>
                   )
                 })
@@ -1166,7 +1881,7 @@ export function ChartPreview({
               {/* Value labels on X-axis */}
               {axisStyles.x.showTickLabels
                 ? ticks.map((tick) => {
-                  const x = margin.left + ((tick - axisMin) / axisRange) * chartBounds.width
+                  const x = toCanvasX(tick)
                   const baseX = x + (settings.xAxisTickOffsetX ?? 0)
                   const baseY = xTickBaseY + (settings.xAxisTickOffsetY ?? 0)
                   return (
@@ -1181,7 +1896,7 @@ export function ChartPreview({
                       transform={axisStyles.x.tickLabelOrientation !== 0 ? `rotate(${axisStyles.x.tickLabelOrientation}, ${baseX}, ${baseY})` : undefined}
                       onDoubleClick={(event) => sendHighlight(['xAxis'], event)}
                     >
-                      {tick.toLocaleString(undefined, { maximumFractionDigits: 2 })}
+                      {formatValueTick(tick)}
                     </text>
                   )
                 })
@@ -1209,7 +1924,7 @@ export function ChartPreview({
                       transform={axisStyles.y.tickLabelOrientation !== 0 ? `rotate(${axisStyles.y.tickLabelOrientation}, ${baseX}, ${baseY})` : undefined}
                       onDoubleClick={(event) => sendHighlight(['yAxis'], event)}
                     >
-                      {tick.toLocaleString(undefined, { maximumFractionDigits: 2 })}
+                      {formatValueTick(tick)}
                     </text>
                   )
                 })
@@ -1217,12 +1932,12 @@ export function ChartPreview({
 
               {/* Category labels on X-axis */}
               {axisStyles.x.showTickLabels
-                ? barLayout.map(({ data, center }) => {
+                ? categoryLayout.map(({ key, label, barId, center }) => {
                   const baseX = center + (settings.xAxisTickOffsetX ?? 0)
                   const baseY = xTickBaseY + (settings.xAxisTickOffsetY ?? 0)
                   return (
                     <text
-                      key={`xlabel-${data.id}`}
+                      key={`xlabel-${key}`}
                       x={baseX}
                       y={baseY}
                       textAnchor="middle"
@@ -1232,10 +1947,10 @@ export function ChartPreview({
                       transform={axisStyles.x.tickLabelOrientation !== 0 ? `rotate(${axisStyles.x.tickLabelOrientation}, ${baseX}, ${baseY})` : undefined}
                       onDoubleClick={(event) => {
                         sendHighlight(['data'], event)
-                        onRequestFocus({ type: 'barLabel', barId: data.id })
+                        onRequestFocus({ type: 'barLabel', barId })
                       }}
                     >
-                      {data.label}
+                      {label}
                     </text>
                   )
                 })
@@ -1264,10 +1979,12 @@ export function ChartPreview({
             const textDecoration = textElement.isUnderline ? 'underline' : 'none'
             const x = margin.left + textElement.x
             const y = margin.top + textElement.y
+            const textDrag = elementDrag.bind(`text:${textElement.id}`)
 
             return (
               <text
                 key={textElement.id}
+                {...textDrag}
                 x={x}
                 y={y}
                 fill={textElement.color}
@@ -1275,6 +1992,7 @@ export function ChartPreview({
                 fontFamily={textElement.fontFamily}
                 fillOpacity={textElement.opacity}
                 style={{
+                  ...textDrag.style,
                   fontWeight,
                   fontStyle,
                   textDecoration,
@@ -1300,6 +2018,7 @@ export function ChartPreview({
             return (
               <image
                 key={imageElement.id}
+                {...elementDrag.bind(`image:${imageElement.id}`)}
                 x={x}
                 y={y}
                 width={width}
@@ -1312,73 +2031,118 @@ export function ChartPreview({
             )
           })}
 
+          {/* Callouts: connector and arrowhead first, then the draggable label on top */}
+          {calloutLayout.map(({ callout, anchor, center, box }) => {
+            const connector = createCalloutConnector(callout.connector, center, box, anchor)
+            const arrowhead = createCalloutArrowhead(callout.arrowhead, anchor, connector.approach, callout.arrowSize)
+            return (
+              <g key={`callout-${callout.id}`}>
+                {callout.lineWidth > 0 ? (
+                  <path
+                    d={connector.path}
+                    fill="none"
+                    stroke={callout.lineColor}
+                    strokeWidth={callout.lineWidth}
+                    strokeLinejoin="round"
+                    pointerEvents="none"
+                  />
+                ) : null}
+                {arrowhead ? (
+                  <path
+                    d={arrowhead.path}
+                    fill={arrowhead.filled ? callout.lineColor : 'none'}
+                    stroke={callout.lineColor}
+                    strokeWidth={arrowhead.filled ? 0 : Math.max(callout.lineWidth, 1)}
+                    strokeLinejoin="round"
+                    pointerEvents="none"
+                  />
+                ) : null}
+                <g {...elementDrag.bind(`callout:${callout.id}`)}>
+                  <rect
+                    x={center.x - box.width / 2}
+                    y={center.y - box.height / 2}
+                    width={box.width}
+                    height={box.height}
+                    rx={callout.boxRadius}
+                    ry={callout.boxRadius}
+                    fill={callout.showBox ? callout.boxColor : 'transparent'}
+                    fillOpacity={callout.showBox ? callout.boxOpacity : 0}
+                    stroke={callout.showBox && callout.boxBorderWidth > 0 ? callout.boxBorderColor : 'none'}
+                    strokeWidth={callout.boxBorderWidth}
+                  />
+                  <text
+                    x={center.x}
+                    y={center.y + callout.fontSize * 0.35}
+                    textAnchor="middle"
+                    fill={callout.textColor}
+                    fontFamily={globalFontFamily}
+                    fontSize={callout.fontSize}
+                  >
+                    {callout.text}
+                  </text>
+                </g>
+              </g>
+            )
+          })}
+
           {/* Legend */}
           {settings.legend.show && settings.data.length > 0 ? (() => {
             const legend = settings.legend
-            const items = settings.data.map(bar => ({
-              label: bar.label,
-              color: bar.fillColor,
-              opacity: bar.opacity,
-              pattern: bar.pattern,
-              patternColor: bar.patternColor,
-              patternOpacity: bar.patternOpacity,
-              patternSize: bar.patternSize,
-            }))
+            // Grouped and stacked charts list one entry per series instead of one per bar
+            const barItems = usesSeries
+              ? series.map(({ label, color, bars }) => ({
+                label,
+                color,
+                opacity: bars[0].opacity,
+                pattern: bars[0].pattern,
+                patternColor: bars[0].patternColor,
+                patternOpacity: bars[0].patternOpacity,
+                patternSize: bars[0].patternSize,
+                overlay: false,
+              }))
+              : settings.data.map(bar => ({
+                label: bar.label,
+                color: bar.fillColor,
+                opacity: bar.opacity,
+                pattern: bar.pattern,
+                patternColor: bar.patternColor,
+                patternOpacity: bar.patternOpacity,
+                patternSize: bar.patternSize,
+                overlay: false,
+              }))
+            // The overlay series gets its own entry, drawn as a line/marker sample instead of a swatch
+            const items = showSecondary && secondaryValues.some((value) => value !== null)
+              ? [...barItems, {
+                label: settings.secondarySeriesName || 'Secondary',
+                color: settings.secondarySeriesColor,
+                opacity: 1,
+                pattern: 'solid' as const,
+                patternColor: settings.secondarySeriesColor,
+                patternOpacity: 1,
+                patternSize: 0,
+                overlay: true,
+              }]
+              : barItems
 
             const markerSize = legend.markerSize
-            const itemHeight = Math.max(markerSize, legend.fontSize) + legend.itemSpacing
-            const legendWidth = Math.max(...items.map(item => {
-              const textWidth = item.label.length * legend.fontSize * 0.6
-              return markerSize + legend.markerSpacing + textWidth
-            })) + legend.paddingX * 2
-            const legendHeight = items.length * itemHeight - legend.itemSpacing + legend.paddingY * 2
-
-            let legendX = 0
-            let legendY = 0
-
-            switch (legend.position) {
-              case 'top':
-                legendX = (measuredWidth - legendWidth) / 2
-                legendY = margin.top / 2 - legendHeight / 2
-                break
-              case 'bottom':
-                legendX = (measuredWidth - legendWidth) / 2
-                legendY = measuredHeight - margin.bottom / 2 - legendHeight / 2
-                break
-              case 'left':
-                legendX = margin.left / 2 - legendWidth / 2
-                legendY = (measuredHeight - legendHeight) / 2
-                break
-              case 'right':
-                legendX = measuredWidth - margin.right / 2 - legendWidth / 2
-                legendY = (measuredHeight - legendHeight) / 2
-                break
-              case 'top-left':
-                legendX = margin.left + 10
-                legendY = margin.top + 10
-                break
-              case 'top-right':
-                legendX = measuredWidth - margin.right - legendWidth - 10
-                legendY = margin.top + 10
-                break
-              case 'bottom-left':
-                legendX = margin.left + 10
-                legendY = measuredHeight - margin.bottom - legendHeight - 10
-                break
-              case 'bottom-right':
-                legendX = measuredWidth - margin.right - legendWidth - 10
-                legendY = measuredHeight - margin.bottom - legendHeight - 10
-                break
-            }
-
-            legendX += legend.offsetX
-            legendY += legend.offsetY
+            const {
+              x: legendX,
+              y: legendY,
+              width: legendWidth,
+              height: legendHeight,
+              itemHeight,
+            } = computeLegendLayout(
+              legend,
+              items.map(item => item.label),
+              { width: measuredWidth, height: measuredHeight },
+              margin,
+            )
 
             const fontWeight = legend.isBold ? 700 : 400
             const fontStyle = legend.isItalic ? 'italic' : 'normal'
 
             return (
-              <g key="legend">
+              <g key="legend" {...elementDrag.bind('legend')}>
                 {legend.borderWidth > 0 || legend.backgroundOpacity > 0 ? (
                   <rect
                     x={legendX}
@@ -1468,16 +2232,43 @@ export function ChartPreview({
                           </pattern>
                         </defs>
                       ) : null}
-                      <rect
-                        x={markerX}
-                        y={markerY}
-                        width={markerSize}
-                        height={markerSize}
-                        fill={item.pattern === 'solid' ? item.color : `url(#${patternId})`}
-                        fillOpacity={item.pattern === 'solid' ? item.opacity : 1}
-                        rx={2}
-                        ry={2}
-                      />
+                      {item.overlay ? (
+                        <>
+                          {secondaryShowsLine ? (
+                            <line
+                              x1={markerX}
+                              x2={markerX + markerSize}
+                              y1={markerY + markerSize / 2}
+                              y2={markerY + markerSize / 2}
+                              stroke={item.color}
+                              strokeWidth={Math.min(settings.secondaryLineWidth, markerSize / 2)}
+                              strokeDasharray={getLineDashArray(settings.secondaryDashStyle, Math.min(settings.secondaryLineWidth, 2))}
+                            />
+                          ) : null}
+                          {secondaryShowsMarkers ? (
+                            <path
+                              d={createMarkerPath(
+                                settings.secondaryMarkerShape,
+                                markerX + markerSize / 2,
+                                markerY + markerSize / 2,
+                                Math.min(settings.secondaryMarkerSize, markerSize),
+                              )}
+                              fill={item.color}
+                            />
+                          ) : null}
+                        </>
+                      ) : (
+                        <rect
+                          x={markerX}
+                          y={markerY}
+                          width={markerSize}
+                          height={markerSize}
+                          fill={item.pattern === 'solid' ? item.color : `url(#${patternId})`}
+                          fillOpacity={item.pattern === 'solid' ? item.opacity : 1}
+                          rx={2}
+                          ry={2}
+                        />
+                      )}
                       <text
                         x={textX}
                         y={textY}
@@ -1497,19 +2288,78 @@ export function ChartPreview({
               </g>
             )
           })() : null}
+
+          {/* Value readout while a bar end or error cap is dragged */}
+          {valueTooltip ? (
+            <g data-role="editor" pointerEvents="none">
+              <rect
+                x={valueTooltip.x}
+                y={valueTooltip.y}
+                width={valueTooltip.width}
+                height={valueTooltip.height}
+                rx={4}
+                ry={4}
+                fill="#0f172a"
+                fillOpacity={0.9}
+                stroke="#38bdf8"
+                strokeWidth={1}
+              />
+              <text
+                x={valueTooltip.x + valueTooltip.width / 2}
+                y={valueTooltip.y + valueTooltip.height / 2 + valueTooltip.fontSize * 0.35}
+                textAnchor="middle"
+                fill="#f8fafc"
+                fontFamily={globalFontFamily}
+                fontSize={valueTooltip.fontSize}
+              >
+                {valueTooltip.text}
+              </text>
+            </g>
+          ) : null}
+
+          {/* Snapping guides, only present while an element is being dragged */}
+          {elementDrag.guides.x !== null ? (
+            <line
+              data-role="editor"
+              x1={elementDrag.guides.x}
+              x2={elementDrag.guides.x}
+              y1={0}
+              y2={measuredHeight}
+              stroke="#38bdf8"
+              strokeWidth={1}
+              strokeDasharray="4 4"
+              pointerEvents="none"
+            />
+          ) : null}
+          {elementDrag.guides.y !== null ? (
+            <line
+              data-role="editor"
+              x1={0}
+              x2={measuredWidth}
+              y1={elementDrag.guides.y}
+              y2={elementDrag.guides.y}
+              stroke="#38bdf8"
+              strokeWidth={1}
+              strokeDasharray="4 4"
+              pointerEvents="none"
+            />
+          ) : null}
         </svg>
       </div>
-      <DataImportModal isOpen={isImportDialogOpen} paletteName={settings.paletteName} onCancel={handleImportCancel} onConfirm={handleImportConfirm} />
+      <DataImportModal isOpen={isImportDialogOpen} columns={barImportColumns} maxRows={1000} onCancel={handleImportCancel} onConfirm={handleImportConfirm} />
       <ExportModal
         isOpen={isExportDialogOpen}
         onClose={closeExportDialog}
-        initial={{ format: exportFormat, fileName: exportFileName, scale: exportScale, transparent: exportTransparent }}
+        initial={{ format: exportFormat, fileName: exportFileName, scale: exportScale, transparent: exportTransparent, presetId: settings.exportPresetId }}
+        svgRef={svgRef}
+        presets={settings.exportPresets}
+        onPresetsChange={(exportPresets) => onUpdateSettings({ ...settings, exportPresets })}
         onExport={async (opts) => {
           setExportFormat(opts.format)
           setExportFileName(opts.fileName)
           setExportScale(opts.scale)
           setExportTransparent(opts.transparent)
-          await handleExportConfirm()
+          await handleExportConfirm(opts)
         }}
       />
     </>
@@ -1,42 +1,116 @@
 import { Palette } from 'lucide-react';
-import { useCallback } from 'react';
+import { useCallback, useMemo } from 'react';
 import { createBar } from '../../../../shared/utils/barFactory';
+import {
+    formatErrorPair,
+    formatStatistic,
+    hasReplicates,
+    parseErrorPair,
+    parseValueList,
+    resolveBar,
+} from '../../../../shared/utils/replicates';
 import { ColorField } from '../../../../shared/components/ColorField';
-import { DataTable as SharedDataTable, type DataTableColumn } from '../../../../shared/components/DataTable';
-import type { BarDataPoint } from '../../../../types/bar';
+import { DataTable as SharedDataTable, type DataTableColumn, type DataTableRow } from '../../../../shared/components/DataTable';
+import type { BarDataPoint, ReplicateCenter, ReplicateSpread } from '../../../../types/bar';
 import type { PaletteKey } from '../../../../types/base';
 
+// Symmetric errors are stored in `error` alone; asymmetric ones also fill both overrides
+function withManualError(bar: BarDataPoint, lower: number, upper: number): BarDataPoint {
+    const next = { ...bar, error: Math.max(lower, upper) };
+    delete next.errorLower;
+    delete next.errorUpper;
+    return lower === upper ? next : { ...next, errorLower: lower, errorUpper: upper };
+}
+
 interface BarDataTableProps {
     data: BarDataPoint[];
     paletteName: PaletteKey;
+    replicateCenter: ReplicateCenter;
+    replicateSpread: ReplicateSpread;
+    // Header of the overlay value column; the column is hidden when null
+    secondaryColumnLabel?: string | null;
     onChange: (data: BarDataPoint[]) => void;
     onDesignBar?: (barIndex: number) => void;
     className?: string;
 }
 
-export function DataTable({ data, paletteName, onChange, onDesignBar, className = '' }: BarDataTableProps) {
+export function DataTable({
+    data,
+    paletteName,
+    replicateCenter,
+    replicateSpread,
+    secondaryColumnLabel = null,
+    onChange,
+    onDesignBar,
+    className = ''
+}: BarDataTableProps) {
+    // Bars with replicates show their computed value and error next to the raw measurements
+    const tableRows = useMemo<DataTableRow[]>(() => data.map((bar) => {
+        const resolved = resolveBar(bar, replicateCenter, replicateSpread);
+        const error = formatErrorPair(resolved.errorLower, resolved.errorUpper);
+        const secondaryValue = typeof bar.secondaryValue === 'number' ? bar.secondaryValue : '';
+        if (!hasReplicates(bar)) {
+            return { ...bar, error, replicates: '', secondaryValue };
+        }
+        return {
+            ...bar,
+            value: formatStatistic(resolved.value),
+            error,
+            replicates: bar.replicates?.join(', ') ?? '',
+            secondaryValue,
+        };
+    }), [data, replicateCenter, replicateSpread]);
+
     const handleCellEdit = useCallback((rowIndex: number, column: string, value: string) => {
         const updatedData = [...data];
-        const row = { ...updatedData[rowIndex] };
+        let row = { ...updatedData[rowIndex] };
+
+        const resolved = resolveBar(row, replicateCenter, replicateSpread);
 
         switch (column) {
             case 'label':
                 row.label = value || `Bar ${rowIndex + 1}`;
                 break;
+            // Typing a value or error switches a replicate bar back to manual entry
             case 'value':
+                row = withManualError(row, resolved.errorLower, resolved.errorUpper);
                 row.value = parseFloat(value) || 0;
+                delete row.replicates;
                 break;
-            case 'error':
-                row.error = parseFloat(value) || 0;
+            case 'error': {
+                // "0.5" is symmetric, "0.3 / 0.8" sets the lower and upper error separately
+                const { lower, upper } = parseErrorPair(value);
+                row = withManualError(row, lower, upper);
+                row.value = resolved.value;
+                delete row.replicates;
                 break;
+            }
+            case 'replicates': {
+                const replicates = parseValueList(value);
+                if (replicates.length) {
+                    row.replicates = replicates;
+                } else {
+                    // Keep the bar where it was when its replicates are cleared
+                    row = withManualError(row, resolved.errorLower, resolved.errorUpper);
+                    row.value = resolved.value;
+                    delete row.replicates;
+                }
+                break;
+            }
             case 'group':
                 row.group = value || `Group ${rowIndex + 1}`;
                 break;
+            // An empty cell leaves a gap in the overlay series
+            case 'secondaryValue': {
+                const parsed = Number.parseFloat(value);
+                row.secondaryValue = Number.isFinite(parsed) ? parsed : null;
+                break;
+            }
         }
 
         updatedData[rowIndex] = row;
         onChange(updatedData);
-    }, [data, onChange]);
+    }, [data, onChange, replicateCenter, replicateSpread]);
 
     const handleColorChange = useCallback((rowIndex: number, colorType: 'fillColor', value: string) => {
         const updatedData = [...data];
@@ -58,13 +132,7 @@ export function DataTable({ data, paletteName, onChange, onDesignBar, className
 
     const deleteRow = useCallback((index: number) => {
         if (data.length > 1) {
-            const updatedData = data.filter((_, i) => i !== index);
-            // Update only IDs to maintain order, but preserve all other properties including colors
-            const reindexedData = updatedData.map((bar, newIndex) => ({
-                ...bar,
-                id: `bar-${newIndex}`,
-            }));
-            onChange(reindexedData);
+            onChange(data.filter((_, i) => i !== index));
         }
     }, [data, onChange]);
 
@@ -79,24 +147,19 @@ export function DataTable({ data, paletteName, onChange, onDesignBar, className
         const actualDropIndex = fromIndex < toIndex ? toIndex - 1 : toIndex;
         updatedData.splice(actualDropIndex, 0, draggedItem);
 
-        // Update only IDs to maintain order, but preserve all other properties including colors
-        const reindexedData = updatedData.map((bar, newIndex) => ({
-            ...bar,
-            id: `bar-${newIndex}`,
-        }));
-
-        onChange(reindexedData);
+        // Ids stay with their bars so significance brackets keep pointing at the same data
+        onChange(updatedData);
     }, [data, onChange]);
 
-    const columns: DataTableColumn<BarDataPoint>[] = [
+    const columns: DataTableColumn<DataTableRow>[] = [
         {
             key: 'fillColor',
             label: 'Color',
             width: 'w-32 sm:w-48',
-            render: (_, row, index) => (
+            render: (_, _row, index) => (
                 <ColorField
                     label=""
-                    value={row.fillColor}
+                    value={data[index]?.fillColor ?? ''}
                     onChange={(value) => handleColorChange(index, 'fillColor', value)}
                     inputProps={{ className: "text-xs" }}
                 />
@@ -112,15 +175,23 @@ export function DataTable({ data, paletteName, onChange, onDesignBar, className
         },
         {
             key: 'error',
-            label: 'Error (SD)'
+            label: 'Error'
+        },
+        {
+            key: 'replicates',
+            label: 'Replicates'
         },
         {
             key: 'group',
             label: 'Group'
-        }
+        },
+        ...(secondaryColumnLabel !== null ? [{
+            key: 'secondaryValue',
+            label: secondaryColumnLabel
+        }] : [])
     ];
 
-    const renderActions = useCallback((_row: BarDataPoint, index: number) => (
+    const renderActions = useCallback((_row: DataTableRow, index: number) => (
         <>
             {onDesignBar && (
                 <button
@@ -136,7 +207,7 @@ export function DataTable({ data, paletteName, onChange, onDesignBar, className
 
     return (
         <SharedDataTable
-            data={data}
+            data={tableRows}
             columns={columns}
             onRowAdd={addRow}
             onRowDelete={deleteRow}
@@ -0,0 +1,298 @@
+import { useState } from 'react'
+import { Plus, Trash2 } from 'lucide-react'
+import { ColorField } from '../../../../shared/components/ColorField'
+import { GroupComponents } from '../../../../shared/components/GroupComponents'
+import { NumericInput } from '../../../../shared/components/NumericInput'
+import { SelectField } from '../../../../shared/components/SelectField'
+import { TextInput } from '../../../../shared/components/TextInput'
+import { Toggle } from '../../../../shared/components/Toggle'
+import { getBarCategories, getGroupKey } from '../../../../shared/utils/barGrouping'
+import {
+    calloutAnchorOptions,
+    calloutArrowheadOptions,
+    calloutConnectorOptions,
+    createCalloutAnnotation,
+} from '../../../../shared/utils/callouts'
+import type {
+    BarChartSettings,
+    CalloutAnchorType,
+    CalloutAnnotation,
+    CalloutArrowhead,
+    CalloutConnector,
+} from '../../../../types/bar'
+
+interface CalloutsBlockProps {
+    settings: BarChartSettings;
+    onChange: (settings: BarChartSettings) => void;
+}
+
+export function CalloutsBlock({ settings, onChange }: CalloutsBlockProps) {
+    const callouts = settings.calloutAnnotations ?? []
+    const [selectedId, setSelectedId] = useState<string>(callouts[0]?.id || '')
+    const selected = callouts.find(item => item.id === selectedId) || callouts[0]
+
+    const categoryCount = (settings.layoutMode ?? 'flat') === 'flat'
+        ? settings.data.length
+        : getBarCategories(settings.data).length
+
+    const setCallouts = (next: CalloutAnnotation[]) => onChange({ ...settings, calloutAnnotations: next })
+
+    const updateCallout = <K extends keyof Omit<CalloutAnnotation, 'id'>>(
+        calloutId: string,
+        field: K,
+        value: CalloutAnnotation[K]
+    ) => {
+        setCallouts(callouts.map(item => item.id === calloutId ? { ...item, [field]: value } : item))
+    }
+
+    // New callouts point at the first bar; the user re-targets them afterwards
+    const addCallout = () => {
+        const [first] = settings.data
+        const callout = createCalloutAnnotation(first?.id ?? null, first?.value ?? 0)
+        setCallouts([...callouts, callout])
+        setSelectedId(callout.id)
+    }
+
+    const removeCallout = (calloutId: string) => {
+        const next = callouts.filter(item => item.id !== calloutId)
+        setCallouts(next)
+        if (calloutId === selectedId) {
+            setSelectedId(next[0]?.id || '')
+        }
+    }
+
+    const barOptions = settings.data.map((bar, index) => {
+        const group = getGroupKey(bar)
+        const label = bar.label || `Bar ${index + 1}`
+        return { value: bar.id, label: group ? `${label} (${group})` : label }
+    })
+    const missingBar = selected?.anchorType === 'bar' && !settings.data.some(bar => bar.id === selected.barId)
+
+    return {
+        callouts: (
+            <div className="space-y-6">
+                <div className="flex items-center justify-start gap-4">
+                    <span className="text-sm font-semibold text-white/80 whitespace-nowrap">Active Callout:</span>
+                    <SelectField<string>
+                        className="flex-1"
+                        label=""
+                        value={selected?.id ?? ''}
+                        onChange={setSelectedId}
+                        options={callouts.map((item, index) => ({
+                            value: item.id,
+                            label: item.text || `Callout ${index + 1}`
+                        }))}
+                        placeholder="No callouts yet"
+                        disabled={callouts.length === 0}
+                    />
+                    <button
+                        type="button"
+                        onClick={addCallout}
+                        className="flex items-center gap-1 rounded-md border border-white/10 bg-white/10 px-2 py-1.5 text-xs font-medium text-white transition hover:bg-white/20"
+                        title="Add a callout"
+                    >
+                        <Plus className="h-3 w-3" />
+                    </button>
+                    {selected && (
+                        <button
+                            type="button"
+                            onClick={() => removeCallout(selected.id)}
+                            className="flex items-center gap-1 rounded-md border border-red-400/20 bg-red-500/10 px-2 py-1.5 text-xs font-medium text-red-400 transition hover:bg-red-500/20"
+                            title="Delete this callout"
+                        >
+                            <Trash2 className="h-3 w-3" />
+                        </button>
+                    )}
+                </div>
+
+                {selected ? (
+                    <div className="space-y-4">
+                        <TextInput
+                            label="Text"
+                            value={selected.text}
+                            onChange={(value) => updateCallout(selected.id, 'text', value)}
+                            placeholder="Callout text"
+                        />
+
+                        <GroupComponents
+                            maxColumns={3}
+                            gap={2}
+                            rowGap={2}
+                        >
+                            <SelectField<CalloutAnchorType>
+                                label="Points at"
+                                value={selected.anchorType}
+                                onChange={(value) => updateCallout(selected.id, 'anchorType', value)}
+                                options={calloutAnchorOptions}
+                            />
+                            {selected.anchorType === 'bar' ? (
+                                <SelectField<string>
+                                    label="Bar"
+                                    value={selected.barId}
+                                    onChange={(value) => updateCallout(selected.id, 'barId', value)}
+                                    options={barOptions}
+                                    placeholder="Select bar"
+                                />
+                            ) : (
+                                <NumericInput
+                                    title="Category"
+                                    value={selected.category}
+                                    min={0.5}
+                                    max={Math.max(categoryCount, 1) + 0.5}
+                                    step={0.5}
+                                    precision={1}
+                                    onChange={(value) => updateCallout(selected.id, 'category', value)}
+                                />
+                            )}
+                            {selected.anchorType === 'point' ? (
+                                <TextInput
+                                    label="Value"
+                                    type="number"
+                                    value={String(selected.value)}
+                                    onChange={(text) => {
+                                        const parsed = Number.parseFloat(text)
+                                        if (Number.isFinite(parsed)) updateCallout(selected.id, 'value', parsed)
+                                    }}
+                                />
+                            ) : null}
+                        </GroupComponents>
+
+                        {missingBar ? (
+                            <p className="text-xs text-rose-200">The bar this callout pointed at no longer exists. Pick another bar to show it.</p>
+                        ) : (
+                            <p className="text-xs text-white/50">Drag the label in the preview to move it; it stays attached to its anchor.</p>
+                        )}
+                    </div>
+                ) : null}
+            </div>
+        ),
+
+        connector: selected ? (
+            <GroupComponents
+                maxColumns={3}
+                gap={2}
+                rowGap={2}
+            >
+                <SelectField<CalloutConnector>
+                    label="Connector"
+                    value={selected.connector}
+                    onChange={(value) => updateCallout(selected.id, 'connector', value)}
+                    options={calloutConnectorOptions}
+                />
+                <SelectField<CalloutArrowhead>
+                    label="Arrowhead"
+                    value={selected.arrowhead}
+                    onChange={(value) => updateCallout(selected.id, 'arrowhead', value)}
+                    options={calloutArrowheadOptions}
+                />
+                <NumericInput
+                    title="Arrow size"
+                    value={selected.arrowSize}
+                    min={0}
+                    max={32}
+                    step={1}
+                    precision={0}
+                    onChange={(value) => updateCallout(selected.id, 'arrowSize', value)}
+                    suffix="px"
+                    disabled={selected.arrowhead === 'none'}
+                />
+                <ColorField
+                    label="Line color"
+                    value={selected.lineColor}
+                    onChange={(value) => updateCallout(selected.id, 'lineColor', value)}
+                />
+                <NumericInput
+                    title="Line width"
+                    value={selected.lineWidth}
+                    min={0}
+                    max={8}
+                    step={0.5}
+                    precision={1}
+                    onChange={(value) => updateCallout(selected.id, 'lineWidth', value)}
+                    suffix="px"
+                />
+            </GroupComponents>
+        ) : null,
+
+        label: selected ? (
+            <GroupComponents
+                maxColumns={3}
+                gap={2}
+                rowGap={2}
+            >
+                <NumericInput
+                    title="Font size"
+                    value={selected.fontSize}
+                    min={6}
+                    max={48}
+                    step={1}
+                    precision={0}
+                    onChange={(value) => updateCallout(selected.id, 'fontSize', value)}
+                    suffix="px"
+                />
+                <ColorField
+                    label="Text color"
+                    value={selected.textColor}
+                    onChange={(value) => updateCallout(selected.id, 'textColor', value)}
+                />
+                <Toggle
+                    title="Show box"
+                    value={selected.showBox}
+                    onChange={(value) => updateCallout(selected.id, 'showBox', value)}
+                />
+                <ColorField
+                    label="Box color"
+                    value={selected.boxColor}
+                    onChange={(value) => updateCallout(selected.id, 'boxColor', value)}
+                />
+                <NumericInput
+                    title="Box opacity"
+                    value={selected.boxOpacity}
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    precision={2}
+                    onChange={(value) => updateCallout(selected.id, 'boxOpacity', value)}
+                    disabled={!selected.showBox}
+                />
+                <ColorField
+                    label="Border color"
+                    value={selected.boxBorderColor}
+                    onChange={(value) => updateCallout(selected.id, 'boxBorderColor', value)}
+                />
+                <NumericInput
+                    title="Border width"
+                    value={selected.boxBorderWidth}
+                    min={0}
+                    max={6}
+                    step={0.5}
+                    precision={1}
+                    onChange={(value) => updateCallout(selected.id, 'boxBorderWidth', value)}
+                    suffix="px"
+                    disabled={!selected.showBox}
+                />
+                <NumericInput
+                    title="Padding"
+                    value={selected.boxPadding}
+                    min={0}
+                    max={24}
+                    step={1}
+                    precision={0}
+                    onChange={(value) => updateCallout(selected.id, 'boxPadding', value)}
+                    suffix="px"
+                />
+                <NumericInput
+                    title="Corner radius"
+                    value={selected.boxRadius}
+                    min={0}
+                    max={24}
+                    step={1}
+                    precision={0}
+                    onChange={(value) => updateCallout(selected.id, 'boxRadius', value)}
+                    suffix="px"
+                    disabled={!selected.showBox}
+                />
+            </GroupComponents>
+        ) : null
+    }
+}
@@ -3,20 +3,20 @@ import { ColorField } from '../../../../shared/components/ColorField'
 import { NumericInput } from '../../../../shared/components/NumericInput'
 import { SelectField } from '../../../../shared/components/SelectField'
 import { GroupComponents } from '../../../../shared/components/GroupComponents'
-import type { BarChartSettings } from '../../../../types/bar'
 import type { AxisSettings } from '../../../../types/base'
+import type { AxisBlockSettings } from './axisSync'
 
-type GridBlockProps = {
-    settings: BarChartSettings
-    onChange: (settings: BarChartSettings) => void
+type GridBlockProps<TSettings extends AxisBlockSettings> = {
+    settings: TSettings
+    onChange: (settings: TSettings) => void
 }
 
-export function GridBlock({ settings, onChange }: GridBlockProps) {
+export function GridBlock<TSettings extends AxisBlockSettings>({ settings, onChange }: GridBlockProps<TSettings>) {
     const [gridSynced, setGridSynced] = useState(false)
 
     const updateXAxisField = <K extends keyof AxisSettings>(key: K, value: AxisSettings[K]) => {
         const nextXAxis = { ...settings.xAxis, [key]: value }
-        const updates: Partial<BarChartSettings> = { xAxis: nextXAxis }
+        const updates: Partial<AxisBlockSettings> = { xAxis: nextXAxis }
 
         // If grid is synced, also update Y-axis
         if (gridSynced) {
@@ -28,7 +28,7 @@ export function GridBlock({ settings, onChange }: GridBlockProps) {
 
     const updateYAxisField = <K extends keyof AxisSettings>(key: K, value: AxisSettings[K]) => {
         const nextYAxis = { ...settings.yAxis, [key]: value }
-        const updates: Partial<BarChartSettings> = { yAxis: nextYAxis }
+        const updates: Partial<AxisBlockSettings> = { yAxis: nextYAxis }
 
         // If grid is synced, also update X-axis
         if (gridSynced) {
@@ -0,0 +1,250 @@
+import { useState } from 'react'
+import { Plus, Trash2 } from 'lucide-react'
+import { ColorField } from '../../../../shared/components/ColorField'
+import { GroupComponents } from '../../../../shared/components/GroupComponents'
+import { NumericInput } from '../../../../shared/components/NumericInput'
+import { SelectField } from '../../../../shared/components/SelectField'
+import { TextInput } from '../../../../shared/components/TextInput'
+import { getBarCategories } from '../../../../shared/utils/barGrouping'
+import { dashStyleOptions } from '../../../../shared/utils/linePaths'
+import {
+    createReferenceElement,
+    referenceAxisOptions,
+    referenceKindOptions,
+    referenceLabelPositionOptions,
+} from '../../../../shared/utils/referenceElements'
+import type {
+    BarChartSettings,
+    ReferenceAxis,
+    ReferenceElement,
+    ReferenceKind,
+    ReferenceLabelPosition,
+} from '../../../../types/bar'
+import type { LineDashStyle } from '../../../../types/line'
+
+interface ReferenceElementsBlockProps {
+    settings: BarChartSettings;
+    onChange: (settings: BarChartSettings) => void;
+    // Range of the plotted values, used to place new elements inside the visible data
+    valueExtent?: { min: number; max: number };
+}
+
+export function ReferenceElementsBlock({ settings, onChange, valueExtent = { min: 0, max: 100 } }: ReferenceElementsBlockProps) {
+    const elements = settings.referenceElements ?? []
+    const [selectedId, setSelectedId] = useState<string>(elements[0]?.id || '')
+    const selected = elements.find(item => item.id === selectedId) || elements[0]
+
+    const categoryCount = (settings.layoutMode ?? 'flat') === 'flat'
+        ? settings.data.length
+        : getBarCategories(settings.data).length
+
+    const setElements = (next: ReferenceElement[]) => onChange({ ...settings, referenceElements: next })
+
+    const updateElement = <K extends keyof Omit<ReferenceElement, 'id'>>(
+        elementId: string,
+        field: K,
+        value: ReferenceElement[K]
+    ) => {
+        setElements(elements.map(item => item.id === elementId ? { ...item, [field]: value } : item))
+    }
+
+    // New lines sit at the data maximum and new bands cover its upper half, so both show up immediately
+    const addElement = (kind: ReferenceKind) => {
+        const low = Math.min(valueExtent.min, 0)
+        const high = valueExtent.max > low ? valueExtent.max : low + 1
+        const element = createReferenceElement(kind, kind === 'band' ? (low + high) / 2 : high, high)
+        setElements([...elements, element])
+        setSelectedId(element.id)
+    }
+
+    const removeElement = (elementId: string) => {
+        const next = elements.filter(item => item.id !== elementId)
+        setElements(next)
+        if (elementId === selectedId) {
+            setSelectedId(next[0]?.id || '')
+        }
+    }
+
+    // Moving an element between axes resets it to a position that exists on the new axis
+    const changeAxis = (element: ReferenceElement, axis: ReferenceAxis) => {
+        if (axis === element.axis) return
+        const position = axis === 'category'
+            ? { value: 1.5, endValue: Math.min(2.5, categoryCount + 0.5) }
+            : { value: valueExtent.max, endValue: (Math.min(valueExtent.min, 0) + valueExtent.max) / 2 }
+        setElements(elements.map(item => item.id === element.id ? { ...item, axis, ...position } : item))
+    }
+
+    const parseValue = (text: string, fallback: number) => {
+        const parsed = Number.parseFloat(text)
+        return Number.isFinite(parsed) ? parsed : fallback
+    }
+
+    const positionInput = (element: ReferenceElement, field: 'value' | 'endValue', title: string) => (
+        element.axis === 'category' ? (
+            <NumericInput
+                title={title}
+                value={element[field]}
+                min={0.5}
+                max={Math.max(categoryCount, 1) + 0.5}
+                step={0.5}
+                precision={1}
+                onChange={(value) => updateElement(element.id, field, value)}
+            />
+        ) : (
+            <TextInput
+                label={title}
+                type="number"
+                value={String(element[field])}
+                onChange={(text) => updateElement(element.id, field, parseValue(text, element[field]))}
+            />
+        )
+    )
+
+    return {
+        elements: (
+            <div className="space-y-6">
+                <div className="flex items-center justify-start gap-4">
+                    <span className="text-sm font-semibold text-white/80 whitespace-nowrap">Active Element:</span>
+                    <SelectField<string>
+                        className="flex-1"
+                        label=""
+                        value={selected?.id ?? ''}
+                        onChange={setSelectedId}
+                        options={elements.map((item, index) => ({
+                            value: item.id,
+                            label: item.label || `${item.kind === 'band' ? 'Band' : 'Line'} ${index + 1}`
+                        }))}
+                        placeholder="No reference elements yet"
+                        disabled={elements.length === 0}
+                    />
+                    <button
+                        type="button"
+                        onClick={() => addElement('line')}
+                        className="flex items-center gap-1 rounded-md border border-white/10 bg-white/10 px-2 py-1.5 text-xs font-medium text-white transition hover:bg-white/20"
+                        title="Add a reference line"
+                    >
+                        <Plus className="h-3 w-3" />
+                        Line
+                    </button>
+                    <button
+                        type="button"
+                        onClick={() => addElement('band')}
+                        className="flex items-center gap-1 rounded-md border border-white/10 bg-white/10 px-2 py-1.5 text-xs font-medium text-white transition hover:bg-white/20"
+                        title="Add a shaded band"
+                    >
+                        <Plus className="h-3 w-3" />
+                        Band
+                    </button>
+                    {selected && (
+                        <button
+                            type="button"
+                            onClick={() => removeElement(selected.id)}
+                            className="flex items-center gap-1 rounded-md border border-red-400/20 bg-red-500/10 px-2 py-1.5 text-xs font-medium text-red-400 transition hover:bg-red-500/20"
+                            title="Delete this element"
+                        >
+                            <Trash2 className="h-3 w-3" />
+                        </button>
+                    )}
+                </div>
+
+                {selected ? (
+                    <div className="space-y-4">
+                        <GroupComponents
+                            maxColumns={3}
+                            gap={2}
+                            rowGap={2}
+                        >
+                            <SelectField<ReferenceKind>
+                                label="Type"
+                                value={selected.kind}
+                                onChange={(value) => updateElement(selected.id, 'kind', value)}
+                                options={referenceKindOptions}
+                            />
+                            <SelectField<ReferenceAxis>
+                                label="Anchored to"
+                                value={selected.axis}
+                                onChange={(value) => changeAxis(selected, value)}
+                                options={referenceAxisOptions}
+                            />
+                            {positionInput(selected, 'value', selected.kind === 'band' ? 'From' : 'Position')}
+                            {selected.kind === 'band' && positionInput(selected, 'endValue', 'To')}
+                        </GroupComponents>
+
+                        <GroupComponents
+                            maxColumns={2}
+                            gap={2}
+                            rowGap={2}
+                        >
+                            <TextInput
+                                label="Label"
+                                value={selected.label}
+                                onChange={(value) => updateElement(selected.id, 'label', value)}
+                                placeholder="No label"
+                            />
+                            <SelectField<ReferenceLabelPosition>
+                                label="Label position"
+                                value={selected.labelPosition}
+                                onChange={(value) => updateElement(selected.id, 'labelPosition', value)}
+                                options={referenceLabelPositionOptions}
+                            />
+                        </GroupComponents>
+
+                        <GroupComponents
+                            maxColumns={2}
+                            gap={2}
+                            rowGap={2}
+                        >
+                            <ColorField
+                                label="Color"
+                                value={selected.color}
+                                onChange={(value) => updateElement(selected.id, 'color', value)}
+                            />
+                            <NumericInput
+                                title={selected.kind === 'band' ? 'Fill opacity' : 'Opacity'}
+                                value={selected.opacity}
+                                min={0}
+                                max={1}
+                                step={0.05}
+                                precision={2}
+                                onChange={(value) => updateElement(selected.id, 'opacity', value)}
+                            />
+                            <NumericInput
+                                title={selected.kind === 'band' ? 'Edge width' : 'Line width'}
+                                value={selected.lineWidth}
+                                min={0}
+                                max={8}
+                                step={0.5}
+                                precision={1}
+                                onChange={(value) => updateElement(selected.id, 'lineWidth', value)}
+                                suffix="px"
+                            />
+                            <SelectField<LineDashStyle>
+                                label="Dash pattern"
+                                value={selected.dashStyle}
+                                onChange={(value) => updateElement(selected.id, 'dashStyle', value)}
+                                options={dashStyleOptions}
+                            />
+                        </GroupComponents>
+                    </div>
+                ) : (
+                    <p className="text-xs text-white/50">
+                        Reference lines and bands are placed at data values, so they follow the axis when its range or the canvas size changes.
+                    </p>
+                )}
+            </div>
+        ),
+
+        style: (
+            <NumericInput
+                title="Label font size"
+                value={settings.referenceLabelFontSize}
+                min={6}
+                max={48}
+                step={1}
+                precision={0}
+                onChange={(value) => onChange({ ...settings, referenceLabelFontSize: value })}
+                suffix="px"
+            />
+        )
+    }
+}
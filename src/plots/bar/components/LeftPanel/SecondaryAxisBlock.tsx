@@ -0,0 +1,236 @@
+import { ColorField } from '../../../../shared/components/ColorField'
+import { NumericInput } from '../../../../shared/components/NumericInput'
+import { AutoNumericInput } from '../../../../shared/components/AutoNumericInput'
+import { GroupComponents } from '../../../../shared/components/GroupComponents'
+import { SelectField } from '../../../../shared/components/SelectField'
+import { TextInput } from '../../../../shared/components/TextInput'
+import { dashStyleOptions } from '../../../../shared/utils/linePaths'
+import { markerShapeOptions } from '../../../../shared/utils/markers'
+import type { BarChartSettings, SecondarySeriesStyle } from '../../../../types/bar'
+import type { AxisSettings } from '../../../../types/base'
+import type { LineDashStyle } from '../../../../types/line'
+import type { ScatterPointShape } from '../../../../types/scatter'
+
+const secondarySeriesStyleOptions: Array<{ value: SecondarySeriesStyle; label: string }> = [
+    { value: 'line-markers', label: 'Line + markers' },
+    { value: 'line', label: 'Line' },
+    { value: 'markers', label: 'Markers' },
+]
+
+type SecondaryAxisBlockProps = {
+    settings: BarChartSettings
+    onChange: (settings: BarChartSettings) => void
+}
+
+export function SecondaryAxisBlock({ settings, onChange }: SecondaryAxisBlockProps) {
+    const update = <K extends keyof BarChartSettings>(key: K, value: BarChartSettings[K]) => {
+        onChange({ ...settings, [key]: value })
+    }
+
+    const updateAxisField = <K extends keyof AxisSettings>(key: K, value: AxisSettings[K]) => {
+        onChange({ ...settings, secondaryAxis: { ...settings.secondaryAxis, [key]: value } })
+    }
+
+    const showLine = settings.secondarySeriesStyle !== 'markers'
+    const showMarkers = settings.secondarySeriesStyle !== 'line'
+
+    return {
+        series: (
+            <div className="space-y-4">
+                <GroupComponents
+                    maxColumns={3}
+                    gap={2}
+                    rowGap={2}
+                >
+                    <TextInput
+                        label="Series name"
+                        value={settings.secondarySeriesName}
+                        onChange={(value) => update('secondarySeriesName', value)}
+                        placeholder="Legend label"
+                    />
+                    <ColorField
+                        label="Color"
+                        value={settings.secondarySeriesColor}
+                        onChange={(value) => update('secondarySeriesColor', value)}
+                    />
+                    <SelectField<SecondarySeriesStyle>
+                        label="Draw as"
+                        value={settings.secondarySeriesStyle}
+                        onChange={(value) => update('secondarySeriesStyle', value)}
+                        options={secondarySeriesStyleOptions}
+                    />
+                    <NumericInput
+                        title="Line width"
+                        value={settings.secondaryLineWidth}
+                        min={0.5}
+                        max={12}
+                        step={0.5}
+                        precision={1}
+                        onChange={(value) => update('secondaryLineWidth', value)}
+                        suffix="px"
+                        disabled={!showLine}
+                    />
+                    <SelectField<LineDashStyle>
+                        label="Dash pattern"
+                        value={settings.secondaryDashStyle}
+                        onChange={(value) => update('secondaryDashStyle', value)}
+                        options={dashStyleOptions}
+                        disabled={!showLine}
+                    />
+                    <SelectField<ScatterPointShape>
+                        label="Marker shape"
+                        value={settings.secondaryMarkerShape}
+                        onChange={(value) => update('secondaryMarkerShape', value)}
+                        options={markerShapeOptions}
+                        disabled={!showMarkers}
+                    />
+                    <NumericInput
+                        title="Marker size"
+                        value={settings.secondaryMarkerSize}
+                        min={2}
+                        max={32}
+                        step={1}
+                        precision={0}
+                        onChange={(value) => update('secondaryMarkerSize', value)}
+                        suffix="px"
+                        disabled={!showMarkers}
+                    />
+                </GroupComponents>
+
+                {settings.orientation === 'horizontal' && (
+                    <p className="text-xs text-white/50">The secondary axis is only drawn in vertical orientation.</p>
+                )}
+            </div>
+        ),
+
+        title: (
+            <div className="space-y-6">
+                <TextInput
+                    label="Axis title"
+                    value={settings.secondaryAxis.title}
+                    onChange={(value) => updateAxisField('title', value)}
+                    placeholder="Secondary axis title"
+                />
+
+                {settings.secondaryAxis.title.trim() && (
+                    <GroupComponents
+                        maxColumns={2}
+                        gap={2}
+                        rowGap={2}
+                    >
+                        <NumericInput
+                            title="Title font size"
+                            value={settings.secondaryAxisTitleFontSize}
+                            min={8}
+                            max={72}
+                            step={1}
+                            precision={0}
+                            onChange={(value) => update('secondaryAxisTitleFontSize', value)}
+                            suffix="px"
+                        />
+                        <NumericInput
+                            title="Title offset"
+                            value={settings.secondaryAxisTitleOffsetX}
+                            min={-200}
+                            max={200}
+                            step={1}
+                            precision={0}
+                            onChange={(value) => update('secondaryAxisTitleOffsetX', value)}
+                            suffix="px"
+                        />
+                    </GroupComponents>
+                )}
+            </div>
+        ),
+
+        appearance: (
+            <GroupComponents
+                maxColumns={2}
+                gap={2}
+                rowGap={2}
+            >
+                <NumericInput
+                    title="Line width"
+                    value={settings.secondaryAxis.axisLineWidth}
+                    min={0}
+                    max={8}
+                    step={0.5}
+                    precision={1}
+                    onChange={(value) => updateAxisField('axisLineWidth', value)}
+                />
+                <ColorField
+                    label="Line color"
+                    value={settings.secondaryAxis.axisLineColor}
+                    onChange={(value) => updateAxisField('axisLineColor', value)}
+                />
+            </GroupComponents>
+        ),
+
+        ticks: (
+            <GroupComponents
+                maxColumns={3}
+                gap={2}
+                rowGap={2}
+            >
+                <NumericInput
+                    title="Label font size"
+                    value={settings.secondaryAxisTickFontSize}
+                    min={6}
+                    max={48}
+                    step={1}
+                    precision={0}
+                    onChange={(value) => update('secondaryAxisTickFontSize', value)}
+                    suffix="px"
+                />
+                <ColorField
+                    label="Label color"
+                    value={settings.secondaryAxis.tickLabelColor}
+                    onChange={(value) => updateAxisField('tickLabelColor', value)}
+                />
+                <NumericInput
+                    title="Label orientation"
+                    value={settings.secondaryAxis.tickLabelOrientation}
+                    onChange={(value) => updateAxisField('tickLabelOrientation', value)}
+                    min={0}
+                    max={360}
+                    step={15}
+                    precision={0}
+                    suffix="°"
+                />
+                <AutoNumericInput
+                    title="Min"
+                    value={settings.secondaryAxisMin}
+                    onChange={(value) => update('secondaryAxisMin', value)}
+                    min={-1000}
+                    max={1000}
+                    step={1}
+                    precision={1}
+                    autoValue={0}
+                    placeholder="auto"
+                />
+                <AutoNumericInput
+                    title="Max"
+                    value={settings.secondaryAxisMax}
+                    onChange={(value) => update('secondaryAxisMax', value)}
+                    min={-1000}
+                    max={1000}
+                    step={1}
+                    precision={1}
+                    autoValue={100}
+                    placeholder="auto"
+                />
+                <AutoNumericInput
+                    title="Tick step"
+                    value={settings.secondaryAxisTickStep}
+                    onChange={(value) => update('secondaryAxisTickStep', value)}
+                    min={0.001}
+                    max={100}
+                    step={0.001}
+                    precision={3}
+                    autoValue={10}
+                    placeholder="auto"
+                />
+            </GroupComponents>
+        )
+    }
+}
@@ -1,7 +1,14 @@
 import { ColorField } from '../../../../shared/components/ColorField';
 import { GroupComponents } from '../../../../shared/components/GroupComponents';
 import { NumericInput } from '../../../../shared/components/NumericInput';
-import type { BarChartSettings } from '../../../../types/bar';
+import { SelectField } from '../../../../shared/components/SelectField';
+import type { BarChartSettings, StackLabelMode } from '../../../../types/bar';
+
+const stackLabelOptions: Array<{ value: StackLabelMode; label: string }> = [
+    { value: 'segment', label: 'Per segment' },
+    { value: 'total', label: 'Stack total' },
+    { value: 'both', label: 'Segments & total' },
+];
 
 type ValueLabelsBlockProps = {
     settings: BarChartSettings;
@@ -55,6 +62,13 @@ export function ValueLabelsBlock({ settings, onChange }: ValueLabelsBlockProps)
                     onChange={(value) => update('valueLabelOffsetY', value)}
                     suffix="px"
                 />
+                <SelectField<StackLabelMode>
+                    label="Stacked labels"
+                    value={settings.stackLabelMode}
+                    onChange={(value) => update('stackLabelMode', value)}
+                    options={stackLabelOptions}
+                    disabled={settings.layoutMode !== 'stacked' && settings.layoutMode !== 'stacked100'}
+                />
             </GroupComponents>
         )
     };
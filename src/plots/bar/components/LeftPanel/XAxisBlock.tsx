@@ -2,21 +2,20 @@ import { useEffect, useRef } from 'react'
 import { ColorField } from '../../../../shared/components/ColorField'
 import { NumericInput } from '../../../../shared/components/NumericInput'
 import { GroupComponents } from '../../../../shared/components/GroupComponents'
-import type { BarChartSettings } from '../../../../types/bar'
 import type { AxisSettings, FocusRequest } from '../../../../types/base'
-import { shouldSyncAxisField } from './axisSync'
+import { shouldSyncAxisField, type AxisBlockSettings } from './axisSync'
 
-type XAxisBlockProps = {
-    settings: BarChartSettings
-    onChange: (settings: BarChartSettings) => void
+type XAxisBlockProps<TSettings extends AxisBlockSettings> = {
+    settings: TSettings
+    onChange: (settings: TSettings) => void
     focusRequest?: FocusRequest | null
 }
 
-export function XAxisBlock({ settings, onChange, focusRequest }: XAxisBlockProps) {
+export function XAxisBlock<TSettings extends AxisBlockSettings>({ settings, onChange, focusRequest }: XAxisBlockProps<TSettings>) {
     const xAxisTitleRef = useRef<HTMLInputElement | null>(null)
     const handledFocusRef = useRef(0)
 
-    const update = <K extends keyof BarChartSettings>(key: K, value: BarChartSettings[K]) => {
+    const update = <K extends keyof TSettings>(key: K, value: TSettings[K]) => {
         onChange({ ...settings, [key]: value })
     }
 
@@ -3,24 +3,74 @@ import { ColorField } from '../../../../shared/components/ColorField'
 import { NumericInput } from '../../../../shared/components/NumericInput'
 import { AutoNumericInput } from '../../../../shared/components/AutoNumericInput'
 import { GroupComponents } from '../../../../shared/components/GroupComponents'
-import type { BarChartSettings } from '../../../../types/bar'
-import type { AxisSettings, FocusRequest } from '../../../../types/base'
-import { shouldSyncAxisField } from './axisSync'
+import { SelectField } from '../../../../shared/components/SelectField'
+import { Toggle } from '../../../../shared/components/Toggle'
+import { axisScaleOptions, isLogScale } from '../../../../shared/utils/scales'
+import type { AxisScaleType, AxisSettings, FocusRequest } from '../../../../types/base'
+import { shouldSyncAxisField, type AxisBlockSettings, type AxisBreakSettings, type AxisScaleSettings } from './axisSync'
 
-type YAxisBlockProps = {
-    settings: BarChartSettings
-    onChange: (settings: BarChartSettings) => void
+type YAxisBlockProps<TSettings extends AxisBlockSettings> = {
+    settings: TSettings
+    onChange: (settings: TSettings) => void
     focusRequest?: FocusRequest | null
+    // Plotted values that are zero or negative; they cannot be placed on a log axis
+    nonPositiveCount?: number
+    // Range of the plotted values, used to bound the axis break inputs
+    valueExtent?: { min: number; max: number }
 }
 
-export function YAxisBlock({ settings, onChange, focusRequest }: YAxisBlockProps) {
+export function YAxisBlock<TSettings extends AxisBlockSettings>({
+    settings,
+    onChange,
+    focusRequest,
+    nonPositiveCount = 0,
+    valueExtent = { min: 0, max: 100 }
+}: YAxisBlockProps<TSettings>) {
+    const scaleSettings = 'yAxisScale' in settings ? (settings as TSettings & AxisScaleSettings) : null
+    const breakSettings = 'yAxisBreakEnabled' in settings ? (settings as TSettings & AxisBreakSettings) : null
+    const logScale = scaleSettings ? isLogScale(scaleSettings.yAxisScale) : false
+    const breakInputMin = Math.min(valueExtent.min, 0)
+    const breakInputMax = Math.max(valueExtent.max, breakInputMin + 1)
     const yAxisTitleRef = useRef<HTMLInputElement | null>(null)
     const handledFocusRef = useRef(0)
 
-    const update = <K extends keyof BarChartSettings>(key: K, value: BarChartSettings[K]) => {
+    const update = <K extends keyof TSettings>(key: K, value: TSettings[K]) => {
         onChange({ ...settings, [key]: value })
     }
 
+    const updateScale = <K extends keyof AxisScaleSettings>(key: K, value: AxisScaleSettings[K]) => {
+        onChange({ ...settings, [key]: value })
+    }
+
+    const updateBreak = <K extends keyof AxisBreakSettings>(key: K, value: AxisBreakSettings[K]) => {
+        onChange({ ...settings, [key]: value })
+    }
+
+    const breakWarnings: string[] = []
+    if (breakSettings?.yAxisBreakEnabled) {
+        if (breakSettings.yAxisBreakStart >= breakSettings.yAxisBreakEnd) {
+            breakWarnings.push('The break start must be below the break end; the axis is drawn without a break.')
+        }
+        if (scaleSettings && scaleSettings.yAxisScale !== 'linear') {
+            breakWarnings.push('Axis breaks only apply to linear scales.')
+        }
+    }
+
+    const scaleWarnings: string[] = []
+    if (logScale) {
+        if (nonPositiveCount > 0) {
+            scaleWarnings.push(
+                `${nonPositiveCount} ${nonPositiveCount === 1 ? 'value is' : 'values are'} zero or negative and cannot be shown on a log axis. Use symlog to plot data that crosses zero.`
+            )
+        }
+        if (settings.yAxisMin !== null && settings.yAxisMin <= 0) {
+            scaleWarnings.push('Y min must be greater than zero on a log axis; the automatic minimum is used instead.')
+        }
+        if (settings.yAxisMax !== null && settings.yAxisMax <= 0) {
+            scaleWarnings.push('Y max must be greater than zero on a log axis; the automatic maximum is used instead.')
+        }
+    }
+
     const updateAxisField = <K extends keyof AxisSettings>(key: K, value: AxisSettings[K]) => {
         const nextYAxis = { ...settings.yAxis, [key]: value }
 
@@ -264,6 +314,7 @@ export function YAxisBlock({ settings, onChange, focusRequest }: YAxisBlockProps
                 />
                 <AutoNumericInput
                     title="Tick step"
+                    disabled={Boolean(scaleSettings && scaleSettings.yAxisScale !== 'linear')}
                     value={settings.yAxisTickStep}
                     onChange={(value) => update('yAxisTickStep', value)}
                     min={0.001}
@@ -274,6 +325,110 @@ export function YAxisBlock({ settings, onChange, focusRequest }: YAxisBlockProps
                     placeholder="auto"
                 />
             </GroupComponents>
-        )
+        ),
+
+        scale: scaleSettings ? (
+            <div className="space-y-4">
+                <GroupComponents
+                    maxColumns={2}
+                    gap={2}
+                    rowGap={2}
+                >
+                    <SelectField<AxisScaleType>
+                        label="Scale"
+                        value={scaleSettings.yAxisScale}
+                        onChange={(value) => updateScale('yAxisScale', value)}
+                        options={axisScaleOptions}
+                    />
+                    <NumericInput
+                        title="Linear range"
+                        value={scaleSettings.yAxisSymlogConstant}
+                        min={0.001}
+                        max={1000}
+                        step={0.1}
+                        precision={3}
+                        onChange={(value) => updateScale('yAxisSymlogConstant', value)}
+                        disabled={scaleSettings.yAxisScale !== 'symlog'}
+                    />
+                    <Toggle
+                        title="Power labels"
+                        value={scaleSettings.yAxisPowerLabels}
+                        onChange={(value) => updateScale('yAxisPowerLabels', value)}
+                        disabled={scaleSettings.yAxisScale === 'linear'}
+                    />
+                    <Toggle
+                        title="Minor ticks"
+                        value={scaleSettings.yAxisMinorTicks}
+                        onChange={(value) => updateScale('yAxisMinorTicks', value)}
+                        disabled={scaleSettings.yAxisScale === 'linear'}
+                    />
+                </GroupComponents>
+
+                {scaleWarnings.length > 0 && (
+                    <ul className="space-y-1 text-xs text-rose-200">
+                        {scaleWarnings.map((warning) => (
+                            <li key={warning}>{warning}</li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+        ) : null,
+
+        axisBreak: breakSettings ? (
+            <div className="space-y-4">
+                <GroupComponents
+                    maxColumns={2}
+                    gap={2}
+                    rowGap={2}
+                >
+                    <NumericInput
+                        title="Break start"
+                        value={breakSettings.yAxisBreakStart}
+                        min={breakInputMin}
+                        max={breakInputMax}
+                        step={(breakInputMax - breakInputMin) / 100}
+                        precision={2}
+                        onChange={(value) => updateBreak('yAxisBreakStart', value)}
+                    />
+                    <NumericInput
+                        title="Break end"
+                        value={breakSettings.yAxisBreakEnd}
+                        min={breakInputMin}
+                        max={breakInputMax}
+                        step={(breakInputMax - breakInputMin) / 100}
+                        precision={2}
+                        onChange={(value) => updateBreak('yAxisBreakEnd', value)}
+                    />
+                    <NumericInput
+                        title="Gap size"
+                        value={breakSettings.yAxisBreakGap}
+                        min={4}
+                        max={40}
+                        step={1}
+                        precision={0}
+                        onChange={(value) => updateBreak('yAxisBreakGap', value)}
+                        suffix="px"
+                    />
+                    <NumericInput
+                        title="Space below break"
+                        value={breakSettings.yAxisBreakRatio * 100}
+                        min={10}
+                        max={90}
+                        step={5}
+                        precision={0}
+                        onChange={(value) => updateBreak('yAxisBreakRatio', value / 100)}
+                        suffix="%"
+                    />
+                </GroupComponents>
+
+                {breakWarnings.length > 0 && (
+                    <ul className="space-y-1 text-xs text-rose-200">
+                        {breakWarnings.map((warning) => (
+                            <li key={warning}>{warning}</li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+        ) : null
     }
-}
\ No newline at end of file
+}
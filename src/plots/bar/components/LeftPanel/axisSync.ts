@@ -1,4 +1,24 @@
-import type { AxisSettings } from '../../../../types/base'
+import type { AxisScaleType, AxisSettings, BaseChartSettings } from '../../../../types/base'
+
+// Axis blocks only touch the shared axis fields, so every plot type with an axis sync flag can reuse them
+export type AxisBlockSettings = BaseChartSettings & { axesSynced: boolean }
+
+// Optional value-axis scale fields; plot types that have them get the scale controls in YAxisBlock
+export type AxisScaleSettings = {
+  yAxisScale: AxisScaleType
+  yAxisSymlogConstant: number
+  yAxisPowerLabels: boolean
+  yAxisMinorTicks: boolean
+}
+
+// Optional value-axis break fields, shown as the break controls in YAxisBlock
+export type AxisBreakSettings = {
+  yAxisBreakEnabled: boolean
+  yAxisBreakStart: number
+  yAxisBreakEnd: number
+  yAxisBreakGap: number
+  yAxisBreakRatio: number
+}
 
 export const SYNCED_AXIS_FIELDS = [
   'showAxisLines',
@@ -14,3 +34,38 @@ export type SyncedAxisField = typeof SYNCED_AXIS_FIELDS[number]
 export function shouldSyncAxisField(field: keyof AxisSettings): field is SyncedAxisField {
   return SYNCED_AXIS_FIELDS.includes(field as SyncedAxisField)
 }
+
+export function toggleAxesSync<TSettings extends AxisBlockSettings>(settings: TSettings, source: 'x' | 'y'): TSettings {
+  if (settings.axesSynced) {
+    return { ...settings, axesSynced: false }
+  }
+
+  const sourceAxis = source === 'x' ? settings.xAxis : settings.yAxis
+  const targetAxis = source === 'x' ? { ...settings.yAxis } : { ...settings.xAxis }
+
+  // Sync specific fields between axes
+  targetAxis.showAxisLines = sourceAxis.showAxisLines
+  targetAxis.axisLineWidth = sourceAxis.axisLineWidth
+  targetAxis.axisLineColor = sourceAxis.axisLineColor
+  targetAxis.showTickLabels = sourceAxis.showTickLabels
+  targetAxis.tickLabelColor = sourceAxis.tickLabelColor
+  targetAxis.tickLabelOrientation = sourceAxis.tickLabelOrientation
+
+  if (source === 'x') {
+    return {
+      ...settings,
+      axesSynced: true,
+      yAxis: targetAxis,
+      yAxisTitleFontSize: settings.xAxisTitleFontSize,
+      yAxisTickFontSize: settings.xAxisTickFontSize,
+    }
+  }
+
+  return {
+    ...settings,
+    axesSynced: true,
+    xAxis: targetAxis,
+    xAxisTitleFontSize: settings.yAxisTitleFontSize,
+    xAxisTickFontSize: settings.yAxisTickFontSize,
+  }
+}
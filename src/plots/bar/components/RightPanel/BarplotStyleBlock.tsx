@@ -1,7 +1,9 @@
 import { ColorField } from '../../../../shared/components/ColorField'
 import { NumericInput } from '../../../../shared/components/NumericInput'
 import { GroupComponents } from '../../../../shared/components/GroupComponents'
-import type { BarChartSettings, BarOrientation } from '../../../../types/bar'
+import { SelectField } from '../../../../shared/components/SelectField'
+import { errorBarDirectionOptions, hasReplicates } from '../../../../shared/utils/replicates'
+import type { BarChartSettings, BarLayoutMode, BarOrientation, ErrorBarDirection, ValueDragSnap } from '../../../../types/bar'
 import type { HighlightKey } from '../../../../types/base'
 
 type CornerStyleOption = {
@@ -19,6 +21,18 @@ const orientationOptions: Array<{ value: BarOrientation; label: string }> = [
     { value: 'horizontal', label: 'Horizontal' },
 ]
 
+const layoutModeOptions: Array<{ value: BarLayoutMode; label: string }> = [
+    { value: 'flat', label: 'Flat' },
+    { value: 'grouped', label: 'Grouped' },
+    { value: 'stacked', label: 'Stacked' },
+    { value: 'stacked100', label: '100% stacked' },
+]
+
+const valueDragSnapOptions: Array<{ value: ValueDragSnap; label: string }> = [
+    { value: 'tick', label: 'Tick step' },
+    { value: 'precision', label: 'Decimals' },
+]
+
 function CornerStyleSelector({
     value,
     onChange,
@@ -133,6 +147,9 @@ export function BarplotStyleBlock({ settings, onChange }: BarplotStyleBlockProps
         onChange({ ...settings, [key]: value })
     }
 
+    // Ticks are only evenly spaced on a linear value axis
+    const snapsToTicks = (settings.valueDragSnap ?? 'tick') === 'tick' && (settings.yAxisScale ?? 'linear') === 'linear'
+
     return {
         globalSettings: (
             <GroupComponents
@@ -153,6 +170,22 @@ export function BarplotStyleBlock({ settings, onChange }: BarplotStyleBlockProps
                     precision={2}
                     onChange={(value) => update('barGap', value)}
                 />
+                <SelectField<BarLayoutMode>
+                    label="Layout"
+                    value={settings.layoutMode}
+                    onChange={(value) => update('layoutMode', value)}
+                    options={layoutModeOptions}
+                />
+                <NumericInput
+                    title="Group spacing"
+                    value={settings.groupGap}
+                    min={0}
+                    max={0.6}
+                    step={0.02}
+                    precision={2}
+                    onChange={(value) => update('groupGap', value)}
+                    disabled={settings.layoutMode !== 'grouped'}
+                />
                 <CornerStyleSelector
                     value={settings.barCornerStyle}
                     onChange={(value) => update('barCornerStyle', value)}
@@ -195,27 +228,76 @@ export function BarplotStyleBlock({ settings, onChange }: BarplotStyleBlockProps
         ),
 
         errorBars: (
-            <GroupComponents
-                maxColumns={2}
-                gap={2}
-                rowGap={2}
-            >
-                <NumericInput
-                    title="Line width"
-                    value={settings.errorBarWidth}
-                    min={0}
-                    max={12}
-                    step={0.5}
-                    precision={1}
-                    onChange={(value) => update('errorBarWidth', value)}
-                    suffix="px"
-                />
-                <ColorField
-                    label="Line color"
-                    value={settings.errorBarColor}
-                    onChange={(value) => update('errorBarColor', value)}
-                />
-            </GroupComponents>
+            <div className="space-y-4">
+                {settings.layoutMode === 'stacked100' ? (
+                    <p className="text-xs text-white/50">
+                        Error bars are hidden on 100% stacked bars because segments are normalized.
+                    </p>
+                ) : null}
+                <GroupComponents
+                    maxColumns={3}
+                    gap={2}
+                    rowGap={2}
+                >
+                    <SelectField<ErrorBarDirection>
+                        label="Direction"
+                        value={settings.errorBarDirection ?? 'both'}
+                        onChange={(value) => update('errorBarDirection', value)}
+                        options={errorBarDirectionOptions}
+                    />
+                    <NumericInput
+                        title="Line width"
+                        value={settings.errorBarWidth}
+                        min={0}
+                        max={12}
+                        step={0.5}
+                        precision={1}
+                        onChange={(value) => update('errorBarWidth', value)}
+                        suffix="px"
+                    />
+                    <ColorField
+                        label="Line color"
+                        value={settings.errorBarColor}
+                        onChange={(value) => update('errorBarColor', value)}
+                    />
+                </GroupComponents>
+            </div>
+        ),
+
+        valueDragging: (
+            <div className="space-y-4">
+                <p className="text-xs text-white/50">
+                    Drag the end of a bar or an error bar cap in the preview to change its value. Arrow keys move a selected handle by one step.
+                </p>
+                <GroupComponents
+                    maxColumns={2}
+                    gap={2}
+                    rowGap={2}
+                >
+                    <SelectField<ValueDragSnap>
+                        label="Snap to"
+                        value={settings.valueDragSnap ?? 'tick'}
+                        onChange={(value) => update('valueDragSnap', value)}
+                        options={valueDragSnapOptions}
+                    />
+                    <NumericInput
+                        title="Decimals"
+                        value={settings.valueDragPrecision ?? 1}
+                        min={0}
+                        max={6}
+                        step={1}
+                        precision={0}
+                        onChange={(value) => update('valueDragPrecision', value)}
+                        disabled={snapsToTicks}
+                    />
+                </GroupComponents>
+                {(settings.valueDragSnap ?? 'tick') === 'tick' && !snapsToTicks ? (
+                    <p className="text-xs text-white/50">Non-linear axes have no constant tick step, so values snap to the decimals instead.</p>
+                ) : null}
+                {settings.data.some(hasReplicates) ? (
+                    <p className="text-xs text-white/50">Bars computed from replicates cannot be dragged; edit their replicates instead.</p>
+                ) : null}
+            </div>
         )
     }
 }
\ No newline at end of file
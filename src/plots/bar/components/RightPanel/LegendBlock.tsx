@@ -4,7 +4,7 @@ import { GroupComponents } from '../../../../shared/components/GroupComponents'
 import { SelectField, type SelectOption } from '../../../../shared/components/SelectField'
 import { FontPicker } from '../../../../shared/components/FontPicker'
 import { TextStyleControls } from '../../../../shared/components/TextStyleControls'
-import type { BarChartSettings, LegendPosition } from '../../../../types/bar'
+import type { LegendPosition, LegendSettings } from '../../../../types/bar'
 
 const positionOptions: Array<SelectOption<LegendPosition>> = [
     { value: 'top', label: 'Top' },
@@ -17,15 +17,16 @@ const positionOptions: Array<SelectOption<LegendPosition>> = [
     { value: 'bottom-right', label: 'Bottom Right' },
 ]
 
-interface LegendBlockProps {
-    settings: BarChartSettings
-    onChange: (settings: BarChartSettings) => void
+// Any chart with a legend can reuse this block
+interface LegendBlockProps<TSettings extends { legend: LegendSettings }> {
+    settings: TSettings
+    onChange: (settings: TSettings) => void
 }
 
-export function LegendBlock({ settings, onChange }: LegendBlockProps) {
-    const updateLegend = <K extends keyof BarChartSettings['legend']>(
+export function LegendBlock<TSettings extends { legend: LegendSettings }>({ settings, onChange }: LegendBlockProps<TSettings>) {
+    const updateLegend = <K extends keyof LegendSettings>(
         key: K,
-        value: BarChartSettings['legend'][K]
+        value: LegendSettings[K]
     ) => {
         onChange({
             ...settings,
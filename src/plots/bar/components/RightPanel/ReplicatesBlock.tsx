@@ -0,0 +1,99 @@
+import { ColorField } from '../../../../shared/components/ColorField'
+import { NumericInput } from '../../../../shared/components/NumericInput'
+import { GroupComponents } from '../../../../shared/components/GroupComponents'
+import { SelectField } from '../../../../shared/components/SelectField'
+import { hasReplicates, replicateCenterOptions, replicateSpreadOptions } from '../../../../shared/utils/replicates'
+import type { BarChartSettings, ReplicateCenter, ReplicateSpread } from '../../../../types/bar'
+
+interface ReplicatesBlockProps {
+    settings: BarChartSettings;
+    onChange: (settings: BarChartSettings) => void;
+}
+
+export function ReplicatesBlock({ settings, onChange }: ReplicatesBlockProps) {
+    const update = <K extends keyof BarChartSettings>(key: K, value: BarChartSettings[K]) => {
+        onChange({ ...settings, [key]: value })
+    }
+
+    const replicateBarCount = settings.data.filter(hasReplicates).length
+    const isStacked = settings.layoutMode === 'stacked' || settings.layoutMode === 'stacked100'
+
+    return {
+        statistic: (
+            <div className="space-y-4">
+                <p className="text-xs text-white/50">
+                    {replicateBarCount > 0
+                        ? `${replicateBarCount} of ${settings.data.length} bars are computed from their replicates.`
+                        : 'Enter replicates in the data table (or import one row per measurement) to compute bars from raw data.'}
+                </p>
+                <GroupComponents
+                    maxColumns={2}
+                    gap={2}
+                    rowGap={2}
+                >
+                    <SelectField<ReplicateCenter>
+                        label="Bar height"
+                        value={settings.replicateCenter}
+                        onChange={(value) => update('replicateCenter', value)}
+                        options={replicateCenterOptions}
+                    />
+                    <SelectField<ReplicateSpread>
+                        label="Error bar"
+                        value={settings.replicateSpread}
+                        onChange={(value) => update('replicateSpread', value)}
+                        options={replicateSpreadOptions}
+                    />
+                </GroupComponents>
+            </div>
+        ),
+
+        points: (
+            <div className="space-y-4">
+                {isStacked ? (
+                    <p className="text-xs text-white/50">
+                        Individual points are hidden on stacked bars.
+                    </p>
+                ) : null}
+                <GroupComponents
+                    maxColumns={2}
+                    gap={2}
+                    rowGap={2}
+                >
+                    <NumericInput
+                        title="Point size"
+                        value={settings.replicatePointSize}
+                        min={1}
+                        max={24}
+                        step={0.5}
+                        precision={1}
+                        onChange={(value) => update('replicatePointSize', value)}
+                        suffix="px"
+                    />
+                    <ColorField
+                        label="Point color"
+                        value={settings.replicatePointColor}
+                        onChange={(value) => update('replicatePointColor', value)}
+                    />
+                    <NumericInput
+                        title="Opacity"
+                        value={settings.replicatePointOpacity}
+                        min={0}
+                        max={1}
+                        step={0.05}
+                        precision={2}
+                        onChange={(value) => update('replicatePointOpacity', value)}
+                    />
+                    <NumericInput
+                        title="Jitter width"
+                        value={settings.replicateJitterWidth}
+                        min={0}
+                        max={1}
+                        step={0.05}
+                        precision={2}
+                        onChange={(value) => update('replicateJitterWidth', value)}
+                    />
+                </GroupComponents>
+            </div>
+        )
+    }
+}
@@ -0,0 +1,262 @@
+import { useState } from 'react'
+import { Plus, Trash2 } from 'lucide-react'
+import { ColorField } from '../../../../shared/components/ColorField'
+import { GroupComponents } from '../../../../shared/components/GroupComponents'
+import { NumericInput } from '../../../../shared/components/NumericInput'
+import { SelectField } from '../../../../shared/components/SelectField'
+import { TextInput } from '../../../../shared/components/TextInput'
+import { getGroupKey } from '../../../../shared/utils/barGrouping'
+import {
+    computeSignificancePValue,
+    createSignificanceAnnotation,
+    formatPValue,
+    significanceLabelModeOptions,
+    significanceTestOptions,
+} from '../../../../shared/utils/significance'
+import type {
+    BarChartSettings,
+    SignificanceAnnotation,
+    SignificanceLabelMode,
+    SignificanceTest,
+} from '../../../../types/bar'
+
+interface SignificanceBlockProps {
+    settings: BarChartSettings;
+    onChange: (settings: BarChartSettings) => void;
+}
+
+export function SignificanceBlock({ settings, onChange }: SignificanceBlockProps) {
+    const annotations = settings.significanceAnnotations ?? []
+    const [selectedId, setSelectedId] = useState<string>(annotations[0]?.id || '')
+    const selected = annotations.find(item => item.id === selectedId) || annotations[0]
+
+    const update = <K extends keyof BarChartSettings>(key: K, value: BarChartSettings[K]) => {
+        onChange({ ...settings, [key]: value })
+    }
+
+    const setAnnotations = (next: SignificanceAnnotation[]) => update('significanceAnnotations', next)
+
+    const updateAnnotation = <K extends keyof Omit<SignificanceAnnotation, 'id'>>(
+        annotationId: string,
+        field: K,
+        value: SignificanceAnnotation[K]
+    ) => {
+        setAnnotations(annotations.map(item => item.id === annotationId ? { ...item, [field]: value } : item))
+    }
+
+    // New brackets compare the first two bars; the user picks the real pair afterwards
+    const addAnnotation = () => {
+        const [first, second] = settings.data
+        const annotation = createSignificanceAnnotation(first?.id ?? '', second?.id ?? first?.id ?? '')
+        setAnnotations([...annotations, annotation])
+        setSelectedId(annotation.id)
+    }
+
+    const removeAnnotation = (annotationId: string) => {
+        const next = annotations.filter(item => item.id !== annotationId)
+        setAnnotations(next)
+        if (annotationId === selectedId) {
+            setSelectedId(next[0]?.id || '')
+        }
+    }
+
+    // Grouped data reuses labels across series, so the group is shown to tell bars apart
+    const barOptions = settings.data.map((bar, index) => {
+        const group = getGroupKey(bar)
+        const label = bar.label || `Bar ${index + 1}`
+        return { value: bar.id, label: group ? `${label} (${group})` : label }
+    })
+    const barLabel = (barId: string) => barOptions.find(option => option.value === barId)?.label ?? 'Missing bar'
+
+    const barA = selected ? settings.data.find(bar => bar.id === selected.barA) : undefined
+    const barB = selected ? settings.data.find(bar => bar.id === selected.barB) : undefined
+    const computedP = selected && barA && barB ? computeSignificancePValue(selected, barA, barB) : null
+
+    let status = ''
+    if (selected) {
+        if (!barA || !barB) {
+            status = 'One of the compared bars no longer exists. Pick two bars to show this bracket.'
+        } else if (barA.id === barB.id) {
+            status = 'Pick two different bars.'
+        } else if (selected.test !== 'manual' && computedP === null) {
+            status = selected.test === 'welch'
+                ? 'The Welch t-test needs at least two replicates on each bar.'
+                : 'The Mann–Whitney U test needs replicates on both bars.'
+        } else if (selected.test !== 'manual' && computedP !== null) {
+            status = `Computed from replicates: ${formatPValue(computedP)}`
+        }
+    }
+
+    return {
+        brackets: (
+            <div className="space-y-6">
+                <div className="flex items-center justify-start gap-4">
+                    <span className="text-sm font-semibold text-white/80 whitespace-nowrap">Active Bracket:</span>
+                    <SelectField<string>
+                        className="flex-1"
+                        label=""
+                        value={selected?.id ?? ''}
+                        onChange={setSelectedId}
+                        options={annotations.map((item) => ({
+                            value: item.id,
+                            label: `${barLabel(item.barA)} – ${barLabel(item.barB)}`
+                        }))}
+                        placeholder="No brackets yet"
+                        disabled={annotations.length === 0}
+                    />
+                    <button
+                        type="button"
+                        onClick={addAnnotation}
+                        className="flex items-center gap-1 rounded-md border border-white/10 bg-white/10 px-2 py-1.5 text-xs font-medium text-white transition hover:bg-white/20"
+                        title="Add a bracket"
+                        disabled={settings.data.length < 2}
+                    >
+                        <Plus className="h-3 w-3" />
+                    </button>
+                    {selected && (
+                        <button
+                            type="button"
+                            onClick={() => removeAnnotation(selected.id)}
+                            className="flex items-center gap-1 rounded-md border border-red-400/20 bg-red-500/10 px-2 py-1.5 text-xs font-medium text-red-400 transition hover:bg-red-500/20"
+                            title="Delete this bracket"
+                        >
+                            <Trash2 className="h-3 w-3" />
+                        </button>
+                    )}
+                </div>
+
+                {selected ? (
+                    <div className="space-y-4">
+                        <GroupComponents
+                            maxColumns={2}
+                            gap={2}
+                            rowGap={2}
+                        >
+                            <SelectField<string>
+                                label="First bar"
+                                value={selected.barA}
+                                onChange={(value) => updateAnnotation(selected.id, 'barA', value)}
+                                options={barOptions}
+                                placeholder="Select bar"
+                            />
+                            <SelectField<string>
+                                label="Second bar"
+                                value={selected.barB}
+                                onChange={(value) => updateAnnotation(selected.id, 'barB', value)}
+                                options={barOptions}
+                                placeholder="Select bar"
+                            />
+                        </GroupComponents>
+                        <GroupComponents
+                            maxColumns={3}
+                            gap={2}
+                            rowGap={2}
+                        >
+                            <SelectField<SignificanceTest>
+                                label="p-value"
+                                value={selected.test}
+                                onChange={(value) => updateAnnotation(selected.id, 'test', value)}
+                                options={significanceTestOptions}
+                            />
+                            <NumericInput
+                                title="Manual p"
+                                value={selected.pValue ?? 0.05}
+                                min={0}
+                                max={1}
+                                step={0.001}
+                                precision={4}
+                                onChange={(value) => updateAnnotation(selected.id, 'pValue', value)}
+                                disabled={selected.test !== 'manual'}
+                            />
+                            <TextInput
+                                label="Custom label"
+                                value={selected.label}
+                                onChange={(value) => updateAnnotation(selected.id, 'label', value)}
+                                placeholder="Automatic"
+                            />
+                        </GroupComponents>
+                        {status ? <p className="text-xs text-white/50">{status}</p> : null}
+                    </div>
+                ) : (
+                    <div className="rounded-md border border-white/10 bg-white/5 p-4 text-center">
+                        <p className="text-sm text-white/60">No significance brackets yet</p>
+                        <p className="text-xs text-white/40 mt-1">Add one to compare two bars</p>
+                    </div>
+                )}
+            </div>
+        ),
+
+        style: (
+            <div className="space-y-4">
+                <GroupComponents
+                    maxColumns={3}
+                    gap={2}
+                    rowGap={2}
+                >
+                    <SelectField<SignificanceLabelMode>
+                        label="Label"
+                        value={settings.significanceLabelMode}
+                        onChange={(value) => update('significanceLabelMode', value)}
+                        options={significanceLabelModeOptions}
+                    />
+                    <NumericInput
+                        title="Font size"
+                        value={settings.significanceFontSize}
+                        min={6}
+                        max={48}
+                        step={1}
+                        precision={0}
+                        onChange={(value) => update('significanceFontSize', value)}
+                        suffix="px"
+                    />
+                    <ColorField
+                        label="Text color"
+                        value={settings.significanceTextColor}
+                        onChange={(value) => update('significanceTextColor', value)}
+                    />
+                </GroupComponents>
+                <GroupComponents
+                    maxColumns={2}
+                    gap={2}
+                    rowGap={2}
+                >
+                    <NumericInput
+                        title="Line width"
+                        value={settings.significanceLineWidth}
+                        min={0}
+                        max={8}
+                        step={0.5}
+                        precision={1}
+                        onChange={(value) => update('significanceLineWidth', value)}
+                        suffix="px"
+                    />
+                    <ColorField
+                        label="Line color"
+                        value={settings.significanceLineColor}
+                        onChange={(value) => update('significanceLineColor', value)}
+                    />
+                    <NumericInput
+                        title="Tick length"
+                        value={settings.significanceTickLength}
+                        min={0}
+                        max={40}
+                        step={1}
+                        precision={0}
+                        onChange={(value) => update('significanceTickLength', value)}
+                        suffix="px"
+                    />
+                    <NumericInput
+                        title="Stack spacing"
+                        value={settings.significanceSpacing}
+                        min={8}
+                        max={120}
+                        step={1}
+                        precision={0}
+                        onChange={(value) => update('significanceSpacing', value)}
+                        suffix="px"
+                    />
+                </GroupComponents>
+            </div>
+        )
+    }
+}
@@ -1,6 +1,7 @@
 import { createBar } from "../../shared/utils/barFactory";
 import { DEFAULT_FONT_STACK } from "../../shared/constants/fonts";
 import type { BarChartSettings } from "../../types/bar";
+import type { PaletteKey } from "../../types/base";
 
 const defaultPaletteName = "vibrant";
 const baseBars = Array.from({ length: 3 }, (_, index) =>
@@ -13,6 +14,10 @@ export const defaultBarChartSettings: BarChartSettings = {
   showValueLabels: true,
   // Chart orientation
   orientation: "vertical",
+  // Bar layout
+  layoutMode: "flat",
+  groupGap: 0.1,
+  stackLabelMode: "segment",
   // Additional elements
   additionalTextElements: [],
   additionalImageElements: [],
@@ -76,15 +81,62 @@ export const defaultBarChartSettings: BarChartSettings = {
   customWidth: null,
   customHeight: null,
   errorBarMode: "global",
+  errorBarDirection: "both",
   errorBarColor: "#f8fafc",
   errorBarWidth: 2,
   errorBarCapWidth: 12,
+  valueDragEnabled: true,
+  valueDragSnap: "tick",
+  valueDragPrecision: 1,
+  replicateCenter: "mean",
+  replicateSpread: "sd",
+  showReplicatePoints: false,
+  replicatePointSize: 5,
+  replicatePointColor: "#f8fafc",
+  replicatePointOpacity: 0.8,
+  replicateJitterWidth: 0.6,
+  significanceAnnotations: [],
+  significanceLabelMode: "stars",
+  significanceLineColor: "#e2e8f0",
+  significanceLineWidth: 1.5,
+  significanceTickLength: 8,
+  significanceFontSize: 14,
+  significanceTextColor: "#f8fafc",
+  significanceSpacing: 28,
+  referenceElements: [],
+  referenceLabelFontSize: 12,
+  calloutAnnotations: [],
+  yAxisScale: "linear",
+  yAxisSymlogConstant: 1,
+  yAxisPowerLabels: false,
+  yAxisMinorTicks: true,
+  yAxisBreakEnabled: false,
+  yAxisBreakStart: 20,
+  yAxisBreakEnd: 80,
+  yAxisBreakGap: 12,
+  yAxisBreakRatio: 0.6,
+  showSecondaryAxis: false,
+  secondaryAxisMin: null,
+  secondaryAxisMax: null,
+  secondaryAxisTickStep: null,
+  secondaryAxisTitleFontSize: 14,
+  secondaryAxisTickFontSize: 12,
+  secondaryAxisTitleOffsetX: 0,
+  secondarySeriesName: "Overlay",
+  secondarySeriesColor: "#fbbf24",
+  secondarySeriesStyle: "line-markers",
+  secondaryLineWidth: 2,
+  secondaryDashStyle: "solid",
+  secondaryMarkerShape: "circle",
+  secondaryMarkerSize: 7,
   // Axis synchronization settings
   axesSynced: true,
   yAxisTickStep: null,
   exportScale: 2,
   exportTransparent: false,
   exportFileName: "barplot",
+  exportPresets: [],
+  exportPresetId: null,
   paletteName: defaultPaletteName,
   // Plot box border settings
   showPlotBox: false,
@@ -140,4 +192,38 @@ export const defaultBarChartSettings: BarChartSettings = {
     gridLineWidth: 1,
     title: "Values",
   },
+  secondaryAxis: {
+    showAxisLines: true,
+    showTickLabels: true,
+    showGridLines: false,
+    axisLineColor: "#e2e8f0",
+    axisLineWidth: 1.5,
+    tickLabelColor: "#e2e8f0",
+    tickLabelOrientation: 0,
+    gridLineColor: "#334155",
+    gridLineStyle: "dashed" as const,
+    gridLineOpacity: 0.4,
+    gridLineWidth: 1,
+    title: "Secondary",
+  },
 };
+
+export const DEFAULT_DATA_LENGTH = defaultBarChartSettings.data.length;
+
+export function buildDefaultData(paletteName: PaletteKey, length = DEFAULT_DATA_LENGTH) {
+  return Array.from({ length }, (_, index) => createBar(index, paletteName));
+}
+
+export function buildDefaultSettings(
+  paletteName: PaletteKey = defaultBarChartSettings.paletteName,
+  length = DEFAULT_DATA_LENGTH
+): BarChartSettings {
+  return {
+    ...defaultBarChartSettings,
+    paletteName,
+    data: buildDefaultData(paletteName, length),
+    xAxis: { ...defaultBarChartSettings.xAxis },
+    yAxis: { ...defaultBarChartSettings.yAxis },
+    secondaryAxis: { ...defaultBarChartSettings.secondaryAxis },
+  };
+}
@@ -0,0 +1,288 @@
+import { createBar } from "../../shared/utils/barFactory";
+import { dashStyleOptions } from "../../shared/utils/linePaths";
+import { markerShapeOptions } from "../../shared/utils/markers";
+import { palettes } from "../../shared/utils/palettes";
+import {
+  axisFieldChoices,
+  checkElements,
+  createProjectDocument,
+  describeExpected,
+  describeValue,
+  embedImageSource,
+  isFiniteNumber,
+  isPlainObject,
+  mergeChecked,
+  optionValues,
+  readProjectDocument,
+  upgradeProjectDocument,
+  type FieldChoices,
+  type ProjectDocument,
+  type ProjectReadResult,
+  type ProjectSchema,
+} from "../../shared/utils/projectFile";
+import { errorBarDirectionOptions, replicateCenterOptions, replicateSpreadOptions } from "../../shared/utils/replicates";
+import { axisScaleOptions } from "../../shared/utils/scales";
+import { significanceLabelModeOptions } from "../../shared/utils/significance";
+import type {
+  BarChartSettings,
+  BarDataPoint,
+  BarLayoutMode,
+  BarOrientation,
+  BarPattern,
+  LegendPosition,
+  SecondarySeriesStyle,
+  StackLabelMode,
+  ValueDragSnap,
+} from "../../types/bar";
+import type { PaletteKey } from "../../types/base";
+import { buildDefaultSettings, DEFAULT_DATA_LENGTH, defaultBarChartSettings } from "./defaultSettings";
+
+export type PlotTuple = [BarChartSettings, BarChartSettings];
+
+export type BarProject = {
+  plots: PlotTuple;
+  activePlot: 0 | 1;
+  comparisonEnabled: boolean;
+};
+
+export type BarProjectParseResult =
+  | { ok: true; project: BarProject; issues: string[]; migratedFrom: number }
+  | { ok: false; errors: string[] };
+
+// Lists of editor elements and the text fields each entry cannot do without; every entry
+// needs an id because the editors key on it
+const ELEMENT_LISTS = [
+  ["additionalTextElements", "Text element", ["id"]],
+  ["additionalImageElements", "Image", ["id", "src"]],
+  ["significanceAnnotations", "Significance annotation", ["id"]],
+  ["referenceElements", "Reference line", ["id"]],
+  ["calloutAnnotations", "Callout", ["id"]],
+  ["exportPresets", "Export preset", ["id", "name"]],
+] as const;
+
+const BAR_PATTERNS: BarPattern[] = ["solid", "diagonal", "dots", "crosshatch", "vertical"];
+
+const BAR_CHOICES: FieldChoices = { pattern: BAR_PATTERNS };
+
+// Option fields the chart switches on; anything else would reach the preview unhandled
+const SETTINGS_CHOICES: FieldChoices = {
+  ...axisFieldChoices(["xAxis", "yAxis", "secondaryAxis"]),
+  orientation: ["vertical", "horizontal"] satisfies BarOrientation[],
+  layoutMode: ["flat", "grouped", "stacked", "stacked100"] satisfies BarLayoutMode[],
+  stackLabelMode: ["segment", "total", "both"] satisfies StackLabelMode[],
+  barCornerStyle: ["top", "both"] satisfies Array<BarChartSettings["barCornerStyle"]>,
+  globalPattern: BAR_PATTERNS,
+  errorBarMode: ["global", "match"] satisfies Array<BarChartSettings["errorBarMode"]>,
+  errorBarDirection: optionValues(errorBarDirectionOptions),
+  valueDragSnap: ["tick", "precision"] satisfies ValueDragSnap[],
+  replicateCenter: optionValues(replicateCenterOptions),
+  replicateSpread: optionValues(replicateSpreadOptions),
+  significanceLabelMode: optionValues(significanceLabelModeOptions),
+  yAxisScale: optionValues(axisScaleOptions),
+  secondarySeriesStyle: ["line", "markers", "line-markers"] satisfies SecondarySeriesStyle[],
+  secondaryDashStyle: optionValues(dashStyleOptions),
+  secondaryMarkerShape: optionValues(markerShapeOptions),
+  "legend.position": [
+    "top",
+    "bottom",
+    "left",
+    "right",
+    "top-left",
+    "top-right",
+    "bottom-left",
+    "bottom-right",
+  ] satisfies LegendPosition[],
+};
+
+export const barProjectSchema: ProjectSchema = {
+  kind: "bar-chart",
+  label: "bar chart",
+  version: 3,
+  migrations: {
+    // Format 1 held a single plot under `settings`
+    1: ({ settings, ...rest }) => ({
+      ...rest,
+      plots: [settings],
+      activePlot: 0,
+      comparisonEnabled: false,
+    }),
+    // Format 3 added the `kind` marker so files from other charts are rejected
+    2: (document) => document,
+  },
+  detectLegacyVersion: (document) => {
+    if (Array.isArray(document.plots)) return 2;
+    if (isPlainObject(document.settings)) return 1;
+    return null;
+  },
+};
+
+function normalizeBar(stored: unknown, index: number, paletteName: PaletteKey, path: string, issues: string[]) {
+  const bar: BarDataPoint = mergeChecked(createBar(index, paletteName), stored, path, issues, BAR_CHOICES);
+
+  const optionalNumber = (field: "errorLower" | "errorUpper") => {
+    if (bar[field] === undefined || isFiniteNumber(bar[field])) return;
+    issues.push(`${path} › ${field} should be a number, found ${describeValue(bar[field])}.`);
+    bar[field] = undefined;
+  };
+  optionalNumber("errorLower");
+  optionalNumber("errorUpper");
+
+  if (bar.secondaryValue !== undefined && bar.secondaryValue !== null && !isFiniteNumber(bar.secondaryValue)) {
+    issues.push(`${path} › secondaryValue should be a number or empty, found ${describeValue(bar.secondaryValue)}.`);
+    bar.secondaryValue = undefined;
+  }
+  if (bar.group !== undefined && typeof bar.group !== "string") {
+    issues.push(`${path} › group should be text, found ${describeValue(bar.group)}.`);
+    bar.group = undefined;
+  }
+  if (bar.replicates !== undefined) {
+    if (!Array.isArray(bar.replicates)) {
+      issues.push(`${path} › replicates should be a list of numbers, found ${describeValue(bar.replicates)}.`);
+      bar.replicates = undefined;
+    } else if (!(bar.replicates as unknown[]).every(isFiniteNumber)) {
+      issues.push(`${path} › replicates should only contain numbers.`);
+      bar.replicates = (bar.replicates as unknown[]).filter(isFiniteNumber);
+    }
+  }
+  return bar;
+}
+
+/**
+ * Fills a stored plot in with the current defaults. Problems are collected in `issues`
+ * and the affected fields fall back to their defaults, so the result is always usable.
+ */
+export function normalizeBarSettings(stored: unknown, path: string, issues: string[]): BarChartSettings {
+  if (stored === undefined || stored === null) {
+    return buildDefaultSettings();
+  }
+  if (!isPlainObject(stored)) {
+    issues.push(`${path} should be ${describeExpected("object")}, found ${describeValue(stored)}.`);
+    return buildDefaultSettings();
+  }
+
+  let paletteName = defaultBarChartSettings.paletteName;
+  if (stored.paletteName !== undefined) {
+    if (typeof stored.paletteName === "string" && stored.paletteName in palettes) {
+      paletteName = stored.paletteName as PaletteKey;
+    } else {
+      issues.push(`${path} › paletteName is not a known palette (${describeValue(stored.paletteName)}).`);
+    }
+  }
+
+  let storedData: unknown[] | null = null;
+  if (Array.isArray(stored.data)) {
+    storedData = stored.data;
+  } else if (stored.data !== undefined) {
+    issues.push(`${path} › data should be a list of bars, found ${describeValue(stored.data)}.`);
+  }
+
+  // Preset ids are text, which the nullable-number rule in mergeChecked would reject
+  let exportPresetId: string | null = null;
+  if (typeof stored.exportPresetId === "string") {
+    exportPresetId = stored.exportPresetId;
+  } else if (stored.exportPresetId !== undefined && stored.exportPresetId !== null) {
+    issues.push(`${path} › exportPresetId should be text or empty, found ${describeValue(stored.exportPresetId)}.`);
+  }
+
+  const defaults = buildDefaultSettings(paletteName, Math.max(storedData?.length ?? 0, DEFAULT_DATA_LENGTH));
+  const rest = { ...stored };
+  delete rest.data;
+  delete rest.paletteName;
+  delete rest.exportPresetId;
+  const merged = mergeChecked(defaults, rest, path, issues, SETTINGS_CHOICES);
+
+  const data = storedData
+    ? storedData.map((bar, index) => normalizeBar(bar, index, paletteName, `${path} › Bar ${index + 1}`, issues))
+    : defaults.data;
+
+  const elements: Record<string, unknown[]> = {};
+  ELEMENT_LISTS.forEach(([key, itemLabel, requiredText]) => {
+    elements[key] = checkElements(merged[key], `${path} › ${key}`, itemLabel, requiredText, issues);
+  });
+
+  return { ...merged, ...elements, paletteName, exportPresetId, data } as BarChartSettings;
+}
+
+function normalizeBarProject(document: ProjectDocument, issues: string[]): BarProject {
+  let storedPlots: unknown[] = [];
+  if (Array.isArray(document.plots)) {
+    storedPlots = document.plots;
+    if (storedPlots.length > 2) {
+      issues.push(`The project has ${storedPlots.length} plots; only 2 are supported.`);
+    }
+  } else {
+    issues.push(`plots should be a list, found ${describeValue(document.plots)}.`);
+  }
+
+  const plots: PlotTuple = [
+    normalizeBarSettings(storedPlots[0], "Plot 1", issues),
+    normalizeBarSettings(storedPlots[1], "Plot 2", issues),
+  ];
+
+  let activePlot: 0 | 1 = 0;
+  if (document.activePlot === 0 || document.activePlot === 1) {
+    activePlot = document.activePlot;
+  } else if (document.activePlot !== undefined) {
+    issues.push(`activePlot should be 0 or 1, found ${describeValue(document.activePlot)}.`);
+  }
+
+  let comparisonEnabled = false;
+  if (typeof document.comparisonEnabled === "boolean") {
+    comparisonEnabled = document.comparisonEnabled;
+  } else if (document.comparisonEnabled !== undefined) {
+    issues.push(`comparisonEnabled should be true or false, found ${describeValue(document.comparisonEnabled)}.`);
+  }
+
+  return { plots, activePlot, comparisonEnabled };
+}
+
+function toBarProjectResult(read: ProjectReadResult): BarProjectParseResult {
+  if (!read.ok) return read;
+
+  const issues: string[] = [];
+  const project = normalizeBarProject(read.document, issues);
+  return { ok: true, project, issues, migratedFrom: read.migratedFrom };
+}
+
+/**
+ * Reads a project file or the autosaved studio state. Structural problems make the
+ * result fail; field-level problems are returned as `issues` next to a usable project.
+ */
+export function parseBarProject(text: string): BarProjectParseResult {
+  return toBarProjectResult(readProjectDocument(text, barProjectSchema));
+}
+
+// Same as `parseBarProject` for documents that are already parsed, e.g. from the project library
+export function readBarProject(document: unknown): BarProjectParseResult {
+  return toBarProjectResult(upgradeProjectDocument(document, barProjectSchema));
+}
+
+export function createBarProjectDocument(project: BarProject): ProjectDocument {
+  return createProjectDocument(barProjectSchema, { ...project });
+}
+
+// Inlines linked images so the saved file carries everything needed to redraw the plots
+export async function embedBarProjectImages(plots: PlotTuple): Promise<PlotTuple> {
+  const embedded = await Promise.all(
+    plots.map(async (plot) => ({
+      ...plot,
+      additionalImageElements: await Promise.all(
+        plot.additionalImageElements.map(async (image) => ({ ...image, src: await embedImageSource(image.src) }))
+      ),
+    }))
+  );
+  return embedded as PlotTuple;
+}
+
+// Share links have to stay short, so embedded images are left out of them
+export function stripBarProjectImages(plots: PlotTuple): { plots: PlotTuple; removedCount: number } {
+  const removedCount = plots.reduce((total, plot) => total + plot.additionalImageElements.length, 0);
+  if (removedCount === 0) return { plots, removedCount };
+  return {
+    plots: [
+      { ...plots[0], additionalImageElements: [] },
+      { ...plots[1], additionalImageElements: [] },
+    ],
+    removedCount,
+  };
+}
@@ -0,0 +1,270 @@
+import { Database, Download, Redo2, Settings, Sparkles, Undo2, UploadCloud } from 'lucide-react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { ChartPage } from '../../shared/components/ChartPage';
+import { useDocumentTitle } from '../../shared/hooks/useDocumentTitle';
+import { useUndoableState } from '../../shared/hooks/useUndoableState';
+import { useUndoShortcuts } from '../../shared/hooks/useUndoShortcuts';
+import { createChartAction } from '../../shared/utils/chartHelpers';
+import { createBoxCategory } from '../../shared/utils/boxFactory';
+import type { FocusRequest, FocusTarget, HighlightKey, PaletteKey } from '../../types/base';
+import type { BoxCategory, BoxPlotSettings } from '../../types/box';
+import { BoxPlotLeftPanel } from './components/BoxPlotLeftPanel';
+import { BoxPlotCentralPanel } from './components/BoxPlotCentralPanel';
+import { BoxPlotRightPanel } from './components/BoxPlotRightPanel';
+import { defaultBoxPlotSettings } from './defaultSettings';
+
+const STORAGE_KEY = 'boxplot-studio-state-v1';
+const STORAGE_VERSION = 1;
+
+function buildDefaultSettings(paletteName: PaletteKey = defaultBoxPlotSettings.paletteName): BoxPlotSettings {
+    return {
+        ...defaultBoxPlotSettings,
+        paletteName,
+        data: defaultBoxPlotSettings.data.map((category) => ({ ...category, values: [...category.values] })),
+        legend: { ...defaultBoxPlotSettings.legend },
+        xAxis: { ...defaultBoxPlotSettings.xAxis },
+        yAxis: { ...defaultBoxPlotSettings.yAxis },
+    };
+}
+
+function mergeStoredSettings(stored?: Partial<BoxPlotSettings>): BoxPlotSettings {
+    if (!stored || typeof stored !== 'object') {
+        return buildDefaultSettings();
+    }
+
+    const paletteName = stored.paletteName ?? defaultBoxPlotSettings.paletteName;
+    const defaults = buildDefaultSettings(paletteName);
+    const storedData = Array.isArray(stored.data) ? stored.data : defaults.data;
+
+    const mergedData = storedData.map((category, index) => {
+        const template = createBoxCategory(index, paletteName);
+        return {
+            ...template,
+            ...category,
+            values: Array.isArray(category?.values)
+                ? category.values.filter((value) => typeof value === 'number' && Number.isFinite(value))
+                : template.values,
+        };
+    });
+
+    return {
+        ...defaults,
+        ...stored,
+        paletteName,
+        data: mergedData.length ? mergedData : defaults.data,
+        legend: { ...defaults.legend, ...stored.legend },
+        xAxis: { ...defaults.xAxis, ...stored.xAxis },
+        yAxis: { ...defaults.yAxis, ...stored.yAxis },
+    };
+}
+
+type PreviewAction = 'importData' | 'exportChart';
+
+export function BoxPlotPage() {
+    useDocumentTitle('Chart Studio | Box Plot');
+
+    const [settings, setSettings, settingsHistory] = useUndoableState<BoxPlotSettings>(() => buildDefaultSettings());
+    const { undo, redo, canUndo, canRedo, reset: replaceSettings } = settingsHistory;
+    const [previewAction, setPreviewAction] = useState<PreviewAction | null>(null);
+    const [isHydrated, setIsHydrated] = useState(false);
+    const [highlightSignals, setHighlightSignals] = useState<Record<HighlightKey, number>>({
+        chartBasics: 0,
+        yAxis: 0,
+        xAxis: 0,
+        data: 0,
+        title: 0,
+        design: 0,
+        barDesign: 0,
+        valueLabels: 0,
+        errorBars: 0,
+        significance: 0,
+        secondaryAxis: 0,
+    });
+    const focusRequestIdRef = useRef(0);
+    const [focusRequest, setFocusRequest] = useState<FocusRequest | null>(null);
+    const [selectedCategoryId, setSelectedCategoryId] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (typeof window === 'undefined' || isHydrated) return;
+
+        try {
+            const stored = window.localStorage.getItem(STORAGE_KEY);
+            if (stored) {
+                const parsed = JSON.parse(stored);
+                replaceSettings(mergeStoredSettings(parsed?.settings ?? parsed));
+            }
+        } catch (error) {
+            console.warn('Failed to load saved chart state', error);
+        } finally {
+            setIsHydrated(true);
+        }
+    }, [isHydrated, replaceSettings]);
+
+    useEffect(() => {
+        if (!isHydrated || typeof window === 'undefined') return;
+        try {
+            window.localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: STORAGE_VERSION, settings }));
+        } catch (error) {
+            console.warn('Failed to save chart state', error);
+        }
+    }, [settings, isHydrated]);
+
+    useUndoShortcuts(undo, redo);
+
+    const triggerHighlight = useCallback((keys: HighlightKey[]) => {
+        if (!keys.length) return;
+        setHighlightSignals((prev) => {
+            const next = { ...prev };
+            keys.forEach((key) => {
+                next[key] = (prev[key] ?? 0) + 1;
+            });
+            return next;
+        });
+    }, []);
+
+    const requestFocus = useCallback((target: FocusTarget) => {
+        focusRequestIdRef.current += 1;
+        setFocusRequest({ target, requestId: focusRequestIdRef.current });
+    }, []);
+
+    const handleSettingsChange = useCallback((nextSettings: BoxPlotSettings) => {
+        setSettings(nextSettings);
+    }, [setSettings]);
+
+    const handleCategoriesChange = useCallback((categories: BoxCategory[]) => {
+        setSettings((current) => ({ ...current, data: categories }));
+    }, [setSettings]);
+
+    const handlePreviewActionHandled = useCallback(() => {
+        setPreviewAction(null);
+    }, []);
+
+    const handleRequestImport = useCallback(() => {
+        setPreviewAction('importData');
+    }, []);
+
+    const handleRequestExport = useCallback(() => {
+        setPreviewAction('exportChart');
+    }, []);
+
+    const handleResetStudio = useCallback(() => {
+        setSettings(buildDefaultSettings(), { standalone: true });
+        setPreviewAction(null);
+        setFocusRequest(null);
+        triggerHighlight(['chartBasics', 'data']);
+        if (typeof window !== 'undefined') {
+            try {
+                window.localStorage.removeItem(STORAGE_KEY);
+            } catch (error) {
+                console.warn('Failed to clear saved chart state', error);
+            }
+        }
+    }, [setSettings, triggerHighlight]);
+
+    const handleResetData = useCallback(() => {
+        setSettings((current) => ({
+            ...current,
+            data: buildDefaultSettings(current.paletteName).data,
+        }), { standalone: true });
+        triggerHighlight(['data']);
+    }, [setSettings, triggerHighlight]);
+
+    const handleResetSettings = useCallback(() => {
+        setSettings((current) => {
+            const defaults = buildDefaultSettings(current.paletteName);
+            const nextData = current.data.map((category, index) => {
+                const template = createBoxCategory(index, current.paletteName);
+                return {
+                    ...category,
+                    fillColor: template.fillColor,
+                    borderColor: template.borderColor,
+                };
+            });
+            return {
+                ...defaults,
+                data: nextData,
+            };
+        }, { standalone: true });
+        triggerHighlight(['chartBasics']);
+    }, [setSettings, triggerHighlight]);
+
+    const handleSelectCategory = useCallback((categoryId: string) => {
+        setSelectedCategoryId(categoryId);
+        setTimeout(() => {
+            const categoryDesignSection = document.querySelector('[data-block="category-design"]');
+            if (categoryDesignSection) {
+                categoryDesignSection.scrollIntoView({ behavior: 'smooth', block: 'start' });
+            }
+        }, 100);
+    }, []);
+
+    const handleDesignCategory = useCallback((categoryIndex: number) => {
+        const categoryId = settings.data[categoryIndex]?.id;
+        if (!categoryId) return;
+        triggerHighlight(['design']);
+        handleSelectCategory(categoryId);
+    }, [settings.data, triggerHighlight, handleSelectCategory]);
+
+    const actionMenuItems = useMemo(
+        () => [
+            createChartAction('upload', 'Upload data', UploadCloud, handleRequestImport),
+            createChartAction('undo', 'Undo (Ctrl+Z)', Undo2, undo, !canUndo),
+            createChartAction('redo', 'Redo (Ctrl+Shift+Z)', Redo2, redo, !canRedo),
+            createChartAction('clean-studio', 'Clean Studio', Sparkles, handleResetStudio),
+            createChartAction('clean-data', 'Clean Data', Database, handleResetData),
+            createChartAction('clean-settings', 'Clean Settings', Settings, handleResetSettings),
+            createChartAction('export', 'Export chart', Download, handleRequestExport),
+        ],
+        [handleRequestImport, undo, redo, canUndo, canRedo, handleResetStudio, handleResetData, handleResetSettings, handleRequestExport],
+    );
+
+    return (
+        <ChartPage
+            title="Box Plot"
+            subtitle="Summarize replicate distributions with box plots, violins and raw points."
+            actions={actionMenuItems}
+            clipboard={{
+                scale: settings.exportScale,
+                transparent: settings.exportTransparent,
+                backgroundColor: settings.backgroundColor,
+            }}
+            leftPanel={
+                <BoxPlotLeftPanel
+                    settings={settings}
+                    onChange={handleSettingsChange}
+                    highlightSignals={highlightSignals}
+                    focusRequest={focusRequest}
+                />
+            }
+            centerPanel={
+                <BoxPlotCentralPanel
+                    chartPreview={{
+                        settings,
+                        onUpdateSettings: handleSettingsChange,
+                        onHighlight: triggerHighlight,
+                        onRequestFocus: requestFocus,
+                        onSelectCategory: handleSelectCategory,
+                        actionRequest: previewAction,
+                        onActionHandled: handlePreviewActionHandled,
+                    }}
+                    dataTable={{
+                        data: settings.data,
+                        paletteName: settings.paletteName,
+                        onChange: handleCategoriesChange,
+                        onDesignCategory: handleDesignCategory,
+                    }}
+                />
+            }
+            rightPanel={
+                <BoxPlotRightPanel
+                    settings={settings}
+                    onChange={handleSettingsChange}
+                    onCategoriesChange={handleCategoriesChange}
+                    highlightSignals={highlightSignals}
+                    selectedCategoryId={selectedCategoryId}
+                    onSelectCategory={setSelectedCategoryId}
+                />
+            }
+        />
+    );
+}
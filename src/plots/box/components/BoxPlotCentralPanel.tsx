@@ -0,0 +1,63 @@
+import { BlockGroup } from '../../../shared/components/BlockGroups';
+import { ChartPreviewBlock } from '../../../shared/components/ChartPreviewBlock';
+import { DataEditorBlock } from '../../../shared/components/DataEditorBlock';
+import { ChartPreview } from './CentralPanel/ChartPreview';
+import { DataTable } from './CentralPanel/DataTable';
+import type { BoxCategory, BoxPlotSettings } from '../../../types/box';
+import type { FocusTarget, HighlightKey, PaletteKey } from '../../../types/base';
+
+export type ChartPreviewAction = 'importData' | 'exportChart';
+
+export interface ChartPreviewProps {
+    settings: BoxPlotSettings;
+    onUpdateSettings: (settings: BoxPlotSettings) => void;
+    onHighlight: (keys: HighlightKey[]) => void;
+    onRequestFocus: (target: FocusTarget) => void;
+    onSelectCategory?: (categoryId: string) => void;
+    actionRequest?: ChartPreviewAction | null;
+    onActionHandled?: () => void;
+    heading?: string;
+}
+
+export interface DataTableProps {
+    data: BoxCategory[];
+    paletteName: PaletteKey;
+    onChange: (data: BoxCategory[]) => void;
+    onDesignCategory?: (categoryIndex: number) => void;
+}
+
+export interface BoxPlotCentralPanelProps {
+    chartPreview: ChartPreviewProps;
+    dataTable: DataTableProps;
+}
+
+export function BoxPlotCentralPanel({ chartPreview, dataTable }: BoxPlotCentralPanelProps) {
+    const { heading, ...chartPreviewProps } = chartPreview;
+
+    return (
+        <div className="flex flex-col gap-4 sm:gap-6">
+            <BlockGroup
+                title="Chart Preview"
+                sections={[{
+                    id: 'chart-preview-content',
+                    content: (
+                        <ChartPreviewBlock
+                            chartElement={<ChartPreview {...chartPreviewProps} />}
+                            heading={heading}
+                        />
+                    )
+                }]}
+                defaultExpanded={true}
+                className="w-full max-w-full overflow-hidden"
+                enableStickyMobile={true}
+            />
+            <DataEditorBlock
+                title="Data Editor"
+                defaultExpanded={false}
+                className="w-full max-w-full overflow-hidden"
+            >
+                <DataTable {...dataTable} />
+            </DataEditorBlock>
+        </div>
+    );
+}
@@ -0,0 +1,161 @@
+import { RightPanel } from '../../../shared/components/RightPanel';
+import { LegendBlock } from '../../bar/components/RightPanel/LegendBlock';
+import { CategoryDesignBlock } from './RightPanel/CategoryDesignBlock';
+import { DistributionStyleBlock } from './RightPanel/DistributionStyleBlock';
+import { RawPointsBlock } from './RightPanel/RawPointsBlock';
+import type { BoxCategory, BoxPlotSettings } from '../../../types/box'
+import type { HighlightKey } from '../../../types/base'
+import type { RightPanelBlock } from '../../../shared/components/RightPanel';
+
+export interface BoxPlotRightPanelProps {
+    settings: BoxPlotSettings;
+    onChange: (settings: BoxPlotSettings) => void;
+    onCategoriesChange: (categories: BoxCategory[]) => void;
+    highlightSignals?: Partial<Record<HighlightKey, number>>;
+    selectedCategoryId?: string | null;
+    onSelectCategory?: (categoryId: string | null) => void;
+}
+
+export function BoxPlotRightPanel({
+    settings,
+    onChange,
+    onCategoriesChange,
+    highlightSignals,
+    selectedCategoryId,
+    onSelectCategory
+}: BoxPlotRightPanelProps) {
+    const distribution = DistributionStyleBlock({ settings, onChange });
+    const rawPoints = RawPointsBlock({ settings, onChange });
+    const categoryDesign = CategoryDesignBlock({
+        categories: settings.data,
+        onCategoriesChange,
+        selectedCategoryId,
+        onSelectCategory
+    });
+    const legend = LegendBlock({ settings, onChange });
+    const showsViolin = settings.display !== 'box';
+
+    const blocks: RightPanelBlock[] = [
+        // Distribution Style Block
+        {
+            id: 'distribution-style',
+            title: 'Distribution Style',
+            sections: [
+                {
+                    id: 'distribution-shape',
+                    content: distribution.shape
+                },
+                {
+                    id: 'distribution-median',
+                    title: 'Median & Mean',
+                    content: distribution.median,
+                    className: 'border-t border-white/10 pt-6'
+                },
+                {
+                    id: 'distribution-outliers',
+                    title: 'Outliers',
+                    content: distribution.outliers,
+                    className: 'border-t border-white/10 pt-6',
+                    disabled: settings.whiskerMode === 'min-max',
+                    toggle: {
+                        value: settings.showOutliers,
+                        onChange: (value: boolean) => onChange({ ...settings, showOutliers: value })
+                    }
+                },
+                {
+                    id: 'distribution-violin',
+                    title: 'Violin',
+                    content: distribution.violin,
+                    className: 'border-t border-white/10 pt-6',
+                    disabled: !showsViolin
+                }
+            ]
+        },
+
+        // Raw Points Block
+        {
+            id: 'raw-points',
+            title: 'Raw Points',
+            sections: [
+                {
+                    id: 'raw-points-settings',
+                    content: rawPoints.pointSettings
+                }
+            ],
+            toggle: {
+                value: settings.showPoints,
+                onChange: (value: boolean) => onChange({ ...settings, showPoints: value })
+            }
+        },
+
+        // Category Design Block
+        {
+            id: 'category-design',
+            title: 'Category Design',
+            highlightKey: 'design',
+            sections: [
+                {
+                    id: 'category-selector',
+                    content: categoryDesign.categorySelector
+                },
+                {
+                    id: 'category-design-settings',
+                    content: categoryDesign.categorySettings
+                }
+            ]
+        },
+
+        // Legend Block
+        {
+            id: 'legend',
+            title: 'Legend',
+            sections: [
+                {
+                    id: 'legend-position',
+                    content: legend.position
+                },
+                {
+                    id: 'legend-text',
+                    title: 'Text',
+                    content: legend.textSettings,
+                    className: 'border-t border-white/10 pt-6'
+                },
+                {
+                    id: 'legend-background',
+                    title: 'Background & Border',
+                    content: legend.background,
+                    className: 'border-t border-white/10 pt-6'
+                },
+                {
+                    id: 'legend-spacing',
+                    title: 'Spacing',
+                    content: legend.spacing,
+                    className: 'border-t border-white/10 pt-6'
+                },
+                {
+                    id: 'legend-marker',
+                    title: 'Marker',
+                    content: legend.markerSettings,
+                    className: 'border-t border-white/10 pt-6'
+                },
+                {
+                    id: 'legend-offset',
+                    title: 'Position Offset',
+                    content: legend.position_offset,
+                    className: 'border-t border-white/10 pt-6'
+                }
+            ],
+            toggle: {
+                value: settings.legend.show,
+                onChange: (value: boolean) => onChange({ ...settings, legend: { ...settings.legend, show: value } })
+            }
+        }
+    ];
+
+    return (
+        <RightPanel
+            blocks={blocks}
+            highlightSignals={highlightSignals}
+        />
+    );
+}
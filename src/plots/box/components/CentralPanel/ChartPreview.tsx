@@ -0,0 +1,787 @@
+import { useEffect, useMemo, useRef, useState, type MouseEvent } from 'react'
+import { DEFAULT_FONT_STACK } from '../../../../shared/constants/fonts'
+import useElementSize from '../../../../shared/hooks/useElementSize'
+import type { FocusTarget, HighlightKey } from '../../../../types/base'
+import type { BoxPlotSettings } from '../../../../types/box'
+import DataImportModal from '../../../../shared/components/DataImportModal'
+import ExportModal, { type ExportRequest } from '../../../../shared/components/ExportModal'
+import type { ImportedRow } from '../../../../shared/utils/csvImport'
+import { exportSvgChart, type ExportFormat, type ExportOptions } from '../../../../shared/utils/exportChart'
+import { boxImportColumns, createBoxCategoriesFromImport } from '../../../../shared/utils/boxFactory'
+import { clamp, getGridDashArray } from '../../../../shared/utils/chartHelpers'
+import { jitterOffset } from '../../../../shared/utils/jitter'
+import { computeLegendLayout } from '../../../../shared/utils/legendLayout'
+import { createMarkerPath } from '../../../../shared/utils/markers'
+import { computeBoxStats, kernelDensity, silvermanBandwidth } from '../../../../shared/utils/statistics'
+import { computeAxisTicks, formatTickLabel } from '../../../../shared/utils/ticks'
+
+type ChartPreviewAction = 'importData' | 'exportChart'
+
+type ChartPreviewProps = {
+  settings: BoxPlotSettings
+  onUpdateSettings: (settings: BoxPlotSettings) => void
+  onHighlight: (keys: HighlightKey[]) => void
+  onRequestFocus: (target: FocusTarget) => void
+  onSelectCategory?: (categoryId: string) => void
+  actionRequest?: ChartPreviewAction | null
+  onActionHandled?: () => void
+}
+
+// Density samples along each violin's value range
+const VIOLIN_SAMPLES = 64
+
+export function ChartPreview({
+  settings,
+  onUpdateSettings,
+  onHighlight,
+  onRequestFocus,
+  onSelectCategory,
+  actionRequest,
+  onActionHandled,
+}: ChartPreviewProps) {
+  const [wrapperRef, size] = useElementSize<HTMLDivElement>()
+  const svgRef = useRef<SVGSVGElement | null>(null)
+  const [isExporting, setIsExporting] = useState(false)
+  const [isExportDialogOpen, setIsExportDialogOpen] = useState(false)
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false)
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('png')
+  const [exportFileName, setExportFileName] = useState(settings.exportFileName)
+  const [exportScale, setExportScale] = useState(settings.exportScale)
+  const [exportTransparent, setExportTransparent] = useState(settings.exportTransparent)
+
+  useEffect(() => {
+    setExportFileName(settings.exportFileName)
+    setExportScale(settings.exportScale)
+    setExportTransparent(settings.exportTransparent)
+  }, [settings.exportFileName, settings.exportScale, settings.exportTransparent])
+
+  useEffect(() => {
+    if (!actionRequest) return
+    if (actionRequest === 'importData') {
+      setIsImportDialogOpen(true)
+    } else if (actionRequest === 'exportChart') {
+      setIsExportDialogOpen(true)
+    }
+    onActionHandled?.()
+  }, [actionRequest, onActionHandled])
+
+  const customWidth = settings.customWidth && settings.customWidth > 0 ? settings.customWidth : null
+  const customHeight = settings.customHeight && settings.customHeight > 0 ? settings.customHeight : null
+  const measuredWidth = customWidth ?? (size.width > 0 ? size.width : 960)
+  const aspectRatio = clamp(settings.aspectRatio ?? 0.8, 0.2, 2)
+  const fallbackHeight = customHeight ?? Math.max(measuredWidth * aspectRatio, 320)
+  const measuredHeight = customHeight ?? (size.width > 0 ? Math.max(size.width * aspectRatio, 320) : fallbackHeight)
+  const minContainerHeight = customHeight ?? Math.max(320, measuredWidth * aspectRatio)
+
+  const sendHighlight = (keys: HighlightKey[], event?: MouseEvent<SVGElement | HTMLDivElement>) => {
+    if (event) {
+      event.stopPropagation()
+    }
+    if (keys.length === 0) return
+    onHighlight(keys)
+  }
+
+  const categoryStats = useMemo(
+    () => settings.data.map((category) => computeBoxStats(category.values, settings.whiskerMode)),
+    [settings.data, settings.whiskerMode],
+  )
+
+  const maxMarkerSize = Math.max(settings.showOutliers ? settings.outlierSize : 0, settings.showPoints ? settings.pointSize : 0)
+  const hasTitle = Boolean(settings.title)
+  const hasSubtitle = Boolean(settings.subtitle)
+  const headingGap = hasTitle && hasSubtitle ? Math.max(settings.subtitleFontSize * 0.5, 12) : 0
+  const basePadding = settings.canvasPadding
+  const margin = useMemo(() => {
+    const titleBlock = hasTitle ? settings.titleFontSize * 1.6 : 0
+    const subtitleBlock = hasSubtitle ? settings.subtitleFontSize * 1.4 : 0
+    const topNegativeOffset = Math.max(
+      hasTitle ? Math.max(-settings.titleOffsetY, 0) : 0,
+      hasSubtitle ? Math.max(-settings.subtitleOffsetY, 0) : 0,
+    )
+    const topExtra = hasTitle || hasSubtitle ? titleBlock + subtitleBlock + headingGap + topNegativeOffset : 16
+    const bottomExtra =
+      (settings.xAxis.showTickLabels ? settings.xAxisTickFontSize + 24 : 16) +
+      Math.max(settings.xAxisTitleOffsetY, 0)
+    const leftExtra =
+      (settings.yAxis.showTickLabels ? settings.yAxisTickFontSize + 28 : 16) +
+      Math.max(-settings.yAxisTitleOffsetX, 0)
+    // Markers sitting on the axis bounds must not be cut off by the canvas edge
+    const markerExtra = maxMarkerSize / 2
+
+    const top = clamp(basePadding + topExtra + markerExtra, 24, measuredHeight / 2 - 20)
+    const bottom = clamp(basePadding + bottomExtra, 32, measuredHeight / 2 - 20)
+    const left = clamp(basePadding + leftExtra, 32, measuredWidth / 2 - 20)
+    const right = clamp(basePadding + 12 + markerExtra, 24, measuredWidth / 2 - 20)
+
+    return { top, right, bottom, left }
+  }, [
+    basePadding,
+    hasSubtitle,
+    hasTitle,
+    headingGap,
+    maxMarkerSize,
+    measuredHeight,
+    measuredWidth,
+    settings.xAxisTickFontSize,
+    settings.yAxisTickFontSize,
+    settings.subtitleFontSize,
+    settings.subtitleOffsetY,
+    settings.titleFontSize,
+    settings.titleOffsetY,
+    settings.xAxisTitleOffsetY,
+    settings.xAxis.showTickLabels,
+    settings.yAxisTitleOffsetX,
+    settings.yAxis.showTickLabels,
+  ])
+
+  const chartBounds = {
+    width: Math.max(measuredWidth - margin.left - margin.right, 120),
+    height: Math.max(measuredHeight - margin.top - margin.bottom, 160),
+  }
+
+  const extent = useMemo(() => {
+    let minY = Number.POSITIVE_INFINITY
+    let maxY = Number.NEGATIVE_INFINITY
+    categoryStats.forEach((stats) => {
+      if (!stats) return
+      minY = Math.min(minY, stats.min)
+      maxY = Math.max(maxY, stats.max)
+    })
+
+    return {
+      minY: Number.isFinite(minY) ? minY : 0,
+      maxY: Number.isFinite(maxY) ? maxY : 1,
+    }
+  }, [categoryStats])
+
+  const yScale = useMemo(
+    () => computeAxisTicks(extent.minY, extent.maxY, {
+      min: settings.yAxisMin,
+      max: settings.yAxisMax,
+      step: settings.yAxisTickStep,
+    }),
+    [extent.minY, extent.maxY, settings.yAxisMin, settings.yAxisMax, settings.yAxisTickStep],
+  )
+
+  const yRange = Math.max(yScale.axisMax - yScale.axisMin, Number.EPSILON)
+
+  const toCanvasY = (value: number) => margin.top + chartBounds.height - ((value - yScale.axisMin) / yRange) * chartBounds.height
+
+  const categoryBand = chartBounds.width / (settings.data.length || 1)
+  const halfWidth = (categoryBand * clamp(settings.boxWidth, 0.1, 1)) / 2
+  const showsViolin = settings.display !== 'box'
+  const showsBox = settings.display !== 'violin'
+  // Inside a violin the box shrinks to a narrow bar so the density shape stays readable
+  const boxHalfWidth = settings.display === 'violin-box' ? halfWidth * 0.2 : halfWidth
+
+  const violinProfiles = useMemo(() => {
+    if (settings.display === 'box') return settings.data.map(() => null)
+    return settings.data.map((category, index) => {
+      const stats = categoryStats[index]
+      if (!stats || stats.count < 2 || stats.max === stats.min) return null
+      const bandwidth = settings.violinBandwidth && settings.violinBandwidth > 0
+        ? settings.violinBandwidth
+        : silvermanBandwidth(category.values)
+      // Trimmed to the observed range so the violin never suggests values that were not measured
+      return Array.from({ length: VIOLIN_SAMPLES + 1 }, (_, step) => {
+        const value = stats.min + ((stats.max - stats.min) * step) / VIOLIN_SAMPLES
+        return { value, density: kernelDensity(category.values, value, bandwidth, settings.violinKernel) }
+      })
+    })
+  }, [categoryStats, settings.data, settings.display, settings.violinBandwidth, settings.violinKernel])
+
+  // All violins share one scale so their widths are comparable across categories
+  const maxDensity = Math.max(
+    ...violinProfiles.flatMap((profile) => profile?.map((sample) => sample.density) ?? []),
+    Number.EPSILON,
+  )
+
+  const categoryLayout = settings.data.map((category, index) => {
+    const center = margin.left + categoryBand * index + categoryBand / 2
+    const profile = violinProfiles[index]
+    const violinPath = profile
+      ? [
+        ...profile.map(({ value, density }, step) =>
+          `${step === 0 ? 'M' : 'L'} ${center + (halfWidth * density) / maxDensity} ${toCanvasY(value)}`),
+        ...[...profile].reverse().map(({ value, density }) =>
+          `L ${center - (halfWidth * density) / maxDensity} ${toCanvasY(value)}`),
+        'Z',
+      ].join(' ')
+      : ''
+    return { category, index, center, stats: categoryStats[index], violinPath }
+  })
+
+  const axisStyles = {
+    x: settings.xAxis,
+    y: settings.yAxis,
+  }
+
+  const globalFontFamily = settings.globalFontFamily || DEFAULT_FONT_STACK
+  const titleColor = settings.titleColor ?? settings.textColor
+  const titleFontWeight = settings.titleIsBold ? 700 : 500
+  const titleFontStyle = settings.titleIsItalic ? 'italic' : 'normal'
+  const titleTextDecoration = settings.titleIsUnderline ? 'underline' : 'none'
+  const subtitleColor = settings.subtitleColor || settings.textColor
+  const subtitleFontWeight = settings.subtitleIsBold ? 600 : 400
+  const subtitleFontStyle = settings.subtitleIsItalic ? 'italic' : 'normal'
+  const subtitleTextDecoration = settings.subtitleIsUnderline ? 'underline' : 'none'
+
+  const chartAreaTop = margin.top
+  const chartAreaBottom = margin.top + chartBounds.height
+  const chartTitleOffset = clamp(settings.titleFontSize * 0.75, 12, Math.max(margin.top - 8, 12))
+  const baseTitleY = margin.top - chartTitleOffset
+  const chartTitleY = baseTitleY + settings.titleOffsetY
+  const chartTitleX = clamp(
+    measuredWidth / 2 + (settings.titleOffsetX ?? 0),
+    margin.left,
+    measuredWidth - margin.right,
+  )
+  const subtitleBaseOffset = clamp(settings.subtitleFontSize * 0.6, 10, Math.max(margin.top - 8, 10))
+  const baseSubtitleY = hasTitle
+    ? chartTitleY + settings.titleFontSize + headingGap
+    : margin.top - subtitleBaseOffset
+  const chartSubtitleY = baseSubtitleY + settings.subtitleOffsetY
+  const chartSubtitleX = clamp(
+    measuredWidth / 2 + (settings.subtitleOffsetX ?? 0),
+    margin.left,
+    measuredWidth - margin.right,
+  )
+  const baseXAxisTitleY = chartAreaBottom + settings.xAxisTitleFontSize + 12 + settings.xAxisTitleOffsetY
+  const xAxisTitleY = clamp(baseXAxisTitleY, settings.xAxisTitleFontSize, measuredHeight - 8)
+  const baseYAxisTitleX = Math.max(Math.min(margin.left - 24, 80), 16)
+  const yAxisTitleX = clamp(baseYAxisTitleX + settings.yAxisTitleOffsetX, 8, margin.left + 160)
+  const yAxisTitleY = chartAreaTop + chartBounds.height / 2
+  const xTickBaseY = Math.min(chartAreaBottom + settings.xAxisTickFontSize + 6, measuredHeight - 4)
+
+  const download = async (options: ExportOptions) => {
+    if (!svgRef.current) return
+    await exportSvgChart(svgRef.current, options, {
+      width: measuredWidth,
+      height: measuredHeight,
+      backgroundColor: settings.backgroundColor,
+    })
+  }
+
+  const closeExportDialog = () => {
+    if (isExporting) return
+    setIsExportDialogOpen(false)
+  }
+
+  useEffect(() => {
+    if (!isExportDialogOpen) return
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        setIsExportDialogOpen(false)
+      }
+    }
+    window.addEventListener('keydown', handleKey)
+    return () => {
+      window.removeEventListener('keydown', handleKey)
+    }
+  }, [isExportDialogOpen])
+
+  const handleExportConfirm = async ({ presetId, ...requested }: ExportRequest) => {
+    if (isExporting) return
+    const options: ExportOptions = {
+      ...requested,
+      fileName: requested.fileName.trim() || 'boxplot',
+    }
+
+    try {
+      setIsExporting(true)
+      onUpdateSettings({
+        ...settings,
+        exportScale: options.scale,
+        exportFileName: options.fileName,
+        exportTransparent: options.transparent,
+        exportPresetId: presetId,
+      })
+      await download(options)
+      setIsExportDialogOpen(false)
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  const handleImportConfirm = (rows: ImportedRow[]) => {
+    setIsImportDialogOpen(false)
+    const categories = createBoxCategoriesFromImport(rows, settings.paletteName)
+    if (!categories.length) return
+    onUpdateSettings({
+      ...settings,
+      data: categories,
+    })
+    onHighlight(['data'])
+  }
+
+  const handleImportCancel = () => {
+    setIsImportDialogOpen(false)
+  }
+
+  return (
+    <>
+      <div
+        ref={wrapperRef}
+        className="relative flex min-h-[280px] sm:min-h-[420px] flex-1 items-center justify-center transition w-full max-w-full overflow-hidden rounded-2xl"
+        style={{ backgroundColor: settings.backgroundColor, minHeight: `${Math.min(minContainerHeight, 420)}px` }}
+      >
+        <svg
+          ref={svgRef}
+          className="max-w-full h-auto"
+          width={measuredWidth}
+          height={measuredHeight}
+          viewBox={`0 0 ${measuredWidth} ${measuredHeight}`}
+          role="img"
+        >
+          <title>{settings.title || 'Box plot'}</title>
+          <defs>
+            <clipPath id="box-plot-area">
+              <rect
+                x={margin.left}
+                y={margin.top - maxMarkerSize / 2}
+                width={chartBounds.width}
+                height={chartBounds.height + maxMarkerSize}
+              />
+            </clipPath>
+          </defs>
+          <rect
+            data-role="background"
+            x={0}
+            y={0}
+            width={measuredWidth}
+            height={measuredHeight}
+            fill={settings.backgroundColor}
+            onDoubleClick={(event) => sendHighlight(['chartBasics'], event)}
+          />
+          {settings.title ? (
+            <text
+              x={chartTitleX}
+              y={chartTitleY}
+              textAnchor="middle"
+              fill={titleColor}
+              fontSize={settings.titleFontSize}
+              fontFamily={globalFontFamily}
+              style={{
+                fontWeight: titleFontWeight,
+                fontStyle: titleFontStyle,
+                textDecoration: titleTextDecoration,
+              }}
+              onDoubleClick={(event) => {
+                sendHighlight(['title'], event)
+                onRequestFocus({ type: 'chartTitle' })
+              }}
+            >
+              {settings.title}
+            </text>
+          ) : null}
+          {settings.subtitle ? (
+            <text
+              x={chartSubtitleX}
+              y={chartSubtitleY}
+              textAnchor="middle"
+              fill={subtitleColor}
+              fontSize={settings.subtitleFontSize}
+              fontFamily={globalFontFamily}
+              style={{
+                fontWeight: subtitleFontWeight,
+                fontStyle: subtitleFontStyle,
+                textDecoration: subtitleTextDecoration,
+              }}
+              onDoubleClick={(event) => {
+                sendHighlight(['title'], event)
+                onRequestFocus({ type: 'chartSubtitle' })
+              }}
+            >
+              {settings.subtitle}
+            </text>
+          ) : null}
+
+          {/* Grid lines */}
+          {axisStyles.y.showGridLines
+            ? yScale.ticks.map((tick) => {
+              const y = toCanvasY(tick)
+              return (
+                <line
+                  key={`h-grid-${tick}`}
+                  x1={margin.left}
+                  x2={margin.left + chartBounds.width}
+                  y1={y}
+                  y2={y}
+                  stroke={axisStyles.y.gridLineColor}
+                  strokeWidth={axisStyles.y.gridLineWidth}
+                  strokeDasharray={getGridDashArray(axisStyles.y.gridLineStyle)}
+                  strokeOpacity={axisStyles.y.gridLineOpacity}
+                />
+              )
+            })
+            : null}
+          {axisStyles.x.showGridLines
+            ? categoryLayout.map(({ category, center: x }) => {
+              return (
+                <line
+                  key={`v-grid-${category.id}`}
+                  x1={x}
+                  x2={x}
+                  y1={margin.top}
+                  y2={margin.top + chartBounds.height}
+                  stroke={axisStyles.x.gridLineColor}
+                  strokeWidth={axisStyles.x.gridLineWidth}
+                  strokeDasharray={getGridDashArray(axisStyles.x.gridLineStyle)}
+                  strokeOpacity={axisStyles.x.gridLineOpacity}
+                />
+              )
+            })
+            : null}
+
+          <g clipPath="url(#box-plot-area)">
+            {categoryLayout.map(({ category, index, center, stats, violinPath }) => {
+              if (!stats) return null
+              const selectCategory = (event: MouseEvent<SVGElement>) => {
+                sendHighlight(['design'], event)
+                onSelectCategory?.(category.id)
+              }
+              const borderWidth = Math.max(settings.boxBorderWidth, 0)
+              const boxTop = toCanvasY(stats.q3)
+              const boxBottom = toCanvasY(stats.q1)
+              const capHalfWidth = boxHalfWidth * clamp(settings.whiskerCapWidth, 0, 1)
+
+              return (
+                <g key={category.id}>
+                  {/* Violin */}
+                  {showsViolin && violinPath ? (
+                    <path
+                      d={violinPath}
+                      fill={category.fillColor}
+                      fillOpacity={clamp(settings.violinOpacity, 0, 1)}
+                      stroke={borderWidth > 0 ? category.borderColor : 'none'}
+                      strokeWidth={borderWidth}
+                      strokeLinejoin="round"
+                      onDoubleClick={selectCategory}
+                    />
+                  ) : null}
+
+                  {/* Box and whiskers */}
+                  {showsBox ? (
+                    <g onDoubleClick={selectCategory}>
+                      <line
+                        x1={center}
+                        x2={center}
+                        y1={boxTop}
+                        y2={toCanvasY(stats.whiskerHigh)}
+                        stroke={category.borderColor}
+                        strokeWidth={Math.max(borderWidth, 1)}
+                      />
+                      <line
+                        x1={center}
+                        x2={center}
+                        y1={boxBottom}
+                        y2={toCanvasY(stats.whiskerLow)}
+                        stroke={category.borderColor}
+                        strokeWidth={Math.max(borderWidth, 1)}
+                      />
+                      {capHalfWidth > 0 ? (
+                        <>
+                          <line
+                            x1={center - capHalfWidth}
+                            x2={center + capHalfWidth}
+                            y1={toCanvasY(stats.whiskerHigh)}
+                            y2={toCanvasY(stats.whiskerHigh)}
+                            stroke={category.borderColor}
+                            strokeWidth={Math.max(borderWidth, 1)}
+                          />
+                          <line
+                            x1={center - capHalfWidth}
+                            x2={center + capHalfWidth}
+                            y1={toCanvasY(stats.whiskerLow)}
+                            y2={toCanvasY(stats.whiskerLow)}
+                            stroke={category.borderColor}
+                            strokeWidth={Math.max(borderWidth, 1)}
+                          />
+                        </>
+                      ) : null}
+                      <rect
+                        x={center - boxHalfWidth}
+                        y={boxTop}
+                        width={boxHalfWidth * 2}
+                        height={Math.max(boxBottom - boxTop, 0.5)}
+                        fill={category.fillColor}
+                        fillOpacity={clamp(settings.boxOpacity, 0, 1)}
+                        stroke={borderWidth > 0 ? category.borderColor : 'none'}
+                        strokeWidth={borderWidth}
+                      />
+                      <line
+                        x1={center - boxHalfWidth}
+                        x2={center + boxHalfWidth}
+                        y1={toCanvasY(stats.median)}
+                        y2={toCanvasY(stats.median)}
+                        stroke={settings.medianColor}
+                        strokeWidth={settings.medianWidth}
+                      />
+                    </g>
+                  ) : (
+                    <line
+                      x1={center - halfWidth * 0.3}
+                      x2={center + halfWidth * 0.3}
+                      y1={toCanvasY(stats.median)}
+                      y2={toCanvasY(stats.median)}
+                      stroke={settings.medianColor}
+                      strokeWidth={settings.medianWidth}
+                      onDoubleClick={selectCategory}
+                    />
+                  )}
+
+                  {settings.showMean ? (
+                    <path
+                      d={createMarkerPath('diamond', center, toCanvasY(stats.mean), Math.max(settings.medianWidth * 3, 6))}
+                      fill={settings.medianColor}
+                      stroke={category.borderColor}
+                      strokeWidth={1}
+                      onDoubleClick={selectCategory}
+                    />
+                  ) : null}
+
+                  {/* Raw replicates */}
+                  {settings.showPoints
+                    ? category.values.map((value, valueIndex) => (
+                      <path
+                        key={`point-${valueIndex}`}
+                        d={createMarkerPath(
+                          'circle',
+                          center + jitterOffset(index, valueIndex) * categoryBand * clamp(settings.jitterWidth, 0, 1),
+                          toCanvasY(value),
+                          settings.pointSize,
+                        )}
+                        fill={category.fillColor}
+                        fillOpacity={clamp(settings.pointOpacity, 0, 1)}
+                        stroke={category.borderColor}
+                        strokeOpacity={clamp(settings.pointOpacity, 0, 1)}
+                        strokeWidth={0.75}
+                        onDoubleClick={(event) => sendHighlight(['data'], event)}
+                      />
+                    ))
+                    : null}
+
+                  {/* Outliers */}
+                  {showsBox && settings.showOutliers
+                    ? stats.outliers.map((value, outlierIndex) => (
+                      <path
+                        key={`outlier-${outlierIndex}`}
+                        d={createMarkerPath(settings.outlierShape, center, toCanvasY(value), settings.outlierSize)}
+                        fill="none"
+                        stroke={category.borderColor}
+                        strokeWidth={1.5}
+                        onDoubleClick={selectCategory}
+                      />
+                    ))
+                    : null}
+                </g>
+              )
+            })}
+          </g>
+
+          {/* Axes */}
+          {axisStyles.x.showAxisLines ? (
+            <line
+              x1={margin.left}
+              x2={margin.left + chartBounds.width}
+              y1={chartAreaBottom}
+              y2={chartAreaBottom}
+              stroke={axisStyles.x.axisLineColor}
+              strokeWidth={axisStyles.x.axisLineWidth}
+              onDoubleClick={(event) => sendHighlight(['xAxis'], event)}
+            />
+          ) : null}
+          {axisStyles.y.showAxisLines ? (
+            <line
+              x1={margin.left}
+              x2={margin.left}
+              y1={chartAreaTop}
+              y2={chartAreaBottom}
+              stroke={axisStyles.y.axisLineColor}
+              strokeWidth={axisStyles.y.axisLineWidth}
+              onDoubleClick={(event) => sendHighlight(['yAxis'], event)}
+            />
+          ) : null}
+
+          {/* Axis titles */}
+          {axisStyles.x.title ? (
+            <text
+              x={margin.left + chartBounds.width / 2}
+              y={xAxisTitleY}
+              textAnchor="middle"
+              fill={axisStyles.x.axisLineColor}
+              fontFamily={globalFontFamily}
+              fontSize={settings.xAxisTitleFontSize}
+              fontWeight={500}
+              onDoubleClick={(event) => {
+                sendHighlight(['xAxis'], event)
+                onRequestFocus({ type: 'xAxisTitle' })
+              }}
+            >
+              {axisStyles.x.title}
+            </text>
+          ) : null}
+          {axisStyles.y.title ? (
+            <text
+              x={yAxisTitleX}
+              y={yAxisTitleY}
+              textAnchor="middle"
+              fill={axisStyles.y.axisLineColor}
+              fontFamily={globalFontFamily}
+              fontSize={settings.yAxisTitleFontSize}
+              fontWeight={500}
+              transform={`rotate(-90 ${yAxisTitleX} ${yAxisTitleY})`}
+              onDoubleClick={(event) => {
+                sendHighlight(['yAxis'], event)
+                onRequestFocus({ type: 'yAxisTitle' })
+              }}
+            >
+              {axisStyles.y.title}
+            </text>
+          ) : null}
+
+          {/* Tick labels */}
+          {axisStyles.y.showTickLabels
+            ? yScale.ticks.map((tick) => {
+              const baseX = margin.left - 10 + (settings.yAxisTickOffsetX ?? 0)
+              const baseY = toCanvasY(tick) + settings.yAxisTickFontSize / 3 + (settings.yAxisTickOffsetY ?? 0)
+              return (
+                <text
+                  key={`ytick-${tick}`}
+                  x={baseX}
+                  y={baseY}
+                  textAnchor="end"
+                  fill={axisStyles.y.tickLabelColor}
+                  fontFamily={globalFontFamily}
+                  fontSize={settings.yAxisTickFontSize}
+                  transform={axisStyles.y.tickLabelOrientation !== 0 ? `rotate(${axisStyles.y.tickLabelOrientation}, ${baseX}, ${baseY})` : undefined}
+                  onDoubleClick={(event) => sendHighlight(['yAxis'], event)}
+                >
+                  {formatTickLabel(tick)}
+                </text>
+              )
+            })
+            : null}
+          {axisStyles.x.showTickLabels
+            ? categoryLayout.map(({ category, center }) => {
+              const baseX = center + (settings.xAxisTickOffsetX ?? 0)
+              const baseY = xTickBaseY + (settings.xAxisTickOffsetY ?? 0)
+              return (
+                <text
+                  key={`xlabel-${category.id}`}
+                  x={baseX}
+                  y={baseY}
+                  textAnchor="middle"
+                  fill={axisStyles.x.tickLabelColor}
+                  fontFamily={globalFontFamily}
+                  fontSize={settings.xAxisTickFontSize}
+                  transform={axisStyles.x.tickLabelOrientation !== 0 ? `rotate(${axisStyles.x.tickLabelOrientation}, ${baseX}, ${baseY})` : undefined}
+                  onDoubleClick={(event) => {
+                    sendHighlight(['data'], event)
+                    onRequestFocus({ type: 'dataLabel', dataId: category.id })
+                  }}
+                >
+                  {category.label}
+                </text>
+              )
+            })
+            : null}
+
+          {/* Legend */}
+          {settings.legend.show && settings.data.length > 0 ? (() => {
+            const legend = settings.legend
+            const markerSize = legend.markerSize
+            const layout = computeLegendLayout(
+              legend,
+              settings.data.map((category) => category.label),
+              { width: measuredWidth, height: measuredHeight },
+              margin,
+            )
+            const fontWeight = legend.isBold ? 700 : 400
+            const fontStyle = legend.isItalic ? 'italic' : 'normal'
+
+            return (
+              <g key="legend">
+                {legend.borderWidth > 0 || legend.backgroundOpacity > 0 ? (
+                  <rect
+                    x={layout.x}
+                    y={layout.y}
+                    width={layout.width}
+                    height={layout.height}
+                    fill={legend.backgroundColor}
+                    fillOpacity={legend.backgroundOpacity}
+                    stroke={legend.borderColor}
+                    strokeWidth={legend.borderWidth}
+                    rx={legend.borderRadius}
+                    ry={legend.borderRadius}
+                  />
+                ) : null}
+                {settings.data.map((category, index) => {
+                  const itemY = layout.y + legend.paddingY + index * layout.itemHeight
+                  const markerX = layout.x + legend.paddingX
+                  const markerY = itemY + (layout.itemHeight - legend.itemSpacing) / 2 - markerSize / 2
+                  const textX = markerX + markerSize + legend.markerSpacing
+                  const textY = itemY + (layout.itemHeight - legend.itemSpacing) / 2 + legend.fontSize * 0.35
+
+                  return (
+                    <g key={category.id}>
+                      <rect
+                        x={markerX}
+                        y={markerY}
+                        width={markerSize}
+                        height={markerSize}
+                        fill={category.fillColor}
+                        fillOpacity={clamp(settings.display === 'violin' ? settings.violinOpacity : settings.boxOpacity, 0, 1)}
+                        stroke={category.borderColor}
+                        strokeWidth={1}
+                        rx={2}
+                        ry={2}
+                      />
+                      <text
+                        x={textX}
+                        y={textY}
+                        fill={legend.textColor}
+                        fontSize={legend.fontSize}
+                        fontFamily={legend.fontFamily}
+                        style={{
+                          fontWeight,
+                          fontStyle,
+                        }}
+                      >
+                        {category.label}
+                      </text>
+                    </g>
+                  )
+                })}
+              </g>
+            )
+          })() : null}
+        </svg>
+      </div>
+      <DataImportModal
+        isOpen={isImportDialogOpen}
+        columns={boxImportColumns}
+        maxRows={10000}
+        onCancel={handleImportCancel}
+        onConfirm={handleImportConfirm}
+      />
+      <ExportModal
+        isOpen={isExportDialogOpen}
+        onClose={closeExportDialog}
+        initial={{ format: exportFormat, fileName: exportFileName, scale: exportScale, transparent: exportTransparent, presetId: settings.exportPresetId }}
+        svgRef={svgRef}
+        presets={settings.exportPresets}
+        onPresetsChange={(exportPresets) => onUpdateSettings({ ...settings, exportPresets })}
+        onExport={async (opts) => {
+          setExportFormat(opts.format)
+          setExportFileName(opts.fileName)
+          setExportScale(opts.scale)
+          setExportTransparent(opts.transparent)
+          await handleExportConfirm(opts)
+        }}
+      />
+    </>
+  )
+}
+
+export default ChartPreview
@@ -0,0 +1,127 @@
+import { Palette } from 'lucide-react';
+import { useCallback, useMemo } from 'react';
+import { createBoxCategory } from '../../../../shared/utils/boxFactory';
+import { parseValueList } from '../../../../shared/utils/replicates';
+import { ColorField } from '../../../../shared/components/ColorField';
+import { DataTable as SharedDataTable, type DataTableColumn, type DataTableRow } from '../../../../shared/components/DataTable';
+import type { BoxCategory } from '../../../../types/box';
+import type { PaletteKey } from '../../../../types/base';
+
+interface BoxDataTableProps {
+    data: BoxCategory[];
+    paletteName: PaletteKey;
+    onChange: (data: BoxCategory[]) => void;
+    onDesignCategory?: (categoryIndex: number) => void;
+    className?: string;
+}
+
+export function DataTable({ data, paletteName, onChange, onDesignCategory, className = '' }: BoxDataTableProps) {
+    // Replicates are edited as one comma-separated cell; the count is shown alongside for checking
+    const tableRows = useMemo<DataTableRow[]>(() => data.map((category) => ({
+        id: category.id,
+        fillColor: category.fillColor,
+        label: category.label,
+        values: category.values.join(', '),
+        count: category.values.length,
+    })), [data]);
+
+    const updateRow = useCallback((rowIndex: number, changes: Partial<BoxCategory>) => {
+        const updatedData = [...data];
+        updatedData[rowIndex] = { ...updatedData[rowIndex], ...changes };
+        onChange(updatedData);
+    }, [data, onChange]);
+
+    const handleCellEdit = useCallback((rowIndex: number, column: string, value: string) => {
+        const current = data[rowIndex];
+        if (!current) return;
+
+        switch (column) {
+            case 'label':
+                updateRow(rowIndex, { label: value || `Group ${rowIndex + 1}` });
+                break;
+            case 'values':
+                updateRow(rowIndex, { values: parseValueList(value) });
+                break;
+        }
+    }, [data, updateRow]);
+
+    const addRow = useCallback(() => {
+        onChange([...data, createBoxCategory(data.length, paletteName)]);
+    }, [data, paletteName, onChange]);
+
+    const deleteRow = useCallback((index: number) => {
+        if (data.length > 1) {
+            onChange(data.filter((_, i) => i !== index));
+        }
+    }, [data, onChange]);
+
+    const handleReorder = useCallback((fromIndex: number, toIndex: number) => {
+        const updatedData = [...data];
+        const draggedItem = updatedData[fromIndex];
+
+        updatedData.splice(fromIndex, 1);
+        const actualDropIndex = fromIndex < toIndex ? toIndex - 1 : toIndex;
+        updatedData.splice(actualDropIndex, 0, draggedItem);
+
+        onChange(updatedData);
+    }, [data, onChange]);
+
+    const columns: DataTableColumn<DataTableRow>[] = [
+        {
+            key: 'fillColor',
+            label: 'Color',
+            width: 'w-32 sm:w-48',
+            render: (_, _row, index) => (
+                <ColorField
+                    label=""
+                    value={data[index]?.fillColor ?? ''}
+                    onChange={(value) => updateRow(index, { fillColor: value })}
+                    inputProps={{ className: "text-xs" }}
+                />
+            )
+        },
+        {
+            key: 'label',
+            label: 'Category'
+        },
+        {
+            key: 'values',
+            label: 'Values'
+        },
+        {
+            key: 'count',
+            label: 'n',
+            width: 'w-16',
+            render: (value) => <span className="px-2 text-white/60">{String(value)}</span>
+        }
+    ];
+
+    const renderActions = useCallback((_row: DataTableRow, index: number) => (
+        <>
+            {onDesignCategory && (
+                <button
+                    onClick={() => onDesignCategory(index)}
+                    className="text-indigo-400 hover:text-indigo-300 transition-colors p-1"
+                    title="Design this category"
+                >
+                    <Palette className="w-3 h-3 sm:w-4 sm:h-4" />
+                </button>
+            )}
+        </>
+    ), [onDesignCategory]);
+
+    return (
+        <SharedDataTable
+            data={tableRows}
+            columns={columns}
+            onRowAdd={addRow}
+            onRowDelete={deleteRow}
+            onRowReorder={handleReorder}
+            onCellEdit={handleCellEdit}
+            addButtonLabel="Add Category"
+            canDelete={() => data.length > 1}
+            actions={renderActions}
+            className={className}
+        />
+    );
+}
@@ -0,0 +1,77 @@
+import { useState, useEffect } from 'react'
+import { ColorField } from '../../../../shared/components/ColorField'
+import { SelectField } from '../../../../shared/components/SelectField'
+import { GroupComponents } from '../../../../shared/components/GroupComponents'
+import type { BoxCategory } from '../../../../types/box'
+
+interface CategoryDesignBlockProps {
+    categories: BoxCategory[];
+    onCategoriesChange: (categories: BoxCategory[]) => void;
+    selectedCategoryId?: string | null;
+    onSelectCategory?: (categoryId: string | null) => void;
+}
+
+export function CategoryDesignBlock({
+    categories,
+    onCategoriesChange,
+    selectedCategoryId: externalSelectedCategoryId,
+    onSelectCategory
+}: CategoryDesignBlockProps) {
+    const [internalSelectedCategoryId, setInternalSelectedCategoryId] = useState<string>(categories[0]?.id || '')
+
+    // Use external selection if provided, otherwise use internal state
+    const selectedCategoryId = externalSelectedCategoryId || internalSelectedCategoryId
+    const setSelectedCategoryId = onSelectCategory || setInternalSelectedCategoryId
+
+    useEffect(() => {
+        if (!categories.find(category => category.id === selectedCategoryId)) {
+            setSelectedCategoryId(categories[0]?.id || '')
+        }
+    }, [categories, selectedCategoryId, setSelectedCategoryId])
+
+    const updateCategory = <K extends keyof Omit<BoxCategory, 'id'>>(categoryId: string, field: K, value: BoxCategory[K]) => {
+        onCategoriesChange(categories.map(category =>
+            category.id === categoryId ? { ...category, [field]: value } : category
+        ))
+    }
+
+    const selectedCategory = categories.find(category => category.id === selectedCategoryId) || categories[0]
+
+    return {
+        categorySelector: (
+            <div className="flex items-center justify-start gap-4">
+                <span className="text-sm font-semibold text-white/80">Active Category:</span>
+                <SelectField<string>
+                    className="w-48"
+                    label=""
+                    value={selectedCategory?.id ?? ''}
+                    onChange={(newCategoryId) => setSelectedCategoryId(newCategoryId)}
+                    options={categories.map((category, index) => ({
+                        value: category.id,
+                        label: category.label || `Group ${index + 1}`
+                    }))}
+                    placeholder="Select category to edit"
+                />
+            </div>
+        ),
+
+        categorySettings: selectedCategory ? (
+            <GroupComponents
+                maxColumns={2}
+                gap={2}
+                rowGap={2}
+            >
+                <ColorField
+                    label="Fill color"
+                    value={selectedCategory.fillColor}
+                    onChange={(value) => updateCategory(selectedCategory.id, 'fillColor', value)}
+                />
+                <ColorField
+                    label="Border color"
+                    value={selectedCategory.borderColor}
+                    onChange={(value) => updateCategory(selectedCategory.id, 'borderColor', value)}
+                />
+            </GroupComponents>
+        ) : null
+    }
+}
@@ -0,0 +1,192 @@
+import { AutoNumericInput } from '../../../../shared/components/AutoNumericInput'
+import { ColorField } from '../../../../shared/components/ColorField'
+import { NumericInput } from '../../../../shared/components/NumericInput'
+import { GroupComponents } from '../../../../shared/components/GroupComponents'
+import { SelectField } from '../../../../shared/components/SelectField'
+import { Toggle } from '../../../../shared/components/Toggle'
+import { markerShapeOptions } from '../../../../shared/utils/markers'
+import { mean, silvermanBandwidth } from '../../../../shared/utils/statistics'
+import type { BoxPlotDisplay, BoxPlotSettings, WhiskerMode } from '../../../../types/box'
+import type { KdeKernel } from '../../../../types/histogram'
+import type { ScatterPointShape } from '../../../../types/scatter'
+
+type DistributionStyleBlockProps = {
+    settings: BoxPlotSettings
+    onChange: (settings: BoxPlotSettings) => void
+}
+
+const displayOptions: Array<{ value: BoxPlotDisplay; label: string }> = [
+    { value: 'box', label: 'Box' },
+    { value: 'violin', label: 'Violin' },
+    { value: 'violin-box', label: 'Violin with box' },
+]
+
+const whiskerOptions: Array<{ value: WhiskerMode; label: string }> = [
+    { value: 'tukey', label: 'Tukey (1.5 × IQR)' },
+    { value: 'min-max', label: 'Min to max' },
+]
+
+const kernelOptions: Array<{ value: KdeKernel; label: string }> = [
+    { value: 'gaussian', label: 'Gaussian' },
+    { value: 'epanechnikov', label: 'Epanechnikov' },
+]
+
+export function DistributionStyleBlock({ settings, onChange }: DistributionStyleBlockProps) {
+    const update = <K extends keyof BoxPlotSettings>(key: K, value: BoxPlotSettings[K]) => {
+        onChange({ ...settings, [key]: value })
+    }
+
+    // Auto bandwidth is chosen per category; the average is a sensible start for a manual value
+    const autoBandwidth = mean(settings.data
+        .filter((category) => category.values.length > 1)
+        .map((category) => silvermanBandwidth(category.values)))
+
+    return {
+        shape: (
+            <GroupComponents
+                maxColumns={3}
+                gap={2}
+                rowGap={2}
+            >
+                <SelectField<BoxPlotDisplay>
+                    label="Display"
+                    value={settings.display}
+                    onChange={(value) => update('display', value)}
+                    options={displayOptions}
+                />
+                <SelectField<WhiskerMode>
+                    label="Whiskers"
+                    value={settings.whiskerMode}
+                    onChange={(value) => update('whiskerMode', value)}
+                    options={whiskerOptions}
+                />
+                <NumericInput
+                    title="Width"
+                    value={settings.boxWidth}
+                    min={0.1}
+                    max={1}
+                    step={0.05}
+                    precision={2}
+                    onChange={(value) => update('boxWidth', value)}
+                />
+                <NumericInput
+                    title="Fill opacity"
+                    value={settings.boxOpacity}
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    precision={2}
+                    onChange={(value) => update('boxOpacity', value)}
+                />
+                <NumericInput
+                    title="Border width"
+                    value={settings.boxBorderWidth}
+                    min={0}
+                    max={8}
+                    step={0.5}
+                    precision={1}
+                    onChange={(value) => update('boxBorderWidth', value)}
+                    suffix="px"
+                />
+                <NumericInput
+                    title="Whisker cap"
+                    value={settings.whiskerCapWidth}
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    precision={2}
+                    onChange={(value) => update('whiskerCapWidth', value)}
+                />
+            </GroupComponents>
+        ),
+
+        median: (
+            <GroupComponents
+                maxColumns={3}
+                gap={2}
+                rowGap={2}
+            >
+                <ColorField
+                    label="Median color"
+                    value={settings.medianColor}
+                    onChange={(value) => update('medianColor', value)}
+                />
+                <NumericInput
+                    title="Median width"
+                    value={settings.medianWidth}
+                    min={0.5}
+                    max={8}
+                    step={0.5}
+                    precision={1}
+                    onChange={(value) => update('medianWidth', value)}
+                    suffix="px"
+                />
+                <Toggle
+                    title="Show mean"
+                    value={settings.showMean}
+                    onChange={(value) => update('showMean', value)}
+                />
+            </GroupComponents>
+        ),
+
+        outliers: (
+            <GroupComponents
+                maxColumns={2}
+                gap={2}
+                rowGap={2}
+            >
+                <SelectField<ScatterPointShape>
+                    label="Shape"
+                    value={settings.outlierShape}
+                    onChange={(value) => update('outlierShape', value)}
+                    options={markerShapeOptions}
+                />
+                <NumericInput
+                    title="Size"
+                    value={settings.outlierSize}
+                    min={2}
+                    max={24}
+                    step={1}
+                    precision={0}
+                    onChange={(value) => update('outlierSize', value)}
+                    suffix="px"
+                />
+            </GroupComponents>
+        ),
+
+        violin: (
+            <GroupComponents
+                maxColumns={3}
+                gap={2}
+                rowGap={2}
+            >
+                <SelectField<KdeKernel>
+                    label="Kernel"
+                    value={settings.violinKernel}
+                    onChange={(value) => update('violinKernel', value)}
+                    options={kernelOptions}
+                />
+                <AutoNumericInput
+                    title="Bandwidth"
+                    value={settings.violinBandwidth}
+                    onChange={(value) => update('violinBandwidth', value)}
+                    min={0.001}
+                    max={100000}
+                    step={0.1}
+                    precision={3}
+                    autoValue={Number(autoBandwidth.toFixed(3))}
+                    placeholder="auto"
+                />
+                <NumericInput
+                    title="Violin opacity"
+                    value={settings.violinOpacity}
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    precision={2}
+                    onChange={(value) => update('violinOpacity', value)}
+                />
+            </GroupComponents>
+        )
+    }
+}
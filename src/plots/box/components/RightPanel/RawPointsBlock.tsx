@@ -0,0 +1,53 @@
+import { NumericInput } from '../../../../shared/components/NumericInput'
+import { GroupComponents } from '../../../../shared/components/GroupComponents'
+import type { BoxPlotSettings } from '../../../../types/box'
+
+type RawPointsBlockProps = {
+    settings: BoxPlotSettings
+    onChange: (settings: BoxPlotSettings) => void
+}
+
+export function RawPointsBlock({ settings, onChange }: RawPointsBlockProps) {
+    const update = <K extends keyof BoxPlotSettings>(key: K, value: BoxPlotSettings[K]) => {
+        onChange({ ...settings, [key]: value })
+    }
+
+    return {
+        pointSettings: (
+            <GroupComponents
+                maxColumns={3}
+                gap={2}
+                rowGap={2}
+            >
+                <NumericInput
+                    title="Point size"
+                    value={settings.pointSize}
+                    min={1}
+                    max={24}
+                    step={1}
+                    precision={0}
+                    onChange={(value) => update('pointSize', value)}
+                    suffix="px"
+                />
+                <NumericInput
+                    title="Opacity"
+                    value={settings.pointOpacity}
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    precision={2}
+                    onChange={(value) => update('pointOpacity', value)}
+                />
+                <NumericInput
+                    title="Jitter width"
+                    value={settings.jitterWidth}
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    precision={2}
+                    onChange={(value) => update('jitterWidth', value)}
+                />
+            </GroupComponents>
+        )
+    }
+}
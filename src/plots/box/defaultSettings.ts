@@ -0,0 +1,144 @@
+import type { BoxCategory, BoxPlotSettings } from "../../types/box";
+import { DEFAULT_FONT_STACK } from "../../shared/constants/fonts";
+
+// A few high replicates give the Tukey whiskers some outliers to flag
+const defaultData: BoxCategory[] = [
+  {
+    id: "group-1",
+    label: "Control",
+    values: [16.3, 21.1, 23.0, 18.5, 16.0, 19.8, 21.4, 23.3, 16.4, 16.1, 22.1, 21.4, 24.6, 22.9],
+    fillColor: "#3b82f6",
+    borderColor: "#e2e8f0",
+  },
+  {
+    id: "group-2",
+    label: "Drug A",
+    values: [25.6, 24.9, 36.3, 24.8, 22.9, 21.4, 26.4, 26.6, 24.6, 25.8, 27.1, 28.8, 30.4, 26.8],
+    fillColor: "#10b981",
+    borderColor: "#e2e8f0",
+  },
+  {
+    id: "group-3",
+    label: "Drug B",
+    values: [18.5, 24.8, 19.5, 22.6, 19.3, 23.0, 21.1, 23.5, 31.3, 22.9, 25.1, 19.7, 22.3, 24.7, 34.2],
+    fillColor: "#f59e0b",
+    borderColor: "#e2e8f0",
+  },
+];
+
+export const defaultBoxPlotSettings: BoxPlotSettings = {
+  data: defaultData,
+  display: "box",
+  whiskerMode: "tukey",
+  boxWidth: 0.5,
+  boxOpacity: 0.6,
+  boxBorderWidth: 1.5,
+  whiskerCapWidth: 0.5,
+  medianColor: "#f8fafc",
+  medianWidth: 2.5,
+  showMean: false,
+  showOutliers: true,
+  outlierShape: "circle",
+  outlierSize: 7,
+  violinKernel: "gaussian",
+  violinBandwidth: null,
+  violinOpacity: 0.45,
+  showPoints: false,
+  pointSize: 5,
+  pointOpacity: 0.7,
+  jitterWidth: 0.3,
+  legend: {
+    show: false,
+    position: "top-right",
+    fontSize: 12,
+    fontFamily: DEFAULT_FONT_STACK,
+    textColor: "#f8fafc",
+    isBold: false,
+    isItalic: false,
+    backgroundColor: "#0f172a",
+    backgroundOpacity: 0.85,
+    borderColor: "#e2e8f0",
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingX: 12,
+    paddingY: 8,
+    itemSpacing: 8,
+    markerSize: 16,
+    markerSpacing: 8,
+    offsetX: 0,
+    offsetY: 0,
+  },
+  axesSynced: true,
+  backgroundColor: "#0f172a",
+  canvasPadding: 48,
+  textColor: "#f8fafc",
+  globalFontFamily: DEFAULT_FONT_STACK,
+  titleColor: "#f8fafc",
+  titleFontFamily: DEFAULT_FONT_STACK,
+  titleIsBold: true,
+  titleIsItalic: false,
+  titleIsUnderline: false,
+  titleOffsetX: 0,
+  title: "Custom box plot",
+  titleFontSize: 20,
+  titleOffsetY: 0,
+  subtitle: "",
+  subtitleFontSize: 16,
+  subtitleOffsetY: 0,
+  subtitleOffsetX: 0,
+  subtitleColor: "#cbd5f5",
+  subtitleFontFamily: DEFAULT_FONT_STACK,
+  subtitleIsBold: false,
+  subtitleIsItalic: false,
+  subtitleIsUnderline: false,
+  xAxisTitleFontSize: 14,
+  yAxisTitleFontSize: 14,
+  xAxisTickFontSize: 12,
+  yAxisTickFontSize: 12,
+  xAxisTickOffsetX: 0,
+  xAxisTickOffsetY: 0,
+  yAxisTickOffsetX: 0,
+  yAxisTickOffsetY: 0,
+  aspectRatio: 0.8,
+  customWidth: null,
+  customHeight: null,
+  exportScale: 2,
+  exportTransparent: false,
+  exportFileName: "boxplot",
+  exportPresets: [],
+  exportPresetId: null,
+  paletteName: "vibrant",
+  xAxis: {
+    showAxisLines: true,
+    showTickLabels: true,
+    showGridLines: true,
+    axisLineColor: "#e2e8f0",
+    axisLineWidth: 1.5,
+    tickLabelColor: "#e2e8f0",
+    tickLabelOrientation: 0,
+    gridLineColor: "#334155",
+    gridLineStyle: "solid" as const,
+    gridLineOpacity: 0.6,
+    gridLineWidth: 1,
+    title: "Group",
+  },
+  yAxis: {
+    showAxisLines: true,
+    showTickLabels: true,
+    showGridLines: true,
+    axisLineColor: "#e2e8f0",
+    axisLineWidth: 1.5,
+    tickLabelColor: "#e2e8f0",
+    tickLabelOrientation: 0,
+    gridLineColor: "#334155",
+    gridLineStyle: "solid" as const,
+    gridLineOpacity: 0.6,
+    gridLineWidth: 1,
+    title: "Value",
+  },
+  yAxisMin: null,
+  yAxisMax: null,
+  yAxisTickStep: null,
+  xAxisTitleOffsetY: 0,
+  yAxisTitleOffsetX: 0,
+};
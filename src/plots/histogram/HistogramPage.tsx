@@ -0,0 +1,224 @@
+import { Database, Download, Redo2, Settings, Sparkles, Undo2, UploadCloud } from 'lucide-react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { ChartPage } from '../../shared/components/ChartPage';
+import { useDocumentTitle } from '../../shared/hooks/useDocumentTitle';
+import { useUndoableState } from '../../shared/hooks/useUndoableState';
+import { useUndoShortcuts } from '../../shared/hooks/useUndoShortcuts';
+import { createChartAction } from '../../shared/utils/chartHelpers';
+import type { FocusRequest, FocusTarget, HighlightKey, PaletteKey } from '../../types/base';
+import type { HistogramObservation, HistogramSettings } from '../../types/histogram';
+import { HistogramLeftPanel } from './components/HistogramLeftPanel';
+import { HistogramCentralPanel } from './components/HistogramCentralPanel';
+import { HistogramRightPanel } from './components/HistogramRightPanel';
+import { defaultHistogramSettings } from './defaultSettings';
+
+const STORAGE_KEY = 'histogram-studio-state-v1';
+const STORAGE_VERSION = 1;
+
+function buildDefaultSettings(paletteName: PaletteKey = defaultHistogramSettings.paletteName): HistogramSettings {
+    return {
+        ...defaultHistogramSettings,
+        paletteName,
+        data: defaultHistogramSettings.data.map((observation) => ({ ...observation })),
+        xAxis: { ...defaultHistogramSettings.xAxis },
+        yAxis: { ...defaultHistogramSettings.yAxis },
+    };
+}
+
+function mergeStoredSettings(stored?: Partial<HistogramSettings>): HistogramSettings {
+    if (!stored || typeof stored !== 'object') {
+        return buildDefaultSettings();
+    }
+
+    const paletteName = stored.paletteName ?? defaultHistogramSettings.paletteName;
+    const defaults = buildDefaultSettings(paletteName);
+    const storedData = Array.isArray(stored.data) ? stored.data : defaults.data;
+
+    // Observations without a numeric value cannot be binned, so they are dropped
+    const mergedData = storedData.filter((observation) => typeof observation?.value === 'number');
+
+    return {
+        ...defaults,
+        ...stored,
+        paletteName,
+        data: mergedData.length ? mergedData : defaults.data,
+        xAxis: { ...defaults.xAxis, ...stored.xAxis },
+        yAxis: { ...defaults.yAxis, ...stored.yAxis },
+    };
+}
+
+type PreviewAction = 'importData' | 'exportChart';
+
+export function HistogramPage() {
+    useDocumentTitle('Chart Studio | Histogram');
+
+    const [settings, setSettings, settingsHistory] = useUndoableState<HistogramSettings>(() => buildDefaultSettings());
+    const { undo, redo, canUndo, canRedo, reset: replaceSettings } = settingsHistory;
+    const [previewAction, setPreviewAction] = useState<PreviewAction | null>(null);
+    const [isHydrated, setIsHydrated] = useState(false);
+    const [highlightSignals, setHighlightSignals] = useState<Record<HighlightKey, number>>({
+        chartBasics: 0,
+        yAxis: 0,
+        xAxis: 0,
+        data: 0,
+        title: 0,
+        design: 0,
+        barDesign: 0,
+        valueLabels: 0,
+        errorBars: 0,
+        significance: 0,
+        secondaryAxis: 0,
+    });
+    const focusRequestIdRef = useRef(0);
+    const [focusRequest, setFocusRequest] = useState<FocusRequest | null>(null);
+
+    useEffect(() => {
+        if (typeof window === 'undefined' || isHydrated) return;
+
+        try {
+            const stored = window.localStorage.getItem(STORAGE_KEY);
+            if (stored) {
+                const parsed = JSON.parse(stored);
+                replaceSettings(mergeStoredSettings(parsed?.settings ?? parsed));
+            }
+        } catch (error) {
+            console.warn('Failed to load saved chart state', error);
+        } finally {
+            setIsHydrated(true);
+        }
+    }, [isHydrated, replaceSettings]);
+
+    useEffect(() => {
+        if (!isHydrated || typeof window === 'undefined') return;
+        try {
+            window.localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: STORAGE_VERSION, settings }));
+        } catch (error) {
+            console.warn('Failed to save chart state', error);
+        }
+    }, [settings, isHydrated]);
+
+    useUndoShortcuts(undo, redo);
+
+    const triggerHighlight = useCallback((keys: HighlightKey[]) => {
+        if (!keys.length) return;
+        setHighlightSignals((prev) => {
+            const next = { ...prev };
+            keys.forEach((key) => {
+                next[key] = (prev[key] ?? 0) + 1;
+            });
+            return next;
+        });
+    }, []);
+
+    const requestFocus = useCallback((target: FocusTarget) => {
+        focusRequestIdRef.current += 1;
+        setFocusRequest({ target, requestId: focusRequestIdRef.current });
+    }, []);
+
+    const handleSettingsChange = useCallback((nextSettings: HistogramSettings) => {
+        setSettings(nextSettings);
+    }, [setSettings]);
+
+    const handleObservationsChange = useCallback((observations: HistogramObservation[]) => {
+        setSettings((current) => ({ ...current, data: observations }));
+    }, [setSettings]);
+
+    const handlePreviewActionHandled = useCallback(() => {
+        setPreviewAction(null);
+    }, []);
+
+    const handleRequestImport = useCallback(() => {
+        setPreviewAction('importData');
+    }, []);
+
+    const handleRequestExport = useCallback(() => {
+        setPreviewAction('exportChart');
+    }, []);
+
+    const handleResetStudio = useCallback(() => {
+        setSettings(buildDefaultSettings(), { standalone: true });
+        setPreviewAction(null);
+        setFocusRequest(null);
+        triggerHighlight(['chartBasics', 'data']);
+        if (typeof window !== 'undefined') {
+            try {
+                window.localStorage.removeItem(STORAGE_KEY);
+            } catch (error) {
+                console.warn('Failed to clear saved chart state', error);
+            }
+        }
+    }, [setSettings, triggerHighlight]);
+
+    const handleResetData = useCallback(() => {
+        setSettings((current) => ({
+            ...current,
+            data: buildDefaultSettings(current.paletteName).data,
+        }), { standalone: true });
+        triggerHighlight(['data']);
+    }, [setSettings, triggerHighlight]);
+
+    const handleResetSettings = useCallback(() => {
+        setSettings((current) => ({
+            ...buildDefaultSettings(current.paletteName),
+            data: current.data,
+        }), { standalone: true });
+        triggerHighlight(['chartBasics']);
+    }, [setSettings, triggerHighlight]);
+
+    const actionMenuItems = useMemo(
+        () => [
+            createChartAction('upload', 'Upload data', UploadCloud, handleRequestImport),
+            createChartAction('undo', 'Undo (Ctrl+Z)', Undo2, undo, !canUndo),
+            createChartAction('redo', 'Redo (Ctrl+Shift+Z)', Redo2, redo, !canRedo),
+            createChartAction('clean-studio', 'Clean Studio', Sparkles, handleResetStudio),
+            createChartAction('clean-data', 'Clean Data', Database, handleResetData),
+            createChartAction('clean-settings', 'Clean Settings', Settings, handleResetSettings),
+            createChartAction('export', 'Export chart', Download, handleRequestExport),
+        ],
+        [handleRequestImport, undo, redo, canUndo, canRedo, handleResetStudio, handleResetData, handleResetSettings, handleRequestExport],
+    );
+
+    return (
+        <ChartPage
+            title="Histogram"
+            subtitle="Explore the distribution of raw observations with automatic binning."
+            actions={actionMenuItems}
+            clipboard={{
+                scale: settings.exportScale,
+                transparent: settings.exportTransparent,
+                backgroundColor: settings.backgroundColor,
+            }}
+            leftPanel={
+                <HistogramLeftPanel
+                    settings={settings}
+                    onChange={handleSettingsChange}
+                    highlightSignals={highlightSignals}
+                    focusRequest={focusRequest}
+                />
+            }
+            centerPanel={
+                <HistogramCentralPanel
+                    chartPreview={{
+                        settings,
+                        onUpdateSettings: handleSettingsChange,
+                        onHighlight: triggerHighlight,
+                        onRequestFocus: requestFocus,
+                        actionRequest: previewAction,
+                        onActionHandled: handlePreviewActionHandled,
+                    }}
+                    dataTable={{
+                        data: settings.data,
+                        onChange: handleObservationsChange,
+                    }}
+                />
+            }
+            rightPanel={
+                <HistogramRightPanel
+                    settings={settings}
+                    onChange={handleSettingsChange}
+                    highlightSignals={highlightSignals}
+                />
+            }
+        />
+    );
+}
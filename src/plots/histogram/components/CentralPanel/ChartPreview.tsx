@@ -0,0 +1,630 @@
+import { useEffect, useMemo, useRef, useState, type MouseEvent } from 'react'
+import { DEFAULT_FONT_STACK } from '../../../../shared/constants/fonts'
+import useElementSize from '../../../../shared/hooks/useElementSize'
+import type { FocusTarget, HighlightKey } from '../../../../types/base'
+import type { HistogramSettings } from '../../../../types/histogram'
+import DataImportModal from '../../../../shared/components/DataImportModal'
+import ExportModal, { type ExportRequest } from '../../../../shared/components/ExportModal'
+import type { ImportedRow } from '../../../../shared/utils/csvImport'
+import { exportSvgChart, type ExportFormat, type ExportOptions } from '../../../../shared/utils/exportChart'
+import { createBarPath } from '../../../../shared/utils/barPath'
+import { clamp, getGridDashArray } from '../../../../shared/utils/chartHelpers'
+import { applyHistogramMode, computeHistogramBins } from '../../../../shared/utils/histogram'
+import { createObservationsFromImport, histogramImportColumns } from '../../../../shared/utils/histogramFactory'
+import { createLinePath, getLineDashArray } from '../../../../shared/utils/linePaths'
+import { kernelDensity, kernelDistribution, silvermanBandwidth } from '../../../../shared/utils/statistics'
+import { computeAxisTicks, formatTickLabel } from '../../../../shared/utils/ticks'
+
+type ChartPreviewAction = 'importData' | 'exportChart'
+
+type ChartPreviewProps = {
+  settings: HistogramSettings
+  onUpdateSettings: (settings: HistogramSettings) => void
+  onHighlight: (keys: HighlightKey[]) => void
+  onRequestFocus: (target: FocusTarget) => void
+  actionRequest?: ChartPreviewAction | null
+  onActionHandled?: () => void
+}
+
+// Number of samples along the X axis for the density curve
+const KDE_SAMPLES = 200
+
+export function ChartPreview({
+  settings,
+  onUpdateSettings,
+  onHighlight,
+  onRequestFocus,
+  actionRequest,
+  onActionHandled,
+}: ChartPreviewProps) {
+  const [wrapperRef, size] = useElementSize<HTMLDivElement>()
+  const svgRef = useRef<SVGSVGElement | null>(null)
+  const [isExporting, setIsExporting] = useState(false)
+  const [isExportDialogOpen, setIsExportDialogOpen] = useState(false)
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false)
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('png')
+  const [exportFileName, setExportFileName] = useState(settings.exportFileName)
+  const [exportScale, setExportScale] = useState(settings.exportScale)
+  const [exportTransparent, setExportTransparent] = useState(settings.exportTransparent)
+
+  useEffect(() => {
+    setExportFileName(settings.exportFileName)
+    setExportScale(settings.exportScale)
+    setExportTransparent(settings.exportTransparent)
+  }, [settings.exportFileName, settings.exportScale, settings.exportTransparent])
+
+  useEffect(() => {
+    if (!actionRequest) return
+    if (actionRequest === 'importData') {
+      setIsImportDialogOpen(true)
+    } else if (actionRequest === 'exportChart') {
+      setIsExportDialogOpen(true)
+    }
+    onActionHandled?.()
+  }, [actionRequest, onActionHandled])
+
+  const customWidth = settings.customWidth && settings.customWidth > 0 ? settings.customWidth : null
+  const customHeight = settings.customHeight && settings.customHeight > 0 ? settings.customHeight : null
+  const measuredWidth = customWidth ?? (size.width > 0 ? size.width : 960)
+  const aspectRatio = clamp(settings.aspectRatio ?? 0.8, 0.2, 2)
+  const fallbackHeight = customHeight ?? Math.max(measuredWidth * aspectRatio, 320)
+  const measuredHeight = customHeight ?? (size.width > 0 ? Math.max(size.width * aspectRatio, 320) : fallbackHeight)
+  const minContainerHeight = customHeight ?? Math.max(320, measuredWidth * aspectRatio)
+
+  const sendHighlight = (keys: HighlightKey[], event?: MouseEvent<SVGElement | HTMLDivElement>) => {
+    if (event) {
+      event.stopPropagation()
+    }
+    if (keys.length === 0) return
+    onHighlight(keys)
+  }
+
+  const values = useMemo(
+    () => settings.data.map((observation) => observation.value).filter((value) => Number.isFinite(value)),
+    [settings.data],
+  )
+
+  const bins = useMemo(
+    () => applyHistogramMode(
+      computeHistogramBins(values, {
+        rule: settings.binningRule,
+        binWidth: settings.binWidth,
+        binCount: settings.binCount,
+        binStart: settings.binStart,
+      }),
+      settings.yMode,
+      values.length,
+    ),
+    [values, settings.binningRule, settings.binWidth, settings.binCount, settings.binStart, settings.yMode],
+  )
+
+  const binWidth = bins.length ? bins[0].x1 - bins[0].x0 : 1
+  const bandwidth = settings.kdeBandwidth && settings.kdeBandwidth > 0 ? settings.kdeBandwidth : silvermanBandwidth(values)
+
+  // The curve is scaled to match the bars: a density, expected counts per bin, or a running total
+  const kdeValueAt = (x: number) => {
+    switch (settings.yMode) {
+      case 'density':
+        return kernelDensity(values, x, bandwidth, settings.kdeKernel)
+      case 'cumulative':
+        return kernelDistribution(values, x, bandwidth, settings.kdeKernel) * values.length
+      case 'count':
+      default:
+        return kernelDensity(values, x, bandwidth, settings.kdeKernel) * values.length * binWidth
+    }
+  }
+
+  const hasTitle = Boolean(settings.title)
+  const hasSubtitle = Boolean(settings.subtitle)
+  const headingGap = hasTitle && hasSubtitle ? Math.max(settings.subtitleFontSize * 0.5, 12) : 0
+  const basePadding = settings.canvasPadding
+  const margin = useMemo(() => {
+    const titleBlock = hasTitle ? settings.titleFontSize * 1.6 : 0
+    const subtitleBlock = hasSubtitle ? settings.subtitleFontSize * 1.4 : 0
+    const topNegativeOffset = Math.max(
+      hasTitle ? Math.max(-settings.titleOffsetY, 0) : 0,
+      hasSubtitle ? Math.max(-settings.subtitleOffsetY, 0) : 0,
+    )
+    const topExtra = hasTitle || hasSubtitle ? titleBlock + subtitleBlock + headingGap + topNegativeOffset : 16
+    const bottomExtra =
+      (settings.xAxis.showTickLabels ? settings.xAxisTickFontSize + 24 : 16) +
+      Math.max(settings.xAxisTitleOffsetY, 0)
+    const leftExtra =
+      (settings.yAxis.showTickLabels ? settings.yAxisTickFontSize + 28 : 16) +
+      Math.max(-settings.yAxisTitleOffsetX, 0)
+
+    const top = clamp(basePadding + topExtra, 24, measuredHeight / 2 - 20)
+    const bottom = clamp(basePadding + bottomExtra, 32, measuredHeight / 2 - 20)
+    const left = clamp(basePadding + leftExtra, 32, measuredWidth / 2 - 20)
+    const right = clamp(basePadding + 12, 24, measuredWidth / 2 - 20)
+
+    return { top, right, bottom, left }
+  }, [
+    basePadding,
+    hasSubtitle,
+    hasTitle,
+    headingGap,
+    measuredHeight,
+    measuredWidth,
+    settings.xAxisTickFontSize,
+    settings.yAxisTickFontSize,
+    settings.subtitleFontSize,
+    settings.subtitleOffsetY,
+    settings.titleFontSize,
+    settings.titleOffsetY,
+    settings.xAxisTitleOffsetY,
+    settings.xAxis.showTickLabels,
+    settings.yAxisTitleOffsetX,
+    settings.yAxis.showTickLabels,
+  ])
+
+  const chartBounds = {
+    width: Math.max(measuredWidth - margin.left - margin.right, 120),
+    height: Math.max(measuredHeight - margin.top - margin.bottom, 160),
+  }
+
+  const extent = useMemo(() => {
+    if (!bins.length) {
+      return { minX: 0, maxX: 1, minY: 0, maxY: 1 }
+    }
+    return {
+      minX: bins[0].x0,
+      maxX: bins[bins.length - 1].x1,
+      minY: 0,
+      maxY: Math.max(...bins.map((bin) => bin.value), Number.EPSILON),
+    }
+  }, [bins])
+
+  const xScale = useMemo(
+    () => computeAxisTicks(extent.minX, extent.maxX, {
+      min: settings.xAxisMin,
+      max: settings.xAxisMax,
+      step: settings.xAxisTickStep,
+    }),
+    [extent.minX, extent.maxX, settings.xAxisMin, settings.xAxisMax, settings.xAxisTickStep],
+  )
+
+  const yScale = useMemo(
+    () => computeAxisTicks(extent.minY, extent.maxY, {
+      min: settings.yAxisMin,
+      max: settings.yAxisMax,
+      step: settings.yAxisTickStep,
+    }),
+    [extent.minY, extent.maxY, settings.yAxisMin, settings.yAxisMax, settings.yAxisTickStep],
+  )
+
+  const xRange = Math.max(xScale.axisMax - xScale.axisMin, Number.EPSILON)
+  const yRange = Math.max(yScale.axisMax - yScale.axisMin, Number.EPSILON)
+
+  const toCanvasX = (value: number) => margin.left + ((value - xScale.axisMin) / xRange) * chartBounds.width
+  const toCanvasY = (value: number) => margin.top + chartBounds.height - ((value - yScale.axisMin) / yRange) * chartBounds.height
+
+  const baselineY = toCanvasY(clamp(0, yScale.axisMin, yScale.axisMax))
+
+  const barLayout = bins.map((bin, index) => {
+    const left = toCanvasX(bin.x0)
+    const right = toCanvasX(bin.x1)
+    const top = toCanvasY(bin.value)
+    const gap = Math.min(Math.max(settings.barGap, 0), (right - left) * 0.9)
+    return {
+      key: `bin-${index}`,
+      x: left + gap / 2,
+      y: Math.min(top, baselineY),
+      width: Math.max(right - left - gap, 0.5),
+      height: Math.abs(baselineY - top),
+    }
+  })
+
+  const kdePath = settings.showKde && values.length > 1
+    ? createLinePath(
+      Array.from({ length: KDE_SAMPLES + 1 }, (_, index) => {
+        const x = xScale.axisMin + (xRange * index) / KDE_SAMPLES
+        return { x: toCanvasX(x), y: toCanvasY(kdeValueAt(x)) }
+      }),
+      'linear',
+    )
+    : ''
+
+  const axisStyles = {
+    x: settings.xAxis,
+    y: settings.yAxis,
+  }
+
+  const globalFontFamily = settings.globalFontFamily || DEFAULT_FONT_STACK
+  const titleColor = settings.titleColor ?? settings.textColor
+  const titleFontWeight = settings.titleIsBold ? 700 : 500
+  const titleFontStyle = settings.titleIsItalic ? 'italic' : 'normal'
+  const titleTextDecoration = settings.titleIsUnderline ? 'underline' : 'none'
+  const subtitleColor = settings.subtitleColor || settings.textColor
+  const subtitleFontWeight = settings.subtitleIsBold ? 600 : 400
+  const subtitleFontStyle = settings.subtitleIsItalic ? 'italic' : 'normal'
+  const subtitleTextDecoration = settings.subtitleIsUnderline ? 'underline' : 'none'
+
+  const chartAreaTop = margin.top
+  const chartAreaBottom = margin.top + chartBounds.height
+  const chartTitleOffset = clamp(settings.titleFontSize * 0.75, 12, Math.max(margin.top - 8, 12))
+  const baseTitleY = margin.top - chartTitleOffset
+  const chartTitleY = baseTitleY + settings.titleOffsetY
+  const chartTitleX = clamp(
+    measuredWidth / 2 + (settings.titleOffsetX ?? 0),
+    margin.left,
+    measuredWidth - margin.right,
+  )
+  const subtitleBaseOffset = clamp(settings.subtitleFontSize * 0.6, 10, Math.max(margin.top - 8, 10))
+  const baseSubtitleY = hasTitle
+    ? chartTitleY + settings.titleFontSize + headingGap
+    : margin.top - subtitleBaseOffset
+  const chartSubtitleY = baseSubtitleY + settings.subtitleOffsetY
+  const chartSubtitleX = clamp(
+    measuredWidth / 2 + (settings.subtitleOffsetX ?? 0),
+    margin.left,
+    measuredWidth - margin.right,
+  )
+  const baseXAxisTitleY = chartAreaBottom + settings.xAxisTitleFontSize + 12 + settings.xAxisTitleOffsetY
+  const xAxisTitleY = clamp(baseXAxisTitleY, settings.xAxisTitleFontSize, measuredHeight - 8)
+  const baseYAxisTitleX = Math.max(Math.min(margin.left - 24, 80), 16)
+  const yAxisTitleX = clamp(baseYAxisTitleX + settings.yAxisTitleOffsetX, 8, margin.left + 160)
+  const yAxisTitleY = chartAreaTop + chartBounds.height / 2
+  const xTickBaseY = Math.min(chartAreaBottom + settings.xAxisTickFontSize + 6, measuredHeight - 4)
+
+  const download = async (options: ExportOptions) => {
+    if (!svgRef.current) return
+    await exportSvgChart(svgRef.current, options, {
+      width: measuredWidth,
+      height: measuredHeight,
+      backgroundColor: settings.backgroundColor,
+    })
+  }
+
+  const closeExportDialog = () => {
+    if (isExporting) return
+    setIsExportDialogOpen(false)
+  }
+
+  useEffect(() => {
+    if (!isExportDialogOpen) return
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        setIsExportDialogOpen(false)
+      }
+    }
+    window.addEventListener('keydown', handleKey)
+    return () => {
+      window.removeEventListener('keydown', handleKey)
+    }
+  }, [isExportDialogOpen])
+
+  const handleExportConfirm = async ({ presetId, ...requested }: ExportRequest) => {
+    if (isExporting) return
+    const options: ExportOptions = {
+      ...requested,
+      fileName: requested.fileName.trim() || 'histogram',
+    }
+
+    try {
+      setIsExporting(true)
+      onUpdateSettings({
+        ...settings,
+        exportScale: options.scale,
+        exportFileName: options.fileName,
+        exportTransparent: options.transparent,
+        exportPresetId: presetId,
+      })
+      await download(options)
+      setIsExportDialogOpen(false)
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  const handleImportConfirm = (rows: ImportedRow[]) => {
+    setIsImportDialogOpen(false)
+    const observations = createObservationsFromImport(rows)
+    if (!observations.length) return
+    onUpdateSettings({
+      ...settings,
+      data: observations,
+    })
+    onHighlight(['data'])
+  }
+
+  const handleImportCancel = () => {
+    setIsImportDialogOpen(false)
+  }
+
+  return (
+    <>
+      <div
+        ref={wrapperRef}
+        className="relative flex min-h-[280px] sm:min-h-[420px] flex-1 items-center justify-center transition w-full max-w-full overflow-hidden rounded-2xl"
+        style={{ backgroundColor: settings.backgroundColor, minHeight: `${Math.min(minContainerHeight, 420)}px` }}
+      >
+        <svg
+          ref={svgRef}
+          className="max-w-full h-auto"
+          width={measuredWidth}
+          height={measuredHeight}
+          viewBox={`0 0 ${measuredWidth} ${measuredHeight}`}
+          role="img"
+        >
+          <title>{settings.title || 'Histogram'}</title>
+          <defs>
+            <clipPath id="histogram-area">
+              <rect
+                x={margin.left}
+                y={margin.top}
+                width={chartBounds.width}
+                height={chartBounds.height}
+              />
+            </clipPath>
+          </defs>
+          <rect
+            data-role="background"
+            x={0}
+            y={0}
+            width={measuredWidth}
+            height={measuredHeight}
+            fill={settings.backgroundColor}
+            onDoubleClick={(event) => sendHighlight(['chartBasics'], event)}
+          />
+          {settings.title ? (
+            <text
+              x={chartTitleX}
+              y={chartTitleY}
+              textAnchor="middle"
+              fill={titleColor}
+              fontSize={settings.titleFontSize}
+              fontFamily={globalFontFamily}
+              style={{
+                fontWeight: titleFontWeight,
+                fontStyle: titleFontStyle,
+                textDecoration: titleTextDecoration,
+              }}
+              onDoubleClick={(event) => {
+                sendHighlight(['title'], event)
+                onRequestFocus({ type: 'chartTitle' })
+              }}
+            >
+              {settings.title}
+            </text>
+          ) : null}
+          {settings.subtitle ? (
+            <text
+              x={chartSubtitleX}
+              y={chartSubtitleY}
+              textAnchor="middle"
+              fill={subtitleColor}
+              fontSize={settings.subtitleFontSize}
+              fontFamily={globalFontFamily}
+              style={{
+                fontWeight: subtitleFontWeight,
+                fontStyle: subtitleFontStyle,
+                textDecoration: subtitleTextDecoration,
+              }}
+              onDoubleClick={(event) => {
+                sendHighlight(['title'], event)
+                onRequestFocus({ type: 'chartSubtitle' })
+              }}
+            >
+              {settings.subtitle}
+            </text>
+          ) : null}
+
+          {/* Grid lines */}
+          {axisStyles.y.showGridLines
+            ? yScale.ticks.map((tick) => {
+              const y = toCanvasY(tick)
+              return (
+                <line
+                  key={`h-grid-${tick}`}
+                  x1={margin.left}
+                  x2={margin.left + chartBounds.width}
+                  y1={y}
+                  y2={y}
+                  stroke={axisStyles.y.gridLineColor}
+                  strokeWidth={axisStyles.y.gridLineWidth}
+                  strokeDasharray={getGridDashArray(axisStyles.y.gridLineStyle)}
+                  strokeOpacity={axisStyles.y.gridLineOpacity}
+                />
+              )
+            })
+            : null}
+          {axisStyles.x.showGridLines
+            ? xScale.ticks.map((tick) => {
+              const x = toCanvasX(tick)
+              return (
+                <line
+                  key={`v-grid-${tick}`}
+                  x1={x}
+                  x2={x}
+                  y1={margin.top}
+                  y2={margin.top + chartBounds.height}
+                  stroke={axisStyles.x.gridLineColor}
+                  strokeWidth={axisStyles.x.gridLineWidth}
+                  strokeDasharray={getGridDashArray(axisStyles.x.gridLineStyle)}
+                  strokeOpacity={axisStyles.x.gridLineOpacity}
+                />
+              )
+            })
+            : null}
+
+          <g clipPath="url(#histogram-area)">
+            {/* Bars */}
+            {barLayout.map(({ key, x, y, width, height }) => {
+              const radius = Math.min(clamp(settings.barCornerRadius, 0, 48), width / 2, height / 2)
+              const pathD = createBarPath(x, y, width, Math.max(height, 0.01), radius, settings.barCornerStyle)
+              const borderWidth = Math.max(settings.barBorderWidth, 0)
+              return pathD ? (
+                <path
+                  key={key}
+                  d={pathD}
+                  fill={settings.barFillColor}
+                  fillOpacity={clamp(settings.barOpacity, 0, 1)}
+                  stroke={borderWidth > 0 ? settings.barBorderColor : 'none'}
+                  strokeWidth={borderWidth}
+                  strokeLinejoin="round"
+                  onDoubleClick={(event) => sendHighlight(['design'], event)}
+                />
+              ) : (
+                <rect
+                  key={key}
+                  x={x}
+                  y={y}
+                  width={width}
+                  height={height}
+                  fill={settings.barFillColor}
+                  fillOpacity={clamp(settings.barOpacity, 0, 1)}
+                  stroke={borderWidth > 0 ? settings.barBorderColor : 'none'}
+                  strokeWidth={borderWidth}
+                  onDoubleClick={(event) => sendHighlight(['design'], event)}
+                />
+              )
+            })}
+
+            {/* Density curve */}
+            {kdePath ? (
+              <path
+                d={kdePath}
+                fill="none"
+                stroke={settings.kdeColor}
+                strokeWidth={settings.kdeLineWidth}
+                strokeDasharray={getLineDashArray(settings.kdeDashStyle, settings.kdeLineWidth)}
+                strokeLinejoin="round"
+                strokeLinecap={settings.kdeDashStyle === 'dotted' ? 'round' : 'butt'}
+              />
+            ) : null}
+          </g>
+
+          {/* Axes */}
+          {axisStyles.x.showAxisLines ? (
+            <line
+              x1={margin.left}
+              x2={margin.left + chartBounds.width}
+              y1={chartAreaBottom}
+              y2={chartAreaBottom}
+              stroke={axisStyles.x.axisLineColor}
+              strokeWidth={axisStyles.x.axisLineWidth}
+              onDoubleClick={(event) => sendHighlight(['xAxis'], event)}
+            />
+          ) : null}
+          {axisStyles.y.showAxisLines ? (
+            <line
+              x1={margin.left}
+              x2={margin.left}
+              y1={chartAreaTop}
+              y2={chartAreaBottom}
+              stroke={axisStyles.y.axisLineColor}
+              strokeWidth={axisStyles.y.axisLineWidth}
+              onDoubleClick={(event) => sendHighlight(['yAxis'], event)}
+            />
+          ) : null}
+
+          {/* Axis titles */}
+          {axisStyles.x.title ? (
+            <text
+              x={margin.left + chartBounds.width / 2}
+              y={xAxisTitleY}
+              textAnchor="middle"
+              fill={axisStyles.x.axisLineColor}
+              fontFamily={globalFontFamily}
+              fontSize={settings.xAxisTitleFontSize}
+              fontWeight={500}
+              onDoubleClick={(event) => {
+                sendHighlight(['xAxis'], event)
+                onRequestFocus({ type: 'xAxisTitle' })
+              }}
+            >
+              {axisStyles.x.title}
+            </text>
+          ) : null}
+          {axisStyles.y.title ? (
+            <text
+              x={yAxisTitleX}
+              y={yAxisTitleY}
+              textAnchor="middle"
+              fill={axisStyles.y.axisLineColor}
+              fontFamily={globalFontFamily}
+              fontSize={settings.yAxisTitleFontSize}
+              fontWeight={500}
+              transform={`rotate(-90 ${yAxisTitleX} ${yAxisTitleY})`}
+              onDoubleClick={(event) => {
+                sendHighlight(['yAxis'], event)
+                onRequestFocus({ type: 'yAxisTitle' })
+              }}
+            >
+              {axisStyles.y.title}
+            </text>
+          ) : null}
+
+          {/* Tick labels */}
+          {axisStyles.y.showTickLabels
+            ? yScale.ticks.map((tick) => {
+              const baseX = margin.left - 10 + (settings.yAxisTickOffsetX ?? 0)
+              const baseY = toCanvasY(tick) + settings.yAxisTickFontSize / 3 + (settings.yAxisTickOffsetY ?? 0)
+              return (
+                <text
+                  key={`ytick-${tick}`}
+                  x={baseX}
+                  y={baseY}
+                  textAnchor="end"
+                  fill={axisStyles.y.tickLabelColor}
+                  fontFamily={globalFontFamily}
+                  fontSize={settings.yAxisTickFontSize}
+                  transform={axisStyles.y.tickLabelOrientation !== 0 ? `rotate(${axisStyles.y.tickLabelOrientation}, ${baseX}, ${baseY})` : undefined}
+                  onDoubleClick={(event) => sendHighlight(['yAxis'], event)}
+                >
+                  {formatTickLabel(tick)}
+                </text>
+              )
+            })
+            : null}
+          {axisStyles.x.showTickLabels
+            ? xScale.ticks.map((tick) => {
+              const baseX = toCanvasX(tick) + (settings.xAxisTickOffsetX ?? 0)
+              const baseY = xTickBaseY + (settings.xAxisTickOffsetY ?? 0)
+              return (
+                <text
+                  key={`xtick-${tick}`}
+                  x={baseX}
+                  y={baseY}
+                  textAnchor="middle"
+                  fill={axisStyles.x.tickLabelColor}
+                  fontFamily={globalFontFamily}
+                  fontSize={settings.xAxisTickFontSize}
+                  transform={axisStyles.x.tickLabelOrientation !== 0 ? `rotate(${axisStyles.x.tickLabelOrientation}, ${baseX}, ${baseY})` : undefined}
+                  onDoubleClick={(event) => sendHighlight(['xAxis'], event)}
+                >
+                  {formatTickLabel(tick)}
+                </text>
+              )
+            })
+            : null}
+        </svg>
+      </div>
+      <DataImportModal
+        isOpen={isImportDialogOpen}
+        columns={histogramImportColumns}
+        maxRows={10000}
+        onCancel={handleImportCancel}
+        onConfirm={handleImportConfirm}
+      />
+      <ExportModal
+        isOpen={isExportDialogOpen}
+        onClose={closeExportDialog}
+        initial={{ format: exportFormat, fileName: exportFileName, scale: exportScale, transparent: exportTransparent, presetId: settings.exportPresetId }}
+        svgRef={svgRef}
+        presets={settings.exportPresets}
+        onPresetsChange={(exportPresets) => onUpdateSettings({ ...settings, exportPresets })}
+        onExport={async (opts) => {
+          setExportFormat(opts.format)
+          setExportFileName(opts.fileName)
+          setExportScale(opts.scale)
+          setExportTransparent(opts.transparent)
+          await handleExportConfirm(opts)
+        }}
+      />
+    </>
+  )
+}
+
+export default ChartPreview
@@ -0,0 +1,57 @@
+import { useCallback } from 'react';
+import { createObservation } from '../../../../shared/utils/histogramFactory';
+import { DataTable as SharedDataTable, type DataTableColumn } from '../../../../shared/components/DataTable';
+import type { HistogramObservation } from '../../../../types/histogram';
+
+interface HistogramDataTableProps {
+    data: HistogramObservation[];
+    onChange: (data: HistogramObservation[]) => void;
+    className?: string;
+}
+
+export function DataTable({ data, onChange, className = '' }: HistogramDataTableProps) {
+    const handleCellEdit = useCallback((rowIndex: number, column: string, value: string) => {
+        const current = data[rowIndex];
+        if (!current || column !== 'value') return;
+
+        const parsed = parseFloat(value);
+        if (!Number.isFinite(parsed)) return;
+        const updatedData = [...data];
+        updatedData[rowIndex] = { ...current, value: parsed };
+        onChange(updatedData);
+    }, [data, onChange]);
+
+    const addRow = useCallback(() => {
+        const lastObservation = data[data.length - 1];
+        onChange([...data, createObservation(data.length, lastObservation?.value ?? 0)]);
+    }, [data, onChange]);
+
+    const deleteRow = useCallback((index: number) => {
+        if (data.length > 1) {
+            onChange(data.filter((_, i) => i !== index));
+        }
+    }, [data, onChange]);
+
+    const columns: DataTableColumn<HistogramObservation>[] = [
+        {
+            key: 'value',
+            label: 'Value'
+        }
+    ];
+
+    // Row order does not affect binning, so rows are not draggable
+    return (
+        <SharedDataTable
+            data={data}
+            columns={columns}
+            onRowAdd={addRow}
+            onRowDelete={deleteRow}
+            onCellEdit={handleCellEdit}
+            addButtonLabel="Add Observation"
+            canDelete={() => data.length > 1}
+            dragDisabled
+            className={className}
+            minWidth="240px"
+        />
+    );
+}
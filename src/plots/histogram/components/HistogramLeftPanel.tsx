@@ -0,0 +1,197 @@
+import { LeftPanel } from '../../../shared/components/LeftPanel';
+import { createTitleBlock, createAxisSyncButton, type LeftPanelBlock } from '../../../shared/utils/leftPanelHelpers';
+import { XAxisBlock } from '../../bar/components/LeftPanel/XAxisBlock';
+import { YAxisBlock } from '../../bar/components/LeftPanel/YAxisBlock';
+import { GridBlock } from '../../bar/components/LeftPanel/GridBlock';
+import { toggleAxesSync } from '../../bar/components/LeftPanel/axisSync';
+import { XAxisRangeBlock } from '../../scatter/components/LeftPanel/XAxisRangeBlock';
+import { BinningBlock } from './LeftPanel/BinningBlock';
+import { GeneralSettingsBlock } from './LeftPanel/GeneralSettingsBlock';
+import type { HistogramSettings } from '../../../types/histogram';
+import type { FocusRequest, HighlightKey } from '../../../types/base';
+
+type HistogramLeftPanelProps = {
+  settings: HistogramSettings;
+  onChange: (settings: HistogramSettings) => void;
+  highlightSignals?: Partial<Record<HighlightKey, number>>;
+  focusRequest?: FocusRequest | null;
+}
+
+export function HistogramLeftPanel({
+  settings,
+  onChange,
+  highlightSignals,
+  focusRequest
+}: HistogramLeftPanelProps) {
+  const generalSettings = GeneralSettingsBlock({ settings, onChange });
+  const binning = BinningBlock({ settings, onChange });
+  const xAxisBlocks = XAxisBlock({ settings, onChange, focusRequest });
+  const xAxisRange = XAxisRangeBlock({ settings, onChange });
+  const yAxisBlocks = YAxisBlock({ settings, onChange, focusRequest });
+  const gridBlocks = GridBlock({ settings, onChange });
+
+  const blocks: LeftPanelBlock[] = [
+    // General Settings Block
+    {
+      id: 'general-settings',
+      title: 'General Settings',
+      highlightKey: 'chartBasics',
+      sections: [
+        {
+          id: 'general-settings-main',
+          content: generalSettings.generalSettings
+        },
+        {
+          id: 'chart-dimensions',
+          title: 'Chart Dimensions',
+          content: generalSettings.chartDimensions
+        }
+      ]
+    },
+
+    // Binning Block
+    {
+      id: 'binning',
+      title: 'Binning',
+      highlightKey: 'data',
+      sections: [
+        {
+          id: 'binning-rule',
+          content: binning.rule
+        },
+        {
+          id: 'binning-y-mode',
+          title: 'Y Values',
+          content: binning.yMode
+        }
+      ]
+    },
+
+    // Title & Subtitle Block
+    createTitleBlock(settings, onChange, focusRequest, highlightSignals?.title),
+
+    // X-Axis Block
+    {
+      id: 'x-axis',
+      title: 'X-Axis',
+      highlightKey: 'xAxis',
+      headerActions: createAxisSyncButton(settings.axesSynced, () => onChange(toggleAxesSync(settings, 'x'))),
+      sections: [
+        {
+          id: 'x-axis-title',
+          title: 'Title',
+          content: xAxisBlocks.title
+        },
+        {
+          id: 'x-axis-appearance',
+          title: 'Appearance',
+          content: xAxisBlocks.appearance,
+          toggle: {
+            value: settings.xAxis.showAxisLines,
+            onChange: (value: boolean) => onChange({
+              ...settings,
+              xAxis: { ...settings.xAxis, showAxisLines: value }
+            })
+          }
+        },
+        {
+          id: 'x-axis-ticks',
+          title: 'Ticks',
+          content: xAxisBlocks.ticks,
+          toggle: {
+            value: settings.xAxis.showTickLabels,
+            onChange: (value: boolean) => onChange({
+              ...settings,
+              xAxis: { ...settings.xAxis, showTickLabels: value }
+            })
+          }
+        },
+        {
+          id: 'x-axis-range',
+          title: 'Range',
+          content: xAxisRange.range
+        }
+      ]
+    },
+
+    // Y-Axis Block
+    {
+      id: 'y-axis',
+      title: 'Y-Axis',
+      highlightKey: 'yAxis',
+      headerActions: createAxisSyncButton(settings.axesSynced, () => onChange(toggleAxesSync(settings, 'y'))),
+      sections: [
+        {
+          id: 'y-axis-title',
+          title: 'Title',
+          content: yAxisBlocks.title
+        },
+        {
+          id: 'y-axis-appearance',
+          title: 'Appearance',
+          content: yAxisBlocks.appearance,
+          toggle: {
+            value: settings.yAxis.showAxisLines,
+            onChange: (value: boolean) => onChange({
+              ...settings,
+              yAxis: { ...settings.yAxis, showAxisLines: value }
+            })
+          }
+        },
+        {
+          id: 'y-axis-ticks',
+          title: 'Ticks',
+          content: yAxisBlocks.ticks,
+          toggle: {
+            value: settings.yAxis.showTickLabels,
+            onChange: (value: boolean) => onChange({
+              ...settings,
+              yAxis: { ...settings.yAxis, showTickLabels: value }
+            })
+          }
+        }
+      ]
+    },
+
+    // Grid Block
+    {
+      id: 'grid',
+      title: 'Grid',
+      headerActions: gridBlocks.syncButton,
+      sections: [
+        {
+          id: 'grid-vertical',
+          title: 'Vertical',
+          content: gridBlocks.vertical,
+          toggle: {
+            value: settings.xAxis.showGridLines,
+            onChange: (value: boolean) => onChange({
+              ...settings,
+              xAxis: { ...settings.xAxis, showGridLines: value }
+            })
+          }
+        },
+        {
+          id: 'grid-horizontal',
+          title: 'Horizontal',
+          content: gridBlocks.horizontal,
+          toggle: {
+            value: settings.yAxis.showGridLines,
+            onChange: (value: boolean) => onChange({
+              ...settings,
+              yAxis: { ...settings.yAxis, showGridLines: value }
+            })
+          }
+        }
+      ]
+    }
+  ];
+
+  return (
+    <LeftPanel
+      blocks={blocks}
+      highlightSignals={highlightSignals}
+      focusRequest={focusRequest}
+    />
+  );
+}
@@ -0,0 +1,72 @@
+import { RightPanel } from '../../../shared/components/RightPanel';
+import { BarStyleBlock } from './RightPanel/BarStyleBlock';
+import { KdeBlock } from './RightPanel/KdeBlock';
+import type { HistogramSettings } from '../../../types/histogram'
+import type { HighlightKey } from '../../../types/base'
+import type { RightPanelBlock } from '../../../shared/components/RightPanel';
+
+export interface HistogramRightPanelProps {
+    settings: HistogramSettings;
+    onChange: (settings: HistogramSettings) => void;
+    highlightSignals?: Partial<Record<HighlightKey, number>>;
+}
+
+export function HistogramRightPanel({
+    settings,
+    onChange,
+    highlightSignals
+}: HistogramRightPanelProps) {
+    const barStyle = BarStyleBlock({ settings, onChange });
+    const kde = KdeBlock({ settings, onChange });
+
+    const blocks: RightPanelBlock[] = [
+        // Bar Style Block
+        {
+            id: 'bar-style',
+            title: 'Bar Style',
+            highlightKey: 'design',
+            sections: [
+                {
+                    id: 'bar-fill',
+                    content: barStyle.fill
+                },
+                {
+                    id: 'bar-shape',
+                    title: 'Shape',
+                    content: barStyle.shape,
+                    className: 'border-t border-white/10 pt-6'
+                }
+            ]
+        },
+
+        // Density Curve Block
+        {
+            id: 'kde',
+            title: 'Density Curve',
+            sections: [
+                {
+                    id: 'kde-estimate',
+                    title: 'Estimate',
+                    content: kde.estimate
+                },
+                {
+                    id: 'kde-line',
+                    title: 'Line',
+                    content: kde.line,
+                    className: 'border-t border-white/10 pt-6'
+                }
+            ],
+            toggle: {
+                value: settings.showKde,
+                onChange: (value: boolean) => onChange({ ...settings, showKde: value })
+            }
+        }
+    ];
+
+    return (
+        <RightPanel
+            blocks={blocks}
+            highlightSignals={highlightSignals}
+        />
+    );
+}
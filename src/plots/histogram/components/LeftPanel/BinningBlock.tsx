@@ -0,0 +1,92 @@
+import { AutoNumericInput } from '../../../../shared/components/AutoNumericInput';
+import { GroupComponents } from '../../../../shared/components/GroupComponents';
+import { NumericInput } from '../../../../shared/components/NumericInput';
+import { SelectField } from '../../../../shared/components/SelectField';
+import { binningRuleOptions, computeHistogramBins, histogramYModeOptions } from '../../../../shared/utils/histogram';
+import { formatTickLabel } from '../../../../shared/utils/ticks';
+import type { BinningRule, HistogramSettings, HistogramYMode } from '../../../../types/histogram';
+
+type BinningBlockProps = {
+    settings: HistogramSettings;
+    onChange: (settings: HistogramSettings) => void;
+}
+
+export function BinningBlock({ settings, onChange }: BinningBlockProps) {
+    const update = <K extends keyof HistogramSettings>(key: K, value: HistogramSettings[K]) => {
+        onChange({ ...settings, [key]: value });
+    };
+
+    // Summarise what the automatic rules picked so the numbers are not a black box
+    const bins = computeHistogramBins(settings.data.map((observation) => observation.value), {
+        rule: settings.binningRule,
+        binWidth: settings.binWidth,
+        binCount: settings.binCount,
+        binStart: settings.binStart,
+    });
+    const firstBin = bins[0];
+    const resolvedWidth = firstBin ? firstBin.x1 - firstBin.x0 : settings.binWidth;
+
+    return {
+        rule: (
+            <div className="space-y-4">
+                <GroupComponents
+                    maxColumns={2}
+                    gap={2}
+                    rowGap={2}
+                >
+                    <SelectField<BinningRule>
+                        label="Binning rule"
+                        value={settings.binningRule}
+                        onChange={(value) => update('binningRule', value)}
+                        options={binningRuleOptions}
+                    />
+                    <AutoNumericInput
+                        title="First bin edge"
+                        value={settings.binStart}
+                        onChange={(value) => update('binStart', value)}
+                        min={-100000}
+                        max={100000}
+                        step={1}
+                        precision={2}
+                        autoValue={firstBin ? firstBin.x0 : 0}
+                        placeholder="auto"
+                    />
+                    <NumericInput
+                        title="Bin width"
+                        value={settings.binWidth}
+                        min={0.001}
+                        max={100000}
+                        step={0.5}
+                        precision={3}
+                        onChange={(value) => update('binWidth', value)}
+                        disabled={settings.binningRule !== 'fixed-width'}
+                    />
+                    <NumericInput
+                        title="Bin count"
+                        value={settings.binCount}
+                        min={1}
+                        max={200}
+                        step={1}
+                        precision={0}
+                        onChange={(value) => update('binCount', value)}
+                        disabled={settings.binningRule !== 'fixed-count'}
+                    />
+                </GroupComponents>
+                <p className="text-xs text-white/50">
+                    {bins.length
+                        ? `${bins.length} bins of width ${formatTickLabel(resolvedWidth)} from ${settings.data.length} observations.`
+                        : 'Add numeric observations to compute bins.'}
+                </p>
+            </div>
+        ),
+
+        yMode: (
+            <SelectField<HistogramYMode>
+                label="Bar height"
+                value={settings.yMode}
+                onChange={(value) => update('yMode', value)}
+                options={histogramYModeOptions}
+            />
+        )
+    };
+}
@@ -0,0 +1,96 @@
+import { ColorField } from '../../../../shared/components/ColorField'
+import { NumericInput } from '../../../../shared/components/NumericInput'
+import { GroupComponents } from '../../../../shared/components/GroupComponents'
+import { SelectField } from '../../../../shared/components/SelectField'
+import type { HistogramSettings } from '../../../../types/histogram'
+
+type BarStyleBlockProps = {
+    settings: HistogramSettings
+    onChange: (settings: HistogramSettings) => void
+}
+
+const cornerOptions: Array<{ value: HistogramSettings['barCornerStyle']; label: string }> = [
+    { value: 'top', label: 'Top' },
+    { value: 'both', label: 'Both' },
+]
+
+export function BarStyleBlock({ settings, onChange }: BarStyleBlockProps) {
+    const update = <K extends keyof HistogramSettings>(key: K, value: HistogramSettings[K]) => {
+        onChange({ ...settings, [key]: value })
+    }
+
+    return {
+        fill: (
+            <GroupComponents
+                maxColumns={2}
+                gap={2}
+                rowGap={2}
+            >
+                <ColorField
+                    label="Fill color"
+                    value={settings.barFillColor}
+                    onChange={(value) => update('barFillColor', value)}
+                />
+                <NumericInput
+                    title="Fill opacity"
+                    value={settings.barOpacity}
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    precision={2}
+                    onChange={(value) => update('barOpacity', value)}
+                />
+                <ColorField
+                    label="Border color"
+                    value={settings.barBorderColor}
+                    onChange={(value) => update('barBorderColor', value)}
+                />
+                <NumericInput
+                    title="Border width"
+                    value={settings.barBorderWidth}
+                    min={0}
+                    max={8}
+                    step={0.5}
+                    precision={1}
+                    onChange={(value) => update('barBorderWidth', value)}
+                    suffix="px"
+                />
+            </GroupComponents>
+        ),
+
+        shape: (
+            <GroupComponents
+                maxColumns={3}
+                gap={2}
+                rowGap={2}
+            >
+                <NumericInput
+                    title="Bar gap"
+                    value={settings.barGap}
+                    min={0}
+                    max={24}
+                    step={1}
+                    precision={0}
+                    onChange={(value) => update('barGap', value)}
+                    suffix="px"
+                />
+                <SelectField<HistogramSettings['barCornerStyle']>
+                    label="Rounded corners"
+                    value={settings.barCornerStyle}
+                    onChange={(value) => update('barCornerStyle', value)}
+                    options={cornerOptions}
+                />
+                <NumericInput
+                    title="Corner radius"
+                    value={settings.barCornerRadius}
+                    min={0}
+                    max={48}
+                    step={1}
+                    precision={0}
+                    onChange={(value) => update('barCornerRadius', value)}
+                    suffix="px"
+                />
+            </GroupComponents>
+        )
+    }
+}
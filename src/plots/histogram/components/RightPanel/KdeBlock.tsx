@@ -0,0 +1,85 @@
+import { AutoNumericInput } from '../../../../shared/components/AutoNumericInput'
+import { ColorField } from '../../../../shared/components/ColorField'
+import { NumericInput } from '../../../../shared/components/NumericInput'
+import { GroupComponents } from '../../../../shared/components/GroupComponents'
+import { SelectField } from '../../../../shared/components/SelectField'
+import { dashStyleOptions } from '../../../../shared/utils/linePaths'
+import { silvermanBandwidth } from '../../../../shared/utils/statistics'
+import type { HistogramSettings, KdeKernel } from '../../../../types/histogram'
+import type { LineDashStyle } from '../../../../types/line'
+
+type KdeBlockProps = {
+    settings: HistogramSettings
+    onChange: (settings: HistogramSettings) => void
+}
+
+const kernelOptions: Array<{ value: KdeKernel; label: string }> = [
+    { value: 'gaussian', label: 'Gaussian' },
+    { value: 'epanechnikov', label: 'Epanechnikov' },
+]
+
+export function KdeBlock({ settings, onChange }: KdeBlockProps) {
+    const update = <K extends keyof HistogramSettings>(key: K, value: HistogramSettings[K]) => {
+        onChange({ ...settings, [key]: value })
+    }
+
+    const autoBandwidth = silvermanBandwidth(settings.data.map((observation) => observation.value))
+
+    return {
+        estimate: (
+            <GroupComponents
+                maxColumns={2}
+                gap={2}
+                rowGap={2}
+            >
+                <SelectField<KdeKernel>
+                    label="Kernel"
+                    value={settings.kdeKernel}
+                    onChange={(value) => update('kdeKernel', value)}
+                    options={kernelOptions}
+                />
+                <AutoNumericInput
+                    title="Bandwidth"
+                    value={settings.kdeBandwidth}
+                    onChange={(value) => update('kdeBandwidth', value)}
+                    min={0.001}
+                    max={100000}
+                    step={0.1}
+                    precision={3}
+                    autoValue={Number(autoBandwidth.toFixed(3))}
+                    placeholder="auto"
+                />
+            </GroupComponents>
+        ),
+
+        line: (
+            <GroupComponents
+                maxColumns={3}
+                gap={2}
+                rowGap={2}
+            >
+                <ColorField
+                    label="Curve color"
+                    value={settings.kdeColor}
+                    onChange={(value) => update('kdeColor', value)}
+                />
+                <NumericInput
+                    title="Line width"
+                    value={settings.kdeLineWidth}
+                    min={0.5}
+                    max={12}
+                    step={0.5}
+                    precision={1}
+                    onChange={(value) => update('kdeLineWidth', value)}
+                    suffix="px"
+                />
+                <SelectField<LineDashStyle>
+                    label="Dash pattern"
+                    value={settings.kdeDashStyle}
+                    onChange={(value) => update('kdeDashStyle', value)}
+                    options={dashStyleOptions}
+                />
+            </GroupComponents>
+        )
+    }
+}
@@ -0,0 +1,118 @@
+import type { HistogramObservation, HistogramSettings } from "../../types/histogram";
+import { DEFAULT_FONT_STACK } from "../../shared/constants/fonts";
+
+// Roughly normal sample (mean 50, SD 10) so every binning rule has something to show
+const defaultValues = [
+  47.4, 55.1, 47.7, 46.8, 40.7, 47.9, 61.1, 54.2, 60.4, 52.5,
+  53.9, 51.9, 33.3, 58.6, 55.1, 55.0, 33.1, 32.6, 41.1, 45.3,
+  53.1, 49.5, 55.2, 43.6, 53.1, 53.9, 43.4, 67.2, 55.6, 62.0,
+  43.8, 42.6, 46.6, 48.9, 56.3, 52.5, 45.5, 40.4, 44.8, 62.2,
+  41.9, 52.4, 54.3, 35.1, 50.5, 63.1, 29.9, 46.8, 48.9, 41.8,
+  55.0, 49.4, 35.4, 58.3, 56.7, 59.5, 64.4, 53.6, 51.2, 37.0,
+  56.2, 43.9, 45.5, 37.4, 40.3, 44.7, 62.9, 29.7, 35.4, 52.4,
+  64.4, 55.8, 31.0, 24.8, 53.6, 42.6, 38.8, 59.8, 61.0, 51.6,
+];
+
+const defaultData: HistogramObservation[] = defaultValues.map((value, index) => ({
+  id: `observation-${index + 1}`,
+  label: `Observation ${index + 1}`,
+  value,
+}));
+
+export const defaultHistogramSettings: HistogramSettings = {
+  data: defaultData,
+  binningRule: "freedman-diaconis",
+  binWidth: 5,
+  binCount: 10,
+  binStart: null,
+  yMode: "count",
+  barFillColor: "#3b82f6",
+  barOpacity: 0.85,
+  barBorderColor: "#0f172a",
+  barBorderWidth: 1,
+  barCornerRadius: 0,
+  barCornerStyle: "top",
+  barGap: 1,
+  showKde: false,
+  kdeKernel: "gaussian",
+  kdeBandwidth: null,
+  kdeColor: "#f59e0b",
+  kdeLineWidth: 2,
+  kdeDashStyle: "solid",
+  xAxisMin: null,
+  xAxisMax: null,
+  xAxisTickStep: null,
+  axesSynced: true,
+  backgroundColor: "#0f172a",
+  canvasPadding: 48,
+  textColor: "#f8fafc",
+  globalFontFamily: DEFAULT_FONT_STACK,
+  titleColor: "#f8fafc",
+  titleFontFamily: DEFAULT_FONT_STACK,
+  titleIsBold: true,
+  titleIsItalic: false,
+  titleIsUnderline: false,
+  titleOffsetX: 0,
+  title: "Custom histogram",
+  titleFontSize: 20,
+  titleOffsetY: 0,
+  subtitle: "",
+  subtitleFontSize: 16,
+  subtitleOffsetY: 0,
+  subtitleOffsetX: 0,
+  subtitleColor: "#cbd5f5",
+  subtitleFontFamily: DEFAULT_FONT_STACK,
+  subtitleIsBold: false,
+  subtitleIsItalic: false,
+  subtitleIsUnderline: false,
+  xAxisTitleFontSize: 14,
+  yAxisTitleFontSize: 14,
+  xAxisTickFontSize: 12,
+  yAxisTickFontSize: 12,
+  xAxisTickOffsetX: 0,
+  xAxisTickOffsetY: 0,
+  yAxisTickOffsetX: 0,
+  yAxisTickOffsetY: 0,
+  aspectRatio: 0.8,
+  customWidth: null,
+  customHeight: null,
+  exportScale: 2,
+  exportTransparent: false,
+  exportFileName: "histogram",
+  exportPresets: [],
+  exportPresetId: null,
+  paletteName: "vibrant",
+  xAxis: {
+    showAxisLines: true,
+    showTickLabels: true,
+    showGridLines: true,
+    axisLineColor: "#e2e8f0",
+    axisLineWidth: 1.5,
+    tickLabelColor: "#e2e8f0",
+    tickLabelOrientation: 0,
+    gridLineColor: "#334155",
+    gridLineStyle: "solid" as const,
+    gridLineOpacity: 0.6,
+    gridLineWidth: 1,
+    title: "Value",
+  },
+  yAxis: {
+    showAxisLines: true,
+    showTickLabels: true,
+    showGridLines: true,
+    axisLineColor: "#e2e8f0",
+    axisLineWidth: 1.5,
+    tickLabelColor: "#e2e8f0",
+    tickLabelOrientation: 0,
+    gridLineColor: "#334155",
+    gridLineStyle: "solid" as const,
+    gridLineOpacity: 0.6,
+    gridLineWidth: 1,
+    title: "Count",
+  },
+  yAxisMin: null,
+  yAxisMax: null,
+  yAxisTickStep: null,
+  xAxisTitleOffsetY: 0,
+  yAxisTitleOffsetX: 0,
+};
@@ -0,0 +1,288 @@
+import { Database, Download, Redo2, Settings, Sparkles, Undo2, UploadCloud } from 'lucide-react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { ChartPage } from '../../shared/components/ChartPage';
+import { useDocumentTitle } from '../../shared/hooks/useDocumentTitle';
+import { useUndoableState } from '../../shared/hooks/useUndoableState';
+import { useUndoShortcuts } from '../../shared/hooks/useUndoShortcuts';
+import { createChartAction } from '../../shared/utils/chartHelpers';
+import { createLineRow, createSeries } from '../../shared/utils/lineFactory';
+import type { FocusRequest, FocusTarget, HighlightKey, PaletteKey } from '../../types/base';
+import type { LineChartSettings, LineDataPoint } from '../../types/line';
+import { LineChartLeftPanel } from './components/LineChartLeftPanel';
+import { LineChartCentralPanel } from './components/LineChartCentralPanel';
+import { LineChartRightPanel } from './components/LineChartRightPanel';
+import { defaultLineChartSettings } from './defaultSettings';
+
+const STORAGE_KEY = 'linechart-studio-state-v1';
+const STORAGE_VERSION = 1;
+
+function buildDefaultSettings(paletteName: PaletteKey = defaultLineChartSettings.paletteName): LineChartSettings {
+    return {
+        ...defaultLineChartSettings,
+        paletteName,
+        data: defaultLineChartSettings.data.map((row) => ({ ...row, values: { ...row.values } })),
+        series: defaultLineChartSettings.series.map((series) => ({ ...series })),
+        legend: { ...defaultLineChartSettings.legend },
+        xAxis: { ...defaultLineChartSettings.xAxis },
+        yAxis: { ...defaultLineChartSettings.yAxis },
+    };
+}
+
+function mergeStoredSettings(stored?: Partial<LineChartSettings>): LineChartSettings {
+    if (!stored || typeof stored !== 'object') {
+        return buildDefaultSettings();
+    }
+
+    const paletteName = stored.paletteName ?? defaultLineChartSettings.paletteName;
+    const defaults = buildDefaultSettings(paletteName);
+    const storedSeries = Array.isArray(stored.series) && stored.series.length ? stored.series : null;
+    const storedData = Array.isArray(stored.data) ? stored.data : null;
+
+    // Stored rows only make sense together with the series their values point to
+    if (!storedSeries || !storedData) {
+        return {
+            ...defaults,
+            ...stored,
+            paletteName,
+            series: defaults.series,
+            data: defaults.data,
+            legend: { ...defaults.legend, ...stored.legend },
+            xAxis: { ...defaults.xAxis, ...stored.xAxis },
+            yAxis: { ...defaults.yAxis, ...stored.yAxis },
+        };
+    }
+
+    const mergedSeries = storedSeries.map((series, index) => ({
+        ...createSeries(index, paletteName),
+        ...series,
+    }));
+
+    const mergedData = storedData.map((row, index) => {
+        const template = createLineRow(index, mergedSeries);
+        const values = row?.values && typeof row.values === 'object' ? row.values : {};
+        return {
+            ...template,
+            ...row,
+            x: typeof row?.x === 'number' ? row.x : template.x,
+            values: Object.fromEntries(mergedSeries.map((series) => {
+                const value = values[series.id];
+                return [series.id, typeof value === 'number' ? value : null];
+            })),
+        };
+    });
+
+    return {
+        ...defaults,
+        ...stored,
+        paletteName,
+        series: mergedSeries,
+        data: mergedData.length ? mergedData : defaults.data,
+        legend: { ...defaults.legend, ...stored.legend },
+        xAxis: { ...defaults.xAxis, ...stored.xAxis },
+        yAxis: { ...defaults.yAxis, ...stored.yAxis },
+    };
+}
+
+type PreviewAction = 'importData' | 'exportChart';
+
+export function LineChartPage() {
+    useDocumentTitle('Chart Studio | Line Chart');
+
+    const [settings, setSettings, settingsHistory] = useUndoableState<LineChartSettings>(() => buildDefaultSettings());
+    const { undo, redo, canUndo, canRedo, reset: replaceSettings } = settingsHistory;
+    const [previewAction, setPreviewAction] = useState<PreviewAction | null>(null);
+    const [isHydrated, setIsHydrated] = useState(false);
+    const [highlightSignals, setHighlightSignals] = useState<Record<HighlightKey, number>>({
+        chartBasics: 0,
+        yAxis: 0,
+        xAxis: 0,
+        data: 0,
+        title: 0,
+        design: 0,
+        barDesign: 0,
+        valueLabels: 0,
+        errorBars: 0,
+        significance: 0,
+        secondaryAxis: 0,
+    });
+    const focusRequestIdRef = useRef(0);
+    const [focusRequest, setFocusRequest] = useState<FocusRequest | null>(null);
+    const [selectedSeriesId, setSelectedSeriesId] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (typeof window === 'undefined' || isHydrated) return;
+
+        try {
+            const stored = window.localStorage.getItem(STORAGE_KEY);
+            if (stored) {
+                const parsed = JSON.parse(stored);
+                replaceSettings(mergeStoredSettings(parsed?.settings ?? parsed));
+            }
+        } catch (error) {
+            console.warn('Failed to load saved chart state', error);
+        } finally {
+            setIsHydrated(true);
+        }
+    }, [isHydrated, replaceSettings]);
+
+    useEffect(() => {
+        if (!isHydrated || typeof window === 'undefined') return;
+        try {
+            window.localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: STORAGE_VERSION, settings }));
+        } catch (error) {
+            console.warn('Failed to save chart state', error);
+        }
+    }, [settings, isHydrated]);
+
+    useUndoShortcuts(undo, redo);
+
+    const triggerHighlight = useCallback((keys: HighlightKey[]) => {
+        if (!keys.length) return;
+        setHighlightSignals((prev) => {
+            const next = { ...prev };
+            keys.forEach((key) => {
+                next[key] = (prev[key] ?? 0) + 1;
+            });
+            return next;
+        });
+    }, []);
+
+    const requestFocus = useCallback((target: FocusTarget) => {
+        focusRequestIdRef.current += 1;
+        setFocusRequest({ target, requestId: focusRequestIdRef.current });
+    }, []);
+
+    const handleSettingsChange = useCallback((nextSettings: LineChartSettings) => {
+        setSettings(nextSettings);
+    }, [setSettings]);
+
+    const handleRowsChange = useCallback((rows: LineDataPoint[]) => {
+        setSettings((current) => ({ ...current, data: rows }));
+    }, [setSettings]);
+
+    const handlePreviewActionHandled = useCallback(() => {
+        setPreviewAction(null);
+    }, []);
+
+    const handleRequestImport = useCallback(() => {
+        setPreviewAction('importData');
+    }, []);
+
+    const handleRequestExport = useCallback(() => {
+        setPreviewAction('exportChart');
+    }, []);
+
+    const handleResetStudio = useCallback(() => {
+        setSettings(buildDefaultSettings(), { standalone: true });
+        setPreviewAction(null);
+        setFocusRequest(null);
+        triggerHighlight(['chartBasics', 'data']);
+        if (typeof window !== 'undefined') {
+            try {
+                window.localStorage.removeItem(STORAGE_KEY);
+            } catch (error) {
+                console.warn('Failed to clear saved chart state', error);
+            }
+        }
+    }, [setSettings, triggerHighlight]);
+
+    const handleResetData = useCallback(() => {
+        setSettings((current) => {
+            const defaults = buildDefaultSettings(current.paletteName);
+            return {
+                ...current,
+                series: defaults.series,
+                data: defaults.data,
+            };
+        }, { standalone: true });
+        triggerHighlight(['data']);
+    }, [setSettings, triggerHighlight]);
+
+    const handleResetSettings = useCallback(() => {
+        setSettings((current) => {
+            const defaults = buildDefaultSettings(current.paletteName);
+            // Keep names and ids so the rows still line up with their series
+            const nextSeries = current.series.map((series, index) => ({
+                ...createSeries(index, current.paletteName, series.name),
+                id: series.id,
+            }));
+            return {
+                ...defaults,
+                series: nextSeries,
+                data: current.data,
+            };
+        }, { standalone: true });
+        triggerHighlight(['chartBasics']);
+    }, [setSettings, triggerHighlight]);
+
+    const handleSelectSeries = useCallback((seriesId: string) => {
+        setSelectedSeriesId(seriesId);
+        setTimeout(() => {
+            const seriesSection = document.querySelector('[data-block="series-design"]');
+            if (seriesSection) {
+                seriesSection.scrollIntoView({ behavior: 'smooth', block: 'start' });
+            }
+        }, 100);
+    }, []);
+
+    const actionMenuItems = useMemo(
+        () => [
+            createChartAction('upload', 'Upload data', UploadCloud, handleRequestImport),
+            createChartAction('undo', 'Undo (Ctrl+Z)', Undo2, undo, !canUndo),
+            createChartAction('redo', 'Redo (Ctrl+Shift+Z)', Redo2, redo, !canRedo),
+            createChartAction('clean-studio', 'Clean Studio', Sparkles, handleResetStudio),
+            createChartAction('clean-data', 'Clean Data', Database, handleResetData),
+            createChartAction('clean-settings', 'Clean Settings', Settings, handleResetSettings),
+            createChartAction('export', 'Export chart', Download, handleRequestExport),
+        ],
+        [handleRequestImport, undo, redo, canUndo, canRedo, handleResetStudio, handleResetData, handleResetSettings, handleRequestExport],
+    );
+
+    return (
+        <ChartPage
+            title="Line Chart"
+            subtitle="Follow trends across multiple series with precise control over lines and markers."
+            actions={actionMenuItems}
+            clipboard={{
+                scale: settings.exportScale,
+                transparent: settings.exportTransparent,
+                backgroundColor: settings.backgroundColor,
+            }}
+            leftPanel={
+                <LineChartLeftPanel
+                    settings={settings}
+                    onChange={handleSettingsChange}
+                    highlightSignals={highlightSignals}
+                    focusRequest={focusRequest}
+                />
+            }
+            centerPanel={
+                <LineChartCentralPanel
+                    chartPreview={{
+                        settings,
+                        onUpdateSettings: handleSettingsChange,
+                        onHighlight: triggerHighlight,
+                        onRequestFocus: requestFocus,
+                        onSelectSeries: handleSelectSeries,
+                        actionRequest: previewAction,
+                        onActionHandled: handlePreviewActionHandled,
+                    }}
+                    dataTable={{
+                        data: settings.data,
+                        series: settings.series,
+                        onChange: handleRowsChange,
+                    }}
+                />
+            }
+            rightPanel={
+                <LineChartRightPanel
+                    settings={settings}
+                    onChange={handleSettingsChange}
+                    highlightSignals={highlightSignals}
+                    selectedSeriesId={selectedSeriesId}
+                    onSelectSeries={setSelectedSeriesId}
+                />
+            }
+        />
+    );
+}
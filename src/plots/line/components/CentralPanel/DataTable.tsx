@@ -0,0 +1,106 @@
+import { useCallback, useMemo } from 'react';
+import { createLineRow } from '../../../../shared/utils/lineFactory';
+import { DataTable as SharedDataTable, type DataTableColumn, type DataTableRow } from '../../../../shared/components/DataTable';
+import type { LineDataPoint, LineSeries } from '../../../../types/line';
+
+interface LineDataTableProps {
+    data: LineDataPoint[];
+    series: LineSeries[];
+    onChange: (data: LineDataPoint[]) => void;
+    className?: string;
+}
+
+// Shown for missing values; editing the cell to anything non-numeric restores the gap
+const GAP_PLACEHOLDER = '—';
+
+export function DataTable({ data, series, onChange, className = '' }: LineDataTableProps) {
+    const seriesIds = useMemo(() => new Set(series.map((item) => item.id)), [series]);
+
+    // The shared table reads cells by column key, so series values are flattened onto each row
+    const tableRows = useMemo<DataTableRow[]>(() => data.map((row) => ({
+        id: row.id,
+        x: row.x,
+        ...Object.fromEntries(series.map((item) => {
+            const value = row.values[item.id];
+            return [item.id, typeof value === 'number' ? value : GAP_PLACEHOLDER];
+        })),
+    })), [data, series]);
+
+    const updateRow = useCallback((rowIndex: number, changes: Partial<LineDataPoint>) => {
+        const updatedData = [...data];
+        updatedData[rowIndex] = { ...updatedData[rowIndex], ...changes };
+        onChange(updatedData);
+    }, [data, onChange]);
+
+    const handleCellEdit = useCallback((rowIndex: number, column: string, value: string) => {
+        const current = data[rowIndex];
+        if (!current) return;
+
+        if (column === 'x') {
+            updateRow(rowIndex, { x: parseFloat(value) || 0 });
+            return;
+        }
+
+        if (seriesIds.has(column)) {
+            const parsed = parseFloat(value);
+            updateRow(rowIndex, {
+                values: { ...current.values, [column]: Number.isFinite(parsed) ? parsed : null },
+            });
+        }
+    }, [data, seriesIds, updateRow]);
+
+    const addRow = useCallback(() => {
+        const newIndex = data.length;
+        const lastRow = data[data.length - 1];
+        const previousRow = data[data.length - 2];
+        // Continue with the current X spacing so new rows extend the lines to the right
+        const step = lastRow && previousRow ? lastRow.x - previousRow.x : 1;
+        const newRow = createLineRow(newIndex, series, lastRow ? lastRow.x + (step || 1) : 1);
+        if (lastRow) {
+            newRow.values = { ...newRow.values, ...lastRow.values };
+        }
+        onChange([...data, newRow]);
+    }, [data, series, onChange]);
+
+    const deleteRow = useCallback((index: number) => {
+        if (data.length > 1) {
+            onChange(data.filter((_, i) => i !== index));
+        }
+    }, [data, onChange]);
+
+    const handleReorder = useCallback((fromIndex: number, toIndex: number) => {
+        const updatedData = [...data];
+        const draggedItem = updatedData[fromIndex];
+
+        updatedData.splice(fromIndex, 1);
+        const actualDropIndex = fromIndex < toIndex ? toIndex - 1 : toIndex;
+        updatedData.splice(actualDropIndex, 0, draggedItem);
+
+        onChange(updatedData);
+    }, [data, onChange]);
+
+    const columns: DataTableColumn<DataTableRow>[] = [
+        {
+            key: 'x',
+            label: 'X'
+        },
+        ...series.map((item) => ({
+            key: item.id,
+            label: item.name || 'Series'
+        }))
+    ];
+
+    return (
+        <SharedDataTable
+            data={tableRows}
+            columns={columns}
+            onRowAdd={addRow}
+            onRowDelete={deleteRow}
+            onRowReorder={handleReorder}
+            onCellEdit={handleCellEdit}
+            addButtonLabel="Add Row"
+            canDelete={() => data.length > 1}
+            className={className}
+        />
+    );
+}
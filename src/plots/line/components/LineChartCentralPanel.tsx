@@ -0,0 +1,62 @@
+import { BlockGroup } from '../../../shared/components/BlockGroups';
+import { ChartPreviewBlock } from '../../../shared/components/ChartPreviewBlock';
+import { DataEditorBlock } from '../../../shared/components/DataEditorBlock';
+import { ChartPreview } from './CentralPanel/ChartPreview';
+import { DataTable } from './CentralPanel/DataTable';
+import type { LineChartSettings, LineDataPoint, LineSeries } from '../../../types/line';
+import type { FocusTarget, HighlightKey } from '../../../types/base';
+
+export type ChartPreviewAction = 'importData' | 'exportChart';
+
+export interface ChartPreviewProps {
+    settings: LineChartSettings;
+    onUpdateSettings: (settings: LineChartSettings) => void;
+    onHighlight: (keys: HighlightKey[]) => void;
+    onRequestFocus: (target: FocusTarget) => void;
+    onSelectSeries?: (seriesId: string) => void;
+    actionRequest?: ChartPreviewAction | null;
+    onActionHandled?: () => void;
+    heading?: string;
+}
+
+export interface DataTableProps {
+    data: LineDataPoint[];
+    series: LineSeries[];
+    onChange: (data: LineDataPoint[]) => void;
+}
+
+export interface LineChartCentralPanelProps {
+    chartPreview: ChartPreviewProps;
+    dataTable: DataTableProps;
+}
+
+export function LineChartCentralPanel({ chartPreview, dataTable }: LineChartCentralPanelProps) {
+    const { heading, ...chartPreviewProps } = chartPreview;
+
+    return (
+        <div className="flex flex-col gap-4 sm:gap-6">
+            <BlockGroup
+                title="Chart Preview"
+                sections={[{
+                    id: 'chart-preview-content',
+                    content: (
+                        <ChartPreviewBlock
+                            chartElement={<ChartPreview {...chartPreviewProps} />}
+                            heading={heading}
+                        />
+                    )
+                }]}
+                defaultExpanded={true}
+                className="w-full max-w-full overflow-hidden"
+                enableStickyMobile={true}
+            />
+            <DataEditorBlock
+                title="Data Editor"
+                defaultExpanded={false}
+                className="w-full max-w-full overflow-hidden"
+            >
+                <DataTable {...dataTable} />
+            </DataEditorBlock>
+        </div>
+    );
+}
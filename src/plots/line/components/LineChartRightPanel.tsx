@@ -0,0 +1,110 @@
+import { RightPanel } from '../../../shared/components/RightPanel';
+import { LegendBlock } from '../../bar/components/RightPanel/LegendBlock';
+import { SeriesDesignBlock } from './RightPanel/SeriesDesignBlock';
+import type { LineChartSettings } from '../../../types/line'
+import type { HighlightKey } from '../../../types/base'
+import type { RightPanelBlock } from '../../../shared/components/RightPanel';
+
+export interface LineChartRightPanelProps {
+    settings: LineChartSettings;
+    onChange: (settings: LineChartSettings) => void;
+    highlightSignals?: Partial<Record<HighlightKey, number>>;
+    selectedSeriesId?: string | null;
+    onSelectSeries?: (seriesId: string | null) => void;
+}
+
+export function LineChartRightPanel({
+    settings,
+    onChange,
+    highlightSignals,
+    selectedSeriesId,
+    onSelectSeries
+}: LineChartRightPanelProps) {
+    const seriesDesign = SeriesDesignBlock({ settings, onChange, selectedSeriesId, onSelectSeries });
+    const legend = LegendBlock({ settings, onChange });
+
+    const blocks: RightPanelBlock[] = [
+        // Series Design Block
+        {
+            id: 'series-design',
+            title: 'Series Design',
+            highlightKey: 'design',
+            sections: [
+                {
+                    id: 'series-selector',
+                    content: seriesDesign.seriesSelector
+                },
+                {
+                    id: 'series-line',
+                    title: 'Line',
+                    content: seriesDesign.lineSettings
+                },
+                {
+                    id: 'series-markers',
+                    title: 'Markers',
+                    content: seriesDesign.markerSettings,
+                    className: 'border-t border-white/10 pt-6'
+                },
+                {
+                    id: 'series-area',
+                    title: 'Area Fill',
+                    content: seriesDesign.areaSettings,
+                    className: 'border-t border-white/10 pt-6'
+                }
+            ]
+        },
+
+        // Legend Block
+        {
+            id: 'legend',
+            title: 'Legend',
+            sections: [
+                {
+                    id: 'legend-position',
+                    content: legend.position
+                },
+                {
+                    id: 'legend-text',
+                    title: 'Text',
+                    content: legend.textSettings,
+                    className: 'border-t border-white/10 pt-6'
+                },
+                {
+                    id: 'legend-background',
+                    title: 'Background & Border',
+                    content: legend.background,
+                    className: 'border-t border-white/10 pt-6'
+                },
+                {
+                    id: 'legend-spacing',
+                    title: 'Spacing',
+                    content: legend.spacing,
+                    className: 'border-t border-white/10 pt-6'
+                },
+                {
+                    id: 'legend-marker',
+                    title: 'Marker',
+                    content: legend.markerSettings,
+                    className: 'border-t border-white/10 pt-6'
+                },
+                {
+                    id: 'legend-offset',
+                    title: 'Position Offset',
+                    content: legend.position_offset,
+                    className: 'border-t border-white/10 pt-6'
+                }
+            ],
+            toggle: {
+                value: settings.legend.show,
+                onChange: (value: boolean) => onChange({ ...settings, legend: { ...settings.legend, show: value } })
+            }
+        }
+    ];
+
+    return (
+        <RightPanel
+            blocks={blocks}
+            highlightSignals={highlightSignals}
+        />
+    );
+}
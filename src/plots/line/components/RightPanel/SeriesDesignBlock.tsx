@@ -0,0 +1,222 @@
+import { useState, useEffect } from 'react'
+import { Plus, Trash2 } from 'lucide-react'
+import { ColorField } from '../../../../shared/components/ColorField'
+import { NumericInput } from '../../../../shared/components/NumericInput'
+import { SelectField } from '../../../../shared/components/SelectField'
+import { GroupComponents } from '../../../../shared/components/GroupComponents'
+import { TextInput } from '../../../../shared/components/TextInput'
+import { Toggle } from '../../../../shared/components/Toggle'
+import { createSeries } from '../../../../shared/utils/lineFactory'
+import { dashStyleOptions, interpolationOptions } from '../../../../shared/utils/linePaths'
+import { markerShapeOptions } from '../../../../shared/utils/markers'
+import type { LineChartSettings, LineDashStyle, LineInterpolation, LineSeries } from '../../../../types/line'
+import type { ScatterPointShape } from '../../../../types/scatter'
+
+interface SeriesDesignBlockProps {
+    settings: LineChartSettings;
+    onChange: (settings: LineChartSettings) => void;
+    selectedSeriesId?: string | null;
+    onSelectSeries?: (seriesId: string | null) => void;
+}
+
+export function SeriesDesignBlock({
+    settings,
+    onChange,
+    selectedSeriesId: externalSelectedSeriesId,
+    onSelectSeries
+}: SeriesDesignBlockProps) {
+    const { series } = settings
+    const [internalSelectedSeriesId, setInternalSelectedSeriesId] = useState<string>(series[0]?.id || '')
+
+    // Use external selection if provided, otherwise use internal state
+    const selectedSeriesId = externalSelectedSeriesId || internalSelectedSeriesId
+    const setSelectedSeriesId = onSelectSeries || setInternalSelectedSeriesId
+
+    useEffect(() => {
+        if (!series.find(item => item.id === selectedSeriesId)) {
+            setSelectedSeriesId(series[0]?.id || '')
+        }
+    }, [series, selectedSeriesId, setSelectedSeriesId])
+
+    const updateSeries = <K extends keyof Omit<LineSeries, 'id'>>(seriesId: string, field: K, value: LineSeries[K]) => {
+        onChange({
+            ...settings,
+            series: series.map(item =>
+                item.id === seriesId ? { ...item, [field]: value } : item
+            )
+        })
+    }
+
+    // New series start empty in every row so they show up as gaps until values are entered
+    const addSeries = () => {
+        const newSeries = createSeries(series.length, settings.paletteName)
+        onChange({
+            ...settings,
+            series: [...series, newSeries],
+            data: settings.data.map(row => ({
+                ...row,
+                values: { ...row.values, [newSeries.id]: null }
+            }))
+        })
+        setSelectedSeriesId(newSeries.id)
+    }
+
+    const removeSeries = (seriesId: string) => {
+        if (series.length <= 1) return
+        onChange({
+            ...settings,
+            series: series.filter(item => item.id !== seriesId),
+            data: settings.data.map(row => {
+                const values = { ...row.values }
+                delete values[seriesId]
+                return { ...row, values }
+            })
+        })
+    }
+
+    const selectedSeries = series.find(item => item.id === selectedSeriesId) || series[0]
+
+    return {
+        seriesSelector: (
+            <div className="flex items-center justify-start gap-4">
+                <span className="text-sm font-semibold text-white/80 whitespace-nowrap">Active Series:</span>
+                <SelectField<string>
+                    className="flex-1"
+                    label=""
+                    value={selectedSeries?.id ?? ''}
+                    onChange={(newSeriesId) => setSelectedSeriesId(newSeriesId)}
+                    options={series.map((item, index) => ({
+                        value: item.id,
+                        label: item.name || `Series ${index + 1}`
+                    }))}
+                    placeholder="Select series to edit"
+                />
+                <button
+                    type="button"
+                    onClick={addSeries}
+                    className="flex items-center gap-1 rounded-md border border-white/10 bg-white/10 px-2 py-1.5 text-xs font-medium text-white transition hover:bg-white/20"
+                    title="Add a series"
+                >
+                    <Plus className="h-3 w-3" />
+                </button>
+                {selectedSeries && series.length > 1 && (
+                    <button
+                        type="button"
+                        onClick={() => removeSeries(selectedSeries.id)}
+                        className="flex items-center gap-1 rounded-md border border-red-400/20 bg-red-500/10 px-2 py-1.5 text-xs font-medium text-red-400 transition hover:bg-red-500/20"
+                        title="Delete this series"
+                    >
+                        <Trash2 className="h-3 w-3" />
+                    </button>
+                )}
+            </div>
+        ),
+
+        lineSettings: selectedSeries ? (
+            <div className="space-y-8">
+                <GroupComponents
+                    maxColumns={2}
+                    gap={2}
+                    rowGap={2}
+                >
+                    <TextInput
+                        label="Series name"
+                        value={selectedSeries.name}
+                        onChange={(value) => updateSeries(selectedSeries.id, 'name', value)}
+                        placeholder="Series name"
+                    />
+                    <ColorField
+                        label="Line color"
+                        value={selectedSeries.color}
+                        onChange={(value) => updateSeries(selectedSeries.id, 'color', value)}
+                    />
+                </GroupComponents>
+
+                <GroupComponents
+                    maxColumns={3}
+                    gap={2}
+                    rowGap={2}
+                >
+                    <NumericInput
+                        title="Line width"
+                        value={selectedSeries.lineWidth}
+                        min={0.5}
+                        max={12}
+                        step={0.5}
+                        precision={1}
+                        onChange={(value) => updateSeries(selectedSeries.id, 'lineWidth', value)}
+                        suffix="px"
+                    />
+                    <SelectField<LineDashStyle>
+                        label="Dash pattern"
+                        value={selectedSeries.dashStyle}
+                        onChange={(value) => updateSeries(selectedSeries.id, 'dashStyle', value)}
+                        options={dashStyleOptions}
+                    />
+                    <SelectField<LineInterpolation>
+                        label="Interpolation"
+                        value={selectedSeries.interpolation}
+                        onChange={(value) => updateSeries(selectedSeries.id, 'interpolation', value)}
+                        options={interpolationOptions}
+                    />
+                </GroupComponents>
+            </div>
+        ) : null,
+
+        markerSettings: selectedSeries ? (
+            <GroupComponents
+                maxColumns={3}
+                gap={2}
+                rowGap={2}
+            >
+                <Toggle
+                    title="Show markers"
+                    value={selectedSeries.showMarkers}
+                    onChange={(value) => updateSeries(selectedSeries.id, 'showMarkers', value)}
+                />
+                <SelectField<ScatterPointShape>
+                    label="Shape"
+                    value={selectedSeries.markerShape}
+                    onChange={(value) => updateSeries(selectedSeries.id, 'markerShape', value)}
+                    options={markerShapeOptions}
+                    disabled={!selectedSeries.showMarkers}
+                />
+                <NumericInput
+                    title="Size"
+                    value={selectedSeries.markerSize}
+                    min={2}
+                    max={32}
+                    step={1}
+                    precision={0}
+                    onChange={(value) => updateSeries(selectedSeries.id, 'markerSize', value)}
+                    suffix="px"
+                    disabled={!selectedSeries.showMarkers}
+                />
+            </GroupComponents>
+        ) : null,
+
+        areaSettings: selectedSeries ? (
+            <GroupComponents
+                maxColumns={2}
+                gap={2}
+                rowGap={2}
+            >
+                <Toggle
+                    title="Fill area"
+                    value={selectedSeries.showArea}
+                    onChange={(value) => updateSeries(selectedSeries.id, 'showArea', value)}
+                />
+                <NumericInput
+                    title="Area opacity"
+                    value={selectedSeries.areaOpacity}
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    precision={2}
+                    onChange={(value) => updateSeries(selectedSeries.id, 'areaOpacity', value)}
+                    disabled={!selectedSeries.showArea}
+                />
+            </GroupComponents>
+        ) : null
+    }
+}
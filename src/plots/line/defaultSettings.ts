@@ -0,0 +1,132 @@
+import type { LineChartSettings, LineDataPoint, LineSeries } from "../../types/line";
+import { DEFAULT_FONT_STACK } from "../../shared/constants/fonts";
+import { createSeries } from "../../shared/utils/lineFactory";
+
+const defaultSeries: LineSeries[] = [
+  createSeries(0, "vibrant", "Control"),
+  { ...createSeries(1, "vibrant", "Treatment"), markerShape: "square", interpolation: "monotone" },
+];
+
+const [control, treatment] = defaultSeries;
+
+// The missing treatment value at x = 4 shows how gaps are drawn
+const defaultValues: Array<[number, number | null, number | null]> = [
+  [1, 12, 10],
+  [2, 15, 14],
+  [3, 14, 19],
+  [4, 18, null],
+  [5, 21, 27],
+  [6, 20, 31],
+];
+
+const defaultData: LineDataPoint[] = defaultValues.map(([x, controlValue, treatmentValue], index) => ({
+  id: `row-${index + 1}`,
+  label: `Row ${index + 1}`,
+  x,
+  values: {
+    [control.id]: controlValue,
+    [treatment.id]: treatmentValue,
+  },
+}));
+
+export const defaultLineChartSettings: LineChartSettings = {
+  data: defaultData,
+  series: defaultSeries,
+  legend: {
+    show: true,
+    position: "top-right",
+    fontSize: 12,
+    fontFamily: DEFAULT_FONT_STACK,
+    textColor: "#f8fafc",
+    isBold: false,
+    isItalic: false,
+    backgroundColor: "#0f172a",
+    backgroundOpacity: 0.85,
+    borderColor: "#e2e8f0",
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingX: 12,
+    paddingY: 8,
+    itemSpacing: 8,
+    markerSize: 16,
+    markerSpacing: 8,
+    offsetX: 0,
+    offsetY: 0,
+  },
+  xAxisMin: null,
+  xAxisMax: null,
+  xAxisTickStep: null,
+  axesSynced: true,
+  backgroundColor: "#0f172a",
+  canvasPadding: 48,
+  textColor: "#f8fafc",
+  globalFontFamily: DEFAULT_FONT_STACK,
+  titleColor: "#f8fafc",
+  titleFontFamily: DEFAULT_FONT_STACK,
+  titleIsBold: true,
+  titleIsItalic: false,
+  titleIsUnderline: false,
+  titleOffsetX: 0,
+  title: "Custom line chart",
+  titleFontSize: 20,
+  titleOffsetY: 0,
+  subtitle: "",
+  subtitleFontSize: 16,
+  subtitleOffsetY: 0,
+  subtitleOffsetX: 0,
+  subtitleColor: "#cbd5f5",
+  subtitleFontFamily: DEFAULT_FONT_STACK,
+  subtitleIsBold: false,
+  subtitleIsItalic: false,
+  subtitleIsUnderline: false,
+  xAxisTitleFontSize: 14,
+  yAxisTitleFontSize: 14,
+  xAxisTickFontSize: 12,
+  yAxisTickFontSize: 12,
+  xAxisTickOffsetX: 0,
+  xAxisTickOffsetY: 0,
+  yAxisTickOffsetX: 0,
+  yAxisTickOffsetY: 0,
+  aspectRatio: 0.8,
+  customWidth: null,
+  customHeight: null,
+  exportScale: 2,
+  exportTransparent: false,
+  exportFileName: "linechart",
+  exportPresets: [],
+  exportPresetId: null,
+  paletteName: "vibrant",
+  xAxis: {
+    showAxisLines: true,
+    showTickLabels: true,
+    showGridLines: true,
+    axisLineColor: "#e2e8f0",
+    axisLineWidth: 1.5,
+    tickLabelColor: "#e2e8f0",
+    tickLabelOrientation: 0,
+    gridLineColor: "#334155",
+    gridLineStyle: "solid" as const,
+    gridLineOpacity: 0.6,
+    gridLineWidth: 1,
+    title: "X",
+  },
+  yAxis: {
+    showAxisLines: true,
+    showTickLabels: true,
+    showGridLines: true,
+    axisLineColor: "#e2e8f0",
+    axisLineWidth: 1.5,
+    tickLabelColor: "#e2e8f0",
+    tickLabelOrientation: 0,
+    gridLineColor: "#334155",
+    gridLineStyle: "solid" as const,
+    gridLineOpacity: 0.6,
+    gridLineWidth: 1,
+    title: "Value",
+  },
+  yAxisMin: null,
+  yAxisMax: null,
+  yAxisTickStep: null,
+  xAxisTitleOffsetY: 0,
+  yAxisTitleOffsetX: 0,
+};
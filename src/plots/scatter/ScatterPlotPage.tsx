@@ -1,22 +1,42 @@
-import { useEffect, useState } from 'react';
-import { ChartPage } from '../../shared/components/ChartPage';
-import { ChartPageBlock } from '../../shared/components/ChartPageLayout';
-import { BlockGroup } from '../../shared/components/BlockGroups';
-import { TitleSettingsPanel } from '../../shared/components/TitleSettingsPanel';
+import { Database, Download, Link2, Redo2, Settings, Sparkles, Undo2, UploadCloud } from 'lucide-react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { ChartPage, type ChartPageLibrary } from '../../shared/components/ChartPage';
+import { ProjectErrorModal } from '../../shared/components/ProjectErrorModal';
+import { ShareLinkModal } from '../../shared/components/ShareLinkModal';
 import { useDocumentTitle } from '../../shared/hooks/useDocumentTitle';
-import { useHighlightEffect } from '../../shared/hooks/useHighlightEffect';
-import type { HighlightKey } from '../../types/base';
-import type { ScatterPlotSettings } from '../../types/scatter';
-import { defaultScatterPlotSettings } from './defaultSettings';
+import { useLibraryBinding } from '../../shared/hooks/useLibraryBinding';
+import { useShareLinkHydration } from '../../shared/hooks/useShareLinkHydration';
+import { useUndoableState } from '../../shared/hooks/useUndoableState';
+import { useUndoShortcuts } from '../../shared/hooks/useUndoShortcuts';
+import { createChartAction } from '../../shared/utils/chartHelpers';
+import { createPoint } from '../../shared/utils/pointFactory';
+import { copyShareLink, type ShareLink } from '../../shared/utils/shareLink';
+import type { FocusRequest, FocusTarget, HighlightKey } from '../../types/base';
+import type { ScatterDataPoint, ScatterPlotSettings } from '../../types/scatter';
+import { ScatterPlotLeftPanel } from './components/ScatterPlotLeftPanel';
+import { ScatterPlotCentralPanel } from './components/ScatterPlotCentralPanel';
+import { ScatterPlotRightPanel } from './components/ScatterPlotRightPanel';
+import { buildDefaultSettings } from './defaultSettings';
+import {
+    createScatterProjectDocument,
+    parseScatterProject,
+    readScatterProject,
+    type ScatterProjectParseResult,
+} from './project';
 
 const STORAGE_KEY = 'scatterplot-studio-state-v1';
 
+type PreviewAction = 'importData' | 'exportChart';
+
 export function ScatterPlotPage() {
     useDocumentTitle('Chart Studio | Scatter Plot');
+    const { projectId: libraryProjectId, setProjectId: setLibraryProjectId, resetLibraryBinding } = useLibraryBinding();
 
-    const [settings, setSettings] = useState<ScatterPlotSettings>(defaultScatterPlotSettings);
+    const [settings, setSettings, settingsHistory] = useUndoableState<ScatterPlotSettings>(() => buildDefaultSettings());
+    const { undo, redo, canUndo, canRedo, reset: replaceSettings } = settingsHistory;
+    const [previewAction, setPreviewAction] = useState<PreviewAction | null>(null);
     const [isHydrated, setIsHydrated] = useState(false);
-    const [highlightSignals] = useState<Record<HighlightKey, number>>({
+    const [highlightSignals, setHighlightSignals] = useState<Record<HighlightKey, number>>({
         chartBasics: 0,
         yAxis: 0,
         xAxis: 0,
@@ -26,19 +46,31 @@ export function ScatterPlotPage() {
         barDesign: 0,
         valueLabels: 0,
         errorBars: 0,
+        significance: 0,
+        secondaryAxis: 0,
     });
+    const focusRequestIdRef = useRef(0);
+    const [focusRequest, setFocusRequest] = useState<FocusRequest | null>(null);
+    const [selectedPointId, setSelectedPointId] = useState<string | null>(null);
+    const [projectError, setProjectError] = useState<{ fileName: string; errors: string[]; opened?: boolean } | null>(null);
+    const [shareLink, setShareLink] = useState<ShareLink | null>(null);
+    // A chart opened from a share link, kept out of the autosave until it is edited
+    const sharedSettingsRef = useRef<ScatterPlotSettings | null>(null);
 
-    // Load from localStorage
     useEffect(() => {
         if (typeof window === 'undefined' || isHydrated) return;
 
         try {
             const stored = window.localStorage.getItem(STORAGE_KEY);
             if (stored) {
-                const parsed = JSON.parse(stored);
-                const storedSettings = parsed?.settings ?? parsed;
-                if (storedSettings && typeof storedSettings === 'object') {
-                    setSettings({ ...defaultScatterPlotSettings, ...storedSettings });
+                const result = parseScatterProject(stored);
+                if (result.ok) {
+                    if (result.issues.length) {
+                        console.warn('Saved chart state had invalid fields that were reset', result.issues);
+                    }
+                    replaceSettings(result.settings);
+                } else {
+                    console.warn('Ignoring saved chart state', result.errors);
                 }
             }
         } catch (error) {
@@ -46,121 +78,235 @@ export function ScatterPlotPage() {
         } finally {
             setIsHydrated(true);
         }
-    }, [isHydrated]);
+    }, [isHydrated, replaceSettings]);
 
-    // Save to localStorage
     useEffect(() => {
         if (!isHydrated || typeof window === 'undefined') return;
+        // Viewing a colleague's chart must not replace the saved workspace
+        if (settings === sharedSettingsRef.current) return;
         try {
-            window.localStorage.setItem(STORAGE_KEY, JSON.stringify({ settings }));
+            window.localStorage.setItem(STORAGE_KEY, JSON.stringify(createScatterProjectDocument(settings)));
         } catch (error) {
             console.warn('Failed to save chart state', error);
         }
     }, [settings, isHydrated]);
 
-    const handleSettingsChange = (nextSettings: ScatterPlotSettings) => {
+    useUndoShortcuts(undo, redo);
+
+    const triggerHighlight = useCallback((keys: HighlightKey[]) => {
+        if (!keys.length) return;
+        setHighlightSignals((prev) => {
+            const next = { ...prev };
+            keys.forEach((key) => {
+                next[key] = (prev[key] ?? 0) + 1;
+            });
+            return next;
+        });
+    }, []);
+
+    const requestFocus = useCallback((target: FocusTarget) => {
+        focusRequestIdRef.current += 1;
+        setFocusRequest({ target, requestId: focusRequestIdRef.current });
+    }, []);
+
+    const handleSettingsChange = useCallback((nextSettings: ScatterPlotSettings) => {
         setSettings(nextSettings);
-    };
+    }, [setSettings]);
 
-    const basicsHighlight = useHighlightEffect(highlightSignals.chartBasics);
-    const titleHighlight = useHighlightEffect(highlightSignals?.title);
+    const handlePointsChange = useCallback((points: ScatterDataPoint[]) => {
+        setSettings((current) => ({ ...current, data: points }));
+    }, [setSettings]);
 
-    return (
-        <ChartPage
-            title="Scatter Plot"
-            subtitle="Visualize relationships between variables with beautiful scatter plots."
-            leftPanel={
-                <>
-                    <ChartPageBlock title="Chart basics" highlighted={basicsHighlight}>
-                        <div className="space-y-3 text-white">
-                            <p className="text-white/60">
-                                Scatter plot basics panel will go here
-                            </p>
-                        </div>
-                    </ChartPageBlock>
-                    <ChartPageBlock title="Title & Subtitle" highlighted={titleHighlight}>
-                        <TitleSettingsPanel
-                            settings={settings}
-                            onChange={handleSettingsChange}
-                            focusRequest={null}
-                            highlightSignal={highlightSignals?.title}
-                        />
-                    </ChartPageBlock>
-                    <ChartPageBlock title="Data">
-                        <div className="space-y-3 text-white">
-                            <p className="text-white/60">Point data editor will go here</p>
-                            <div className="space-y-2">
-                                {settings.data.map((point, index) => (
-                                    <div key={point.id} className="rounded-lg bg-white/10 p-3">
-                                        <p className="text-sm">Point {index + 1}: ({point.x}, {point.y})</p>
-                                    </div>
-                                ))}
-                            </div>
-                        </div>
-                    </ChartPageBlock>
-                </>
+    const handlePreviewActionHandled = useCallback(() => {
+        setPreviewAction(null);
+    }, []);
+
+    const handleRequestImport = useCallback(() => {
+        setPreviewAction('importData');
+    }, []);
+
+    const handleRequestExport = useCallback(() => {
+        setPreviewAction('exportChart');
+    }, []);
+
+    const handleResetStudio = useCallback(() => {
+        resetLibraryBinding();
+        setSettings(buildDefaultSettings(), { standalone: true });
+        setPreviewAction(null);
+        setFocusRequest(null);
+        triggerHighlight(['chartBasics', 'data']);
+        if (typeof window !== 'undefined') {
+            try {
+                window.localStorage.removeItem(STORAGE_KEY);
+            } catch (error) {
+                console.warn('Failed to clear saved chart state', error);
             }
-            centerPanel={
-                <BlockGroup
-                    title="Chart Preview"
-                    defaultExpanded={true}
-                    enableStickyMobile={true}
-                    sections={[{
-                        id: 'scatter-preview',
-                        content: (
-                            <div className="text-white text-center">
-                                <p className="mt-2 text-white/60">Scatter plot preview will go here</p>
-                                <div className="mt-6 sm:mt-8 flex h-48 sm:h-64 items-center justify-center rounded-lg bg-white/10">
-                                    <p className="text-white/40">Scatter Plot Preview Placeholder</p>
-                                </div>
-                            </div>
-                        )
-                    }]}
-                />
+        }
+    }, [setSettings, triggerHighlight, resetLibraryBinding]);
+
+    const handleResetData = useCallback(() => {
+        setSettings((current) => ({
+            ...current,
+            data: buildDefaultSettings(current.paletteName).data,
+        }), { standalone: true });
+        triggerHighlight(['data']);
+    }, [setSettings, triggerHighlight]);
+
+    const handleResetSettings = useCallback(() => {
+        setSettings((current) => {
+            const defaults = buildDefaultSettings(current.paletteName);
+            const nextData = current.data.map((point, index) => {
+                const template = createPoint(index, current.paletteName);
+                return {
+                    ...point,
+                    size: defaults.defaultPointSize,
+                    opacity: defaults.pointOpacity,
+                    borderWidth: defaults.pointBorderWidth,
+                    fillColor: template.fillColor,
+                    borderColor: template.borderColor,
+                    shape: template.shape,
+                };
+            });
+            return {
+                ...defaults,
+                data: nextData,
+            };
+        }, { standalone: true });
+        triggerHighlight(['chartBasics']);
+    }, [setSettings, triggerHighlight]);
+
+    const handleSelectPoint = useCallback((pointId: string) => {
+        setSelectedPointId(pointId);
+        setTimeout(() => {
+            const pointDesignSection = document.querySelector('[data-block="point-design"]');
+            if (pointDesignSection) {
+                pointDesignSection.scrollIntoView({ behavior: 'smooth', block: 'start' });
             }
-            rightPanel={
-                <>
-                    <ChartPageBlock title="Point styling">
-                        <div className="space-y-3 text-white">
-                            <label className="flex flex-col gap-1 text-sm">
-                                <span className="text-xs uppercase tracking-wide text-white/50">Point size</span>
-                                <input
-                                    type="range"
-                                    min={4}
-                                    max={20}
-                                    value={settings.defaultPointSize}
-                                    onChange={(event) =>
-                                        handleSettingsChange({
-                                            ...settings,
-                                            defaultPointSize: Number(event.target.value),
-                                        })
-                                    }
-                                    className="accent-sky-400"
-                                />
-                                <span className="text-xs text-white/40">{settings.defaultPointSize}px</span>
-                            </label>
-                            <label className="flex flex-col gap-1 text-sm">
-                                <span className="text-xs uppercase tracking-wide text-white/50">Opacity</span>
-                                <input
-                                    type="range"
-                                    min={0.1}
-                                    max={1}
-                                    step={0.1}
-                                    value={settings.pointOpacity}
-                                    onChange={(event) =>
-                                        handleSettingsChange({
-                                            ...settings,
-                                            pointOpacity: Number(event.target.value),
-                                        })
-                                    }
-                                    className="accent-sky-400"
-                                />
-                                <span className="text-xs text-white/40">{(settings.pointOpacity * 100).toFixed(0)}%</span>
-                            </label>
-                        </div>
-                    </ChartPageBlock>
-                </>
+        }, 100);
+    }, []);
+
+    const handleDesignPoint = useCallback((pointIndex: number) => {
+        const pointId = settings.data[pointIndex]?.id;
+        if (!pointId) return;
+        triggerHighlight(['design']);
+        handleSelectPoint(pointId);
+    }, [settings.data, triggerHighlight, handleSelectPoint]);
+
+    const applyProjectResult = useCallback((result: ScatterProjectParseResult, name: string) => {
+        if (!result.ok) {
+            setProjectError({ fileName: name, errors: result.errors });
+            return false;
+        }
+        // Field problems have already been replaced by defaults, so they only warrant a warning
+        setProjectError(result.issues.length ? { fileName: name, errors: result.issues, opened: true } : null);
+        resetLibraryBinding();
+        // Recorded as one step so opening a project by mistake can be undone
+        setSettings(result.settings, { standalone: true });
+        setPreviewAction(null);
+        setFocusRequest(null);
+        triggerHighlight(['chartBasics', 'data']);
+        return true;
+    }, [setSettings, triggerHighlight, resetLibraryBinding]);
+
+    const library = useMemo<ChartPageLibrary>(() => ({
+        plotType: 'scatter',
+        defaultName: settings.title || 'Scatter plot',
+        createDocument: () => createScatterProjectDocument(settings),
+        projectId: libraryProjectId,
+        onProjectIdChange: setLibraryProjectId,
+        openDocument: (document, name) => applyProjectResult(readScatterProject(document), name),
+    }), [settings, libraryProjectId, setLibraryProjectId, applyProjectResult]);
+
+    useShareLinkHydration(
+        (value) => {
+            const result = readScatterProject(value);
+            if (applyProjectResult(result, 'The shared link') && result.ok) {
+                sharedSettingsRef.current = result.settings;
             }
-        />
+        },
+        (errors) => setProjectError({ fileName: 'The shared link', errors }),
+    );
+
+    const handleCopyShareLink = useCallback(async () => {
+        try {
+            setShareLink(await copyShareLink(createScatterProjectDocument(settings)));
+        } catch (error) {
+            console.warn('Failed to create share link', error);
+        }
+    }, [settings]);
+
+    const actionMenuItems = useMemo(
+        () => [
+            createChartAction('upload', 'Upload data', UploadCloud, handleRequestImport),
+            createChartAction('share-link', 'Copy share link', Link2, handleCopyShareLink),
+            createChartAction('undo', 'Undo (Ctrl+Z)', Undo2, undo, !canUndo),
+            createChartAction('redo', 'Redo (Ctrl+Shift+Z)', Redo2, redo, !canRedo),
+            createChartAction('clean-studio', 'Clean Studio', Sparkles, handleResetStudio),
+            createChartAction('clean-data', 'Clean Data', Database, handleResetData),
+            createChartAction('clean-settings', 'Clean Settings', Settings, handleResetSettings),
+            createChartAction('export', 'Export chart', Download, handleRequestExport),
+        ],
+        [handleRequestImport, handleCopyShareLink, undo, redo, canUndo, canRedo, handleResetStudio, handleResetData, handleResetSettings, handleRequestExport],
+    );
+
+    return (
+        <>
+            <ChartPage
+                title="Scatter Plot"
+                subtitle="Visualize relationships between variables with beautiful scatter plots."
+                actions={actionMenuItems}
+                clipboard={{
+                    scale: settings.exportScale,
+                    transparent: settings.exportTransparent,
+                    backgroundColor: settings.backgroundColor,
+                }}
+                library={library}
+                leftPanel={
+                    <ScatterPlotLeftPanel
+                        settings={settings}
+                        onChange={handleSettingsChange}
+                        highlightSignals={highlightSignals}
+                        focusRequest={focusRequest}
+                    />
+                }
+                centerPanel={
+                    <ScatterPlotCentralPanel
+                        chartPreview={{
+                            settings,
+                            onUpdateSettings: handleSettingsChange,
+                            onHighlight: triggerHighlight,
+                            onRequestFocus: requestFocus,
+                            onSelectPoint: handleSelectPoint,
+                            actionRequest: previewAction,
+                            onActionHandled: handlePreviewActionHandled,
+                        }}
+                        dataTable={{
+                            data: settings.data,
+                            paletteName: settings.paletteName,
+                            defaultPointSize: settings.defaultPointSize,
+                            onChange: handlePointsChange,
+                            onDesignPoint: handleDesignPoint,
+                        }}
+                    />
+                }
+                rightPanel={
+                    <ScatterPlotRightPanel
+                        settings={settings}
+                        onChange={handleSettingsChange}
+                        onPointsChange={handlePointsChange}
+                        highlightSignals={highlightSignals}
+                        selectedPointId={selectedPointId}
+                        onSelectPoint={setSelectedPointId}
+                    />
+                }
+            />
+            <ProjectErrorModal
+                fileName={projectError?.fileName ?? null}
+                errors={projectError?.errors ?? []}
+                opened={projectError?.opened}
+                onClose={() => setProjectError(null)}
+            />
+            <ShareLinkModal link={shareLink} onClose={() => setShareLink(null)} />
+        </>
     );
 }
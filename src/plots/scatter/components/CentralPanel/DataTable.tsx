@@ -0,0 +1,153 @@
+import { Palette } from 'lucide-react';
+import { useCallback } from 'react';
+import { createPoint } from '../../../../shared/utils/pointFactory';
+import { markerShapeOptions } from '../../../../shared/utils/markers';
+import { ColorField } from '../../../../shared/components/ColorField';
+import { SelectField } from '../../../../shared/components/SelectField';
+import { DataTable as SharedDataTable, type DataTableColumn } from '../../../../shared/components/DataTable';
+import type { ScatterDataPoint, ScatterPointShape } from '../../../../types/scatter';
+import type { PaletteKey } from '../../../../types/base';
+
+interface ScatterDataTableProps {
+    data: ScatterDataPoint[];
+    paletteName: PaletteKey;
+    defaultPointSize: number;
+    onChange: (data: ScatterDataPoint[]) => void;
+    onDesignPoint?: (pointIndex: number) => void;
+    className?: string;
+}
+
+export function DataTable({ data, paletteName, defaultPointSize, onChange, onDesignPoint, className = '' }: ScatterDataTableProps) {
+    const updateRow = useCallback((rowIndex: number, changes: Partial<ScatterDataPoint>) => {
+        const updatedData = [...data];
+        updatedData[rowIndex] = { ...updatedData[rowIndex], ...changes };
+        onChange(updatedData);
+    }, [data, onChange]);
+
+    const handleCellEdit = useCallback((rowIndex: number, column: string, value: string) => {
+        const current = data[rowIndex];
+        if (!current) return;
+
+        switch (column) {
+            case 'label':
+                updateRow(rowIndex, { label: value || `Point ${rowIndex + 1}` });
+                break;
+            case 'x':
+                updateRow(rowIndex, { x: parseFloat(value) || 0 });
+                break;
+            case 'y':
+                updateRow(rowIndex, { y: parseFloat(value) || 0 });
+                break;
+            case 'size': {
+                const size = parseFloat(value);
+                updateRow(rowIndex, { size: Number.isFinite(size) && size > 0 ? size : defaultPointSize });
+                break;
+            }
+        }
+    }, [data, defaultPointSize, updateRow]);
+
+    const addRow = useCallback(() => {
+        const newIndex = data.length;
+        const newPoint = createPoint(newIndex, paletteName);
+        const lastPoint = data[data.length - 1];
+        newPoint.size = defaultPointSize;
+        if (lastPoint) {
+            // Continue from the last point so new rows land inside the current view
+            newPoint.x = lastPoint.x + 1;
+            newPoint.y = lastPoint.y;
+            newPoint.shape = lastPoint.shape;
+        }
+        onChange([...data, newPoint]);
+    }, [data, defaultPointSize, paletteName, onChange]);
+
+    const deleteRow = useCallback((index: number) => {
+        if (data.length > 1) {
+            onChange(data.filter((_, i) => i !== index));
+        }
+    }, [data, onChange]);
+
+    const handleReorder = useCallback((fromIndex: number, toIndex: number) => {
+        const updatedData = [...data];
+        const draggedItem = updatedData[fromIndex];
+
+        updatedData.splice(fromIndex, 1);
+        const actualDropIndex = fromIndex < toIndex ? toIndex - 1 : toIndex;
+        updatedData.splice(actualDropIndex, 0, draggedItem);
+
+        onChange(updatedData);
+    }, [data, onChange]);
+
+    const columns: DataTableColumn<ScatterDataPoint>[] = [
+        {
+            key: 'fillColor',
+            label: 'Color',
+            width: 'w-32 sm:w-48',
+            render: (_, row, index) => (
+                <ColorField
+                    label=""
+                    value={row.fillColor}
+                    onChange={(value) => updateRow(index, { fillColor: value })}
+                    inputProps={{ className: "text-xs" }}
+                />
+            )
+        },
+        {
+            key: 'label',
+            label: 'Label'
+        },
+        {
+            key: 'x',
+            label: 'X'
+        },
+        {
+            key: 'y',
+            label: 'Y'
+        },
+        {
+            key: 'size',
+            label: 'Size'
+        },
+        {
+            key: 'shape',
+            label: 'Shape',
+            width: 'w-32',
+            render: (_, row, index) => (
+                <SelectField<ScatterPointShape>
+                    label=""
+                    value={row.shape}
+                    onChange={(value) => updateRow(index, { shape: value })}
+                    options={markerShapeOptions}
+                />
+            )
+        }
+    ];
+
+    const renderActions = useCallback((_row: ScatterDataPoint, index: number) => (
+        <>
+            {onDesignPoint && (
+                <button
+                    onClick={() => onDesignPoint(index)}
+                    className="text-indigo-400 hover:text-indigo-300 transition-colors p-1"
+                    title="Design this point"
+                >
+                    <Palette className="w-3 h-3 sm:w-4 sm:h-4" />
+                </button>
+            )}
+        </>
+    ), [onDesignPoint]);
+
+    return (
+        <SharedDataTable
+            data={data}
+            columns={columns}
+            onRowAdd={addRow}
+            onRowDelete={deleteRow}
+            onRowReorder={handleReorder}
+            onCellEdit={handleCellEdit}
+            addButtonLabel="Add Point"
+            canDelete={() => data.length > 1}
+            actions={renderActions}
+            className={className}
+        />
+    );
+}
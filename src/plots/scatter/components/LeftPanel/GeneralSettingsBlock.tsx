@@ -0,0 +1,125 @@
+import { ColorField } from '../../../../shared/components/ColorField';
+import { FontPicker } from '../../../../shared/components/FontPicker';
+import { GroupComponents } from '../../../../shared/components/GroupComponents';
+import { NumericInput } from '../../../../shared/components/NumericInput';
+import { SelectField } from '../../../../shared/components/SelectField';
+import { AutoNumericInput } from '../../../../shared/components/AutoNumericInput';
+import { DEFAULT_FONT_OPTIONS } from '../../../../shared/constants/fonts';
+import { paletteOptions, palettes } from '../../../../shared/utils/palettes';
+import type { ScatterPlotSettings } from '../../../../types/scatter';
+import type { PaletteKey } from '../../../../types/base';
+
+type GeneralSettingsBlockProps = {
+    settings: ScatterPlotSettings;
+    onChange: (settings: ScatterPlotSettings) => void;
+}
+
+export function GeneralSettingsBlock({ settings, onChange }: GeneralSettingsBlockProps) {
+    const update = <K extends keyof ScatterPlotSettings>(key: K, value: ScatterPlotSettings[K]) => {
+        onChange({ ...settings, [key]: value });
+    };
+
+    // Width or height alone keeps the aspect ratio; setting both overrides it
+    const bothDimensionsSet = settings.customWidth !== null && settings.customHeight !== null;
+    const aspectRatioActive = !bothDimensionsSet;
+    const computedWidth = settings.customWidth ?? (settings.customHeight !== null ? settings.customHeight / settings.aspectRatio : 800);
+    const computedHeight = settings.customHeight ?? (settings.customWidth !== null ? settings.customWidth * settings.aspectRatio : 640);
+
+    const handlePaletteChange = (nextPalette: PaletteKey) => {
+        const palette = palettes[nextPalette];
+        if (!palette) return;
+
+        onChange({
+            ...settings,
+            paletteName: nextPalette,
+            data: settings.data.map((point, index) => ({
+                ...point,
+                fillColor: palette[index % palette.length],
+            })),
+        });
+    };
+
+    return {
+        generalSettings: (
+            <GroupComponents
+                maxColumns={3}
+                gap={2}
+                rowGap={2}
+            >
+                <SelectField<PaletteKey>
+                    label="Color Palette"
+                    value={settings.paletteName}
+                    onChange={(nextPalette) => handlePaletteChange(nextPalette)}
+                    options={paletteOptions}
+                    placeholder="Select a palette"
+                />
+                <ColorField
+                    label="Background color"
+                    value={settings.backgroundColor}
+                    onChange={(value) => update('backgroundColor', value)}
+                />
+                <FontPicker
+                    label="Chart text font"
+                    value={settings.globalFontFamily}
+                    onChange={(value) => update('globalFontFamily', value)}
+                    options={DEFAULT_FONT_OPTIONS}
+                />
+                <NumericInput
+                    title="Inner padding"
+                    value={settings.canvasPadding}
+                    min={0}
+                    max={160}
+                    step={4}
+                    precision={0}
+                    onChange={(value) => update('canvasPadding', value)}
+                    suffix="px"
+                />
+            </GroupComponents>
+        ),
+
+        chartDimensions: (
+            <GroupComponents
+                maxColumns={3}
+                gap={2}
+                rowGap={2}
+            >
+                <AutoNumericInput
+                    title="Custom width"
+                    value={settings.customWidth}
+                    onChange={(value) => update('customWidth', value)}
+                    min={120}
+                    max={2000}
+                    step={10}
+                    precision={0}
+                    suffix="px"
+                    autoValue={Math.round(computedWidth)}
+                    placeholder="auto"
+                />
+                <AutoNumericInput
+                    title="Custom height"
+                    value={settings.customHeight}
+                    onChange={(value) => update('customHeight', value)}
+                    min={120}
+                    max={2000}
+                    step={10}
+                    precision={0}
+                    suffix="px"
+                    autoValue={Math.round(computedHeight)}
+                    placeholder="auto"
+                />
+                <AutoNumericInput
+                    title="Aspect ratio"
+                    value={aspectRatioActive ? settings.aspectRatio : null}
+                    onChange={(value) => update('aspectRatio', value ?? 0.8)}
+                    min={0.3}
+                    max={1.2}
+                    step={0.02}
+                    precision={2}
+                    disabled={!aspectRatioActive}
+                    autoValue={settings.aspectRatio}
+                    placeholder="auto"
+                />
+            </GroupComponents>
+        )
+    };
+}
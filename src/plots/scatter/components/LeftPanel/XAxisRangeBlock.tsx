@@ -0,0 +1,64 @@
+import { AutoNumericInput } from '../../../../shared/components/AutoNumericInput'
+import { GroupComponents } from '../../../../shared/components/GroupComponents'
+
+// Shared by every chart with a numeric X axis
+type XAxisRangeSettings = {
+    xAxisMin: number | null
+    xAxisMax: number | null
+    xAxisTickStep: number | null
+}
+
+type XAxisRangeBlockProps<TSettings extends XAxisRangeSettings> = {
+    settings: TSettings
+    onChange: (settings: TSettings) => void
+}
+
+export function XAxisRangeBlock<TSettings extends XAxisRangeSettings>({ settings, onChange }: XAxisRangeBlockProps<TSettings>) {
+    const update = <K extends keyof XAxisRangeSettings>(key: K, value: XAxisRangeSettings[K]) => {
+        onChange({ ...settings, [key]: value })
+    }
+
+    return {
+        range: (
+            <GroupComponents
+                maxColumns={3}
+                gap={2}
+                rowGap={2}
+            >
+                <AutoNumericInput
+                    title="X min"
+                    value={settings.xAxisMin}
+                    onChange={(value) => update('xAxisMin', value)}
+                    min={-1000}
+                    max={1000}
+                    step={1}
+                    precision={1}
+                    autoValue={0}
+                    placeholder="auto"
+                />
+                <AutoNumericInput
+                    title="X max"
+                    value={settings.xAxisMax}
+                    onChange={(value) => update('xAxisMax', value)}
+                    min={-1000}
+                    max={1000}
+                    step={1}
+                    precision={1}
+                    autoValue={100}
+                    placeholder="auto"
+                />
+                <AutoNumericInput
+                    title="Tick step"
+                    value={settings.xAxisTickStep}
+                    onChange={(value) => update('xAxisTickStep', value)}
+                    min={0.001}
+                    max={100}
+                    step={0.001}
+                    precision={3}
+                    autoValue={10}
+                    placeholder="auto"
+                />
+            </GroupComponents>
+        )
+    }
+}
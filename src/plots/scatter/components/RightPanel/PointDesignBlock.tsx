@@ -0,0 +1,133 @@
+import { useState, useEffect } from 'react'
+import { ColorField } from '../../../../shared/components/ColorField'
+import { NumericInput } from '../../../../shared/components/NumericInput'
+import { SelectField } from '../../../../shared/components/SelectField'
+import { GroupComponents } from '../../../../shared/components/GroupComponents'
+import { markerShapeOptions } from '../../../../shared/utils/markers'
+import type { ScatterDataPoint, ScatterPointShape } from '../../../../types/scatter'
+
+interface PointDesignBlockProps {
+    points: ScatterDataPoint[];
+    onPointsChange: (points: ScatterDataPoint[]) => void;
+    selectedPointId?: string | null;
+    onSelectPoint?: (pointId: string | null) => void;
+}
+
+export function PointDesignBlock({
+    points,
+    onPointsChange,
+    selectedPointId: externalSelectedPointId,
+    onSelectPoint
+}: PointDesignBlockProps) {
+    const [internalSelectedPointId, setInternalSelectedPointId] = useState<string>(points[0]?.id || '')
+
+    // Use external selection if provided, otherwise use internal state
+    const selectedPointId = externalSelectedPointId || internalSelectedPointId
+    const setSelectedPointId = onSelectPoint || setInternalSelectedPointId
+
+    useEffect(() => {
+        if (!points.find(point => point.id === selectedPointId)) {
+            setSelectedPointId(points[0]?.id || '')
+        }
+    }, [points, selectedPointId, setSelectedPointId])
+
+    const updatePoint = <K extends keyof Omit<ScatterDataPoint, 'id'>>(pointId: string, field: K, value: ScatterDataPoint[K]) => {
+        onPointsChange(points.map(point =>
+            point.id === pointId ? { ...point, [field]: value } : point
+        ))
+    }
+
+    const selectedPoint = points.find(point => point.id === selectedPointId) || points[0]
+
+    return {
+        pointSelector: (
+            <div>
+                <div className="flex items-center justify-start gap-4 mb-4">
+                    <span className="text-sm font-semibold text-white/80">Active Point:</span>
+                    <SelectField<string>
+                        className="w-48"
+                        label=""
+                        value={selectedPoint?.id ?? ''}
+                        onChange={(newPointId) => setSelectedPointId(newPointId)}
+                        options={points.map((point, index) => ({
+                            value: point.id,
+                            label: point.label || `Point ${index + 1}`
+                        }))}
+                        placeholder="Select point to edit"
+                    />
+                </div>
+            </div>
+        ),
+
+        pointSettings: selectedPoint ? (
+            <div className="space-y-8">
+                <GroupComponents
+                    maxColumns={2}
+                    gap={2}
+                    rowGap={2}
+                >
+                    <ColorField
+                        label="Fill color"
+                        value={selectedPoint.fillColor}
+                        onChange={(value) => updatePoint(selectedPoint.id, 'fillColor', value)}
+                    />
+                    <NumericInput
+                        title="Fill opacity"
+                        value={selectedPoint.opacity}
+                        min={0}
+                        max={1}
+                        step={0.05}
+                        precision={2}
+                        onChange={(value) => updatePoint(selectedPoint.id, 'opacity', value)}
+                    />
+                </GroupComponents>
+
+                <GroupComponents
+                    maxColumns={2}
+                    gap={2}
+                    rowGap={2}
+                >
+                    <ColorField
+                        label="Border color"
+                        value={selectedPoint.borderColor}
+                        onChange={(value) => updatePoint(selectedPoint.id, 'borderColor', value)}
+                    />
+                    <NumericInput
+                        title="Border width"
+                        value={selectedPoint.borderWidth}
+                        min={0}
+                        max={8}
+                        step={0.5}
+                        precision={1}
+                        onChange={(value) => updatePoint(selectedPoint.id, 'borderWidth', value)}
+                        suffix="px"
+                    />
+                </GroupComponents>
+
+                <GroupComponents
+                    maxColumns={2}
+                    gap={2}
+                    rowGap={2}
+                >
+                    <SelectField<ScatterPointShape>
+                        label="Shape"
+                        value={selectedPoint.shape}
+                        onChange={(value) => updatePoint(selectedPoint.id, 'shape', value)}
+                        options={markerShapeOptions}
+                        placeholder="Select shape"
+                    />
+                    <NumericInput
+                        title="Size"
+                        value={selectedPoint.size}
+                        min={2}
+                        max={48}
+                        step={1}
+                        precision={0}
+                        onChange={(value) => updatePoint(selectedPoint.id, 'size', value)}
+                        suffix="px"
+                    />
+                </GroupComponents>
+            </div>
+        ) : null
+    }
+}
@@ -0,0 +1,97 @@
+import { ColorField } from '../../../../shared/components/ColorField'
+import { NumericInput } from '../../../../shared/components/NumericInput'
+import { GroupComponents } from '../../../../shared/components/GroupComponents'
+import type { ScatterDataPoint, ScatterPlotSettings } from '../../../../types/scatter'
+
+type PointStyleBlockProps = {
+    settings: ScatterPlotSettings
+    onChange: (settings: ScatterPlotSettings) => void
+}
+
+// Global point defaults are pushed down to every point; Point Design can then override single points
+type PointDefaultKey = 'defaultPointSize' | 'pointOpacity' | 'pointBorderWidth'
+
+const pointFieldByDefault: Record<PointDefaultKey, keyof Pick<ScatterDataPoint, 'size' | 'opacity' | 'borderWidth'>> = {
+    defaultPointSize: 'size',
+    pointOpacity: 'opacity',
+    pointBorderWidth: 'borderWidth',
+}
+
+export function PointStyleBlock({ settings, onChange }: PointStyleBlockProps) {
+    const update = <K extends keyof ScatterPlotSettings>(key: K, value: ScatterPlotSettings[K]) => {
+        onChange({ ...settings, [key]: value })
+    }
+
+    const updatePointDefault = (key: PointDefaultKey, value: number) => {
+        const field = pointFieldByDefault[key]
+        onChange({
+            ...settings,
+            [key]: value,
+            data: settings.data.map((point) => ({ ...point, [field]: value })),
+        })
+    }
+
+    return {
+        pointSettings: (
+            <GroupComponents
+                maxColumns={3}
+                gap={2}
+                rowGap={2}
+            >
+                <NumericInput
+                    title="Point size"
+                    value={settings.defaultPointSize}
+                    min={2}
+                    max={48}
+                    step={1}
+                    precision={0}
+                    onChange={(value) => updatePointDefault('defaultPointSize', value)}
+                    suffix="px"
+                />
+                <NumericInput
+                    title="Opacity"
+                    value={settings.pointOpacity}
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    precision={2}
+                    onChange={(value) => updatePointDefault('pointOpacity', value)}
+                />
+                <NumericInput
+                    title="Border width"
+                    value={settings.pointBorderWidth}
+                    min={0}
+                    max={8}
+                    step={0.5}
+                    precision={1}
+                    onChange={(value) => updatePointDefault('pointBorderWidth', value)}
+                    suffix="px"
+                />
+            </GroupComponents>
+        ),
+
+        connectingLines: (
+            <GroupComponents
+                maxColumns={2}
+                gap={2}
+                rowGap={2}
+            >
+                <NumericInput
+                    title="Line width"
+                    value={settings.connectingLineWidth}
+                    min={0.5}
+                    max={12}
+                    step={0.5}
+                    precision={1}
+                    onChange={(value) => update('connectingLineWidth', value)}
+                    suffix="px"
+                />
+                <ColorField
+                    label="Line color"
+                    value={settings.connectingLineColor}
+                    onChange={(value) => update('connectingLineColor', value)}
+                />
+            </GroupComponents>
+        )
+    }
+}
@@ -0,0 +1,64 @@
+import { BlockGroup } from '../../../shared/components/BlockGroups';
+import { ChartPreviewBlock } from '../../../shared/components/ChartPreviewBlock';
+import { DataEditorBlock } from '../../../shared/components/DataEditorBlock';
+import { ChartPreview } from './CentralPanel/ChartPreview';
+import { DataTable } from './CentralPanel/DataTable';
+import type { ScatterDataPoint, ScatterPlotSettings } from '../../../types/scatter';
+import type { FocusTarget, HighlightKey, PaletteKey } from '../../../types/base';
+
+export type ChartPreviewAction = 'importData' | 'exportChart';
+
+export interface ChartPreviewProps {
+    settings: ScatterPlotSettings;
+    onUpdateSettings: (settings: ScatterPlotSettings) => void;
+    onHighlight: (keys: HighlightKey[]) => void;
+    onRequestFocus: (target: FocusTarget) => void;
+    onSelectPoint?: (pointId: string) => void;
+    actionRequest?: ChartPreviewAction | null;
+    onActionHandled?: () => void;
+    heading?: string;
+}
+
+export interface DataTableProps {
+    data: ScatterDataPoint[];
+    paletteName: PaletteKey;
+    defaultPointSize: number;
+    onChange: (data: ScatterDataPoint[]) => void;
+    onDesignPoint?: (pointIndex: number) => void;
+}
+
+export interface ScatterPlotCentralPanelProps {
+    chartPreview: ChartPreviewProps;
+    dataTable: DataTableProps;
+}
+
+export function ScatterPlotCentralPanel({ chartPreview, dataTable }: ScatterPlotCentralPanelProps) {
+    const { heading, ...chartPreviewProps } = chartPreview;
+
+    return (
+        <div className="flex flex-col gap-4 sm:gap-6">
+            <BlockGroup
+                title="Chart Preview"
+                sections={[{
+                    id: 'chart-preview-content',
+                    content: (
+                        <ChartPreviewBlock
+                            chartElement={<ChartPreview {...chartPreviewProps} />}
+                            heading={heading}
+                        />
+                    )
+                }]}
+                defaultExpanded={true}
+                className="w-full max-w-full overflow-hidden"
+                enableStickyMobile={true}
+            />
+            <DataEditorBlock
+                title="Data Editor"
+                defaultExpanded={false}
+                className="w-full max-w-full overflow-hidden"
+            >
+                <DataTable {...dataTable} />
+            </DataEditorBlock>
+        </div>
+    );
+}
@@ -0,0 +1,75 @@
+import { RightPanel } from '../../../shared/components/RightPanel';
+import { PointStyleBlock } from './RightPanel/PointStyleBlock';
+import { PointDesignBlock } from './RightPanel/PointDesignBlock';
+import type { ScatterDataPoint, ScatterPlotSettings } from '../../../types/scatter'
+import type { HighlightKey } from '../../../types/base'
+import type { RightPanelBlock } from '../../../shared/components/RightPanel';
+
+export interface ScatterPlotRightPanelProps {
+    settings: ScatterPlotSettings;
+    onChange: (settings: ScatterPlotSettings) => void;
+    onPointsChange: (points: ScatterDataPoint[]) => void;
+    highlightSignals?: Partial<Record<HighlightKey, number>>;
+    selectedPointId?: string | null;
+    onSelectPoint?: (pointId: string | null) => void;
+}
+
+export function ScatterPlotRightPanel({
+    settings,
+    onChange,
+    onPointsChange,
+    highlightSignals,
+    selectedPointId,
+    onSelectPoint
+}: ScatterPlotRightPanelProps) {
+    const pointStyle = PointStyleBlock({ settings, onChange });
+    const pointDesign = PointDesignBlock({ points: settings.data, onPointsChange, selectedPointId, onSelectPoint });
+
+    const blocks: RightPanelBlock[] = [
+        // Point Style Block
+        {
+            id: 'point-style',
+            title: 'Point Style',
+            sections: [
+                {
+                    id: 'point-settings',
+                    content: pointStyle.pointSettings
+                },
+                {
+                    id: 'connecting-lines',
+                    title: 'Connecting Lines',
+                    content: pointStyle.connectingLines,
+                    className: 'border-t border-white/10 pt-6',
+                    toggle: {
+                        value: settings.showConnectingLines,
+                        onChange: (value: boolean) => onChange({ ...settings, showConnectingLines: value })
+                    }
+                }
+            ]
+        },
+
+        // Point Design Block
+        {
+            id: 'point-design',
+            title: 'Point Design',
+            highlightKey: 'design',
+            sections: [
+                {
+                    id: 'point-selector',
+                    content: pointDesign.pointSelector
+                },
+                {
+                    id: 'point-design-settings',
+                    content: pointDesign.pointSettings
+                }
+            ]
+        }
+    ];
+
+    return (
+        <RightPanel
+            blocks={blocks}
+            highlightSignals={highlightSignals}
+        />
+    );
+}
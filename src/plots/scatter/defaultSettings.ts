@@ -1,12 +1,7 @@
+import type { PaletteKey } from "../../types/base";
 import type { ScatterDataPoint, ScatterPlotSettings } from "../../types/scatter";
 import { DEFAULT_FONT_STACK } from "../../shared/constants/fonts";
-
-function randomId() {
-  if (typeof crypto !== "undefined" && "randomUUID" in crypto) {
-    return crypto.randomUUID();
-  }
-  return Math.random().toString(36).slice(2, 10);
-}
+import { randomId } from "../../shared/utils/randomId";
 
 const defaultData: ScatterDataPoint[] = [
   {
@@ -62,6 +57,7 @@ export const defaultScatterPlotSettings: ScatterPlotSettings = {
   xAxisMin: null,
   xAxisMax: null,
   xAxisTickStep: null,
+  axesSynced: true,
   backgroundColor: "#0f172a",
   canvasPadding: 48,
   textColor: "#f8fafc",
@@ -98,6 +94,8 @@ export const defaultScatterPlotSettings: ScatterPlotSettings = {
   exportScale: 2,
   exportTransparent: false,
   exportFileName: "scatterplot",
+  exportPresets: [],
+  exportPresetId: null,
   paletteName: "vibrant",
   xAxis: {
     showAxisLines: true,
@@ -133,3 +131,15 @@ export const defaultScatterPlotSettings: ScatterPlotSettings = {
   xAxisTitleOffsetY: 0,
   yAxisTitleOffsetX: 0,
 };
+
+export function buildDefaultSettings(
+  paletteName: PaletteKey = defaultScatterPlotSettings.paletteName
+): ScatterPlotSettings {
+  return {
+    ...defaultScatterPlotSettings,
+    paletteName,
+    data: defaultScatterPlotSettings.data.map((point) => ({ ...point })),
+    xAxis: { ...defaultScatterPlotSettings.xAxis },
+    yAxis: { ...defaultScatterPlotSettings.yAxis },
+  };
+}
@@ -0,0 +1,138 @@
+import { markerShapeOptions } from "../../shared/utils/markers";
+import { palettes } from "../../shared/utils/palettes";
+import { createPoint } from "../../shared/utils/pointFactory";
+import {
+  axisFieldChoices,
+  checkElements,
+  createProjectDocument,
+  describeExpected,
+  describeValue,
+  isPlainObject,
+  mergeChecked,
+  optionValues,
+  readProjectDocument,
+  upgradeProjectDocument,
+  type FieldChoices,
+  type ProjectDocument,
+  type ProjectReadResult,
+  type ProjectSchema,
+} from "../../shared/utils/projectFile";
+import type { PaletteKey } from "../../types/base";
+import type { ScatterDataPoint, ScatterPlotSettings } from "../../types/scatter";
+import { buildDefaultSettings, defaultScatterPlotSettings } from "./defaultSettings";
+
+export type ScatterProjectParseResult =
+  | { ok: true; settings: ScatterPlotSettings; issues: string[]; migratedFrom: number }
+  | { ok: false; errors: string[] };
+
+const POINT_CHOICES: FieldChoices = { shape: optionValues(markerShapeOptions) };
+
+const SETTINGS_CHOICES: FieldChoices = axisFieldChoices(["xAxis", "yAxis"]);
+
+// Project files, library entries and the autosaved state all use the `{ settings }` shape
+export const scatterProjectSchema: ProjectSchema = {
+  kind: "scatter-plot",
+  label: "scatter plot",
+  version: 2,
+  migrations: {
+    // Format 1 stored the settings object on its own
+    1: (document) => ({ settings: document }),
+  },
+  detectLegacyVersion: (document) => {
+    if (isPlainObject(document.settings)) return 2;
+    // Bare settings from format 1 always had a list of points
+    if (Array.isArray(document.data)) return 1;
+    return null;
+  },
+};
+
+function normalizePoint(stored: unknown, index: number, paletteName: PaletteKey, path: string, issues: string[]) {
+  return mergeChecked<ScatterDataPoint>(createPoint(index, paletteName), stored, path, issues, POINT_CHOICES);
+}
+
+/**
+ * Fills stored scatter settings in with the current defaults. Problems are collected in
+ * `issues` and the affected fields fall back to their defaults, so the result is always usable.
+ */
+export function normalizeScatterSettings(stored: unknown, path: string, issues: string[]): ScatterPlotSettings {
+  if (stored === undefined || stored === null) {
+    return buildDefaultSettings();
+  }
+  if (!isPlainObject(stored)) {
+    issues.push(`${path} should be ${describeExpected("object")}, found ${describeValue(stored)}.`);
+    return buildDefaultSettings();
+  }
+
+  let paletteName = defaultScatterPlotSettings.paletteName;
+  if (stored.paletteName !== undefined) {
+    if (typeof stored.paletteName === "string" && stored.paletteName in palettes) {
+      paletteName = stored.paletteName as PaletteKey;
+    } else {
+      issues.push(`${path} › paletteName is not a known palette (${describeValue(stored.paletteName)}).`);
+    }
+  }
+
+  let storedData: unknown[] = [];
+  if (Array.isArray(stored.data)) {
+    storedData = stored.data;
+  } else if (stored.data !== undefined) {
+    issues.push(`${path} › data should be a list of points, found ${describeValue(stored.data)}.`);
+  }
+
+  // Preset ids are text, which the nullable-number rule in mergeChecked would reject
+  let exportPresetId: string | null = null;
+  if (typeof stored.exportPresetId === "string") {
+    exportPresetId = stored.exportPresetId;
+  } else if (stored.exportPresetId !== undefined && stored.exportPresetId !== null) {
+    issues.push(`${path} › exportPresetId should be text or empty, found ${describeValue(stored.exportPresetId)}.`);
+  }
+
+  const defaults = buildDefaultSettings(paletteName);
+  const rest = { ...stored };
+  delete rest.data;
+  delete rest.paletteName;
+  delete rest.exportPresetId;
+  const merged = mergeChecked(defaults, rest, path, issues, SETTINGS_CHOICES);
+
+  const data = storedData.map((point, index) =>
+    normalizePoint(point, index, paletteName, `${path} › Point ${index + 1}`, issues)
+  );
+  const exportPresets = checkElements(merged.exportPresets, `${path} › exportPresets`, "Export preset", ["id", "name"], issues);
+
+  return {
+    ...merged,
+    paletteName,
+    exportPresetId,
+    exportPresets: exportPresets as ScatterPlotSettings["exportPresets"],
+    data: data.length ? data : defaults.data,
+  };
+}
+
+function toScatterProjectResult(read: ProjectReadResult): ScatterProjectParseResult {
+  if (!read.ok) return read;
+
+  const issues: string[] = [];
+  const settings = normalizeScatterSettings(read.document.settings, "Settings", issues);
+  return { ok: true, settings, issues, migratedFrom: read.migratedFrom };
+}
+
+/**
+ * Reads a project file or the autosaved studio state. Structural problems make the
+ * result fail; field-level problems are returned as `issues` next to usable settings.
+ */
+export function parseScatterProject(text: string): ScatterProjectParseResult {
+  return toScatterProjectResult(readProjectDocument(text, scatterProjectSchema));
+}
+
+// For already parsed documents from the project library or a share link, which are always
+// written with their kind; only the autosaved state predates it
+export function readScatterProject(document: unknown): ScatterProjectParseResult {
+  if (isPlainObject(document) && document.kind === undefined) {
+    return { ok: false, errors: [`The file does not contain a ${scatterProjectSchema.label} project.`] };
+  }
+  return toScatterProjectResult(upgradeProjectDocument(document, scatterProjectSchema));
+}
+
+export function createScatterProjectDocument(settings: ScatterPlotSettings): ProjectDocument {
+  return createProjectDocument(scatterProjectSchema, { settings });
+}
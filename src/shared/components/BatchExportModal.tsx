@@ -0,0 +1,209 @@
+import Modal from './Modal'
+import TiffOptionsFields from './TiffOptionsFields'
+import { useState } from 'react'
+import { BUILT_IN_EXPORT_PRESETS } from '../constants/exportPresets'
+import { BATCH_TEMPLATE_TOKENS, batchFileName, DEFAULT_BATCH_TEMPLATE, slugifyName, type BatchExportOptions, type BatchSize } from '../utils/batchExport'
+import { DEFAULT_TIFF_OPTIONS, type ExportFormat } from '../utils/exportChart'
+import { PDF_FONT_SOURCE_NOTICE } from '../utils/pdfFonts'
+import type { TiffOptions } from '../utils/tiffEncoder'
+import type { ExportPreset } from '../../types/base'
+
+// What the dialog asks for; `plots` holds the `name` of each selected plot
+export type BatchExportRequest = BatchExportOptions & { plots: string[] }
+
+type BatchPlot = {
+    // Used for the {plot} placeholder
+    name: string
+    label: string
+}
+
+type Props = {
+    isOpen: boolean
+    onClose: () => void
+    onExport: (request: BatchExportRequest, onProgress: (done: number, total: number) => void) => Promise<void>
+    plots: BatchPlot[]
+    initial?: { fileName?: string; scale?: number; transparent?: boolean; plots?: string[] }
+    // User-defined presets offered next to the journal presets
+    presets?: ExportPreset[]
+}
+
+const SCREEN_SIZE_ID = 'screen'
+
+const inputClasses = 'rounded-md border border-white/10 bg-black/30 px-3 py-2 text-white focus:border-sky-300 focus:outline-none focus:ring-2 focus:ring-sky-300/40'
+
+const formatOptions: Array<{ value: ExportFormat; label: string }> = [
+    { value: 'png', label: 'PNG' },
+    { value: 'tiff', label: 'TIFF' },
+    { value: 'svg', label: 'SVG' },
+    { value: 'pdf', label: 'PDF' },
+]
+
+const toggle = <T,>(values: T[], value: T) => (values.includes(value) ? values.filter((item) => item !== value) : [...values, value])
+
+export function BatchExportModal({ isOpen, onClose, onExport, plots, initial, presets = [] }: Props) {
+    const [fileName, setFileName] = useState(initial?.fileName ?? 'chart')
+    const [template, setTemplate] = useState(DEFAULT_BATCH_TEMPLATE)
+    const [selectedPlots, setSelectedPlots] = useState<string[]>(initial?.plots ?? plots.map((plot) => plot.name))
+    const [formats, setFormats] = useState<ExportFormat[]>(['png', 'svg', 'pdf'])
+    const [sizeIds, setSizeIds] = useState<string[]>([SCREEN_SIZE_ID])
+    const [scale, setScale] = useState(initial?.scale ?? 2)
+    const [transparent, setTransparent] = useState(Boolean(initial?.transparent))
+    const [tiff, setTiff] = useState<TiffOptions>(DEFAULT_TIFF_OPTIONS)
+    const [progress, setProgress] = useState<{ done: number; total: number } | null>(null)
+    const [error, setError] = useState<string | null>(null)
+    const [wasOpen, setWasOpen] = useState(isOpen)
+
+    // The chart-specific fields follow the chart each time the dialog opens; the selected
+    // formats, sizes and template carry over between batches
+    if (isOpen !== wasOpen) {
+        setWasOpen(isOpen)
+        if (isOpen) {
+            setFileName(initial?.fileName ?? 'chart')
+            setSelectedPlots(initial?.plots ?? plots.map((plot) => plot.name))
+            setScale(initial?.scale ?? 2)
+            setTransparent(Boolean(initial?.transparent))
+            setError(null)
+        }
+    }
+
+    const sizeOptions: Array<{ id: string; label: string; size: BatchSize }> = [
+        { id: SCREEN_SIZE_ID, label: 'On-screen size', size: { name: SCREEN_SIZE_ID } },
+        ...[...BUILT_IN_EXPORT_PRESETS, ...presets].map((preset) => ({
+            id: preset.id,
+            label: preset.name,
+            size: {
+                name: slugifyName(preset.name) || preset.id,
+                printSize: { width: preset.width, unit: preset.unit, dpi: preset.dpi },
+            },
+        })),
+    ]
+    const sizes = sizeOptions.filter((option) => sizeIds.includes(option.id)).map((option) => option.size)
+    const plotNames = plots.map((plot) => plot.name).filter((name) => selectedPlots.includes(name))
+    // In the order of the options rather than the order they were ticked
+    const orderedFormats = formatOptions.map((option) => option.value).filter((value) => formats.includes(value))
+    const fileCount = plotNames.length * orderedFormats.length * sizes.length
+    const isWorking = progress !== null
+    const hasRaster = formats.includes('png') || formats.includes('tiff')
+
+    const example = fileCount
+        ? `${batchFileName(template, { fileName: fileName.trim() || 'chart', plot: plotNames[0], preset: sizes[0].name, format: orderedFormats[0] })}.${orderedFormats[0]}`
+        : null
+
+    const handleConfirm = async () => {
+        if (isWorking || !fileCount) return
+        setError(null)
+        setProgress({ done: 0, total: fileCount })
+        try {
+            await onExport(
+                {
+                    plots: plotNames,
+                    fileName: fileName.trim() || 'chart',
+                    template: template.trim() || DEFAULT_BATCH_TEMPLATE,
+                    formats: orderedFormats,
+                    sizes,
+                    scale,
+                    transparent,
+                    tiff: formats.includes('tiff') ? tiff : undefined,
+                },
+                (done, total) => setProgress({ done, total })
+            )
+            onClose()
+        } catch (caught) {
+            setError(caught instanceof Error ? caught.message : 'The charts could not be exported.')
+        } finally {
+            setProgress(null)
+        }
+    }
+
+    const chipClasses = (checked: boolean) =>
+        `flex cursor-pointer items-center gap-2 rounded-lg border px-3 py-1.5 text-sm transition ${checked ? 'border-sky-400 bg-sky-400/15 text-white' : 'border-white/10 bg-white/5 text-white/70 hover:text-white'}`
+
+    return (
+        <Modal isOpen={isOpen} onClose={isWorking ? () => undefined : onClose} title="Batch export">
+            <div className="mt-2 space-y-4 text-sm">
+                <p className="text-xs text-white/50">Renders every selected plot in each format and size, then downloads them together as one ZIP file.</p>
+
+                <div className="space-y-2">
+                    <span className="text-xs uppercase tracking-wide text-white/50">Plots</span>
+                    <div className="flex flex-wrap gap-2">
+                        {plots.map((plot) => (
+                            <label key={plot.name} className={chipClasses(selectedPlots.includes(plot.name))}>
+                                <input type="checkbox" checked={selectedPlots.includes(plot.name)} onChange={() => setSelectedPlots(toggle(selectedPlots, plot.name))} className="sr-only" />
+                                {plot.label}
+                            </label>
+                        ))}
+                    </div>
+                </div>
+
+                <div className="space-y-2">
+                    <span className="text-xs uppercase tracking-wide text-white/50">Formats</span>
+                    <div className="flex flex-wrap gap-2">
+                        {formatOptions.map((option) => (
+                            <label key={option.value} className={chipClasses(formats.includes(option.value))}>
+                                <input type="checkbox" checked={formats.includes(option.value)} onChange={() => setFormats(toggle(formats, option.value))} className="sr-only" />
+                                {option.label}
+                            </label>
+                        ))}
+                    </div>
+                </div>
+
+                <div className="space-y-2">
+                    <span className="text-xs uppercase tracking-wide text-white/50">Sizes</span>
+                    <div className="flex flex-wrap gap-2">
+                        {sizeOptions.map((option) => (
+                            <label key={option.id} className={chipClasses(sizeIds.includes(option.id))}>
+                                <input type="checkbox" checked={sizeIds.includes(option.id)} onChange={() => setSizeIds(toggle(sizeIds, option.id))} className="sr-only" />
+                                {option.label}
+                            </label>
+                        ))}
+                    </div>
+                    {hasRaster && sizeIds.includes(SCREEN_SIZE_ID) ? (
+                        <label className="flex flex-col gap-2">
+                            <input type="range" min={1} max={6} step={1} value={scale} onChange={(e) => setScale(Number.parseInt(e.target.value, 10))} className="accent-sky-400" aria-label="Quality" />
+                            <span className="text-xs text-white/50">On-screen raster scale ×{scale}; presets use their own DPI.</span>
+                        </label>
+                    ) : null}
+                </div>
+
+                {formats.includes('tiff') ? <TiffOptionsFields value={tiff} onChange={setTiff} /> : null}
+                {formats.includes('pdf') ? <p className="text-xs text-white/50">{PDF_FONT_SOURCE_NOTICE}</p> : null}
+
+                <div className="flex flex-wrap gap-2">
+                    <label className="flex min-w-[8rem] flex-1 flex-col gap-1">
+                        <span className="text-xs uppercase tracking-wide text-white/50">File name</span>
+                        <input type="text" value={fileName} onChange={(e) => setFileName(e.target.value)} className={inputClasses} />
+                    </label>
+                    <label className="flex min-w-[12rem] flex-[2] flex-col gap-1">
+                        <span className="text-xs uppercase tracking-wide text-white/50">Name pattern</span>
+                        <input type="text" value={template} onChange={(e) => setTemplate(e.target.value)} placeholder={DEFAULT_BATCH_TEMPLATE} className={`font-mono text-xs ${inputClasses}`} />
+                    </label>
+                </div>
+                <p className="text-xs text-white/50">
+                    Placeholders: {BATCH_TEMPLATE_TOKENS.join(', ')}. The extension is added automatically.
+                </p>
+
+                <label className="flex items-center gap-3">
+                    <input type="checkbox" checked={transparent} onChange={(e) => setTransparent(e.target.checked)} className="h-4 w-4 rounded border border-white/20 bg-white/10 text-sky-400 focus:ring-sky-400" />
+                    <span>Transparent background</span>
+                </label>
+
+                <p className="text-xs text-white/50">
+                    {fileCount
+                        ? `${fileCount} ${fileCount === 1 ? 'file' : 'files'}, for example ${example}`
+                        : 'Choose at least one plot, format and size.'}
+                </p>
+
+                {error ? <p className="text-xs text-rose-300">{error}</p> : null}
+
+                <div className="mt-4 flex justify-end gap-3">
+                    <button type="button" onClick={onClose} disabled={isWorking} className="rounded-md border border-white/10 bg-white/5 px-3 py-1.5 text-white transition hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-60">Cancel</button>
+                    <button type="button" onClick={handleConfirm} disabled={isWorking || !fileCount} className="inline-flex items-center gap-2 rounded-md border border-sky-400 bg-sky-400/20 px-3 py-1.5 font-medium text-white transition hover:bg-sky-400/30 disabled:cursor-not-allowed disabled:opacity-60">
+                        {progress ? `Exporting ${Math.min(progress.done + 1, progress.total)} of ${progress.total}…` : 'Download ZIP'}
+                    </button>
+                </div>
+            </div>
+        </Modal>
+    )
+}
+
+export default BatchExportModal
@@ -22,7 +22,11 @@ type ChartActionMenuProps = {
 
 export function ChartActionMenu({ actions, className, comparison }: ChartActionMenuProps) {
   const uploadAction = actions.find((action) => action.id === 'upload')
+  const projectActions = actions.filter((action) => ['open-project', 'save-project', 'share-link'].includes(action.id))
   const themeAction = actions.find((action) => action.id === 'theme-toggle')
+  const historyActions = actions.filter((action) => action.id === 'undo' || action.id === 'redo')
+  const copyAction = actions.find((action) => action.id === 'copy-chart')
+  const batchExportAction = actions.find((action) => action.id === 'batch-export')
   const exportAction = actions.find((action) => action.id === 'export')
   const cleanActions = actions.filter((action) => action.id.startsWith('clean-'))
 
@@ -36,6 +40,7 @@ export function ChartActionMenu({ actions, className, comparison }: ChartActionM
       <div className="px-4 sm:px-5 py-3 sm:py-4">
         <div className="flex flex-wrap items-center gap-2 sm:gap-3">
           {uploadAction ? <IconButton key={uploadAction.id} action={uploadAction} /> : null}
+          {projectActions.map((action) => <IconOnlyButton key={action.id} action={action} />)}
           {comparison ? (
             <ComparisonGroup
               comparisonEnabled={comparison.comparisonEnabled}
@@ -45,7 +50,10 @@ export function ChartActionMenu({ actions, className, comparison }: ChartActionM
             />
           ) : null}
           {themeAction ? <IconOnlyButton key={themeAction.id} action={themeAction} /> : null}
+          {historyActions.map((action) => <IconOnlyButton key={action.id} action={action} />)}
           {cleanActions.length ? <CleanGroup actions={cleanActions} /> : null}
+          {copyAction ? <IconOnlyButton key={copyAction.id} action={copyAction} /> : null}
+          {batchExportAction ? <IconOnlyButton key={batchExportAction.id} action={batchExportAction} /> : null}
           {exportAction ? <IconButton key={exportAction.id} action={exportAction} /> : null}
         </div>
       </div>
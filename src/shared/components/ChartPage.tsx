@@ -1,8 +1,14 @@
-import { useCallback } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import type { ReactNode } from 'react';
-import { useNavigate } from 'react-router-dom';
-import { Home } from 'lucide-react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { Copy, FolderOpen, Home } from 'lucide-react';
 import { ChartActionMenu, type ChartAction } from './ChartActionMenu';
+import { ProjectLibraryModal } from './ProjectLibraryModal';
+import { createChartAction } from '../utils/chartHelpers';
+import { copySvgChart, findChartSvg, renderChartThumbnail } from '../utils/exportChart';
+import type { ProjectDocument } from '../utils/projectFile';
+import { getProjectDocument, getProjectEntry, saveProject, type LibraryEntry } from '../utils/projectLibrary';
+import type { PlotType } from '../../types/base';
 
 export interface ChartPageProps {
     // Page metadata
@@ -24,8 +30,43 @@ export interface ChartPageProps {
         onToggleComparison: (enabled: boolean) => void;
         onSelectPlot: (plot: 0 | 1) => void;
     };
+
+    // Project library support; the Projects button is only shown when it is set
+    library?: ChartPageLibrary;
+
+    // Adds a "Copy chart" action that copies the previewed chart (optional)
+    clipboard?: ChartPageClipboard;
+}
+
+export interface ChartPageClipboard {
+    // PNG pixels per CSS pixel, as for on-screen exports
+    scale: number;
+    transparent: boolean;
+    backgroundColor: string;
+    // Which of the rendered previews to copy, in comparison mode
+    previewIndex?: number;
+}
+
+type CopyNotice = { message: string; isError: boolean };
+
+// How long the copy confirmation stays visible
+const COPY_NOTICE_MS = 2500;
+
+export interface ChartPageLibrary {
+    plotType: PlotType;
+    // Suggested name when the chart is saved for the first time
+    defaultName: string;
+    createDocument: () => ProjectDocument | Promise<ProjectDocument>;
+    // Returns false when the document could not be opened (the page explains why)
+    openDocument: (document: ProjectDocument, name: string) => boolean;
+    // Library entry the chart belongs to, from useLibraryBinding
+    projectId: string | null;
+    onProjectIdChange: (id: string | null) => void;
 }
 
+// Router state used to open a library project right after navigating to its chart page
+export type OpenProjectState = { openProjectId?: string };
+
 /**
  * Generic, responsive chart page layout component that adapts based on screen size.
  * 
@@ -43,13 +84,106 @@ export function ChartPage({
     rightPanel,
     actions = [],
     comparison,
+    library,
+    clipboard,
 }: ChartPageProps) {
     const navigate = useNavigate();
+    const location = useLocation();
+    const centerPanelRef = useRef<HTMLDivElement | null>(null);
+    const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+    const handledOpenRef = useRef<string | null>(null);
+    const [copyNotice, setCopyNotice] = useState<CopyNotice | null>(null);
 
     const handleBackClick = useCallback(() => {
         navigate('/');
     }, [navigate]);
 
+    const openLibraryProject = useCallback(async (id: string) => {
+        if (!library) return;
+        try {
+            const [entry, document] = await Promise.all([getProjectEntry(id), getProjectDocument(id)]);
+            if (entry && document && library.openDocument(document, entry.name)) {
+                // After openDocument, which resets the binding as for any other replaced chart
+                library.onProjectIdChange(id);
+            }
+        } catch (error) {
+            console.warn('Failed to open project', error);
+        }
+    }, [library]);
+
+    // Projects picked on another page arrive through router state once the page has mounted
+    const requestedProjectId = (location.state as OpenProjectState | null)?.openProjectId;
+    useEffect(() => {
+        if (!requestedProjectId || handledOpenRef.current === location.key) return;
+        handledOpenRef.current = location.key;
+        void openLibraryProject(requestedProjectId);
+        navigate(location.pathname, { replace: true, state: null });
+    }, [requestedProjectId, location.key, location.pathname, navigate, openLibraryProject]);
+
+    const handleOpenEntry = useCallback((entry: LibraryEntry) => {
+        setIsLibraryOpen(false);
+        if (library?.plotType === entry.plotType) {
+            void openLibraryProject(entry.id);
+        } else {
+            navigate(`/${entry.plotType}`, { state: { openProjectId: entry.id } satisfies OpenProjectState });
+        }
+    }, [library, navigate, openLibraryProject]);
+
+    const handleSaveToLibrary = useCallback(async (name: string, asNew: boolean) => {
+        if (!library) return;
+        const document = await library.createDocument();
+        let thumbnail: string | null = null;
+        const svg = findChartSvg(centerPanelRef.current);
+        if (svg) {
+            try {
+                thumbnail = await renderChartThumbnail(svg);
+            } catch (error) {
+                console.warn('Failed to render project thumbnail', error);
+            }
+        }
+        const entry = await saveProject({
+            id: asNew ? null : library.projectId,
+            name,
+            plotType: library.plotType,
+            thumbnail,
+            document,
+        });
+        library.onProjectIdChange(entry.id);
+    }, [library]);
+
+    const handleCopyChart = useCallback(async () => {
+        if (!clipboard) return;
+        const svg = findChartSvg(centerPanelRef.current, clipboard.previewIndex);
+        if (!svg) return;
+        try {
+            const types = await copySvgChart(svg, clipboard, {
+                width: svg.width.baseVal.value,
+                height: svg.height.baseVal.value,
+                backgroundColor: clipboard.backgroundColor,
+            });
+            setCopyNotice({
+                message: types.includes('image/png') ? 'Chart copied to the clipboard' : 'Chart copied as SVG text',
+                isError: false,
+            });
+        } catch (error) {
+            console.warn('Failed to copy chart', error);
+            setCopyNotice({
+                message: error instanceof Error && error.message ? `Copy failed: ${error.message}` : 'The chart could not be copied.',
+                isError: true,
+            });
+        }
+    }, [clipboard]);
+
+    useEffect(() => {
+        if (!copyNotice) return;
+        const timeout = window.setTimeout(() => setCopyNotice(null), COPY_NOTICE_MS);
+        return () => window.clearTimeout(timeout);
+    }, [copyNotice]);
+
+    const menuActions = clipboard
+        ? [...actions, createChartAction('copy-chart', 'Copy chart', Copy, () => void handleCopyChart())]
+        : actions;
+
     return (
         <div className="flex min-h-screen flex-col bg-gradient-to-br from-slate-950 via-slate-900 to-slate-950">
             {/* Header */}
@@ -71,8 +205,19 @@ export function ChartPage({
                             {title}
                         </h1>
 
-                        {/* Logo on the right */}
-                        <div className="flex items-center">
+                        {/* Projects and logo on the right */}
+                        <div className="flex items-center gap-2 sm:gap-3">
+                            {library ? (
+                                <button
+                                    type="button"
+                                    onClick={() => setIsLibraryOpen(true)}
+                                    className="flex items-center gap-1.5 rounded-lg border border-white/10 bg-white/5 px-2 py-1.5 text-xs sm:text-sm text-white/80 transition hover:bg-white/10 hover:text-white"
+                                    title="Projects"
+                                >
+                                    <FolderOpen className="h-4 w-4" />
+                                    <span className="hidden sm:inline">Projects</span>
+                                </button>
+                            ) : null}
                             <img src="/chart-icon.svg" alt="Chart Studio" className="w-6 h-6 sm:w-8 sm:h-8" />
                         </div>
                     </div>
@@ -93,15 +238,15 @@ export function ChartPage({
                     {/* Center Panel - First on mobile, center on desktop */}
                     <div className="flex flex-col gap-4 sm:gap-6 xl:col-start-2 xl:row-start-1 min-w-0">
                         {/* Action Menu */}
-                        {actions.length > 0 && (
+                        {menuActions.length > 0 && (
                             <ChartActionMenu
-                                actions={actions}
+                                actions={menuActions}
                                 comparison={comparison}
                             />
                         )}
 
                         {/* Center Panel Content */}
-                        <div className="space-y-4 sm:space-y-6 min-w-0">
+                        <div ref={centerPanelRef} className="space-y-4 sm:space-y-6 min-w-0">
                             {centerPanel}
                         </div>
                     </div>
@@ -118,6 +263,28 @@ export function ChartPage({
 
                 </div>
             </main>
+
+            {copyNotice ? (
+                <div
+                    role="status"
+                    className={`pointer-events-none fixed bottom-6 left-1/2 z-50 -translate-x-1/2 rounded-lg border px-4 py-2 text-sm shadow-xl backdrop-blur ${copyNotice.isError ? 'border-rose-400/30 bg-rose-950/80 text-rose-200' : 'border-white/10 bg-slate-900/90 text-white'}`}
+                >
+                    {copyNotice.message}
+                </div>
+            ) : null}
+
+            {library ? (
+                <ProjectLibraryModal
+                    isOpen={isLibraryOpen}
+                    onClose={() => setIsLibraryOpen(false)}
+                    onOpen={handleOpenEntry}
+                    save={{
+                        defaultName: library.defaultName,
+                        currentId: library.projectId,
+                        onSave: handleSaveToLibrary,
+                    }}
+                />
+            ) : null}
         </div>
     );
 }
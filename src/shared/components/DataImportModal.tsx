@@ -2,11 +2,20 @@ import { useEffect, useMemo, useRef, useState, type ChangeEvent } from 'react'
 import Modal from './Modal'
 import { SelectField } from './SelectField'
 import type React from 'react'
-import type { PaletteKey } from '../../types/base'
-import { createBar } from '../utils/barFactory'
-import type { BarDataPoint } from '../../types/bar'
-
-const MAX_IMPORT_ROWS = 30
+import {
+    clampMapping,
+    createEmptyMapping,
+    createImportedRows,
+    guessMapping,
+    mappingsEqual,
+    parseDelimited,
+    type ColumnMapping,
+    type DecimalSeparator,
+    type ImportColumn,
+    type ImportedRow,
+} from '../utils/csvImport'
+
+const DEFAULT_MAX_IMPORT_ROWS = 30
 
 const delimiterPresets = [
     { value: ',', label: 'Comma (,)' },
@@ -17,31 +26,28 @@ const delimiterPresets = [
     { value: 'custom', label: 'Custom' },
 ]
 
-const decimalOptions: Array<{ value: '.' | ','; label: string }> = [
+const decimalOptions: Array<{ value: DecimalSeparator; label: string }> = [
     { value: '.', label: 'Dot (.)' },
     { value: ',', label: 'Comma (,)' },
 ]
 
-type ColumnKind = 'label' | 'value' | 'error' | 'group'
-type ColumnMapping = Record<ColumnKind, number | null>
-
-const emptyMapping: ColumnMapping = { label: null, value: null, error: null, group: null }
-
 type RenderMatchColumns = (props: {
     columns: string[]
     mapping: ColumnMapping
-    onChange: (col: ColumnKind, value: string) => void
+    onChange: (col: string, value: string) => void
 }) => React.ReactElement | null
 
 type Props = {
     isOpen: boolean
-    paletteName: PaletteKey
+    columns: ImportColumn[] // Target fields offered in the "Match columns" step
+    maxRows?: number
     onCancel: () => void
-    onConfirm: (bars: BarDataPoint[]) => void
+    onConfirm: (rows: ImportedRow[]) => void
     renderMatchColumns?: RenderMatchColumns
 }
 
-export function DataImportModal({ isOpen, paletteName, onCancel, onConfirm, renderMatchColumns }: Props) {
+export function DataImportModal({ isOpen, columns, maxRows = DEFAULT_MAX_IMPORT_ROWS, onCancel, onConfirm, renderMatchColumns }: Props) {
+    const emptyMapping = useMemo(() => createEmptyMapping(columns), [columns])
     const fileInputRef = useRef<HTMLInputElement | null>(null)
     const [fileName, setFileName] = useState<string | null>(null)
     const [rawContent, setRawContent] = useState('')
@@ -49,7 +55,7 @@ export function DataImportModal({ isOpen, paletteName, onCancel, onConfirm, rend
     const [delimiterPreset, setDelimiterPreset] = useState<string>(',')
     const [customDelimiter, setCustomDelimiter] = useState('')
     const [hasHeader, setHasHeader] = useState(true)
-    const [decimalSeparator, setDecimalSeparator] = useState<'.' | ','>('.')
+    const [decimalSeparator, setDecimalSeparator] = useState<DecimalSeparator>('.')
     const [mapping, setMapping] = useState<ColumnMapping>(emptyMapping)
     const [mappingTouched, setMappingTouched] = useState(false)
 
@@ -65,7 +71,7 @@ export function DataImportModal({ isOpen, paletteName, onCancel, onConfirm, rend
         setMapping(emptyMapping)
         setMappingTouched(false)
         if (fileInputRef.current) fileInputRef.current.value = ''
-    }, [isOpen])
+    }, [isOpen, emptyMapping])
 
     useEffect(() => {
         if (!isOpen) return
@@ -100,9 +106,9 @@ export function DataImportModal({ isOpen, paletteName, onCancel, onConfirm, rend
 
     const limitedRows = useMemo(() => {
         if (!parsedRows.length) return [] as string[][]
-        const rowLimit = hasHeader ? MAX_IMPORT_ROWS + 1 : MAX_IMPORT_ROWS
+        const rowLimit = hasHeader ? maxRows + 1 : maxRows
         return parsedRows.slice(0, rowLimit)
-    }, [hasHeader, parsedRows])
+    }, [hasHeader, maxRows, parsedRows])
 
     const totalDataRows = useMemo(() => {
         if (!parsedRows.length) return 0
@@ -140,7 +146,7 @@ export function DataImportModal({ isOpen, paletteName, onCancel, onConfirm, rend
 
         if (!mappingTouched) {
             setMapping((current) => {
-                const guessed = guessMapping(columnHeaders)
+                const guessed = guessMapping(columns, columnHeaders)
                 if (mappingsEqual(current, guessed)) return current
                 return guessed
             })
@@ -148,7 +154,7 @@ export function DataImportModal({ isOpen, paletteName, onCancel, onConfirm, rend
         }
 
         setMapping((current) => clampMapping(current, columnHeaders.length))
-    }, [columnHeaders, mappingTouched])
+    }, [columnHeaders, columns, emptyMapping, mappingTouched])
 
     const validationMessages = useMemo(() => {
         const messages: string[] = []
@@ -156,11 +162,13 @@ export function DataImportModal({ isOpen, paletteName, onCancel, onConfirm, rend
         if (delimiterPreset === 'custom' && !customDelimiter) messages.push('Provide a custom separator.')
         if (fileName && !rawContent.trim()) messages.push('The selected file appears to be empty.')
         if (fileName && rawContent.trim() && !columnHeaders.length) messages.push('No columns were detected with the current separator.')
-        if (columnHeaders.length && mapping.label === null) messages.push('Choose a column to use for the bar names.')
-        if (columnHeaders.length && mapping.value === null) messages.push('Choose a column to use for the numeric values.')
+        columns.forEach((column) => {
+            if (!column.required || !columnHeaders.length || mapping[column.key] !== null) return
+            messages.push(column.missingMessage ?? `Choose a column to use for ${column.label.toLowerCase()}.`)
+        })
         if (columnHeaders.length && dataRows.length === 0) messages.push('No data rows detected to import.')
         return messages
-    }, [columnHeaders.length, customDelimiter, dataRows.length, delimiterPreset, fileName, mapping.label, mapping.value, rawContent])
+    }, [columnHeaders.length, columns, customDelimiter, dataRows.length, delimiterPreset, fileName, mapping, rawContent])
 
     const canImport = validationMessages.length === 0
 
@@ -194,7 +202,7 @@ export function DataImportModal({ isOpen, paletteName, onCancel, onConfirm, rend
         reader.readAsText(file)
     }
 
-    const handleMappingChange = (column: ColumnKind, rawValue: string) => {
+    const handleMappingChange = (column: string, rawValue: string) => {
         setMappingTouched(true)
         setMapping((current) => {
             const nextValue = rawValue === '' ? null : Number.parseInt(rawValue, 10)
@@ -204,22 +212,8 @@ export function DataImportModal({ isOpen, paletteName, onCancel, onConfirm, rend
     }
 
     const handleConfirm = () => {
-        if (!canImport || mapping.label === null || mapping.value === null) return
-        const bars: BarDataPoint[] = dataRows.map((row, index) => {
-            const defaults = createBar(index, paletteName)
-            const rawLabel = row[mapping.label ?? 0] ?? ''
-            const label = rawLabel.trim() || `Item ${index + 1}`
-            const valueCell = row[mapping.value ?? 0] ?? ''
-            const parsedValue = parseNumeric(valueCell, decimalSeparator)
-            const value = parsedValue.value ?? 0
-            const errorCell = mapping.error !== null ? row[mapping.error] ?? '' : ''
-            const parsedError = mapping.error !== null ? parseNumeric(errorCell, decimalSeparator, { allowBlank: true }) : null
-            const errorValue = parsedError?.value ?? 0
-            const groupCell = mapping.group !== null ? row[mapping.group] ?? '' : ''
-            const group = groupCell.trim() || undefined
-            return { ...defaults, label, value, error: errorValue, group }
-        })
-        onConfirm(bars)
+        if (!canImport) return
+        onConfirm(createImportedRows(dataRows, mapping, decimalSeparator))
     }
 
     return (
@@ -275,10 +269,17 @@ export function DataImportModal({ isOpen, paletteName, onCancel, onConfirm, rend
                             renderMatchColumns({ columns: columnHeaders, mapping, onChange: handleMappingChange })
                         ) : (
                             <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
-                                <ColumnSelect label="Name *" description="Select the column that contains bar labels" column="label" mapping={mapping} columns={columnHeaders} onChange={handleMappingChange} />
-                                <ColumnSelect label="Value *" description="Numeric value for each bar" column="value" mapping={mapping} columns={columnHeaders} onChange={handleMappingChange} />
-                                <ColumnSelect label="Error" description="Optional numeric error margin" column="error" mapping={mapping} columns={columnHeaders} onChange={handleMappingChange} />
-                                <ColumnSelect label="Group" description="Optional grouping/category column" column="group" mapping={mapping} columns={columnHeaders} onChange={handleMappingChange} />
+                                {columns.map((column) => (
+                                    <ColumnSelect
+                                        key={column.key}
+                                        label={column.required ? `${column.label} *` : column.label}
+                                        description={column.description}
+                                        column={column.key}
+                                        mapping={mapping}
+                                        columns={columnHeaders}
+                                        onChange={handleMappingChange}
+                                    />
+                                ))}
                             </div>
                         )
                     ) : (
@@ -315,7 +316,7 @@ export function DataImportModal({ isOpen, paletteName, onCancel, onConfirm, rend
                                 </tbody>
                             </table>
                         </div>
-                        {truncatedRowsCount > 0 ? <p className="text-xs text-white/50">Only the first {MAX_IMPORT_ROWS} rows will be imported ({truncatedRowsCount} rows ignored).</p> : null}
+                        {truncatedRowsCount > 0 ? <p className="text-xs text-white/50">Only the first {maxRows} rows will be imported ({truncatedRowsCount} rows ignored).</p> : null}
                     </section>
                 ) : null}
 
@@ -339,8 +340,8 @@ export function DataImportModal({ isOpen, paletteName, onCancel, onConfirm, rend
     )
 }
 
-function ColumnSelect({ label, description, column, mapping, columns, onChange }: { label: string; description: string; column: ColumnKind; mapping: ColumnMapping; columns: string[]; onChange: (col: ColumnKind, value: string) => void }) {
-    const currentValue = mapping[column]
+function ColumnSelect({ label, description, column, mapping, columns, onChange }: { label: string; description: string; column: string; mapping: ColumnMapping; columns: string[]; onChange: (col: string, value: string) => void }) {
+    const currentValue = mapping[column] ?? null
     const options = useMemo(() => [{ value: '', label: 'Ignore' }, ...columns.map((name, index) => ({ value: String(index), label: name }))], [columns])
     return (
         <label className="flex flex-col gap-1 rounded-xl border border-white/10 bg-white/5 p-3 space-y-2">
@@ -350,83 +351,4 @@ function ColumnSelect({ label, description, column, mapping, columns, onChange }
     )
 }
 
-function parseDelimited(text: string, delimiter: string) {
-    if (!text.trim()) return [] as string[][]
-    if (!delimiter) return [] as string[][]
-
-    const rows: string[][] = []
-    let field = ''
-    let row: string[] = []
-    let inQuotes = false
-    let index = 0
-    const delimiterLength = delimiter.length
-
-    const pushField = () => { row.push(field); field = '' }
-    const pushRow = () => { pushField(); const isEmpty = row.every((cell) => cell === ''); if (!isEmpty || rows.length === 0) rows.push(row); row = [] }
-
-    while (index < text.length) {
-        const char = text[index]
-        if (inQuotes) {
-            if (char === '"') {
-                const nextChar = text[index + 1]
-                if (nextChar === '"') { field += '"'; index += 2; continue }
-                inQuotes = false; index += 1; continue
-            }
-            field += char; index += 1; continue
-        }
-        if (char === '"') { inQuotes = true; index += 1; continue }
-        if (char === '\r') { index += 1; continue }
-        if (char === '\n') { pushRow(); index += 1; continue }
-        const isDelimiter = delimiterLength === 1 ? char === delimiter : text.slice(index, index + delimiterLength) === delimiter
-        if (isDelimiter) { pushField(); index += delimiterLength; continue }
-        field += char; index += 1
-    }
-
-    pushField()
-    if (row.length) {
-        const isEmpty = row.every((cell) => cell === '')
-        if (!isEmpty || rows.length === 0) rows.push(row)
-    }
-
-    if (!rows.length) return [] as string[][]
-    const maxColumns = rows.reduce((max, current) => Math.max(max, current.length), 0)
-    return rows.map((current) => (current.length === maxColumns ? current : [...current, ...Array(maxColumns - current.length).fill('')]))
-}
-
-function clampMapping(mapping: ColumnMapping, columnCount: number): ColumnMapping {
-    const clamp = (value: number | null) => { if (value === null) return null; if (value < 0 || value >= columnCount) return null; return value }
-    return { label: clamp(mapping.label), value: clamp(mapping.value), error: clamp(mapping.error), group: clamp(mapping.group) }
-}
-
-function guessMapping(columns: string[]): ColumnMapping {
-    if (!columns.length) return emptyMapping
-    const normalized = columns.map((c) => c.trim().toLowerCase())
-    const available = new Set<number>(columns.map((_, i) => i))
-    const take = (keywords: string[]) => { for (const keyword of keywords) { const matchIndex = normalized.findIndex((name, index) => available.has(index) && name.includes(keyword)); if (matchIndex !== -1) { available.delete(matchIndex); return matchIndex } } return null }
-    const guess: ColumnMapping = { ...emptyMapping }
-    guess.label = take(['label', 'name', 'title'])
-    guess.value = take(['value', 'amount', 'score', 'total', 'count', 'number'])
-    guess.error = take(['error', 'err', 'uncert', 'sd', 'stdev'])
-    guess.group = take(['group', 'category', 'series', 'segment'])
-    if (guess.label === null && columns.length >= 1) { const index = [...available][0] ?? 0; available.delete(index); guess.label = index }
-    if (guess.value === null && columns.length >= 2) { const index = [...available][0] ?? 0; available.delete(index); guess.value = index }
-    if (guess.value === guess.label) { const fallback = [...available][0] ?? null; guess.value = fallback; if (fallback !== null) available.delete(fallback) }
-    return guess
-}
-
-function mappingsEqual(a: ColumnMapping, b: ColumnMapping) { return a.label === b.label && a.value === b.value && a.error === b.error && a.group === b.group }
-
-type NumericParseResult = { value: number | null; isValid: boolean }
-function parseNumeric(value: string, decimalSeparator: '.' | ',', options: { allowBlank?: boolean } = {}): NumericParseResult {
-    const { allowBlank = false } = options
-    const trimmed = value.trim()
-    if (!trimmed) return { value: null, isValid: allowBlank }
-    let normalized = trimmed.replace(/\s+/g, '')
-    if (decimalSeparator === ',') normalized = normalized.replace(/\./g, '').replace(/,/g, '.')
-    else normalized = normalized.replace(/,/g, '')
-    const numeric = Number.parseFloat(normalized)
-    if (Number.isFinite(numeric)) return { value: numeric, isValid: true }
-    return { value: null, isValid: false }
-}
-
 export default DataImportModal
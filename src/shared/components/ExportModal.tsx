@@ -1,43 +1,139 @@
 import Modal from './Modal'
-import { useState, useEffect } from 'react'
+import TiffOptionsFields from './TiffOptionsFields'
+import { useState, useEffect, type RefObject } from 'react'
+import { Trash2 } from 'lucide-react'
+import { BUILT_IN_EXPORT_PRESETS, EXPORT_DPI_OPTIONS } from '../constants/exportPresets'
+import { DEFAULT_TIFF_OPTIONS, findSmallestFontSize, printedFontSize, printPixelSize, type ExportFormat, type ExportOptions } from '../utils/exportChart'
+import type { TiffOptions } from '../utils/tiffEncoder'
+import { PDF_FONT_SOURCE_NOTICE } from '../utils/pdfFonts'
+import { randomId } from '../utils/randomId'
+import type { ExportPreset, PageUnit } from '../../types/base'
+
+// What the dialog asks for; `presetId` is remembered by the chart for the next export
+export type ExportRequest = ExportOptions & { presetId: string | null }
 
 type Props = {
     isOpen: boolean
     onClose: () => void
-    onExport: (options: { format: 'png' | 'svg' | 'pdf'; fileName: string; scale: number; transparent: boolean }) => Promise<void> | void
-    initial?: { format?: 'png' | 'svg' | 'pdf'; fileName?: string; scale?: number; transparent?: boolean }
+    onExport: (options: ExportRequest) => Promise<void> | void
+    initial?: { format?: ExportFormat; fileName?: string; scale?: number; transparent?: boolean; presetId?: string | null }
+    // The rendered chart, measured when the dialog opens for sizes and the font-size check
+    svgRef?: RefObject<SVGSVGElement | null>
+    // User-defined presets saved with the chart; omit onPresetsChange to hide preset editing
+    presets?: ExportPreset[]
+    onPresetsChange?: (presets: ExportPreset[]) => void
 }
 
-export function ExportModal({ isOpen, onClose, onExport, initial }: Props) {
-    const [format, setFormat] = useState<'png' | 'svg' | 'pdf'>(initial?.format ?? 'png')
+type ChartMeasurement = { width: number; height: number; smallestFontSize: number | null }
+
+type PresetDraft = { name: string; width: string; unit: PageUnit; dpi: number; minFontSize: string }
+
+const inputClasses = 'rounded-md border border-white/10 bg-black/30 px-3 py-2 text-white focus:border-sky-300 focus:outline-none focus:ring-2 focus:ring-sky-300/40'
+const emptyDraft: PresetDraft = { name: '', width: '85', unit: 'mm', dpi: 300, minFontSize: '6' }
+
+const formatLength = (value: number) => String(Math.round(value * 10) / 10)
+
+function measureChart(svg: SVGSVGElement): ChartMeasurement {
+    const viewBox = svg.viewBox.baseVal
+    const bounds = svg.getBoundingClientRect()
+    return {
+        width: viewBox && viewBox.width > 0 ? viewBox.width : bounds.width,
+        height: viewBox && viewBox.height > 0 ? viewBox.height : bounds.height,
+        smallestFontSize: findSmallestFontSize(svg),
+    }
+}
+
+export function ExportModal({ isOpen, onClose, onExport, initial, svgRef, presets = [], onPresetsChange }: Props) {
+    const [format, setFormat] = useState<ExportFormat>(initial?.format ?? 'png')
     const [fileName, setFileName] = useState(initial?.fileName ?? 'chart')
     const [scale, setScale] = useState(initial?.scale ?? 2)
     const [transparent, setTransparent] = useState(Boolean(initial?.transparent))
+    const [presetId, setPresetId] = useState<string | null>(initial?.presetId ?? null)
+    // Not reset on open, so the TIFF settings carry over between exports of the same chart
+    const [tiff, setTiff] = useState<TiffOptions>(DEFAULT_TIFF_OPTIONS)
     const [isWorking, setIsWorking] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+    const [chart, setChart] = useState<ChartMeasurement | null>(null)
+    const [draft, setDraft] = useState<PresetDraft | null>(null)
+    const [wasOpen, setWasOpen] = useState(isOpen)
+
+    // Reset the fields only when the dialog opens; `initial` is rebuilt on every parent render,
+    // for example after a preset has been added
+    if (isOpen !== wasOpen) {
+        setWasOpen(isOpen)
+        if (isOpen) {
+            setFormat(initial?.format ?? 'png')
+            setFileName(initial?.fileName ?? 'chart')
+            setScale(initial?.scale ?? 2)
+            setTransparent(Boolean(initial?.transparent))
+            setPresetId(initial?.presetId ?? null)
+            setError(null)
+            setDraft(null)
+        }
+    }
 
     useEffect(() => {
         if (!isOpen) return
-        setFormat(initial?.format ?? 'png')
-        setFileName(initial?.fileName ?? 'chart')
-        setScale(initial?.scale ?? 2)
-        setTransparent(Boolean(initial?.transparent))
-    }, [isOpen, initial])
+        const svg = svgRef?.current
+        setChart(svg ? measureChart(svg) : null)
+    }, [isOpen, svgRef])
+
+    const allPresets = [...BUILT_IN_EXPORT_PRESETS, ...presets]
+    const preset = allPresets.find((candidate) => candidate.id === presetId) ?? null
+    const isUserPreset = Boolean(preset && presets.some((candidate) => candidate.id === preset.id))
+    const printSize = preset ? { width: preset.width, unit: preset.unit, dpi: preset.dpi } : undefined
+    const isRaster = format === 'png' || format === 'tiff'
+
+    const printedHeight = chart && preset && chart.width > 0 ? (preset.width * chart.height) / chart.width : null
+    const pixelSize = chart && printSize && chart.width > 0 ? printPixelSize(chart.width, chart.height, printSize) : null
+    const smallestPrinted = chart?.smallestFontSize && preset && chart.width > 0
+        ? printedFontSize(chart.smallestFontSize, chart.width, preset)
+        : null
 
     const handleConfirm = async () => {
         if (isWorking) return
         setIsWorking(true)
+        setError(null)
         try {
-            await onExport({ format, fileName: fileName.trim() || 'chart', scale, transparent })
+            await onExport({ format, fileName: fileName.trim() || 'chart', scale, transparent, printSize, tiff: format === 'tiff' ? tiff : undefined, presetId: preset?.id ?? null })
             onClose()
+        } catch (caught) {
+            setError(caught instanceof Error ? caught.message : 'The chart could not be exported.')
         } finally {
             setIsWorking(false)
         }
     }
 
-    const formatOptions: Array<{ value: 'png' | 'svg' | 'pdf'; label: string; description: string }> = [
+    const draftWidth = draft ? Number.parseFloat(draft.width) : Number.NaN
+    const draftMinFontSize = draft ? Number.parseFloat(draft.minFontSize) : Number.NaN
+    const isDraftValid = Boolean(draft?.name.trim()) && draftWidth > 0 && draftMinFontSize >= 0
+
+    const handleSavePreset = () => {
+        if (!draft || !isDraftValid || !onPresetsChange) return
+        const created: ExportPreset = {
+            id: randomId(),
+            name: draft.name.trim(),
+            width: draftWidth,
+            unit: draft.unit,
+            dpi: draft.dpi,
+            minFontSize: draftMinFontSize,
+        }
+        onPresetsChange([...presets, created])
+        setPresetId(created.id)
+        setDraft(null)
+    }
+
+    const handleDeletePreset = () => {
+        if (!preset || !onPresetsChange) return
+        onPresetsChange(presets.filter((candidate) => candidate.id !== preset.id))
+        setPresetId(null)
+    }
+
+    const formatOptions: Array<{ value: ExportFormat; label: string; description: string }> = [
         { value: 'png', label: 'PNG', description: 'High-quality raster image with transparency support' },
+        { value: 'tiff', label: 'TIFF', description: 'Print-ready raster image in RGB or CMYK, as many publishers require' },
         { value: 'svg', label: 'SVG', description: 'Scalable vector graphic for design tools' },
-        { value: 'pdf', label: 'PDF', description: 'Printable document' },
+        { value: 'pdf', label: 'PDF', description: 'Vector document with selectable text for print and journals' },
     ]
 
     return (
@@ -45,7 +141,7 @@ export function ExportModal({ isOpen, onClose, onExport, initial }: Props) {
             <div className="mt-2 space-y-4">
                 <label className="flex flex-col gap-1 text-sm">
                     <span className="text-xs uppercase tracking-wide text-white/50">File name</span>
-                    <input type="text" value={fileName} onChange={(e) => setFileName(e.target.value)} className="rounded-md border border-white/10 bg-black/30 px-3 py-2 text-white focus:border-sky-300 focus:outline-none focus:ring-2 focus:ring-sky-300/40" />
+                    <input type="text" value={fileName} onChange={(e) => setFileName(e.target.value)} className={inputClasses} />
                 </label>
 
                 <div className="space-y-2">
@@ -66,17 +162,105 @@ export function ExportModal({ isOpen, onClose, onExport, initial }: Props) {
                     </div>
                 </div>
 
-                <label className="flex flex-col gap-2 text-sm">
-                    <span className="text-xs uppercase tracking-wide text-white/50">Quality</span>
-                    <input type="range" min={1} max={6} step={1} value={scale} onChange={(e) => setScale(Number.parseInt(e.target.value, 10))} className="accent-sky-400" />
-                    <span className="text-xs text-white/50">Scale ×{scale}</span>
-                </label>
+                <div className="space-y-2 text-sm">
+                    <span className="text-xs uppercase tracking-wide text-white/50">Size</span>
+                    <div className="flex items-center gap-2">
+                        <select
+                            value={preset?.id ?? ''}
+                            onChange={(e) => setPresetId(e.target.value || null)}
+                            aria-label="Export size"
+                            className={`min-w-0 flex-1 ${inputClasses}`}
+                        >
+                            <option value="">On-screen size</option>
+                            <optgroup label="Journal presets">
+                                {BUILT_IN_EXPORT_PRESETS.map((option) => <option key={option.id} value={option.id}>{option.name}</option>)}
+                            </optgroup>
+                            {presets.length ? (
+                                <optgroup label="Saved with this chart">
+                                    {presets.map((option) => <option key={option.id} value={option.id}>{option.name}</option>)}
+                                </optgroup>
+                            ) : null}
+                        </select>
+                        {isUserPreset && onPresetsChange ? (
+                            <button type="button" onClick={handleDeletePreset} className="rounded-md border border-red-400/20 bg-red-500/10 p-2 text-red-400 transition hover:bg-red-500/20" title="Delete preset" aria-label={`Delete preset ${preset?.name}`}>
+                                <Trash2 className="h-4 w-4" />
+                            </button>
+                        ) : null}
+                    </div>
+
+                    {preset ? (
+                        <div className="space-y-1 text-xs text-white/50">
+                            <p>
+                                {formatLength(preset.width)}{printedHeight !== null ? ` × ${formatLength(printedHeight)}` : ''} {preset.unit} · {preset.dpi} DPI
+                                {isRaster && pixelSize ? ` · ${pixelSize.width.toLocaleString()} × ${pixelSize.height.toLocaleString()} px` : ''}
+                            </p>
+                            {smallestPrinted !== null ? (
+                                smallestPrinted < preset.minFontSize ? (
+                                    <p className="text-amber-200">
+                                        The smallest text prints at {formatLength(smallestPrinted)} pt, below the {formatLength(preset.minFontSize)} pt minimum of this preset. Increase the font sizes or choose a wider preset.
+                                    </p>
+                                ) : (
+                                    <p>Smallest text: {formatLength(smallestPrinted)} pt (minimum {formatLength(preset.minFontSize)} pt).</p>
+                                )
+                            ) : null}
+                        </div>
+                    ) : isRaster ? (
+                        <label className="flex flex-col gap-2">
+                            <input type="range" min={1} max={6} step={1} value={scale} onChange={(e) => setScale(Number.parseInt(e.target.value, 10))} className="accent-sky-400" aria-label="Quality" />
+                            <span className="text-xs text-white/50">Scale ×{scale}; the pixel size also depends on this screen's pixel density.</span>
+                        </label>
+                    ) : format === 'pdf' ? (
+                        <p className="text-xs text-white/50">The page matches the chart's on-screen size at 96 DPI.</p>
+                    ) : null}
+
+                    {onPresetsChange ? (
+                        draft ? (
+                            <div className="space-y-2 rounded-lg border border-white/10 bg-white/5 p-3">
+                                <input type="text" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} placeholder="Preset name" aria-label="Preset name" className={`w-full ${inputClasses}`} />
+                                <div className="flex flex-wrap items-center gap-2">
+                                    <input type="number" min={1} step={0.1} value={draft.width} onChange={(e) => setDraft({ ...draft, width: e.target.value })} aria-label="Width" className={`w-24 ${inputClasses}`} />
+                                    <select value={draft.unit} onChange={(e) => setDraft({ ...draft, unit: e.target.value as PageUnit })} aria-label="Unit" className={inputClasses}>
+                                        <option value="mm">mm</option>
+                                        <option value="in">in</option>
+                                    </select>
+                                    <select value={draft.dpi} onChange={(e) => setDraft({ ...draft, dpi: Number(e.target.value) })} aria-label="Resolution" className={inputClasses}>
+                                        {EXPORT_DPI_OPTIONS.map((dpi) => <option key={dpi} value={dpi}>{dpi} DPI</option>)}
+                                    </select>
+                                    <label className="flex items-center gap-2 text-xs text-white/60">
+                                        Min. text
+                                        <input type="number" min={0} step={0.5} value={draft.minFontSize} onChange={(e) => setDraft({ ...draft, minFontSize: e.target.value })} aria-label="Minimum font size in points" className={`w-16 ${inputClasses}`} />
+                                        pt
+                                    </label>
+                                </div>
+                                <div className="flex justify-end gap-2">
+                                    <button type="button" onClick={() => setDraft(null)} className="rounded-md border border-white/10 bg-white/5 px-3 py-1.5 text-white transition hover:bg-white/10">Cancel</button>
+                                    <button type="button" onClick={handleSavePreset} disabled={!isDraftValid} className="rounded-md border border-sky-400 bg-sky-400/20 px-3 py-1.5 font-medium text-white transition hover:bg-sky-400/30 disabled:cursor-not-allowed disabled:opacity-60">Save preset</button>
+                                </div>
+                            </div>
+                        ) : (
+                            <button
+                                type="button"
+                                onClick={() => setDraft(preset
+                                    ? { name: '', width: formatLength(preset.width), unit: preset.unit, dpi: preset.dpi, minFontSize: formatLength(preset.minFontSize) }
+                                    : emptyDraft)}
+                                className="text-xs text-white/60 transition hover:text-white"
+                            >
+                                + New preset
+                            </button>
+                        )
+                    ) : null}
+                </div>
+
+                {format === 'tiff' ? <TiffOptionsFields value={tiff} onChange={setTiff} /> : null}
+                {format === 'pdf' ? <p className="text-xs text-white/50">{PDF_FONT_SOURCE_NOTICE}</p> : null}
 
                 <label className="flex items-center gap-3 text-sm">
                     <input type="checkbox" checked={transparent} onChange={(e) => setTransparent(e.target.checked)} className="h-4 w-4 rounded border border-white/20 bg-white/10 text-sky-400 focus:ring-sky-400" />
                     <span>Transparent background</span>
                 </label>
 
+                {error ? <p className="text-xs text-rose-300">{error}</p> : null}
+
                 <div className="mt-4 flex justify-end gap-3 text-sm">
                     <button type="button" onClick={onClose} disabled={isWorking} className="rounded-md border border-white/10 bg-white/5 px-3 py-1.5 text-white transition hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-60">Cancel</button>
                     <button type="button" onClick={handleConfirm} disabled={isWorking} className="inline-flex items-center gap-2 rounded-md border border-sky-400 bg-sky-400/20 px-3 py-1.5 font-medium text-white transition hover:bg-sky-400/30 disabled:cursor-not-allowed disabled:opacity-60">{isWorking ? 'Exporting…' : 'Export'}</button>
@@ -0,0 +1,46 @@
+import Modal from './Modal'
+
+type Props = {
+    fileName: string | null
+    errors: string[]
+    // The project was opened and `errors` lists fields that were reset to their defaults
+    opened?: boolean
+    onClose: () => void
+}
+
+// Long lists usually repeat the same problem for every bar, so only the first few are shown
+const MAX_VISIBLE_ERRORS = 12
+
+export function ProjectErrorModal({ fileName, errors, opened = false, onClose }: Props) {
+    const visible = errors.slice(0, MAX_VISIBLE_ERRORS)
+    const hiddenCount = errors.length - visible.length
+
+    return (
+        <Modal isOpen={errors.length > 0} onClose={onClose} title={opened ? 'Project opened with changes' : 'Could not open project'}>
+            <div className="mt-2 space-y-4 text-sm">
+                {opened ? (
+                    <p className="text-white/70">
+                        {fileName ? <span className="font-medium text-white">{fileName}</span> : 'The file'} was opened,
+                        but the following fields were invalid and have been reset to their defaults.
+                    </p>
+                ) : (
+                    <p className="text-white/70">
+                        {fileName ? <span className="font-medium text-white">{fileName}</span> : 'The file'} was not opened
+                        because it has the following problems. Your current charts were left unchanged.
+                    </p>
+                )}
+                <ul className={`list-disc space-y-1 pl-5 text-xs ${opened ? 'text-amber-200' : 'text-rose-300'}`}>
+                    {visible.map((error, index) => <li key={index}>{error}</li>)}
+                </ul>
+                {hiddenCount > 0 ? (
+                    <p className="text-xs text-white/50">…and {hiddenCount} more.</p>
+                ) : null}
+                <div className="flex justify-end">
+                    <button type="button" onClick={onClose} className="rounded-md border border-white/10 bg-white/5 px-3 py-1.5 text-white transition hover:bg-white/10">Close</button>
+                </div>
+            </div>
+        </Modal>
+    )
+}
+
+export default ProjectErrorModal
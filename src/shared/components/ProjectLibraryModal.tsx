@@ -0,0 +1,221 @@
+import { useState } from 'react'
+import { Copy, FolderOpen, Pencil, Search, Trash2 } from 'lucide-react'
+import Modal from './Modal'
+import { useProjectLibrary } from '../hooks/useProjectLibrary'
+import { formatEditedAt, plotTypeLabels, type LibraryEntry } from '../utils/projectLibrary'
+
+export type ProjectLibrarySaveOptions = {
+    defaultName: string
+    // Library entry the open chart was loaded from or last saved to
+    currentId: string | null
+    onSave: (name: string, asNew: boolean) => Promise<void>
+}
+
+type Props = {
+    isOpen: boolean
+    onClose: () => void
+    onOpen: (entry: LibraryEntry) => void
+    // Shown on chart pages to store the chart that is being edited
+    save?: ProjectLibrarySaveOptions
+}
+
+const buttonClasses = 'inline-flex items-center gap-1.5 rounded-md border border-white/10 bg-white/5 px-2.5 py-1.5 text-xs text-white transition hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-60'
+const inputClasses = 'rounded-md border border-white/10 bg-black/30 px-3 py-2 text-sm text-white focus:border-sky-300 focus:outline-none focus:ring-2 focus:ring-sky-300/40'
+
+export function ProjectThumbnail({ entry, className = '' }: { entry: LibraryEntry; className?: string }) {
+    return entry.thumbnail ? (
+        <img src={entry.thumbnail} alt="" className={`w-full object-cover ${className}`} />
+    ) : (
+        <div className={`flex w-full items-center justify-center bg-white/5 text-xs text-white/40 ${className}`}>
+            {plotTypeLabels[entry.plotType]}
+        </div>
+    )
+}
+
+export function ProjectLibraryModal({ isOpen, onClose, onOpen, save }: Props) {
+    const { entries, isLoading, error, refresh, rename, duplicate, remove } = useProjectLibrary(isOpen)
+    const [query, setQuery] = useState('')
+    const [name, setName] = useState<string | null>(null)
+    const [isSaving, setIsSaving] = useState(false)
+    const [saveError, setSaveError] = useState<string | null>(null)
+    const [renamingId, setRenamingId] = useState<string | null>(null)
+    const [renameValue, setRenameValue] = useState('')
+    const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null)
+
+    const currentEntry = save?.currentId ? entries.find((entry) => entry.id === save.currentId) ?? null : null
+    const saveName = name ?? currentEntry?.name ?? save?.defaultName ?? ''
+
+    const needle = query.trim().toLowerCase()
+    const visibleEntries = needle
+        ? entries.filter((entry) => (
+            entry.name.toLowerCase().includes(needle) || plotTypeLabels[entry.plotType].toLowerCase().includes(needle)
+        ))
+        : entries
+
+    const handleSave = async (asNew: boolean) => {
+        if (!save) return
+        setIsSaving(true)
+        setSaveError(null)
+        try {
+            await save.onSave(saveName, asNew)
+            setName(null)
+            await refresh()
+        } catch (caught) {
+            setSaveError(caught instanceof Error ? caught.message : 'The project could not be saved.')
+        } finally {
+            setIsSaving(false)
+        }
+    }
+
+    const commitRename = async () => {
+        if (!renamingId) return
+        const id = renamingId
+        setRenamingId(null)
+        if (renameValue.trim()) {
+            await rename(id, renameValue)
+        }
+    }
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title="Projects">
+            <div className="mt-2 space-y-5">
+                {save ? (
+                    <div className="space-y-2 rounded-xl border border-white/10 bg-white/5 p-4">
+                        <span className="text-xs uppercase tracking-wide text-white/50">Save current chart</span>
+                        <div className="flex flex-wrap items-center gap-2">
+                            <input
+                                type="text"
+                                value={saveName}
+                                onChange={(event) => setName(event.target.value)}
+                                placeholder="Project name"
+                                className={`min-w-[12rem] flex-1 ${inputClasses}`}
+                            />
+                            {currentEntry ? (
+                                <button type="button" onClick={() => handleSave(false)} disabled={isSaving} className="rounded-md border border-sky-400 bg-sky-400/20 px-3 py-2 text-sm font-medium text-white transition hover:bg-sky-400/30 disabled:cursor-not-allowed disabled:opacity-60">
+                                    {isSaving ? 'Saving…' : 'Save changes'}
+                                </button>
+                            ) : null}
+                            <button
+                                type="button"
+                                onClick={() => handleSave(true)}
+                                disabled={isSaving}
+                                className={currentEntry
+                                    ? 'rounded-md border border-white/10 bg-white/5 px-3 py-2 text-sm text-white transition hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-60'
+                                    : 'rounded-md border border-sky-400 bg-sky-400/20 px-3 py-2 text-sm font-medium text-white transition hover:bg-sky-400/30 disabled:cursor-not-allowed disabled:opacity-60'}
+                            >
+                                {currentEntry ? 'Save as new' : isSaving ? 'Saving…' : 'Save to library'}
+                            </button>
+                        </div>
+                        {currentEntry ? (
+                            <p className="text-xs text-white/50">Opened from “{currentEntry.name}”.</p>
+                        ) : null}
+                        {saveError ? <p className="text-xs text-rose-300">{saveError}</p> : null}
+                    </div>
+                ) : null}
+
+                <label className="relative flex items-center">
+                    <Search className="pointer-events-none absolute left-3 h-4 w-4 text-white/40" />
+                    <input
+                        type="search"
+                        value={query}
+                        onChange={(event) => setQuery(event.target.value)}
+                        placeholder="Search projects"
+                        aria-label="Search projects"
+                        className={`w-full pl-9 ${inputClasses}`}
+                    />
+                </label>
+
+                {error ? <p className="text-xs text-rose-300">{error}</p> : null}
+
+                {visibleEntries.length === 0 ? (
+                    <p className="py-6 text-center text-sm text-white/50">
+                        {isLoading ? 'Loading projects…' : needle ? 'No projects match your search.' : 'No saved projects yet.'}
+                    </p>
+                ) : (
+                    <ul className="grid gap-3 sm:grid-cols-2">
+                        {visibleEntries.map((entry) => (
+                            <li key={entry.id} className={`overflow-hidden rounded-xl border bg-black/30 ${entry.id === save?.currentId ? 'border-sky-400/60' : 'border-white/10'}`}>
+                                <button type="button" onClick={() => onOpen(entry)} className="block w-full" title={`Open ${entry.name}`}>
+                                    <ProjectThumbnail entry={entry} className="h-32" />
+                                </button>
+                                <div className="space-y-2 p-3">
+                                    {renamingId === entry.id ? (
+                                        <input
+                                            type="text"
+                                            autoFocus
+                                            value={renameValue}
+                                            onChange={(event) => setRenameValue(event.target.value)}
+                                            onBlur={commitRename}
+                                            onKeyDown={(event) => {
+                                                if (event.key === 'Enter') void commitRename()
+                                                if (event.key === 'Escape') {
+                                                    event.stopPropagation()
+                                                    setRenamingId(null)
+                                                }
+                                            }}
+                                            aria-label="Project name"
+                                            className={`w-full ${inputClasses}`}
+                                        />
+                                    ) : (
+                                        <p className="truncate text-sm font-medium text-white" title={entry.name}>{entry.name}</p>
+                                    )}
+                                    <p className="text-xs text-white/50">
+                                        {plotTypeLabels[entry.plotType]} · {formatEditedAt(entry.updatedAt)}
+                                    </p>
+                                    <div className="flex flex-wrap gap-1.5">
+                                        <button type="button" onClick={() => onOpen(entry)} className={buttonClasses}>
+                                            <FolderOpen className="h-3 w-3" />
+                                            Open
+                                        </button>
+                                        <button
+                                            type="button"
+                                            onClick={() => {
+                                                setRenamingId(entry.id)
+                                                setRenameValue(entry.name)
+                                            }}
+                                            className={buttonClasses}
+                                            title="Rename"
+                                            aria-label={`Rename ${entry.name}`}
+                                        >
+                                            <Pencil className="h-3 w-3" />
+                                        </button>
+                                        <button type="button" onClick={() => duplicate(entry.id)} className={buttonClasses} title="Duplicate" aria-label={`Duplicate ${entry.name}`}>
+                                            <Copy className="h-3 w-3" />
+                                        </button>
+                                        {pendingDeleteId === entry.id ? (
+                                            <button
+                                                type="button"
+                                                onClick={() => {
+                                                    setPendingDeleteId(null)
+                                                    void remove(entry.id)
+                                                }}
+                                                onBlur={() => setPendingDeleteId(null)}
+                                                autoFocus
+                                                className="inline-flex items-center gap-1.5 rounded-md border border-red-400/40 bg-red-500/20 px-2.5 py-1.5 text-xs font-medium text-red-300 transition hover:bg-red-500/30"
+                                            >
+                                                <Trash2 className="h-3 w-3" />
+                                                Delete?
+                                            </button>
+                                        ) : (
+                                            <button
+                                                type="button"
+                                                onClick={() => setPendingDeleteId(entry.id)}
+                                                className="inline-flex items-center gap-1.5 rounded-md border border-red-400/20 bg-red-500/10 px-2.5 py-1.5 text-xs text-red-400 transition hover:bg-red-500/20"
+                                                title="Delete"
+                                                aria-label={`Delete ${entry.name}`}
+                                            >
+                                                <Trash2 className="h-3 w-3" />
+                                            </button>
+                                        )}
+                                    </div>
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+        </Modal>
+    )
+}
+
+export default ProjectLibraryModal
@@ -0,0 +1,41 @@
+import Modal from './Modal'
+import type { ShareLink } from '../utils/shareLink'
+
+type Props = {
+    link: ShareLink | null
+    onClose: () => void
+}
+
+export function ShareLinkModal({ link, onClose }: Props) {
+    return (
+        <Modal isOpen={Boolean(link)} onClose={onClose} title="Share link">
+            {link ? (
+                <div className="mt-2 space-y-4 text-sm">
+                    <p className="text-white/70">
+                        {link.copied
+                            ? 'The link has been copied to your clipboard. Anyone who opens it sees this chart; nothing is uploaded.'
+                            : 'Copy the link below to share this chart. Anyone who opens it sees this chart; nothing is uploaded.'}
+                    </p>
+                    <input
+                        type="text"
+                        readOnly
+                        value={link.url}
+                        onFocus={(event) => event.target.select()}
+                        aria-label="Share link"
+                        className="w-full rounded-md border border-white/10 bg-black/30 px-3 py-2 font-mono text-xs text-white/80 focus:border-sky-300 focus:outline-none focus:ring-2 focus:ring-sky-300/40"
+                    />
+                    {link.warnings.length ? (
+                        <ul className="list-disc space-y-1 pl-5 text-xs text-amber-200">
+                            {link.warnings.map((warning, index) => <li key={index}>{warning}</li>)}
+                        </ul>
+                    ) : null}
+                    <div className="flex justify-end">
+                        <button type="button" onClick={onClose} className="rounded-md border border-white/10 bg-white/5 px-3 py-1.5 text-white transition hover:bg-white/10">Done</button>
+                    </div>
+                </div>
+            ) : null}
+        </Modal>
+    )
+}
+
+export default ShareLinkModal
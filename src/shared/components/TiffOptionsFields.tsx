@@ -0,0 +1,37 @@
+import type { TiffColorSpace, TiffCompression, TiffOptions } from '../utils/tiffEncoder'
+
+type Props = {
+    value: TiffOptions
+    onChange: (value: TiffOptions) => void
+}
+
+const selectClasses = 'rounded-md border border-white/10 bg-black/30 px-3 py-2 text-white focus:border-sky-300 focus:outline-none focus:ring-2 focus:ring-sky-300/40'
+
+// Compression and color space pickers shared by the export dialogs
+export function TiffOptionsFields({ value, onChange }: Props) {
+    return (
+        <div className="space-y-2 text-sm">
+            <div className="flex flex-wrap gap-2">
+                <label className="flex flex-1 flex-col gap-1">
+                    <span className="text-xs uppercase tracking-wide text-white/50">Compression</span>
+                    <select value={value.compression} onChange={(e) => onChange({ ...value, compression: e.target.value as TiffCompression })} className={selectClasses}>
+                        <option value="lzw">LZW (lossless)</option>
+                        <option value="none">None</option>
+                    </select>
+                </label>
+                <label className="flex flex-1 flex-col gap-1">
+                    <span className="text-xs uppercase tracking-wide text-white/50">Color</span>
+                    <select value={value.colorSpace} onChange={(e) => onChange({ ...value, colorSpace: e.target.value as TiffColorSpace })} className={selectClasses}>
+                        <option value="rgb">RGB</option>
+                        <option value="cmyk">CMYK</option>
+                    </select>
+                </label>
+            </div>
+            {value.colorSpace === 'cmyk' ? (
+                <p className="text-xs text-white/50">CMYK uses a simple conversion without a color profile and is placed on a white background. Check the colors with your publisher if they matter.</p>
+            ) : null}
+        </div>
+    )
+}
+
+export default TiffOptionsFields
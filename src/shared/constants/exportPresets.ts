@@ -0,0 +1,12 @@
+import type { ExportPreset } from '../../types/base'
+
+export const EXPORT_DPI_OPTIONS = [300, 600, 1200]
+
+// Common journal figure widths; most journals ask for 300 DPI photos and 600–1200 DPI line art
+export const BUILT_IN_EXPORT_PRESETS: ExportPreset[] = [
+  { id: 'single-column', name: 'Single column (85 mm)', width: 85, unit: 'mm', dpi: 300, minFontSize: 6 },
+  { id: 'one-and-half-column', name: '1.5 column (120 mm)', width: 120, unit: 'mm', dpi: 300, minFontSize: 6 },
+  { id: 'double-column', name: 'Double column (180 mm)', width: 180, unit: 'mm', dpi: 300, minFontSize: 6 },
+  { id: 'single-column-combination', name: 'Single column, combination art (600 DPI)', width: 85, unit: 'mm', dpi: 600, minFontSize: 6 },
+  { id: 'single-column-line-art', name: 'Single column, line art (1200 DPI)', width: 85, unit: 'mm', dpi: 1200, minFontSize: 6 },
+]
@@ -0,0 +1,13 @@
+import { useCallback, useState } from 'react';
+
+/**
+ * Tracks which project library entry the chart on a page was opened from or last saved to,
+ * so "Save changes" updates that entry. Pages call `resetLibraryBinding` whenever they
+ * replace the chart from elsewhere (a project file, a share link, Clean Studio); otherwise
+ * the next save would overwrite the earlier entry with an unrelated chart.
+ */
+export function useLibraryBinding() {
+    const [projectId, setProjectId] = useState<string | null>(null);
+    const resetLibraryBinding = useCallback(() => setProjectId(null), []);
+    return { projectId, setProjectId, resetLibraryBinding };
+}
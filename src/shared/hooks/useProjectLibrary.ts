@@ -0,0 +1,64 @@
+import { useCallback, useEffect, useState } from 'react'
+import {
+  deleteProject,
+  duplicateProject,
+  listProjects,
+  renameProject,
+  type LibraryEntry,
+} from '../utils/projectLibrary'
+
+const describeError = (error: unknown) => (error instanceof Error ? error.message : String(error))
+
+/**
+ * Loads the saved project list while `active` is true and wraps the library operations so
+ * the list is refreshed after each one. Failures (e.g. storage disabled in a private
+ * window) are reported through `error` instead of being thrown.
+ */
+export function useProjectLibrary(active = true) {
+  const [entries, setEntries] = useState<LibraryEntry[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      setEntries(await listProjects())
+      setError(null)
+    } catch (caught) {
+      setError(describeError(caught))
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (active) {
+      void refresh()
+    }
+  }, [active, refresh])
+
+  const runAndRefresh = useCallback(async (operation: () => Promise<unknown>) => {
+    let failure: string | null = null
+    try {
+      await operation()
+    } catch (caught) {
+      failure = describeError(caught)
+    }
+    await refresh()
+    // Set after the refresh, which clears the error once the list has loaded
+    if (failure) {
+      setError(failure)
+    }
+  }, [refresh])
+
+  const rename = useCallback(
+    (id: string, name: string) => runAndRefresh(() => renameProject(id, name)),
+    [runAndRefresh],
+  )
+  const duplicate = useCallback((id: string) => runAndRefresh(() => duplicateProject(id)), [runAndRefresh])
+  const remove = useCallback((id: string) => runAndRefresh(() => deleteProject(id)), [runAndRefresh])
+
+  return { entries, isLoading, error, refresh, rename, duplicate, remove }
+}
+
+export default useProjectLibrary
@@ -0,0 +1,40 @@
+import { useEffect, useLayoutEffect, useRef } from 'react'
+import { useLocation, useNavigate } from 'react-router-dom'
+import { decodeShareState, readShareFragment } from '../utils/shareLink'
+
+/**
+ * Opens the chart carried in a `#share=…` link once the page has mounted. Decoding is
+ * asynchronous, so the shared state arrives after the autosaved state has been restored
+ * and replaces it on screen. Pages keep the shared chart out of their autosave until it
+ * is edited, so with the fragment removed afterwards a reload shows the user's own work
+ * again.
+ */
+export function useShareLinkHydration(onOpen: (value: unknown) => void, onError: (errors: string[]) => void) {
+  const location = useLocation()
+  const navigate = useNavigate()
+  const handlersRef = useRef({ onOpen, onError })
+  useLayoutEffect(() => {
+    handlersRef.current = { onOpen, onError }
+  })
+
+  const encoded = readShareFragment(location.hash)
+  useEffect(() => {
+    if (!encoded) return
+    let cancelled = false
+    decodeShareState(encoded)
+      .then((value) => {
+        if (!cancelled) handlersRef.current.onOpen(value)
+      })
+      .catch((error: unknown) => {
+        if (!cancelled) handlersRef.current.onError([error instanceof Error ? error.message : String(error)])
+      })
+      .finally(() => {
+        if (!cancelled) navigate({ pathname: location.pathname, search: location.search }, { replace: true })
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [encoded, location.pathname, location.search, navigate])
+}
+
+export default useShareLinkHydration
@@ -0,0 +1,159 @@
+import { useLayoutEffect, useRef, useState, type KeyboardEvent, type PointerEvent } from 'react'
+import { snapToGuides, type SnapBounds, type SnapGuides } from '../utils/snapping'
+
+export type DragOffset = { dx: number; dy: number }
+
+// Whether a committed offset comes from releasing a drag or from an arrow-key nudge
+export type DragSource = 'pointer' | 'keyboard'
+
+// Restricts an element to one direction, e.g. axis titles that only have a single offset
+export type DragAxis = 'both' | 'x' | 'y'
+
+type DragSession = {
+  id: string
+  axis: DragAxis
+  startX: number
+  startY: number
+  scale: number
+  bounds: SnapBounds
+  dx: number
+  dy: number
+}
+
+type ActiveGuides = { x: number | null; y: number | null }
+
+type SvgDragOptions = {
+  // Called when a drag or a nudge begins, before any offset is reported
+  onStart?: (id: string) => void
+  // Called on every pointer move with the offset since the drag started
+  onMove?: (id: string, offset: DragOffset) => void
+  // Lines the dragged element snaps to; hold Alt while dragging to move freely
+  guides?: SnapGuides
+}
+
+const SNAP_DISTANCE = 6
+const NUDGE_STEP = 1
+const NUDGE_STEP_LARGE = 10
+
+const NO_GUIDES: ActiveGuides = { x: null, y: null }
+
+const nudgeDirections: Record<string, DragOffset> = {
+  ArrowLeft: { dx: -1, dy: 0 },
+  ArrowRight: { dx: 1, dy: 0 },
+  ArrowUp: { dx: 0, dy: -1 },
+  ArrowDown: { dx: 0, dy: 1 },
+}
+
+const constrain = (offset: DragOffset, axis: DragAxis): DragOffset => ({
+  dx: axis === 'y' ? 0 : offset.dx,
+  dy: axis === 'x' ? 0 : offset.dy,
+})
+
+/**
+ * Pointer dragging and arrow-key nudging for SVG elements. Offsets are in SVG units, so
+ * they stay correct when the preview is scaled down to fit its container. `onCommit`
+ * receives the final offset when the pointer is released or an arrow key is pressed;
+ * `onMove` can be used to apply the offset live while the pointer is still down, or
+ * `offsetFor(id)` read to render the in-progress offset without touching any state.
+ * Elements become focusable when bound, so clicking one selects it for nudging
+ * (Shift + arrow moves in larger steps).
+ */
+export function useSvgDrag(
+  onCommit: (id: string, offset: DragOffset, source: DragSource) => void,
+  options: SvgDragOptions = {},
+) {
+  const sessionRef = useRef<DragSession | null>(null)
+  const commitRef = useRef(onCommit)
+  const optionsRef = useRef(options)
+  useLayoutEffect(() => {
+    commitRef.current = onCommit
+    optionsRef.current = options
+  })
+  const [drag, setDrag] = useState<(DragOffset & { id: string; guides: ActiveGuides }) | null>(null)
+
+  const finish = (event: PointerEvent<SVGElement>, commit: boolean) => {
+    const session = sessionRef.current
+    if (!session) return
+    if (event.currentTarget.hasPointerCapture(event.pointerId)) {
+      event.currentTarget.releasePointerCapture(event.pointerId)
+    }
+    sessionRef.current = null
+    setDrag(null)
+    if (commit && (session.dx !== 0 || session.dy !== 0)) {
+      commitRef.current(session.id, { dx: session.dx, dy: session.dy }, 'pointer')
+    }
+  }
+
+  const bind = (id: string, axis: DragAxis = 'both') => ({
+    tabIndex: 0,
+    className: 'outline-none focus:outline-1 focus:outline-dashed focus:outline-sky-300',
+    onPointerDown: (event: PointerEvent<SVGElement>) => {
+      if (event.button !== 0) return
+      event.stopPropagation()
+      const element = event.currentTarget
+      const svg = element.ownerSVGElement
+      const svgBounds = svg?.getBoundingClientRect()
+      const viewWidth = svg?.viewBox.baseVal?.width ?? 0
+      const scale = svgBounds && svgBounds.width > 0 && viewWidth > 0 ? viewWidth / svgBounds.width : 1
+      // Measured on screen so rotated and transformed elements snap by their visible box
+      const rect = element.getBoundingClientRect()
+      const bounds = {
+        x: (rect.left - (svgBounds?.left ?? 0)) * scale,
+        y: (rect.top - (svgBounds?.top ?? 0)) * scale,
+        width: rect.width * scale,
+        height: rect.height * scale,
+      }
+      element.setPointerCapture(event.pointerId)
+      element.focus({ preventScroll: true })
+      sessionRef.current = { id, axis, startX: event.clientX, startY: event.clientY, scale, bounds, dx: 0, dy: 0 }
+      optionsRef.current.onStart?.(id)
+      setDrag({ id, dx: 0, dy: 0, guides: NO_GUIDES })
+    },
+    onPointerMove: (event: PointerEvent<SVGElement>) => {
+      const session = sessionRef.current
+      if (!session || session.id !== id) return
+      let offset = constrain({
+        dx: (event.clientX - session.startX) * session.scale,
+        dy: (event.clientY - session.startY) * session.scale,
+      }, session.axis)
+      let guides = NO_GUIDES
+      const snapGuides = optionsRef.current.guides
+      if (snapGuides && !event.altKey) {
+        const snapped = snapToGuides(session.bounds, offset.dx, offset.dy, {
+          x: session.axis === 'y' ? [] : snapGuides.x,
+          y: session.axis === 'x' ? [] : snapGuides.y,
+        }, SNAP_DISTANCE)
+        offset = { dx: snapped.dx, dy: snapped.dy }
+        guides = { x: snapped.guideX, y: snapped.guideY }
+      }
+      session.dx = offset.dx
+      session.dy = offset.dy
+      setDrag({ id, ...offset, guides })
+      optionsRef.current.onMove?.(id, offset)
+    },
+    onPointerUp: (event: PointerEvent<SVGElement>) => finish(event, true),
+    onPointerCancel: (event: PointerEvent<SVGElement>) => finish(event, false),
+    onKeyDown: (event: KeyboardEvent<SVGElement>) => {
+      const direction = nudgeDirections[event.key]
+      if (!direction || sessionRef.current) return
+      event.preventDefault()
+      event.stopPropagation()
+      const step = event.shiftKey ? NUDGE_STEP_LARGE : NUDGE_STEP
+      const offset = constrain({ dx: direction.dx * step, dy: direction.dy * step }, axis)
+      if (offset.dx === 0 && offset.dy === 0) return
+      optionsRef.current.onStart?.(id)
+      commitRef.current(id, offset, 'keyboard')
+    },
+    style: {
+      cursor: drag?.id === id ? 'grabbing' : 'grab',
+      touchAction: 'none',
+      userSelect: 'none',
+    } as const,
+  })
+
+  const offsetFor = (id: string): DragOffset => (drag && drag.id === id ? drag : { dx: 0, dy: 0 })
+
+  return { bind, offsetFor, draggingId: drag?.id ?? null, guides: drag?.guides ?? NO_GUIDES }
+}
+
+export default useSvgDrag
@@ -0,0 +1,37 @@
+import { useEffect } from 'react'
+
+// Text fields keep their own native undo for the characters being typed
+function isTextEntry(target: EventTarget | null) {
+  if (!(target instanceof HTMLElement)) return false
+  if (target.isContentEditable) return true
+  if (target instanceof HTMLTextAreaElement) return true
+  return target instanceof HTMLInputElement && !['checkbox', 'radio', 'range', 'color', 'button'].includes(target.type)
+}
+
+/** Ctrl/⌘+Z undoes, Ctrl/⌘+Shift+Z and Ctrl+Y redo. */
+export function useUndoShortcuts(undo: () => void, redo: () => void) {
+  useEffect(() => {
+    if (typeof window === 'undefined') return
+    const handleKey = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey || isTextEntry(event.target)) return
+      const key = event.key.toLowerCase()
+      if (key === 'z') {
+        event.preventDefault()
+        if (event.shiftKey) {
+          redo()
+        } else {
+          undo()
+        }
+      } else if (key === 'y' && !event.shiftKey) {
+        event.preventDefault()
+        redo()
+      }
+    }
+    window.addEventListener('keydown', handleKey)
+    return () => {
+      window.removeEventListener('keydown', handleKey)
+    }
+  }, [undo, redo])
+}
+
+export default useUndoShortcuts
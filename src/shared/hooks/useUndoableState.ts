@@ -0,0 +1,92 @@
+import { useCallback, useState, type SetStateAction } from 'react'
+
+type History<T> = {
+  past: T[]
+  present: T
+  future: T[]
+  changedAt: number
+  // Set after undo/redo and standalone changes so the next edit starts a fresh step
+  sealed: boolean
+}
+
+export type UndoableSetOptions = {
+  // Record this change as its own step, never merged with the edits around it
+  standalone?: boolean
+}
+
+// Edits closer together than this (slider drags, typing, canvas drags) collapse into one step
+const COALESCE_MS = 600
+const DEFAULT_LIMIT = 100
+
+const createHistory = <T,>(present: T): History<T> => ({ past: [], present, future: [], changedAt: 0, sealed: true })
+
+/**
+ * `useState` with a bounded undo/redo history. The setter accepts the same values and
+ * updaters as `useState`; rapid successive changes are coalesced into a single step.
+ * `reset` replaces the state and clears the history, e.g. after loading saved state.
+ */
+export function useUndoableState<T>(initial: T | (() => T), limit = DEFAULT_LIMIT) {
+  const [history, setHistory] = useState<History<T>>(() => (
+    createHistory(typeof initial === 'function' ? (initial as () => T)() : initial)
+  ))
+
+  const setState = useCallback((action: SetStateAction<T>, options: UndoableSetOptions = {}) => {
+    const now = Date.now()
+    setHistory((current) => {
+      const next = typeof action === 'function' ? (action as (previous: T) => T)(current.present) : action
+      if (Object.is(next, current.present)) return current
+      const coalesce = !options.standalone && !current.sealed && now - current.changedAt < COALESCE_MS
+      return {
+        past: coalesce ? current.past : [...current.past, current.present].slice(-limit),
+        present: next,
+        future: [],
+        changedAt: now,
+        sealed: Boolean(options.standalone),
+      }
+    })
+  }, [limit])
+
+  const undo = useCallback(() => {
+    setHistory((current) => {
+      if (current.past.length === 0) return current
+      return {
+        past: current.past.slice(0, -1),
+        present: current.past[current.past.length - 1],
+        future: [current.present, ...current.future],
+        changedAt: 0,
+        sealed: true,
+      }
+    })
+  }, [])
+
+  const redo = useCallback(() => {
+    setHistory((current) => {
+      if (current.future.length === 0) return current
+      return {
+        past: [...current.past, current.present],
+        present: current.future[0],
+        future: current.future.slice(1),
+        changedAt: 0,
+        sealed: true,
+      }
+    })
+  }, [])
+
+  const reset = useCallback((value: T) => {
+    setHistory(createHistory(value))
+  }, [])
+
+  return [
+    history.present,
+    setState,
+    {
+      undo,
+      redo,
+      reset,
+      canUndo: history.past.length > 0,
+      canRedo: history.future.length > 0,
+    },
+  ] as const
+}
+
+export default useUndoableState
@@ -1,5 +1,7 @@
 import type { BarDataPoint } from "../../types/bar";
+import type { ImportColumn, ImportedRow } from "./csvImport";
 import { palettes } from "./palettes";
+import { randomId } from "./randomId";
 
 export const defaultPalette = [
   "#3b82f6",
@@ -11,14 +13,6 @@ export const defaultPalette = [
   "#14b8a6",
 ];
 
-function randomId() {
-  if (typeof crypto !== "undefined" && "randomUUID" in crypto) {
-    return crypto.randomUUID();
-  }
-
-  return Math.random().toString(36).slice(2, 10);
-}
-
 export function createBar(
   index: number,
   paletteName: keyof typeof palettes = "vibrant"
@@ -41,3 +35,99 @@ export function createBar(
     patternSize: 8,
   };
 }
+
+export const barImportColumns: ImportColumn[] = [
+  {
+    key: "label",
+    label: "Name",
+    description: "Select the column that contains bar labels",
+    keywords: ["label", "name", "title"],
+    required: true,
+    missingMessage: "Choose a column to use for the bar names.",
+  },
+  // Listed before the value column so "secondary value"-style headers are not claimed by it
+  {
+    key: "secondaryValue",
+    label: "Secondary value",
+    description: "Optional value for the overlay series on the right-hand axis",
+    keywords: ["secondary", "overlay", "percent", "rate", "ratio"],
+  },
+  {
+    key: "value",
+    label: "Value",
+    description: "Numeric value; rows sharing a name and group are combined into one bar's replicates",
+    keywords: ["value", "amount", "score", "total", "count", "number"],
+    required: true,
+    missingMessage: "Choose a column to use for the numeric values.",
+  },
+  {
+    key: "errorLower",
+    label: "Lower error",
+    description: "Optional error below the value; overrides the symmetric error",
+    keywords: ["lower", "minus", "low"],
+  },
+  {
+    key: "errorUpper",
+    label: "Upper error",
+    description: "Optional error above the value; overrides the symmetric error",
+    keywords: ["upper", "plus", "high"],
+  },
+  // Listed after the directional columns so "error_low"-style headers are not claimed by it
+  {
+    key: "error",
+    label: "Error",
+    description: "Optional symmetric error margin",
+    keywords: ["error", "err", "uncert", "sd", "stdev"],
+  },
+  {
+    key: "group",
+    label: "Group",
+    description: "Optional grouping/category column",
+    keywords: ["group", "category", "series", "segment"],
+  },
+];
+
+/**
+ * Builds one bar per distinct name/group pair. A pair that appears on a single
+ * row keeps its value and error as typed; repeated rows (long-format replicate
+ * data) are collected into the bar's replicates instead.
+ */
+export function createBarsFromImport(
+  rows: ImportedRow[],
+  paletteName: keyof typeof palettes = "vibrant"
+): BarDataPoint[] {
+  const rowsByKey = new Map<string, ImportedRow[]>();
+  rows.forEach((row) => {
+    const key = `${row.text("label") || `Item ${row.index + 1}`}\u0000${row.text("group")}`;
+    const existing = rowsByKey.get(key);
+    if (existing) {
+      existing.push(row);
+    } else {
+      rowsByKey.set(key, [row]);
+    }
+  });
+
+  return Array.from(rowsByKey.values()).map((entries, index) => {
+    const [first] = entries;
+    const defaults = createBar(index, paletteName);
+    const bar: BarDataPoint = {
+      ...defaults,
+      label: first.text("label") || `Item ${first.index + 1}`,
+      value: first.number("value") ?? 0,
+      error: Math.abs(first.number("error") ?? 0),
+      group: first.text("group") || undefined,
+    };
+    const errorLower = first.number("errorLower");
+    const errorUpper = first.number("errorUpper");
+    if (errorLower !== null) bar.errorLower = Math.abs(errorLower);
+    if (errorUpper !== null) bar.errorUpper = Math.abs(errorUpper);
+    const secondaryValue = first.number("secondaryValue");
+    if (secondaryValue !== null) bar.secondaryValue = secondaryValue;
+    if (entries.length === 1) return bar;
+
+    const replicates = entries
+      .map((row) => row.number("value"))
+      .filter((value): value is number => value !== null);
+    return replicates.length ? { ...bar, replicates } : bar;
+  });
+}
@@ -0,0 +1,138 @@
+import type { BarDataPoint } from "../../types/bar";
+import type { PaletteKey } from "../../types/base";
+import { defaultPalette } from "./barFactory";
+import { palettes } from "./palettes";
+
+export const UNGROUPED_LABEL = "Ungrouped";
+
+export type BarCategory<T extends BarDataPoint = BarDataPoint> = {
+  key: string;
+  label: string;
+  bars: T[];
+};
+
+export type BarSeries<T extends BarDataPoint = BarDataPoint> = {
+  key: string;
+  label: string;
+  color: string;
+  bars: T[];
+};
+
+export type BarStackSegment = {
+  start: number;
+  end: number;
+  share: number; // Percentage of the stack's absolute total
+  isStackEnd: boolean; // Outermost segment on its side of the baseline
+};
+
+export type BarStackTotal = {
+  key: string;
+  positive: number;
+  negative: number;
+  sum: number;
+};
+
+export function getGroupKey(bar: BarDataPoint) {
+  return typeof bar.group === "string" ? bar.group.trim() : "";
+}
+
+export function getSeriesColor(paletteName: PaletteKey, index: number) {
+  const palette = palettes[paletteName] ?? defaultPalette;
+  return palette[index % palette.length];
+}
+
+/**
+ * Collects the distinct bar labels in order of first appearance.
+ * Bars sharing a label end up in the same category (x-position).
+ */
+export function getBarCategories<T extends BarDataPoint>(bars: T[]): BarCategory<T>[] {
+  const categories = new Map<string, BarCategory<T>>();
+  bars.forEach((bar) => {
+    const key = bar.label.trim();
+    const existing = categories.get(key);
+    if (existing) {
+      existing.bars.push(bar);
+      return;
+    }
+    categories.set(key, { key, label: bar.label, bars: [bar] });
+  });
+  return Array.from(categories.values());
+}
+
+/**
+ * Collects the distinct group values in order of first appearance.
+ * Each group becomes a series with its own palette color and legend entry.
+ */
+export function getBarSeries<T extends BarDataPoint>(bars: T[], paletteName: PaletteKey): BarSeries<T>[] {
+  const series = new Map<string, BarSeries<T>>();
+  bars.forEach((bar) => {
+    const key = getGroupKey(bar);
+    const existing = series.get(key);
+    if (existing) {
+      existing.bars.push(bar);
+      return;
+    }
+    series.set(key, {
+      key,
+      label: key || UNGROUPED_LABEL,
+      color: getSeriesColor(paletteName, series.size),
+      bars: [bar],
+    });
+  });
+  return Array.from(series.values());
+}
+
+/**
+ * Stacks the bars of every category in series order. Positive values grow
+ * upwards from zero and negative values downwards. When `normalize` is set,
+ * each stack is scaled so its absolute total spans 100.
+ */
+export function computeBarStacks(
+  categories: BarCategory[],
+  series: BarSeries[],
+  normalize: boolean
+) {
+  const seriesIndexByKey = new Map(series.map((item, index) => [item.key, index]));
+  const segments = new Map<string, BarStackSegment>();
+  const totals: BarStackTotal[] = [];
+
+  categories.forEach((category) => {
+    const ordered = [...category.bars].sort(
+      (a, b) => (seriesIndexByKey.get(getGroupKey(a)) ?? 0) - (seriesIndexByKey.get(getGroupKey(b)) ?? 0)
+    );
+    const absoluteTotal = ordered.reduce((sum, bar) => sum + Math.abs(bar.value), 0);
+    const scale = normalize ? (absoluteTotal > 0 ? 100 / absoluteTotal : 0) : 1;
+    let positive = 0;
+    let negative = 0;
+    let lastPositiveId: string | null = null;
+    let lastNegativeId: string | null = null;
+
+    ordered.forEach((bar) => {
+      const scaled = bar.value * scale;
+      const share = absoluteTotal > 0 ? (bar.value / absoluteTotal) * 100 : 0;
+      if (scaled >= 0) {
+        segments.set(bar.id, { start: positive, end: positive + scaled, share, isStackEnd: false });
+        positive += scaled;
+        if (scaled > 0) lastPositiveId = bar.id;
+      } else {
+        segments.set(bar.id, { start: negative, end: negative + scaled, share, isStackEnd: false });
+        negative += scaled;
+        lastNegativeId = bar.id;
+      }
+    });
+
+    [lastPositiveId, lastNegativeId].forEach((id) => {
+      const segment = id ? segments.get(id) : undefined;
+      if (segment) segment.isStackEnd = true;
+    });
+
+    totals.push({
+      key: category.key,
+      positive,
+      negative,
+      sum: ordered.reduce((sum, bar) => sum + bar.value, 0),
+    });
+  });
+
+  return { segments, totals };
+}
@@ -0,0 +1,73 @@
+import type { BarChartSettings } from "../../types/bar";
+
+/**
+ * Rounded bar outline. Returns an empty string when there is no radius so callers
+ * can fall back to a plain <rect>.
+ */
+export function createBarPath(
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  radius: number,
+  style: BarChartSettings["barCornerStyle"],
+  isHorizontal: boolean = false
+) {
+  const r = Math.max(Math.min(radius, width / 2, height / 2), 0);
+  if (r === 0) return "";
+
+  if (isHorizontal) {
+    // For horizontal bars, rounded corners should be on the right side
+    if (style === "both") {
+      return [
+        `M ${x + r} ${y}`,
+        `H ${x + width - r}`,
+        `Q ${x + width} ${y} ${x + width} ${y + r}`,
+        `V ${y + height - r}`,
+        `Q ${x + width} ${y + height} ${x + width - r} ${y + height}`,
+        `H ${x + r}`,
+        `Q ${x} ${y + height} ${x} ${y + height - r}`,
+        `V ${y + r}`,
+        `Q ${x} ${y} ${x + r} ${y}`,
+        "Z",
+      ].join(" ");
+    }
+
+    // Only right side rounded for horizontal bars
+    return [
+      `M ${x} ${y}`,
+      `H ${x + width - r}`,
+      `Q ${x + width} ${y} ${x + width} ${y + r}`,
+      `V ${y + height - r}`,
+      `Q ${x + width} ${y + height} ${x + width - r} ${y + height}`,
+      `H ${x}`,
+      "Z",
+    ].join(" ");
+  }
+
+  // Vertical bars (original logic)
+  if (style === "both") {
+    return [
+      `M ${x + r} ${y}`,
+      `H ${x + width - r}`,
+      `Q ${x + width} ${y} ${x + width} ${y + r}`,
+      `V ${y + height - r}`,
+      `Q ${x + width} ${y + height} ${x + width - r} ${y + height}`,
+      `H ${x + r}`,
+      `Q ${x} ${y + height} ${x} ${y + height - r}`,
+      `V ${y + r}`,
+      `Q ${x} ${y} ${x + r} ${y}`,
+      "Z",
+    ].join(" ");
+  }
+
+  return [
+    `M ${x} ${y + r}`,
+    `Q ${x} ${y} ${x + r} ${y}`,
+    `H ${x + width - r}`,
+    `Q ${x + width} ${y} ${x + width} ${y + r}`,
+    `V ${y + height}`,
+    `H ${x}`,
+    "Z",
+  ].join(" ");
+}
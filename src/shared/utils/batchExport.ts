@@ -0,0 +1,112 @@
+import { downloadBlob, renderChartFile, type ExportCanvas, type ExportFormat, type PrintSize } from "./exportChart";
+import type { TiffOptions } from "./tiffEncoder";
+import { createZipArchive, type ZipEntry } from "./zipArchive";
+
+export type BatchChart = {
+  // Value of the {plot} placeholder
+  name: string;
+  svg: SVGSVGElement;
+  canvas: ExportCanvas;
+};
+
+export type BatchSize = {
+  // Value of the {preset} placeholder
+  name: string;
+  // Omitted for the on-screen size
+  printSize?: PrintSize;
+};
+
+export type BatchExportOptions = {
+  fileName: string;
+  // File name pattern without the extension, see BATCH_TEMPLATE_TOKENS
+  template: string;
+  formats: ExportFormat[];
+  sizes: BatchSize[];
+  scale: number;
+  transparent: boolean;
+  tiff?: TiffOptions;
+};
+
+export const BATCH_TEMPLATE_TOKENS = ["{fileName}", "{plot}", "{preset}", "{format}"];
+export const DEFAULT_BATCH_TEMPLATE = "{fileName}_{plot}_{preset}";
+
+// Lower-case, dash-separated form of a label for use in file names
+export function slugifyName(name: string) {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+// Fills in the placeholders of `template`; characters that file systems reject become dashes
+export function batchFileName(
+  template: string,
+  values: { fileName: string; plot: string; preset: string; format: string }
+) {
+  const name = template
+    .replace(/\{fileName\}/g, values.fileName)
+    .replace(/\{plot\}/g, values.plot)
+    .replace(/\{preset\}/g, values.preset)
+    .replace(/\{format\}/g, values.format)
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u001f<>:"/\\|?*]+/g, "-")
+    .trim();
+  return name || "chart";
+}
+
+/**
+ * Renders every chart in every format and size and downloads the files as one ZIP archive.
+ * Files are rendered one at a time to keep memory use down; `onProgress` reports how many
+ * are done. Names that the template makes identical get a numbered suffix.
+ */
+export async function exportChartBatch(
+  charts: BatchChart[],
+  options: BatchExportOptions,
+  onProgress?: (done: number, total: number) => void
+) {
+  const total = charts.length * options.formats.length * options.sizes.length;
+  if (!total) {
+    throw new Error("Choose at least one plot, format and size.");
+  }
+
+  const baseName = options.fileName.trim() || "chart";
+  const entries: ZipEntry[] = [];
+  const usedNames = new Set<string>();
+  onProgress?.(0, total);
+
+  for (const chart of charts) {
+    for (const size of options.sizes) {
+      for (const format of options.formats) {
+        const stem = batchFileName(options.template, { fileName: baseName, plot: chart.name, preset: size.name, format });
+        let fileName = `${stem}.${format}`;
+        for (let suffix = 2; usedNames.has(fileName.toLowerCase()); suffix += 1) {
+          fileName = `${stem}-${suffix}.${format}`;
+        }
+        usedNames.add(fileName.toLowerCase());
+
+        try {
+          const { blob } = await renderChartFile(
+            chart.svg,
+            {
+              format,
+              fileName,
+              scale: options.scale,
+              transparent: options.transparent,
+              printSize: size.printSize,
+              tiff: options.tiff,
+            },
+            chart.canvas
+          );
+          entries.push({ name: fileName, data: new Uint8Array(await blob.arrayBuffer()) });
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          throw new Error(`${fileName}: ${message}`);
+        }
+        onProgress?.(entries.length, total);
+      }
+    }
+  }
+
+  downloadBlob(createZipArchive(entries), `${baseName.replace(/\.zip$/i, "")}.zip`);
+}
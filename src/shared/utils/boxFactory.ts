@@ -0,0 +1,53 @@
+import type { PaletteKey } from "../../types/base";
+import type { BoxCategory } from "../../types/box";
+import { defaultPalette } from "./barFactory";
+import type { ImportColumn, ImportedRow } from "./csvImport";
+import { palettes } from "./palettes";
+import { randomId } from "./randomId";
+
+export function createBoxCategory(index: number, paletteName: PaletteKey = "vibrant", values: number[] = []): BoxCategory {
+  const palette = palettes[paletteName] ?? defaultPalette;
+  return {
+    id: randomId(),
+    label: `Group ${index + 1}`,
+    values,
+    fillColor: palette[index % palette.length],
+    borderColor: "#e2e8f0",
+  };
+}
+
+export const boxImportColumns: ImportColumn[] = [
+  {
+    key: "category",
+    label: "Category",
+    description: "Group each replicate belongs to; rows with the same name form one box",
+    keywords: ["category", "group", "label", "name", "condition", "treatment"],
+  },
+  {
+    key: "value",
+    label: "Value",
+    description: "Raw numeric replicate value",
+    keywords: ["value", "measurement", "observation", "y", "replicate"],
+    required: true,
+    missingMessage: "Choose a column that holds the replicate values.",
+  },
+];
+
+/** Groups long-format rows (one replicate per row) into categories in order of first appearance. */
+export function createBoxCategoriesFromImport(rows: ImportedRow[], paletteName: PaletteKey = "vibrant"): BoxCategory[] {
+  const categories = new Map<string, BoxCategory>();
+
+  rows.forEach((row) => {
+    const value = row.number("value");
+    if (value === null) return;
+    const name = row.text("category") || "Group 1";
+    let category = categories.get(name);
+    if (!category) {
+      category = { ...createBoxCategory(categories.size, paletteName), label: name };
+      categories.set(name, category);
+    }
+    category.values.push(value);
+  });
+
+  return Array.from(categories.values());
+}
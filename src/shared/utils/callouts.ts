@@ -0,0 +1,120 @@
+import type { CalloutAnchorType, CalloutAnnotation, CalloutArrowhead, CalloutConnector } from "../../types/bar";
+import type { PathPoint } from "./linePaths";
+import { randomId } from "./randomId";
+
+export const calloutAnchorOptions: Array<{ value: CalloutAnchorType; label: string }> = [
+  { value: "bar", label: "Bar" },
+  { value: "point", label: "Data point" },
+];
+
+export const calloutConnectorOptions: Array<{ value: CalloutConnector; label: string }> = [
+  { value: "straight", label: "Straight" },
+  { value: "elbow", label: "Elbow" },
+  { value: "curved", label: "Curved" },
+];
+
+export const calloutArrowheadOptions: Array<{ value: CalloutArrowhead; label: string }> = [
+  { value: "arrow", label: "Filled arrow" },
+  { value: "open", label: "Open arrow" },
+  { value: "dot", label: "Dot" },
+  { value: "none", label: "None" },
+];
+
+/** New callouts point at `barId` when given, otherwise at a data point. */
+export function createCalloutAnnotation(barId: string | null, value = 0): CalloutAnnotation {
+  return {
+    id: randomId(),
+    text: "Note",
+    anchorType: barId ? "bar" : "point",
+    barId: barId ?? "",
+    category: 1,
+    value,
+    offsetX: 48,
+    offsetY: -56,
+    connector: "straight",
+    arrowhead: "arrow",
+    arrowSize: 8,
+    lineColor: "#f8fafc",
+    lineWidth: 1.5,
+    fontSize: 13,
+    textColor: "#0f172a",
+    showBox: true,
+    boxColor: "#f8fafc",
+    boxOpacity: 0.95,
+    boxBorderColor: "#e2e8f0",
+    boxBorderWidth: 1,
+    boxPadding: 6,
+    boxRadius: 4,
+  };
+}
+
+/** Approximate label box size; SVG text cannot be measured before it is rendered. */
+export function getCalloutBoxSize(callout: CalloutAnnotation) {
+  const padding = Math.max(callout.boxPadding, 0);
+  return {
+    width: Math.max(callout.text.length, 1) * callout.fontSize * 0.6 + padding * 2,
+    height: callout.fontSize * 1.3 + padding * 2,
+  };
+}
+
+/** Where the ray from the box center towards `toward` leaves a box of the given half sizes. */
+function boxExitPoint(center: PathPoint, halfWidth: number, halfHeight: number, toward: PathPoint): PathPoint {
+  const dx = toward.x - center.x;
+  const dy = toward.y - center.y;
+  if (dx === 0 && dy === 0) return center;
+  const scale = Math.min(
+    dx === 0 ? Number.POSITIVE_INFINITY : halfWidth / Math.abs(dx),
+    dy === 0 ? Number.POSITIVE_INFINITY : halfHeight / Math.abs(dy),
+  );
+  // The target lies inside the box: leave the connector at the center
+  if (scale >= 1) return center;
+  return { x: center.x + dx * scale, y: center.y + dy * scale };
+}
+
+/**
+ * Connector from the label box (centered on `labelCenter`) to the anchor. Elbow and
+ * curved connectors leave the box horizontally and turn towards the anchor, and
+ * `approach` is the point the final segment comes from, used to orient arrowheads.
+ */
+export function createCalloutConnector(
+  connector: CalloutConnector,
+  labelCenter: PathPoint,
+  box: { width: number; height: number },
+  anchor: PathPoint
+): { path: string; approach: PathPoint } {
+  const corner = { x: anchor.x, y: labelCenter.y };
+  const useCorner = connector !== "straight" && Math.abs(anchor.x - labelCenter.x) > box.width / 2;
+  const start = boxExitPoint(labelCenter, box.width / 2, box.height / 2, useCorner ? corner : anchor);
+
+  if (!useCorner) {
+    return { path: `M ${start.x} ${start.y} L ${anchor.x} ${anchor.y}`, approach: start };
+  }
+  if (connector === "elbow") {
+    return { path: `M ${start.x} ${start.y} L ${corner.x} ${corner.y} L ${anchor.x} ${anchor.y}`, approach: corner };
+  }
+  return { path: `M ${start.x} ${start.y} Q ${corner.x} ${corner.y} ${anchor.x} ${anchor.y}`, approach: corner };
+}
+
+/** Arrowhead with its tip on `tip`, pointing away from `from`. */
+export function createCalloutArrowhead(kind: CalloutArrowhead, tip: PathPoint, from: PathPoint, size: number) {
+  if (kind === "none" || size <= 0) return null;
+  if (kind === "dot") {
+    const radius = size / 2;
+    return {
+      path: `M ${tip.x - radius} ${tip.y} a ${radius} ${radius} 0 1 0 ${radius * 2} 0 a ${radius} ${radius} 0 1 0 ${-radius * 2} 0`,
+      filled: true,
+    };
+  }
+
+  const angle = Math.atan2(tip.y - from.y, tip.x - from.x);
+  const spread = Math.PI / 7;
+  const wing = (offset: number) => ({
+    x: tip.x - size * Math.cos(angle + offset),
+    y: tip.y - size * Math.sin(angle + offset),
+  });
+  const left = wing(spread);
+  const right = wing(-spread);
+  return kind === "arrow"
+    ? { path: `M ${tip.x} ${tip.y} L ${left.x} ${left.y} L ${right.x} ${right.y} Z`, filled: true }
+    : { path: `M ${left.x} ${left.y} L ${tip.x} ${tip.y} L ${right.x} ${right.y}`, filled: false };
+}
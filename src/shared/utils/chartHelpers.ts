@@ -1,5 +1,6 @@
 import type { LucideIcon } from 'lucide-react';
 import type { ChartAction } from '../components/ChartActionMenu';
+import type { AxisSettings } from '../../types/base';
 
 /**
  * Utility for creating action menu items
@@ -18,4 +19,21 @@ export function createChartAction(
         onClick,
         disabled,
     };
-}
\ No newline at end of file
+}
+
+export const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+/**
+ * SVG dash pattern for an axis grid line style
+ */
+export function getGridDashArray(style: AxisSettings['gridLineStyle']) {
+    switch (style) {
+        case 'dashed':
+            return '8 4';
+        case 'dotted':
+            return '2 2';
+        case 'solid':
+        default:
+            return 'none';
+    }
+}
@@ -0,0 +1,25 @@
+let table: Uint32Array | null = null;
+
+function crcTable() {
+  if (!table) {
+    table = new Uint32Array(256);
+    for (let n = 0; n < 256; n += 1) {
+      let c = n;
+      for (let k = 0; k < 8; k += 1) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      table[n] = c >>> 0;
+    }
+  }
+  return table;
+}
+
+// CRC-32 as used by PNG chunks and ZIP entries
+export function crc32(bytes: Uint8Array, start = 0, end = bytes.length) {
+  const lookup = crcTable();
+  let crc = 0xffffffff;
+  for (let index = start; index < end; index += 1) {
+    crc = lookup[(crc ^ bytes[index]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
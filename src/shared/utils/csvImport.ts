@@ -0,0 +1,190 @@
+export type DecimalSeparator = "." | ",";
+
+/** Describes one target field that a CSV column can be mapped to. */
+export type ImportColumn = {
+  key: string;
+  label: string;
+  description: string;
+  keywords: string[]; // Header fragments used to guess the mapping
+  required?: boolean;
+  missingMessage?: string;
+};
+
+export type ColumnMapping = Record<string, number | null>;
+
+/** A data row with accessors keyed by import column rather than CSV position. */
+export type ImportedRow = {
+  index: number;
+  isMapped: (key: string) => boolean;
+  text: (key: string) => string;
+  number: (key: string) => number | null;
+};
+
+export function createEmptyMapping(columns: ImportColumn[]): ColumnMapping {
+  return Object.fromEntries(columns.map((column) => [column.key, null]));
+}
+
+export function parseDelimited(text: string, delimiter: string) {
+  if (!text.trim()) return [] as string[][];
+  if (!delimiter) return [] as string[][];
+
+  const rows: string[][] = [];
+  let field = "";
+  let row: string[] = [];
+  let inQuotes = false;
+  let index = 0;
+  const delimiterLength = delimiter.length;
+
+  const pushField = () => {
+    row.push(field);
+    field = "";
+  };
+  const pushRow = () => {
+    pushField();
+    const isEmpty = row.every((cell) => cell === "");
+    if (!isEmpty || rows.length === 0) rows.push(row);
+    row = [];
+  };
+
+  while (index < text.length) {
+    const char = text[index];
+    if (inQuotes) {
+      if (char === '"') {
+        const nextChar = text[index + 1];
+        if (nextChar === '"') {
+          field += '"';
+          index += 2;
+          continue;
+        }
+        inQuotes = false;
+        index += 1;
+        continue;
+      }
+      field += char;
+      index += 1;
+      continue;
+    }
+    if (char === '"') {
+      inQuotes = true;
+      index += 1;
+      continue;
+    }
+    if (char === "\r") {
+      index += 1;
+      continue;
+    }
+    if (char === "\n") {
+      pushRow();
+      index += 1;
+      continue;
+    }
+    const isDelimiter =
+      delimiterLength === 1 ? char === delimiter : text.slice(index, index + delimiterLength) === delimiter;
+    if (isDelimiter) {
+      pushField();
+      index += delimiterLength;
+      continue;
+    }
+    field += char;
+    index += 1;
+  }
+
+  pushField();
+  if (row.length) {
+    const isEmpty = row.every((cell) => cell === "");
+    if (!isEmpty || rows.length === 0) rows.push(row);
+  }
+
+  if (!rows.length) return [] as string[][];
+  const maxColumns = rows.reduce((max, current) => Math.max(max, current.length), 0);
+  return rows.map((current) =>
+    current.length === maxColumns ? current : [...current, ...Array(maxColumns - current.length).fill("")]
+  );
+}
+
+export function clampMapping(mapping: ColumnMapping, columnCount: number): ColumnMapping {
+  return Object.fromEntries(
+    Object.entries(mapping).map(([key, value]) => [
+      key,
+      value === null || value < 0 || value >= columnCount ? null : value,
+    ])
+  );
+}
+
+/**
+ * Matches headers against each column's keywords, then assigns the remaining
+ * CSV columns to required fields that are still unmapped (in declaration order).
+ */
+export function guessMapping(columns: ImportColumn[], headers: string[]): ColumnMapping {
+  const guess = createEmptyMapping(columns);
+  if (!headers.length) return guess;
+  const normalized = headers.map((header) => header.trim().toLowerCase());
+  const available = new Set<number>(headers.map((_, index) => index));
+
+  const take = (keywords: string[]) => {
+    for (const keyword of keywords) {
+      const matchIndex = normalized.findIndex((name, index) => available.has(index) && name.includes(keyword));
+      if (matchIndex !== -1) {
+        available.delete(matchIndex);
+        return matchIndex;
+      }
+    }
+    return null;
+  };
+
+  columns.forEach((column) => {
+    guess[column.key] = take(column.keywords);
+  });
+
+  columns.forEach((column) => {
+    if (!column.required || guess[column.key] !== null) return;
+    const fallback = [...available][0];
+    if (fallback === undefined) return;
+    available.delete(fallback);
+    guess[column.key] = fallback;
+  });
+
+  return guess;
+}
+
+export function mappingsEqual(a: ColumnMapping, b: ColumnMapping) {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return [...keys].every((key) => a[key] === b[key]);
+}
+
+export type NumericParseResult = { value: number | null; isValid: boolean };
+
+export function parseNumeric(
+  value: string,
+  decimalSeparator: DecimalSeparator,
+  options: { allowBlank?: boolean } = {}
+): NumericParseResult {
+  const { allowBlank = false } = options;
+  const trimmed = value.trim();
+  if (!trimmed) return { value: null, isValid: allowBlank };
+  let normalized = trimmed.replace(/\s+/g, "");
+  if (decimalSeparator === ",") normalized = normalized.replace(/\./g, "").replace(/,/g, ".");
+  else normalized = normalized.replace(/,/g, "");
+  const numeric = Number.parseFloat(normalized);
+  if (Number.isFinite(numeric)) return { value: numeric, isValid: true };
+  return { value: null, isValid: false };
+}
+
+export function createImportedRows(
+  rows: string[][],
+  mapping: ColumnMapping,
+  decimalSeparator: DecimalSeparator
+): ImportedRow[] {
+  return rows.map((row, index) => {
+    const cell = (key: string) => {
+      const columnIndex = mapping[key];
+      return columnIndex === null || columnIndex === undefined ? "" : row[columnIndex] ?? "";
+    };
+    return {
+      index,
+      isMapped: (key) => mapping[key] !== null && mapping[key] !== undefined,
+      text: (key) => cell(key).trim(),
+      number: (key) => parseNumeric(cell(key), decimalSeparator, { allowBlank: true }).value,
+    };
+  });
+}
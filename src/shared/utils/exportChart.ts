@@ -0,0 +1,314 @@
+import type { PageUnit } from "../../types/base";
+import { clamp } from "./chartHelpers";
+import { withPngResolution } from "./pngMetadata";
+import { renderSvgToPdf } from "./svgToPdf";
+import { encodeTiff, type TiffOptions } from "./tiffEncoder";
+
+export type ExportFormat = "png" | "tiff" | "svg" | "pdf";
+
+// Physical output size; the height follows the chart's aspect ratio
+export type PrintSize = {
+  width: number;
+  unit: PageUnit;
+  dpi: number;
+};
+
+export type ExportOptions = {
+  format: ExportFormat;
+  fileName: string;
+  // On-screen exports only: PNG pixels per CSS pixel, multiplied by the device pixel ratio
+  scale: number;
+  transparent: boolean;
+  // Exports at an exact physical size and resolution instead of the on-screen size
+  printSize?: PrintSize;
+  // TIFF only; defaults to LZW-compressed RGB
+  tiff?: TiffOptions;
+};
+
+export const DEFAULT_TIFF_OPTIONS: TiffOptions = { compression: "lzw", colorSpace: "rgb" };
+
+export type ExportCanvas = {
+  width: number;
+  height: number;
+  backgroundColor: string;
+};
+
+export const POINTS_PER_UNIT: Record<PageUnit, number> = { mm: 72 / 25.4, in: 72 };
+const CSS_PIXELS_PER_INCH = 96;
+// Largest canvas area current browsers can allocate
+const MAX_CANVAS_PIXELS = 268_435_456;
+const MAX_CANVAS_SIDE = 32_767;
+
+// Page width in `unit` that prints a chart of `widthPx` CSS pixels at its on-screen size
+export function naturalPageWidth(widthPx: number, unit: PageUnit) {
+  return (widthPx / CSS_PIXELS_PER_INCH) * (72 / POINTS_PER_UNIT[unit]);
+}
+
+// Pixel dimensions of a raster export of a `width` × `height` chart at `printSize`
+export function printPixelSize(width: number, height: number, printSize: PrintSize) {
+  const pixelWidth = Math.max(1, Math.round(((printSize.width * POINTS_PER_UNIT[printSize.unit]) / 72) * printSize.dpi));
+  return { width: pixelWidth, height: Math.max(1, Math.round((pixelWidth * height) / width)) };
+}
+
+// Size in points that text of `fontSize` CSS pixels is printed at when the chart fills `printSize`
+export function printedFontSize(fontSize: number, chartWidth: number, printSize: Pick<PrintSize, "width" | "unit">) {
+  return (fontSize * printSize.width * POINTS_PER_UNIT[printSize.unit]) / chartWidth;
+}
+
+// Smallest font size, in CSS pixels, of the visible text in a rendered chart
+export function findSmallestFontSize(svg: SVGSVGElement): number | null {
+  const sizes = Array.from(svg.querySelectorAll("text"))
+    .filter((text) => text.textContent?.trim() && !text.closest('[data-role="editor"]'))
+    .map((text) => Number.parseFloat(getComputedStyle(text).fontSize))
+    .filter((size) => Number.isFinite(size) && size > 0);
+  return sizes.length ? Math.min(...sizes) : null;
+}
+
+function withExtension(fileName: string, extension: string) {
+  return fileName.endsWith(`.${extension}`) ? fileName : `${fileName}.${extension}`;
+}
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// SVG markup of the chart without the preview-only editor helpers
+function serializeChartSvg(svg: SVGSVGElement, transparent: boolean, printSize?: PrintSize) {
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.querySelectorAll('[data-role="editor"]').forEach((element) => element.remove());
+
+  if (transparent) {
+    const backgroundRect = clone.querySelector('[data-role="background"]') as SVGRectElement | null;
+    if (backgroundRect) {
+      backgroundRect.setAttribute("fill", "transparent");
+    }
+  }
+
+  // The viewBox keeps the drawing intact while width and height carry the physical size
+  if (printSize) {
+    const width = svg.viewBox.baseVal?.width || svg.getBoundingClientRect().width;
+    const height = svg.viewBox.baseVal?.height || svg.getBoundingClientRect().height;
+    const round = (value: number) => Math.round(value * 100) / 100;
+    clone.setAttribute("width", `${round(printSize.width)}${printSize.unit}`);
+    clone.setAttribute("height", `${round((printSize.width * height) / width)}${printSize.unit}`);
+  }
+
+  return new XMLSerializer().serializeToString(clone);
+}
+
+function svgDataUrl(source: string) {
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(source)}`;
+}
+
+/**
+ * Draws the chart onto a canvas. With a print size the canvas has the exact pixel size for
+ * that width and DPI; otherwise it is the on-screen size times `scale` and the device pixel
+ * ratio. Returns the canvas with the resolution it represents.
+ */
+async function rasterizeChart(svg: SVGSVGElement, options: ExportOptions, canvasSize: ExportCanvas) {
+  const { width, height, backgroundColor } = canvasSize;
+  const pixelSize = options.printSize
+    ? printPixelSize(width, height, options.printSize)
+    : (() => {
+        const scale = clamp(options.scale ?? 1, 1, 6) * (window.devicePixelRatio || 1);
+        return { width: Math.round(width * scale), height: Math.round(height * scale) };
+      })();
+  const dpi = options.printSize?.dpi ?? (CSS_PIXELS_PER_INCH * pixelSize.width) / width;
+
+  if (
+    pixelSize.width > MAX_CANVAS_SIDE ||
+    pixelSize.height > MAX_CANVAS_SIDE ||
+    pixelSize.width * pixelSize.height > MAX_CANVAS_PIXELS
+  ) {
+    throw new Error(
+      `The image would be ${pixelSize.width.toLocaleString()} × ${pixelSize.height.toLocaleString()} pixels, which is more than the browser can draw. Choose a lower DPI or a smaller size.`
+    );
+  }
+
+  const svgImage = new Image();
+  await new Promise<void>((resolve, reject) => {
+    svgImage.onload = () => resolve();
+    svgImage.onerror = () => reject(new Error("Failed to load SVG image"));
+    svgImage.src = svgDataUrl(serializeChartSvg(svg, options.transparent));
+  });
+
+  const canvas = document.createElement("canvas");
+  canvas.width = pixelSize.width;
+  canvas.height = pixelSize.height;
+  const context = canvas.getContext("2d");
+  if (!context) {
+    throw new Error("Unable to create canvas context");
+  }
+  context.scale(pixelSize.width / width, pixelSize.height / height);
+  context.imageSmoothingEnabled = true;
+  context.imageSmoothingQuality = "high";
+  if (!options.transparent) {
+    context.fillStyle = backgroundColor;
+    context.fillRect(0, 0, width, height);
+  } else {
+    context.clearRect(0, 0, width, height);
+  }
+  context.drawImage(svgImage, 0, 0, width, height);
+  return { canvas, dpi };
+}
+
+/**
+ * Renders a chart SVG to a file as SVG, PNG, TIFF or PDF without downloading it.
+ * Elements marked with `data-role="background"` are cleared for transparent exports,
+ * and `data-role="editor"` marks preview-only helpers (drag handles, guides) that are dropped.
+ * PDFs are drawn as vectors (see svgToPdf.ts); PNGs record their DPI in a pHYs chunk and
+ * TIFFs in their resolution tags (see tiffEncoder.ts).
+ */
+export async function renderChartFile(
+  svg: SVGSVGElement,
+  options: ExportOptions,
+  canvasSize: ExportCanvas
+): Promise<{ blob: Blob; fileName: string }> {
+  const { width, height } = canvasSize;
+  const safeName = options.fileName.trim() || "chart";
+
+  if (options.format === "svg") {
+    const source = serializeChartSvg(svg, options.transparent, options.printSize);
+    return { blob: new Blob([source], { type: "image/svg+xml" }), fileName: withExtension(safeName, "svg") };
+  }
+
+  if (options.format === "pdf") {
+    const pageUnit = options.printSize?.unit ?? "mm";
+    const pageWidth = options.printSize?.width ?? naturalPageWidth(width, pageUnit);
+    const pageWidthPt = pageWidth * POINTS_PER_UNIT[pageUnit];
+    if (!(pageWidthPt > 0) || width <= 0 || height <= 0) {
+      throw new Error("Invalid PDF page size");
+    }
+    const pdf = await renderSvgToPdf(svg, {
+      width: pageWidthPt,
+      height: (pageWidthPt * height) / width,
+      transparent: options.transparent,
+      imageDpi: options.printSize?.dpi,
+    });
+    return { blob: pdf.output("blob"), fileName: withExtension(safeName, "pdf") };
+  }
+
+  const { canvas, dpi } = await rasterizeChart(svg, options, canvasSize);
+
+  if (options.format === "tiff") {
+    const context = canvas.getContext("2d");
+    if (!context) {
+      throw new Error("Unable to create canvas context");
+    }
+    const image = context.getImageData(0, 0, canvas.width, canvas.height);
+    const bytes = encodeTiff(image, dpi, options.tiff ?? DEFAULT_TIFF_OPTIONS);
+    return { blob: new Blob([bytes], { type: "image/tiff" }), fileName: withExtension(safeName, "tiff") };
+  }
+
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/png"));
+  if (!blob) {
+    throw new Error("Failed to export PNG");
+  }
+  return { blob: await withPngResolution(blob, dpi), fileName: withExtension(safeName, "png") };
+}
+
+// Renders a chart with `renderChartFile` and downloads the result
+export async function exportSvgChart(svg: SVGSVGElement, options: ExportOptions, canvasSize: ExportCanvas) {
+  const { blob, fileName } = await renderChartFile(svg, options, canvasSize);
+  downloadBlob(blob, fileName);
+}
+
+// The rendered chart at `index` inside `container`; icons and other inline SVGs have no background
+export function findChartSvg(container: ParentNode | null, index = 0): SVGSVGElement | null {
+  if (!container) return null;
+  return (
+    Array.from(container.querySelectorAll("svg")).filter((svg) => svg.querySelector('[data-role="background"]'))[index] ??
+    null
+  );
+}
+
+/**
+ * Copies a chart to the clipboard as a PNG at the export scale together with its SVG markup,
+ * so it can be pasted into slides, documents or vector editors. Types the browser cannot
+ * write are left out, down to plain-text SVG where images are not supported.
+ * Returns the MIME types that were written.
+ */
+export async function copySvgChart(
+  svg: SVGSVGElement,
+  options: Pick<ExportOptions, "scale" | "transparent">,
+  canvasSize: ExportCanvas
+): Promise<string[]> {
+  if (!navigator.clipboard) {
+    throw new Error("The clipboard is not available. Use Export chart instead.");
+  }
+  const source = serializeChartSvg(svg, options.transparent);
+
+  if (typeof ClipboardItem !== "undefined" && navigator.clipboard.write) {
+    const canCopy = (type: string) => typeof ClipboardItem.supports !== "function" || ClipboardItem.supports(type);
+    // Started before the clipboard call so browsers that need the write inside the click still accept it,
+    // and only when PNG can be copied so a failed render is always awaited below
+    const png = canCopy("image/png")
+      ? renderChartFile(svg, { ...options, format: "png", fileName: "chart" }, canvasSize).then(({ blob }) => blob)
+      : null;
+    const candidates: Record<string, Promise<Blob> | Blob> = {
+      ...(png ? { "image/png": png } : {}),
+      "image/svg+xml": new Blob([source], { type: "image/svg+xml" }),
+      "text/plain": new Blob([source], { type: "text/plain" }),
+    };
+    const supported = Object.keys(candidates).filter(canCopy);
+    // Browsers without ClipboardItem.supports reject the whole item for one unknown type
+    const withoutSvg = supported.filter((type) => type !== "image/svg+xml");
+    const attempts = withoutSvg.length < supported.length ? [supported, withoutSvg] : [supported];
+    for (const types of attempts) {
+      try {
+        await navigator.clipboard.write([
+          new ClipboardItem(Object.fromEntries(types.map((type) => [type, candidates[type]]))),
+        ]);
+        return types;
+      } catch (error) {
+        console.warn(`Failed to copy the chart as ${types.join(", ")}`, error);
+      }
+    }
+    // Surface a rendering failure rather than silently copying text only
+    if (png) await png;
+  }
+
+  await navigator.clipboard.writeText(source);
+  return ["text/plain"];
+}
+
+/**
+ * Renders a chart to a small JPEG data URL, scaled so its longest side is `maxSize`.
+ * Used for project library previews, where file size matters more than sharpness.
+ */
+export async function renderChartThumbnail(svg: SVGSVGElement, maxSize = 320): Promise<string> {
+  const viewBox = svg.viewBox.baseVal;
+  const bounds = svg.getBoundingClientRect();
+  const width = viewBox && viewBox.width > 0 ? viewBox.width : bounds.width;
+  const height = viewBox && viewBox.height > 0 ? viewBox.height : bounds.height;
+  if (width <= 0 || height <= 0) {
+    throw new Error("Chart has no size to render");
+  }
+  const scale = Math.min(1, maxSize / Math.max(width, height));
+  const encoded = svgDataUrl(serializeChartSvg(svg, false));
+
+  return new Promise<string>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.max(1, Math.round(width * scale));
+      canvas.height = Math.max(1, Math.round(height * scale));
+      const context = canvas.getContext("2d");
+      if (!context) {
+        reject(new Error("Unable to create canvas context"));
+        return;
+      }
+      context.fillStyle = "#0f172a";
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL("image/jpeg", 0.8));
+    };
+    image.onerror = () => reject(new Error("Failed to load SVG image"));
+    image.src = encoded;
+  });
+}
@@ -0,0 +1,123 @@
+import type { BinningRule, HistogramYMode } from "../../types/histogram";
+import { interquartileRange, standardDeviation } from "./statistics";
+
+export type HistogramBin = {
+  x0: number;
+  x1: number;
+  count: number;
+  value: number;
+};
+
+export type BinningOptions = {
+  rule: BinningRule;
+  binWidth: number;
+  binCount: number;
+  binStart: number | null;
+};
+
+// Guards against pathological widths (e.g. a tiny fixed width over a wide range)
+const MAX_BINS = 500;
+
+export const binningRuleOptions: Array<{ value: BinningRule; label: string }> = [
+  { value: "sturges", label: "Sturges" },
+  { value: "scott", label: "Scott" },
+  { value: "freedman-diaconis", label: "Freedman–Diaconis" },
+  { value: "fixed-width", label: "Fixed width" },
+  { value: "fixed-count", label: "Fixed count" },
+];
+
+export const histogramYModeOptions: Array<{ value: HistogramYMode; label: string }> = [
+  { value: "count", label: "Count" },
+  { value: "density", label: "Density" },
+  { value: "cumulative", label: "Cumulative count" },
+];
+
+function sturgesCount(count: number) {
+  return Math.ceil(Math.log2(count)) + 1;
+}
+
+/** Bin width for the chosen rule; `null` means the rule yields a bin count instead. */
+function ruleWidth(sorted: number[], options: BinningOptions): number | null {
+  const count = sorted.length;
+  switch (options.rule) {
+    case "scott":
+      return (3.49 * standardDeviation(sorted)) / Math.cbrt(count);
+    case "freedman-diaconis": {
+      const width = (2 * interquartileRange(sorted)) / Math.cbrt(count);
+      // A zero IQR (heavily tied data) would collapse every bin, so fall back to Scott
+      return width > 0 ? width : (3.49 * standardDeviation(sorted)) / Math.cbrt(count);
+    }
+    case "fixed-width":
+      return options.binWidth;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Splits the values into adjacent bins. Bins are half-open [x0, x1) except the
+ * last one, which also takes values equal to its upper edge.
+ */
+export function computeHistogramBins(values: number[], options: BinningOptions): HistogramBin[] {
+  const sorted = values.filter((value) => Number.isFinite(value)).sort((a, b) => a - b);
+  if (!sorted.length) return [];
+
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+  const range = max - min;
+
+  let width = ruleWidth(sorted, options);
+  let start: number;
+  if (width !== null && width > 0) {
+    // Width-based rules snap the first edge to a multiple of the width for tidy edges
+    start = options.binStart ?? Math.floor(min / width) * width;
+  } else {
+    const count = options.rule === "fixed-count" ? Math.max(Math.round(options.binCount), 1) : sturgesCount(sorted.length);
+    start = options.binStart ?? min;
+    width = (max - start) / count;
+  }
+
+  if (!(width > 0)) {
+    // All observations are equal (or sit on the start edge): one unit-wide bin around them
+    width = range > 0 ? range : 1;
+    start = options.binStart ?? min - width / 2;
+  }
+
+  const binCount = Math.min(Math.max(Math.ceil((max - start) / width), 1), MAX_BINS);
+  if (start + binCount * width < max) {
+    width = (max - start) / binCount;
+  }
+
+  const bins: HistogramBin[] = Array.from({ length: binCount }, (_, index) => ({
+    x0: start + index * width,
+    x1: start + (index + 1) * width,
+    count: 0,
+    value: 0,
+  }));
+
+  sorted.forEach((value) => {
+    if (value < start) return;
+    const index = Math.min(Math.floor((value - start) / width), binCount - 1);
+    bins[index].count += 1;
+  });
+
+  return bins;
+}
+
+/** Fills in each bin's plotted height for the chosen y-mode. */
+export function applyHistogramMode(bins: HistogramBin[], mode: HistogramYMode, total: number): HistogramBin[] {
+  let running = 0;
+  return bins.map((bin) => {
+    running += bin.count;
+    const width = bin.x1 - bin.x0;
+    switch (mode) {
+      case "density":
+        return { ...bin, value: total > 0 && width > 0 ? bin.count / (total * width) : 0 };
+      case "cumulative":
+        return { ...bin, value: running };
+      case "count":
+      default:
+        return { ...bin, value: bin.count };
+    }
+  });
+}
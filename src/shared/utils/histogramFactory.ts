@@ -0,0 +1,31 @@
+import type { HistogramObservation } from "../../types/histogram";
+import type { ImportColumn, ImportedRow } from "./csvImport";
+import { randomId } from "./randomId";
+
+export function createObservation(index: number, value = 0): HistogramObservation {
+  return {
+    id: randomId(),
+    label: `Observation ${index + 1}`,
+    value,
+  };
+}
+
+export const histogramImportColumns: ImportColumn[] = [
+  {
+    key: "value",
+    label: "Value",
+    description: "Raw numeric observation; the chart bins these itself",
+    keywords: ["value", "observation", "measurement", "x", "y"],
+    required: true,
+    missingMessage: "Choose a column that holds the observations.",
+  },
+];
+
+/** Non-numeric cells (blanks, "NA", …) are skipped rather than counted as zero. */
+export function createObservationsFromImport(rows: ImportedRow[]): HistogramObservation[] {
+  return rows.flatMap((row) => {
+    const value = row.number("value");
+    if (value === null) return [];
+    return [createObservation(row.index, value)];
+  });
+}
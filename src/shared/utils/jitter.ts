@@ -0,0 +1,9 @@
+/**
+ * Deterministic offset in [-0.5, 0.5) for the point at (`group`, `index`).
+ * Raw points keep their horizontal position between renders instead of jumping
+ * around the way Math.random() would.
+ */
+export function jitterOffset(group: number, index: number) {
+  const seed = Math.sin(group * 78.233 + index * 12.9898 + 1) * 43758.5453;
+  return seed - Math.floor(seed) - 0.5;
+}
@@ -0,0 +1,85 @@
+import type { LegendSettings } from "../../types/bar";
+
+export type LegendMargin = {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+};
+
+export type LegendLayout = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  itemHeight: number;
+};
+
+/**
+ * Places the legend box on the canvas. Text width is estimated from the font size
+ * since SVG text cannot be measured before it is rendered.
+ */
+export function computeLegendLayout(
+  legend: LegendSettings,
+  labels: string[],
+  canvas: { width: number; height: number },
+  margin: LegendMargin,
+  swatchWidth: number = legend.markerSize
+): LegendLayout {
+  const itemHeight = Math.max(legend.markerSize, legend.fontSize) + legend.itemSpacing;
+  const width =
+    Math.max(
+      ...labels.map((label) => {
+        const textWidth = label.length * legend.fontSize * 0.6;
+        return swatchWidth + legend.markerSpacing + textWidth;
+      })
+    ) +
+    legend.paddingX * 2;
+  const height = labels.length * itemHeight - legend.itemSpacing + legend.paddingY * 2;
+
+  let x = 0;
+  let y = 0;
+
+  switch (legend.position) {
+    case "top":
+      x = (canvas.width - width) / 2;
+      y = margin.top / 2 - height / 2;
+      break;
+    case "bottom":
+      x = (canvas.width - width) / 2;
+      y = canvas.height - margin.bottom / 2 - height / 2;
+      break;
+    case "left":
+      x = margin.left / 2 - width / 2;
+      y = (canvas.height - height) / 2;
+      break;
+    case "right":
+      x = canvas.width - margin.right / 2 - width / 2;
+      y = (canvas.height - height) / 2;
+      break;
+    case "top-left":
+      x = margin.left + 10;
+      y = margin.top + 10;
+      break;
+    case "top-right":
+      x = canvas.width - margin.right - width - 10;
+      y = margin.top + 10;
+      break;
+    case "bottom-left":
+      x = margin.left + 10;
+      y = canvas.height - margin.bottom - height - 10;
+      break;
+    case "bottom-right":
+      x = canvas.width - margin.right - width - 10;
+      y = canvas.height - margin.bottom - height - 10;
+      break;
+  }
+
+  return {
+    x: x + legend.offsetX,
+    y: y + legend.offsetY,
+    width,
+    height,
+    itemHeight,
+  };
+}
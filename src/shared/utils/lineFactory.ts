@@ -0,0 +1,93 @@
+import type { PaletteKey } from "../../types/base";
+import type { LineDataPoint, LineSeries } from "../../types/line";
+import { defaultPalette } from "./barFactory";
+import type { ImportColumn, ImportedRow } from "./csvImport";
+import { palettes } from "./palettes";
+import { randomId } from "./randomId";
+
+export function createSeries(index: number, paletteName: PaletteKey = "vibrant", name?: string): LineSeries {
+  const palette = palettes[paletteName] ?? defaultPalette;
+  return {
+    id: randomId(),
+    name: name ?? `Series ${index + 1}`,
+    color: palette[index % palette.length],
+    lineWidth: 2,
+    dashStyle: "solid",
+    interpolation: "linear",
+    showMarkers: true,
+    markerShape: "circle",
+    markerSize: 7,
+    showArea: false,
+    areaOpacity: 0.2,
+  };
+}
+
+export function createLineRow(index: number, series: LineSeries[], x: number = index + 1): LineDataPoint {
+  return {
+    id: randomId(),
+    label: `Row ${index + 1}`,
+    x,
+    values: Object.fromEntries(series.map((item) => [item.id, null])),
+  };
+}
+
+export const lineImportColumns: ImportColumn[] = [
+  {
+    key: "x",
+    label: "X",
+    description: "Numeric position on the horizontal axis",
+    keywords: ["x", "time", "date", "day", "year"],
+    required: true,
+    missingMessage: "Choose a column to use for the X values.",
+  },
+  {
+    key: "value",
+    label: "Value",
+    description: "Numeric Y value; empty cells become gaps in the line",
+    keywords: ["value", "y", "amount", "count", "score"],
+    required: true,
+    missingMessage: "Choose a column to use for the values.",
+  },
+  {
+    key: "series",
+    label: "Series",
+    description: "Optional series name; rows sharing a name form one line",
+    keywords: ["series", "group", "line", "name", "category"],
+  },
+];
+
+/**
+ * Builds series and rows from long-format data (one X/value pair per line).
+ * Rows with the same X value are merged; rows without a numeric X are skipped.
+ */
+export function createLineDataFromImport(
+  rows: ImportedRow[],
+  paletteName: PaletteKey = "vibrant"
+): { series: LineSeries[]; data: LineDataPoint[] } {
+  const seriesByName = new Map<string, LineSeries>();
+  const rowsByX = new Map<number, Record<string, number | null>>();
+
+  rows.forEach((row) => {
+    const x = row.number("x");
+    if (x === null) return;
+    const name = row.text("series") || "Series 1";
+    let series = seriesByName.get(name);
+    if (!series) {
+      series = createSeries(seriesByName.size, paletteName, name);
+      seriesByName.set(name, series);
+    }
+    const values = rowsByX.get(x) ?? {};
+    values[series.id] = row.number("value");
+    rowsByX.set(x, values);
+  });
+
+  const series = Array.from(seriesByName.values());
+  const data = Array.from(rowsByX.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([x, values], index) => {
+      const row = createLineRow(index, series, x);
+      return { ...row, values: { ...row.values, ...values } };
+    });
+
+  return { series, data };
+}
@@ -0,0 +1,146 @@
+import type { LineDashStyle, LineInterpolation } from "../../types/line";
+
+export type PathPoint = {
+  x: number;
+  y: number;
+};
+
+export const interpolationOptions: Array<{ value: LineInterpolation; label: string }> = [
+  { value: "linear", label: "Linear" },
+  { value: "step", label: "Step" },
+  { value: "monotone", label: "Smooth (monotone)" },
+];
+
+export const dashStyleOptions: Array<{ value: LineDashStyle; label: string }> = [
+  { value: "solid", label: "Solid" },
+  { value: "dashed", label: "Dashed" },
+  { value: "dotted", label: "Dotted" },
+  { value: "dash-dot", label: "Dash-dot" },
+];
+
+/** Dash lengths scale with the stroke width so patterns stay legible on thick lines. */
+export function getLineDashArray(style: LineDashStyle, lineWidth: number) {
+  const unit = Math.max(lineWidth, 1);
+  switch (style) {
+    case "dashed":
+      return `${unit * 4} ${unit * 2}`;
+    case "dotted":
+      return `${unit} ${unit * 1.5}`;
+    case "dash-dot":
+      return `${unit * 4} ${unit * 1.5} ${unit} ${unit * 1.5}`;
+    case "solid":
+    default:
+      return "none";
+  }
+}
+
+/** Splits a sequence at missing values so each run can be drawn as its own line. */
+export function splitAtGaps(points: Array<PathPoint | null>): PathPoint[][] {
+  const segments: PathPoint[][] = [];
+  let current: PathPoint[] = [];
+
+  points.forEach((point) => {
+    if (point) {
+      current.push(point);
+      return;
+    }
+    if (current.length) {
+      segments.push(current);
+      current = [];
+    }
+  });
+
+  if (current.length) {
+    segments.push(current);
+  }
+
+  return segments;
+}
+
+/**
+ * Tangents for a monotone cubic (Fritsch–Carlson), so the curve never overshoots
+ * between two data points. Points must be sorted by x.
+ */
+function monotoneTangents(points: PathPoint[]) {
+  const count = points.length;
+  const slopes: number[] = [];
+  for (let i = 0; i < count - 1; i += 1) {
+    const dx = points[i + 1].x - points[i].x;
+    slopes.push(dx === 0 ? 0 : (points[i + 1].y - points[i].y) / dx);
+  }
+
+  const tangents = new Array<number>(count);
+  tangents[0] = slopes[0];
+  tangents[count - 1] = slopes[count - 2];
+  for (let i = 1; i < count - 1; i += 1) {
+    tangents[i] = slopes[i - 1] * slopes[i] <= 0 ? 0 : (slopes[i - 1] + slopes[i]) / 2;
+  }
+
+  for (let i = 0; i < count - 1; i += 1) {
+    if (slopes[i] === 0) {
+      tangents[i] = 0;
+      tangents[i + 1] = 0;
+      continue;
+    }
+    const alpha = tangents[i] / slopes[i];
+    const beta = tangents[i + 1] / slopes[i];
+    const magnitude = alpha * alpha + beta * beta;
+    if (magnitude > 9) {
+      const tau = 3 / Math.sqrt(magnitude);
+      tangents[i] = tau * alpha * slopes[i];
+      tangents[i + 1] = tau * beta * slopes[i];
+    }
+  }
+
+  return tangents;
+}
+
+/** Path commands after the initial move-to, so callers can splice segments into areas. */
+function createSegmentCommands(points: PathPoint[], interpolation: LineInterpolation) {
+  if (points.length < 2) return [];
+
+  switch (interpolation) {
+    case "step":
+      // Step-after: hold each value until the next X position
+      return points.slice(1).map((point) => `H ${point.x} V ${point.y}`);
+    case "monotone": {
+      const tangents = monotoneTangents(points);
+      return points.slice(1).map((point, index) => {
+        const previous = points[index];
+        const third = (point.x - previous.x) / 3;
+        return [
+          "C",
+          previous.x + third,
+          previous.y + tangents[index] * third,
+          point.x - third,
+          point.y - tangents[index + 1] * third,
+          point.x,
+          point.y,
+        ].join(" ");
+      });
+    }
+    case "linear":
+    default:
+      return points.slice(1).map((point) => `L ${point.x} ${point.y}`);
+  }
+}
+
+export function createLinePath(points: PathPoint[], interpolation: LineInterpolation) {
+  if (!points.length) return "";
+  const [first] = points;
+  return [`M ${first.x} ${first.y}`, ...createSegmentCommands(points, interpolation)].join(" ");
+}
+
+/** Closes a line segment down to `baselineY` (canvas coordinates) for area fills. */
+export function createAreaPath(points: PathPoint[], interpolation: LineInterpolation, baselineY: number) {
+  if (points.length < 2) return "";
+  const first = points[0];
+  const last = points[points.length - 1];
+  return [
+    `M ${first.x} ${baselineY}`,
+    `L ${first.x} ${first.y}`,
+    ...createSegmentCommands(points, interpolation),
+    `L ${last.x} ${baselineY}`,
+    "Z",
+  ].join(" ");
+}
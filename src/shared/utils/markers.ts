@@ -0,0 +1,41 @@
+import type { ScatterPointShape } from "../../types/scatter";
+
+export const markerShapeOptions: Array<{ value: ScatterPointShape; label: string }> = [
+  { value: "circle", label: "Circle" },
+  { value: "square", label: "Square" },
+  { value: "triangle", label: "Triangle" },
+  { value: "diamond", label: "Diamond" },
+];
+
+/**
+ * Builds an SVG path for a marker centred on (cx, cy).
+ * `size` is the marker's outer width in pixels.
+ */
+export function createMarkerPath(shape: ScatterPointShape, cx: number, cy: number, size: number) {
+  const half = Math.max(size, 0) / 2;
+
+  switch (shape) {
+    case "square":
+      return `M ${cx - half} ${cy - half} H ${cx + half} V ${cy + half} H ${cx - half} Z`;
+    case "triangle": {
+      // Equilateral triangle with its centroid on the data point
+      const height = half * Math.sqrt(3);
+      return [
+        `M ${cx} ${cy - (height * 2) / 3}`,
+        `L ${cx + half} ${cy + height / 3}`,
+        `L ${cx - half} ${cy + height / 3}`,
+        "Z",
+      ].join(" ");
+    }
+    case "diamond":
+      return `M ${cx} ${cy - half} L ${cx + half} ${cy} L ${cx} ${cy + half} L ${cx - half} ${cy} Z`;
+    case "circle":
+    default:
+      return [
+        `M ${cx - half} ${cy}`,
+        `A ${half} ${half} 0 1 0 ${cx + half} ${cy}`,
+        `A ${half} ${half} 0 1 0 ${cx - half} ${cy}`,
+        "Z",
+      ].join(" ");
+  }
+}
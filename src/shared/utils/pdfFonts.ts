@@ -0,0 +1,161 @@
+import type { jsPDF } from "jspdf";
+
+export type PdfFontRequest = {
+  family: string;
+  weight: number;
+  italic: boolean;
+};
+
+type EmbeddableFamily = {
+  // Package name on the Fontsource CDN
+  id: string;
+  weights: number[];
+};
+
+// Pinned so an upstream release cannot change exported PDFs; bump together with a check of the output
+const FONTSOURCE_VERSION = "5.3.0";
+
+// Shown in the export dialogs when PDF is selected
+export const PDF_FONT_SOURCE_NOTICE =
+  "Inter, Poppins and JetBrains Mono are downloaded from cdn.jsdelivr.net when the PDF is created. Offline, a standard PDF font is used instead.";
+
+// The families offered in the font pickers (see constants/fonts.ts); other stacks fall back to the PDF standard fonts
+const EMBEDDABLE_FAMILIES: Record<string, EmbeddableFamily> = {
+  inter: { id: "inter", weights: [100, 200, 300, 400, 500, 600, 700, 800, 900] },
+  poppins: { id: "poppins", weights: [100, 200, 300, 400, 500, 600, 700, 800, 900] },
+  "jetbrains mono": { id: "jetbrains-mono", weights: [100, 200, 300, 400, 500, 600, 700, 800] },
+};
+
+const MONOSPACE_FAMILIES = ["monospace", "ui-monospace", "sfmono-regular", "menlo", "monaco", "consolas", "courier new", "courier", "liberation mono"];
+const SERIF_FAMILIES = ["serif", "times", "times new roman", "georgia", "garamond", "cambria"];
+
+// Neither the embedded `latin` subsets nor the standard fonts (WinAnsi) have the superscripts
+// of power tick labels other than ¹ ² ³, so 10⁻³ would print with missing glyphs
+const SUPERSCRIPT_DIGITS: Record<string, string> = {
+  "⁻": "-",
+  "⁰": "0",
+  "¹": "1",
+  "²": "2",
+  "³": "3",
+  "⁴": "4",
+  "⁵": "5",
+  "⁶": "6",
+  "⁷": "7",
+  "⁸": "8",
+  "⁹": "9",
+};
+
+const fontFileCache = new Map<string, Promise<string | null>>();
+
+function splitFamilies(fontFamily: string) {
+  return fontFamily
+    .split(",")
+    .map((family) => family.trim().replace(/^["']|["']$/g, "").toLowerCase())
+    .filter(Boolean);
+}
+
+function nearestWeight(weights: number[], weight: number) {
+  return weights.reduce((best, candidate) => (Math.abs(candidate - weight) < Math.abs(best - weight) ? candidate : best));
+}
+
+function resolveEmbeddedFont(request: PdfFontRequest) {
+  const family = splitFamilies(request.family).find((name) => name in EMBEDDABLE_FAMILIES);
+  if (!family) return null;
+  const { id, weights } = EMBEDDABLE_FAMILIES[family];
+  const weight = nearestWeight(weights, request.weight);
+  const style = request.italic ? "italic" : "normal";
+  return {
+    key: `${id}-${weight}-${style}`,
+    url: `https://cdn.jsdelivr.net/fontsource/fonts/${id}@${FONTSOURCE_VERSION}/latin-${weight}-${style}.ttf`,
+  };
+}
+
+function toBase64(buffer: ArrayBuffer) {
+  const bytes = new Uint8Array(buffer);
+  let binary = "";
+  const chunkSize = 0x8000;
+  for (let index = 0; index < bytes.length; index += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(index, index + chunkSize));
+  }
+  return btoa(binary);
+}
+
+function loadFontFile(key: string, url: string) {
+  let pending = fontFileCache.get(key);
+  if (!pending) {
+    pending = fetch(url)
+      .then((response) => {
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        return response.arrayBuffer();
+      })
+      .then(toBase64)
+      .catch((error: unknown) => {
+        console.warn(`Failed to load ${key} for PDF export, using a standard font instead`, error);
+        // Forget the failure so the next export tries again
+        fontFileCache.delete(key);
+        return null;
+      });
+    fontFileCache.set(key, pending);
+  }
+  return pending;
+}
+
+function standardFont(request: PdfFontRequest) {
+  const families = splitFamilies(request.family);
+  const name = families.some((family) => MONOSPACE_FAMILIES.includes(family))
+    ? "courier"
+    : families.some((family) => SERIF_FAMILIES.includes(family))
+      ? "times"
+      : "helvetica";
+  const bold = request.weight >= 600;
+  const style = bold && request.italic ? "bolditalic" : bold ? "bold" : request.italic ? "italic" : "normal";
+  return { name, style };
+}
+
+// Rewrites characters both font sources lack: 10⁻³ becomes 10^-3 (10² is kept) and the Greek mu
+// of units such as μM becomes the micro sign
+function toLatinText(text: string) {
+  return text
+    .replace(/\u03bc/g, "\u00b5")
+    .replace(/[⁻⁰¹²³⁴⁵⁶⁷⁸⁹]+/g, (run) =>
+      /[^¹²³]/.test(run) ? `^${Array.from(run, (character) => SUPERSCRIPT_DIGITS[character]).join("")}` : run
+    );
+}
+
+/**
+ * Embeds the fonts a chart uses into `pdf` so its text stays selectable and looks the same
+ * as in the editor. Font files are fetched from the Fontsource CDN once per session; when a
+ * file cannot be loaded (offline, blocked CDN) the text falls back to the closest PDF standard font.
+ * Returns a function that selects the font for a request on `pdf` and returns `text` as it
+ * should be drawn in that font.
+ */
+export async function embedPdfFonts(pdf: jsPDF, requests: PdfFontRequest[]) {
+  const embedded = new Set<string>();
+  const files = new Map<string, string>();
+  requests.forEach((request) => {
+    const font = resolveEmbeddedFont(request);
+    if (font) files.set(font.key, font.url);
+  });
+
+  await Promise.all(
+    Array.from(files, async ([key, url]) => {
+      const data = await loadFontFile(key, url);
+      if (!data) return;
+      pdf.addFileToVFS(`${key}.ttf`, data);
+      pdf.addFont(`${key}.ttf`, key, "normal", "normal", "Identity-H");
+      embedded.add(key);
+    })
+  );
+
+  return (request: PdfFontRequest, text: string) => {
+    const font = resolveEmbeddedFont(request);
+    if (font && embedded.has(font.key)) {
+      pdf.setFont(font.key, "normal");
+      return toLatinText(text);
+    }
+    const fallback = standardFont(request);
+    pdf.setFont(fallback.name, fallback.style);
+    // The `latin` subsets have the minus sign, WinAnsi does not
+    return toLatinText(text).replace(/\u2212/g, "-");
+  };
+}
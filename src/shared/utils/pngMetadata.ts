@@ -0,0 +1,50 @@
+import { crc32 } from "./crc32";
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const METERS_PER_INCH = 0.0254;
+
+function chunkType(bytes: Uint8Array, offset: number) {
+  return String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+}
+
+/**
+ * Returns a copy of a PNG that records `dpi` in a pHYs chunk, so layout and print software
+ * place it at the intended physical size instead of assuming 72 or 96 DPI.
+ * Any existing pHYs chunk is replaced; files that are not PNGs are returned unchanged.
+ */
+export async function withPngResolution(blob: Blob, dpi: number): Promise<Blob> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  if (!(dpi > 0) || !PNG_SIGNATURE.every((value, index) => bytes[index] === value)) {
+    return blob;
+  }
+
+  const parts: Uint8Array[] = [bytes.subarray(0, PNG_SIGNATURE.length)];
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 12 <= bytes.length) {
+    const length = new DataView(bytes.buffer, bytes.byteOffset + offset, 4).getUint32(0);
+    const type = chunkType(bytes, offset);
+    const end = offset + 12 + length;
+    if (type !== "pHYs") {
+      parts.push(bytes.subarray(offset, end));
+    }
+    // pHYs has to come before the image data; right after the header is always valid
+    if (type === "IHDR") {
+      parts.push(createPhysChunk(dpi));
+    }
+    offset = end;
+  }
+  return new Blob(parts, { type: "image/png" });
+}
+
+function createPhysChunk(dpi: number) {
+  const chunk = new Uint8Array(21);
+  const view = new DataView(chunk.buffer);
+  const pixelsPerMeter = Math.round(dpi / METERS_PER_INCH);
+  view.setUint32(0, 9);
+  chunk.set([0x70, 0x48, 0x59, 0x73], 4); // "pHYs"
+  view.setUint32(8, pixelsPerMeter);
+  view.setUint32(12, pixelsPerMeter);
+  chunk[16] = 1; // Unit: meter
+  view.setUint32(17, crc32(chunk, 4, 17));
+  return chunk;
+}
@@ -0,0 +1,78 @@
+import type { PaletteKey } from "../../types/base";
+import type { ScatterDataPoint } from "../../types/scatter";
+import { defaultPalette } from "./barFactory";
+import type { ImportColumn, ImportedRow } from "./csvImport";
+import { palettes } from "./palettes";
+import { randomId } from "./randomId";
+
+export function createPoint(index: number, paletteName: PaletteKey = "vibrant"): ScatterDataPoint {
+  const palette = palettes[paletteName] ?? defaultPalette;
+  const color = palette[index % palette.length];
+  return {
+    id: randomId(),
+    label: `Point ${index + 1}`,
+    x: (index + 1) * 10,
+    y: 10,
+    size: 8,
+    fillColor: color,
+    borderColor: "#0f172a",
+    borderWidth: 1,
+    opacity: 0.8,
+    shape: "circle",
+  };
+}
+
+export const scatterImportColumns: ImportColumn[] = [
+  {
+    key: "label",
+    label: "Label",
+    description: "Optional name shown for each point",
+    keywords: ["label", "name", "title"],
+  },
+  {
+    key: "x",
+    label: "X",
+    description: "Numeric position on the horizontal axis",
+    keywords: ["x"],
+    required: true,
+    missingMessage: "Choose a column to use for the X values.",
+  },
+  {
+    key: "y",
+    label: "Y",
+    description: "Numeric position on the vertical axis",
+    keywords: ["y"],
+    required: true,
+    missingMessage: "Choose a column to use for the Y values.",
+  },
+  {
+    key: "size",
+    label: "Size",
+    description: "Optional point size in pixels",
+    keywords: ["size", "radius", "weight"],
+  },
+];
+
+/** Rows without a numeric X or Y value are skipped rather than plotted at zero. */
+export function createPointsFromImport(
+  rows: ImportedRow[],
+  paletteName: PaletteKey = "vibrant",
+  defaultSize = 8
+): ScatterDataPoint[] {
+  return rows.flatMap((row) => {
+    const x = row.number("x");
+    const y = row.number("y");
+    if (x === null || y === null) return [];
+    const defaults = createPoint(row.index, paletteName);
+    const size = row.number("size");
+    return [
+      {
+        ...defaults,
+        label: row.text("label") || `Point ${row.index + 1}`,
+        x,
+        y,
+        size: size !== null && size > 0 ? size : defaultSize,
+      },
+    ];
+  });
+}
@@ -0,0 +1,262 @@
+import type { AxisSettings } from "../../types/base";
+
+export type ProjectDocument = Record<string, unknown>;
+
+// Upgrades a document from the version it is keyed under to the next version
+export type ProjectMigration = (document: ProjectDocument) => ProjectDocument;
+
+export type ProjectSchema = {
+  kind: string;
+  label: string;
+  version: number;
+  migrations: Record<number, ProjectMigration>;
+  // Version of documents written before the version field existed
+  detectLegacyVersion?: (document: ProjectDocument) => number | null;
+};
+
+export type ProjectReadResult =
+  | { ok: true; document: ProjectDocument; migratedFrom: number }
+  | { ok: false; errors: string[] };
+
+export const PROJECT_FILE_EXTENSION = ".json";
+
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Short description of a value for validation messages, e.g. `"abc"` or `a list`
+export function describeValue(value: unknown): string {
+  if (value === null) return "empty";
+  if (Array.isArray(value)) return "a list";
+  if (typeof value === "string") {
+    return value.length > 24 ? `"${value.slice(0, 24)}…"` : `"${value}"`;
+  }
+  if (typeof value === "object") return "an object";
+  return String(value);
+}
+
+export type ValueKind = "number" | "string" | "boolean" | "list" | "object" | "empty";
+
+const kindLabels: Record<ValueKind, string> = {
+  number: "a number",
+  string: "text",
+  boolean: "true or false",
+  list: "a list",
+  object: "a group of settings",
+  empty: "empty",
+};
+
+function kindOf(value: unknown): ValueKind {
+  if (value === null) return "empty";
+  if (Array.isArray(value)) return "list";
+  if (typeof value === "number") return "number";
+  if (typeof value === "string") return "string";
+  if (typeof value === "boolean") return "boolean";
+  return "object";
+}
+
+export const isFiniteNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
+
+// Allowed values of fields limited to a fixed set of options, keyed by field name. Fields of
+// nested groups use a dotted path such as "legend.position".
+export type FieldChoices = Record<string, readonly unknown[]>;
+
+export const optionValues = <T,>(options: Array<{ value: T }>) => options.map((option) => option.value);
+
+const GRID_LINE_STYLES: Array<AxisSettings["gridLineStyle"]> = ["solid", "dashed", "dotted"];
+
+// Choices of the shared axis settings in each of the named axis groups
+export function axisFieldChoices(groups: string[]): FieldChoices {
+  return Object.fromEntries(groups.map((group) => [`${group}.gridLineStyle`, GRID_LINE_STYLES]));
+}
+
+function nestedChoices(choices: FieldChoices, key: string): FieldChoices {
+  const prefix = `${key}.`;
+  return Object.fromEntries(
+    Object.entries(choices)
+      .filter(([field]) => field.startsWith(prefix))
+      .map(([field, allowed]) => [field.slice(prefix.length), allowed])
+  );
+}
+
+/**
+ * Copies `stored` over `template`, keeping the template value (and recording an issue)
+ * wherever a stored field has the wrong type. Fields the template does not define are
+ * optional and passed through; nested groups such as axes are merged the same way.
+ * Fields listed in `choices` must also hold one of their allowed values.
+ */
+export function mergeChecked<T extends object>(
+  template: T,
+  stored: unknown,
+  path: string,
+  issues: string[],
+  choices: FieldChoices = {}
+): T {
+  if (stored === undefined) return template;
+  if (!isPlainObject(stored)) {
+    issues.push(`${path} should be ${kindLabels.object}, found ${describeValue(stored)}.`);
+    return template;
+  }
+
+  const result: Record<string, unknown> = { ...(template as Record<string, unknown>) };
+  Object.entries(stored).forEach(([key, value]) => {
+    const expected = (template as Record<string, unknown>)[key];
+    const fieldPath = `${path} › ${key}`;
+    if (value === undefined) return;
+    if (expected === undefined) {
+      result[key] = value;
+    } else if (expected === null) {
+      // Nullable numbers such as axis limits, where empty means "automatic"
+      if (value === null || isFiniteNumber(value)) {
+        result[key] = value;
+      } else {
+        issues.push(`${fieldPath} should be a number or empty, found ${describeValue(value)}.`);
+      }
+    } else if (isPlainObject(expected)) {
+      result[key] = mergeChecked(expected, value, fieldPath, issues, nestedChoices(choices, key));
+    } else if (kindOf(value) !== kindOf(expected)) {
+      issues.push(`${fieldPath} should be ${kindLabels[kindOf(expected)]}, found ${describeValue(value)}.`);
+    } else if (choices[key] && !choices[key].includes(value)) {
+      const allowed = choices[key].map(describeValue).join(", ");
+      issues.push(`${fieldPath} should be one of ${allowed}, found ${describeValue(value)}.`);
+    } else {
+      result[key] = value;
+    }
+  });
+  return result as T;
+}
+
+// Wording for the expected kind of value in validation messages, e.g. "a group of settings"
+export function describeExpected(kind: ValueKind) {
+  return kindLabels[kind];
+}
+
+// Drops list entries that are not objects or lack required text fields such as `id`
+export function checkElements(
+  list: unknown[],
+  path: string,
+  itemLabel: string,
+  requiredText: readonly string[],
+  issues: string[]
+) {
+  return list.filter((item, index) => {
+    const itemPath = `${path} › ${itemLabel} ${index + 1}`;
+    if (!isPlainObject(item)) {
+      issues.push(`${itemPath} should be ${kindLabels.object}, found ${describeValue(item)}.`);
+      return false;
+    }
+    const missing = requiredText.filter((field) => typeof item[field] !== "string" || !item[field]);
+    if (missing.length) {
+      issues.push(`${itemPath} is missing its ${missing.join(" and ")}.`);
+      return false;
+    }
+    return true;
+  });
+}
+
+export function readProjectDocument(text: string, schema: ProjectSchema): ProjectReadResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    return { ok: false, errors: [`The file is not valid JSON (${reason}).`] };
+  }
+  return upgradeProjectDocument(parsed, schema);
+}
+
+/**
+ * Checks that `parsed` is a project of the schema's kind and upgrades it to the current
+ * version. Each migration only has to know about the version directly before it; anything
+ * a migration leaves out is filled in from defaults by the chart's own normalisation.
+ */
+export function upgradeProjectDocument(parsed: unknown, schema: ProjectSchema): ProjectReadResult {
+  if (!isPlainObject(parsed)) {
+    return { ok: false, errors: [`The file does not contain a ${schema.label} project.`] };
+  }
+
+  if (parsed.kind !== undefined && parsed.kind !== schema.kind) {
+    return {
+      ok: false,
+      errors: [`This is a ${describeValue(parsed.kind)} project, not a ${schema.label} project.`],
+    };
+  }
+
+  const version = parsed.version ?? schema.detectLegacyVersion?.(parsed) ?? null;
+  if (version === null) {
+    return { ok: false, errors: [`The file does not contain a ${schema.label} project.`] };
+  }
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 1) {
+    return {
+      ok: false,
+      errors: [`The project version is missing or invalid (found ${describeValue(version)}).`],
+    };
+  }
+  if (version > schema.version) {
+    return {
+      ok: false,
+      errors: [
+        `The project was saved by a newer version of the studio (format ${version}); this version reads up to format ${schema.version}.`,
+      ],
+    };
+  }
+
+  let upgraded: ProjectDocument = parsed;
+  for (let current = version; current < schema.version; current += 1) {
+    const migrate = schema.migrations[current];
+    if (!migrate) {
+      return { ok: false, errors: [`Projects in format ${current} can no longer be opened.`] };
+    }
+    upgraded = migrate(upgraded);
+  }
+
+  return { ok: true, document: { ...upgraded, kind: schema.kind, version: schema.version }, migratedFrom: version };
+}
+
+export function createProjectDocument(schema: ProjectSchema, body: ProjectDocument): ProjectDocument {
+  return {
+    kind: schema.kind,
+    version: schema.version,
+    savedAt: new Date().toISOString(),
+    ...body,
+  };
+}
+
+export function downloadProjectFile(fileName: string, project: ProjectDocument) {
+  const safeName = fileName.trim() || "project";
+  const name = safeName.toLowerCase().endsWith(PROJECT_FILE_EXTENSION)
+    ? safeName
+    : `${safeName}${PROJECT_FILE_EXTENSION}`;
+  const blob = new Blob([JSON.stringify(project, null, 2)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = name;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function blobToDataUrl(blob: Blob) {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result ?? ""));
+    reader.onerror = () => reject(reader.error ?? new Error("Unable to read image"));
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * Returns `src` as a data URL so a saved project does not depend on the original image
+ * location. Linked images that cannot be fetched (e.g. blocked by CORS) are left as-is.
+ */
+export async function embedImageSource(src: string): Promise<string> {
+  if (!src || src.startsWith("data:")) return src;
+  try {
+    const response = await fetch(src);
+    if (!response.ok) return src;
+    return await blobToDataUrl(await response.blob());
+  } catch (error) {
+    console.warn("Failed to embed image in project", error);
+    return src;
+  }
+}
@@ -0,0 +1,163 @@
+import type { PlotType } from "../../types/base";
+import type { ProjectDocument } from "./projectFile";
+import { randomId } from "./randomId";
+
+export type LibraryEntry = {
+  id: string;
+  name: string;
+  plotType: PlotType;
+  createdAt: number;
+  updatedAt: number;
+  // Small JPEG data URL of the chart, or null when no preview could be rendered
+  thumbnail: string | null;
+};
+
+export type LibrarySaveRequest = {
+  // Updates this entry when given, otherwise a new entry is created
+  id?: string | null;
+  name: string;
+  plotType: PlotType;
+  thumbnail: string | null;
+  document: ProjectDocument;
+};
+
+export const plotTypeLabels: Record<PlotType, string> = {
+  bar: "Bar chart",
+  scatter: "Scatter plot",
+  line: "Line chart",
+  histogram: "Histogram",
+  box: "Box plot",
+};
+
+// "Edited 5 min ago" for recent changes, the date for anything older than a week
+export function formatEditedAt(timestamp: number, now = Date.now()) {
+  const minutes = Math.round((now - timestamp) / 60000);
+  if (minutes < 1) return "Edited just now";
+  if (minutes < 60) return `Edited ${minutes} min ago`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 24) return `Edited ${hours} h ago`;
+  const days = Math.round(hours / 24);
+  if (days < 7) return `Edited ${days} ${days === 1 ? "day" : "days"} ago`;
+  return `Edited ${new Date(timestamp).toLocaleDateString()}`;
+}
+
+const DATABASE_NAME = "chart-studio-library";
+const DATABASE_VERSION = 1;
+// Entries are listed far more often than opened, so the documents (which carry embedded
+// images) live in their own store and are only read when a project is opened
+const ENTRY_STORE = "entries";
+const DOCUMENT_STORE = "documents";
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+function requestToPromise<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error("Project library request failed"));
+  });
+}
+
+function transactionDone(transaction: IDBTransaction) {
+  return new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error ?? new Error("Project library transaction failed"));
+    transaction.onabort = () => reject(transaction.error ?? new Error("Project library transaction was aborted"));
+  });
+}
+
+function openDatabase() {
+  if (databasePromise) return databasePromise;
+  if (typeof indexedDB === "undefined") {
+    return Promise.reject(new Error("This browser does not support local project storage"));
+  }
+
+  databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+    request.onupgradeneeded = () => {
+      const database = request.result;
+      if (!database.objectStoreNames.contains(ENTRY_STORE)) {
+        database.createObjectStore(ENTRY_STORE, { keyPath: "id" });
+      }
+      if (!database.objectStoreNames.contains(DOCUMENT_STORE)) {
+        database.createObjectStore(DOCUMENT_STORE);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error("Unable to open the project library"));
+  });
+  // Allow a later call to retry, e.g. after the user unblocks storage
+  databasePromise.catch(() => {
+    databasePromise = null;
+  });
+  return databasePromise;
+}
+
+/** All saved projects, most recently modified first. */
+export async function listProjects(): Promise<LibraryEntry[]> {
+  const database = await openDatabase();
+  const store = database.transaction(ENTRY_STORE, "readonly").objectStore(ENTRY_STORE);
+  const entries = await requestToPromise(store.getAll() as IDBRequest<LibraryEntry[]>);
+  return entries.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function getProjectEntry(id: string): Promise<LibraryEntry | null> {
+  const database = await openDatabase();
+  const store = database.transaction(ENTRY_STORE, "readonly").objectStore(ENTRY_STORE);
+  const entry = await requestToPromise(store.get(id) as IDBRequest<LibraryEntry | undefined>);
+  return entry ?? null;
+}
+
+export async function getProjectDocument(id: string): Promise<ProjectDocument | null> {
+  const database = await openDatabase();
+  const store = database.transaction(DOCUMENT_STORE, "readonly").objectStore(DOCUMENT_STORE);
+  const document = await requestToPromise(store.get(id) as IDBRequest<ProjectDocument | undefined>);
+  return document ?? null;
+}
+
+export async function saveProject(request: LibrarySaveRequest): Promise<LibraryEntry> {
+  const existing = request.id ? await getProjectEntry(request.id) : null;
+  const now = Date.now();
+  const entry: LibraryEntry = {
+    id: existing?.id ?? randomId(),
+    name: request.name.trim() || "Untitled project",
+    plotType: request.plotType,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+    thumbnail: request.thumbnail ?? existing?.thumbnail ?? null,
+  };
+
+  const database = await openDatabase();
+  const transaction = database.transaction([ENTRY_STORE, DOCUMENT_STORE], "readwrite");
+  transaction.objectStore(ENTRY_STORE).put(entry);
+  transaction.objectStore(DOCUMENT_STORE).put(request.document, entry.id);
+  await transactionDone(transaction);
+  return entry;
+}
+
+export async function renameProject(id: string, name: string): Promise<void> {
+  const entry = await getProjectEntry(id);
+  if (!entry) return;
+  const database = await openDatabase();
+  const transaction = database.transaction(ENTRY_STORE, "readwrite");
+  transaction.objectStore(ENTRY_STORE).put({ ...entry, name: name.trim() || entry.name, updatedAt: Date.now() });
+  await transactionDone(transaction);
+}
+
+export async function duplicateProject(id: string): Promise<LibraryEntry | null> {
+  const [entry, document] = await Promise.all([getProjectEntry(id), getProjectDocument(id)]);
+  if (!entry || !document) return null;
+  return saveProject({
+    name: `${entry.name} (copy)`,
+    plotType: entry.plotType,
+    thumbnail: entry.thumbnail,
+    document,
+  });
+}
+
+export async function deleteProject(id: string): Promise<void> {
+  const database = await openDatabase();
+  const transaction = database.transaction([ENTRY_STORE, DOCUMENT_STORE], "readwrite");
+  transaction.objectStore(ENTRY_STORE).delete(id);
+  transaction.objectStore(DOCUMENT_STORE).delete(id);
+  await transactionDone(transaction);
+}
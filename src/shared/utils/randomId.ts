@@ -0,0 +1,8 @@
+/** Id for new list entries such as bars, points, annotations and saved projects. */
+export function randomId() {
+  if (typeof crypto !== "undefined" && "randomUUID" in crypto) {
+    return crypto.randomUUID();
+  }
+
+  return Math.random().toString(36).slice(2, 10);
+}
@@ -0,0 +1,46 @@
+import type { ReferenceAxis, ReferenceElement, ReferenceKind, ReferenceLabelPosition } from "../../types/bar";
+import { randomId } from "./randomId";
+
+export const referenceKindOptions: Array<{ value: ReferenceKind; label: string }> = [
+  { value: "line", label: "Line" },
+  { value: "band", label: "Band" },
+];
+
+export const referenceAxisOptions: Array<{ value: ReferenceAxis; label: string }> = [
+  { value: "value", label: "Value axis" },
+  { value: "category", label: "Category axis" },
+];
+
+export const referenceLabelPositionOptions: Array<{ value: ReferenceLabelPosition; label: string }> = [
+  { value: "end", label: "End" },
+  { value: "start", label: "Start" },
+];
+
+/** Lines default to a dashed target marker, bands to a faint fill without edges. */
+export function createReferenceElement(kind: ReferenceKind, value: number, endValue: number): ReferenceElement {
+  const isBand = kind === "band";
+  return {
+    id: randomId(),
+    kind,
+    axis: "value",
+    value,
+    endValue,
+    label: isBand ? "Range" : "Target",
+    labelPosition: "end",
+    color: isBand ? "#38bdf8" : "#f87171",
+    opacity: isBand ? 0.15 : 1,
+    lineWidth: isBand ? 0 : 1.5,
+    dashStyle: isBand ? "solid" : "dashed",
+  };
+}
+
+/** Data-space extent of the element, ordered low to high. */
+export function getReferenceSpan(element: ReferenceElement): { start: number; end: number } {
+  if (element.kind === "line") {
+    return { start: element.value, end: element.value };
+  }
+  return {
+    start: Math.min(element.value, element.endValue),
+    end: Math.max(element.value, element.endValue),
+  };
+}
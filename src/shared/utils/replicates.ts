@@ -0,0 +1,118 @@
+import type { BarDataPoint, ErrorBarDirection, ReplicateCenter, ReplicateSpread } from "../../types/bar";
+import { parseNumeric } from "./csvImport";
+import { confidenceHalfWidth, mean, median, standardDeviation, standardError } from "./statistics";
+
+/** A bar with both error extents resolved from its typed errors or its replicates. */
+export type ResolvedBar = BarDataPoint & {
+  errorLower: number;
+  errorUpper: number;
+};
+
+export const replicateCenterOptions: Array<{ value: ReplicateCenter; label: string }> = [
+  { value: "mean", label: "Mean" },
+  { value: "median", label: "Median" },
+];
+
+export const errorBarDirectionOptions: Array<{ value: ErrorBarDirection; label: string }> = [
+  { value: "both", label: "Both directions" },
+  { value: "outward", label: "Away from zero" },
+  { value: "upper", label: "Upper only" },
+  { value: "lower", label: "Lower only" },
+];
+
+export const replicateSpreadOptions: Array<{ value: ReplicateSpread; label: string }> = [
+  { value: "sd", label: "Standard deviation" },
+  { value: "sem", label: "Standard error (SEM)" },
+  { value: "ci95", label: "95% confidence interval" },
+  { value: "range", label: "Min–max" },
+];
+
+/** Reads a typed list of replicates; commas, semicolons and whitespace all separate values. */
+export function parseValueList(text: string): number[] {
+  return text
+    .split(/[\s,;]+/)
+    .map((part) => parseFloat(part))
+    .filter((value) => Number.isFinite(value));
+}
+
+export function hasReplicates(bar: BarDataPoint) {
+  return Array.isArray(bar.replicates) && bar.replicates.length > 0;
+}
+
+function spreadOf(values: number[], center: number, spread: ReplicateSpread) {
+  switch (spread) {
+    case "sem":
+      return { lower: standardError(values), upper: standardError(values) };
+    case "ci95":
+      return { lower: confidenceHalfWidth(values), upper: confidenceHalfWidth(values) };
+    case "range":
+      return { lower: center - Math.min(...values), upper: Math.max(...values) - center };
+    case "sd":
+    default:
+      return { lower: standardDeviation(values), upper: standardDeviation(values) };
+  }
+}
+
+/**
+ * Derives the plotted value and error extents. Bars without replicates keep
+ * their typed value; each direction falls back to the symmetric `error`.
+ */
+export function resolveBar(bar: BarDataPoint, center: ReplicateCenter, spread: ReplicateSpread): ResolvedBar {
+  const values = (bar.replicates ?? []).filter((value) => Number.isFinite(value));
+  if (!values.length) {
+    return {
+      ...bar,
+      errorLower: Math.max(bar.errorLower ?? bar.error, 0),
+      errorUpper: Math.max(bar.errorUpper ?? bar.error, 0),
+    };
+  }
+
+  const value = center === "median" ? median(values) : mean(values);
+  const { lower, upper } = spreadOf(values, value, spread);
+  return {
+    ...bar,
+    value,
+    error: Math.max(lower, upper),
+    errorLower: Math.max(lower, 0),
+    errorUpper: Math.max(upper, 0),
+  };
+}
+
+/** Drops the error on the side(s) the chosen direction hides. */
+export function applyErrorDirection(bar: ResolvedBar, direction: ErrorBarDirection): ResolvedBar {
+  const isNegative = bar.value < 0;
+  switch (direction) {
+    case "outward":
+      return isNegative ? { ...bar, errorUpper: 0 } : { ...bar, errorLower: 0 };
+    case "upper":
+      return { ...bar, errorLower: 0 };
+    case "lower":
+      return { ...bar, errorUpper: 0 };
+    case "both":
+    default:
+      return bar;
+  }
+}
+
+/** Shows an error as one number when symmetric, otherwise as "lower / upper". */
+export function formatErrorPair(lower: number, upper: number) {
+  return lower === upper ? formatStatistic(upper) : `${formatStatistic(lower)} / ${formatStatistic(upper)}`;
+}
+
+/**
+ * Reads an error cell: a single number sets a symmetric error, "lower / upper"
+ * sets both directions. Signs are ignored since errors are distances.
+ */
+export function parseErrorPair(text: string): { lower: number; upper: number } {
+  // Only a leading sign is dropped; the minus of an exponent such as 1e-3 must stay
+  const parts = text
+    .split("/")
+    .map((part) => Math.abs(parseNumeric(part.replace(/^\s*[+±−-]\s*/, ""), ".").value ?? 0));
+  const [lower = 0, upper = lower] = parts;
+  return { lower, upper };
+}
+
+/** Trims floating-point noise from computed values so labels and table cells stay readable. */
+export function formatStatistic(value: number) {
+  return Number.parseFloat(value.toPrecision(4)).toString();
+}
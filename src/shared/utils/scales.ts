@@ -0,0 +1,283 @@
+import type { AxisScaleType } from "../../types/base";
+import { computeAxisTicks, formatTickLabel, type AxisTicks } from "./ticks";
+
+export type ScaleTicks = AxisTicks & {
+  minorTicks: number[];
+};
+
+export const axisScaleOptions: Array<{ value: AxisScaleType; label: string }> = [
+  { value: "linear", label: "Linear" },
+  { value: "log10", label: "Log10" },
+  { value: "log2", label: "Log2" },
+  { value: "ln", label: "Natural log" },
+  { value: "symlog", label: "Symlog" },
+];
+
+// Keeps dense multi-decade axes readable by skipping decades
+const MAX_MAJOR_TICKS = 10;
+
+export function isLogScale(scale: AxisScaleType) {
+  return scale === "log10" || scale === "log2" || scale === "ln";
+}
+
+function logBase(scale: AxisScaleType) {
+  switch (scale) {
+    case "log2":
+      return 2;
+    case "ln":
+      return Math.E;
+    default:
+      return 10;
+  }
+}
+
+/**
+ * Maps a data value into the scale's linear space. Non-positive values on a
+ * log scale map to -Infinity so callers clamp them to the axis minimum.
+ */
+export function createScaleTransform(scale: AxisScaleType, symlogConstant = 1) {
+  const constant = symlogConstant > 0 ? symlogConstant : 1;
+  switch (scale) {
+    case "log10":
+    case "log2":
+    case "ln": {
+      const divisor = Math.log(logBase(scale));
+      return (value: number) => (value > 0 ? Math.log(value) / divisor : Number.NEGATIVE_INFINITY);
+    }
+    case "symlog":
+      return (value: number) => Math.sign(value) * Math.log10(1 + Math.abs(value) / constant);
+    case "linear":
+    default:
+      return (value: number) => value;
+  }
+}
+
+/** Inverse of `createScaleTransform`, for turning canvas positions back into values. */
+export function createScaleInverse(scale: AxisScaleType, symlogConstant = 1) {
+  const constant = symlogConstant > 0 ? symlogConstant : 1;
+  switch (scale) {
+    case "log10":
+    case "log2":
+    case "ln": {
+      const base = logBase(scale);
+      return (position: number) => base ** position;
+    }
+    case "symlog":
+      return (position: number) => Math.sign(position) * constant * (10 ** Math.abs(position) - 1);
+    case "linear":
+    default:
+      return (position: number) => position;
+  }
+}
+
+function logTicks(scale: AxisScaleType, positiveMin: number, dataMax: number, options: { min: number | null; max: number | null }): ScaleTicks {
+  const base = logBase(scale);
+  const log = (value: number) => Math.log(value) / Math.log(base);
+  const low = options.min !== null && options.min > 0 ? options.min : positiveMin > 0 ? positiveMin : 1;
+  const highCandidate = options.max !== null && options.max > 0 ? options.max : dataMax;
+  const high = highCandidate > low ? highCandidate : low * base;
+
+  let lowExponent = Math.floor(log(low) + 1e-9);
+  let highExponent = Math.ceil(log(high) - 1e-9);
+  if (highExponent <= lowExponent) highExponent = lowExponent + 1;
+  // Manual limits are honoured exactly; automatic ones snap outwards to whole decades
+  const axisMin = options.min !== null && options.min > 0 ? options.min : base ** lowExponent;
+  const axisMax = options.max !== null && options.max > axisMin ? options.max : base ** highExponent;
+  lowExponent = Math.floor(log(axisMin) + 1e-9);
+  highExponent = Math.ceil(log(axisMax) - 1e-9);
+
+  const stride = Math.max(Math.ceil((highExponent - lowExponent + 1) / MAX_MAJOR_TICKS), 1);
+  const ticks: number[] = [];
+  const minorTicks: number[] = [];
+  const withinAxis = (value: number) => value >= axisMin * (1 - 1e-9) && value <= axisMax * (1 + 1e-9);
+
+  for (let exponent = lowExponent; exponent <= highExponent; exponent += 1) {
+    const decade = base ** exponent;
+    if ((exponent - lowExponent) % stride === 0 && withinAxis(decade)) {
+      ticks.push(Number.parseFloat(decade.toPrecision(12)));
+    }
+    // Integer multiples inside each decade: 2–9 for log10, 2 for ln, none for log2
+    for (let multiple = 2; multiple < base; multiple += 1) {
+      const minor = multiple * decade;
+      if (withinAxis(minor)) minorTicks.push(Number.parseFloat(minor.toPrecision(12)));
+    }
+  }
+
+  if (!ticks.length) ticks.push(axisMin, axisMax);
+  return { axisMin, axisMax, ticks, minorTicks };
+}
+
+function symlogTicks(dataMin: number, dataMax: number, constant: number, options: { min: number | null; max: number | null }): ScaleTicks {
+  const outerDecade = (value: number) => 10 ** Math.ceil(Math.log10(Math.max(Math.abs(value), constant)) - 1e-9);
+  const axisMin = options.min ?? (dataMin < 0 ? -outerDecade(dataMin) : 0);
+  const axisMax = options.max ?? (dataMax > 0 ? outerDecade(dataMax) : 0);
+  const ticks: number[] = [];
+  const minorTicks: number[] = [];
+
+  // Decades start at the constant: below it the scale is effectively linear
+  const firstExponent = Math.floor(Math.log10(constant));
+  const lastExponent = Math.ceil(Math.log10(Math.max(Math.abs(axisMin), Math.abs(axisMax), constant)));
+  const stride = Math.max(Math.ceil((lastExponent - firstExponent + 1) / (MAX_MAJOR_TICKS / 2)), 1);
+
+  if (axisMin <= 0 && axisMax >= 0) ticks.push(0);
+  for (let exponent = firstExponent; exponent <= lastExponent; exponent += 1) {
+    const decade = Number.parseFloat((10 ** exponent).toPrecision(12));
+    [1, -1].forEach((sign) => {
+      const major = sign * decade;
+      if ((exponent - firstExponent) % stride === 0 && major >= axisMin && major <= axisMax) ticks.push(major);
+      for (let multiple = 2; multiple < 10; multiple += 1) {
+        const minor = sign * multiple * decade;
+        if (minor >= axisMin && minor <= axisMax) minorTicks.push(Number.parseFloat(minor.toPrecision(12)));
+      }
+    });
+  }
+
+  ticks.sort((a, b) => a - b);
+  return {
+    axisMin: Math.min(axisMin, axisMax - Number.EPSILON),
+    axisMax,
+    ticks: ticks.length ? ticks : [axisMin, axisMax],
+    minorTicks: minorTicks.sort((a, b) => a - b),
+  };
+}
+
+/**
+ * Axis range and ticks for any scale type. Log scales need the smallest
+ * positive value since zero and negatives cannot be placed on them.
+ */
+export function computeScaleTicks(
+  scale: AxisScaleType,
+  extent: { min: number; max: number; positiveMin: number },
+  options: { min: number | null; max: number | null; step: number | null; symlogConstant?: number }
+): ScaleTicks {
+  if (isLogScale(scale)) {
+    return logTicks(scale, extent.positiveMin, extent.max, options);
+  }
+  if (scale === "symlog") {
+    return symlogTicks(extent.min, extent.max, options.symlogConstant && options.symlogConstant > 0 ? options.symlogConstant : 1, options);
+  }
+  return { ...computeAxisTicks(extent.min, extent.max, options), minorTicks: [] };
+}
+
+export type AxisBreak = {
+  start: number;
+  end: number;
+};
+
+export type BrokenAxisTicks = ScaleTicks & {
+  lower: AxisTicks;
+  upper: AxisTicks;
+};
+
+/**
+ * Ticks for a linear axis with a gap between `axisBreak.start` and `axisBreak.end`.
+ * Each side gets its own tick run: the manual min only affects the lower part and
+ * the manual max only the upper part, while a manual step applies to both.
+ */
+export function computeBrokenAxisTicks(
+  extent: { min: number; max: number },
+  options: { min: number | null; max: number | null; step: number | null },
+  axisBreak: AxisBreak
+): BrokenAxisTicks {
+  const lowerRun = computeAxisTicks(extent.min, axisBreak.start, { min: options.min, max: axisBreak.start, step: options.step });
+  const upperRun = computeAxisTicks(axisBreak.end, Math.max(extent.max, axisBreak.end), {
+    min: axisBreak.end,
+    max: options.max,
+    step: options.step,
+  });
+
+  // Both runs end exactly at the break, so nice rounding must not spill into the gap
+  const lower: AxisTicks = {
+    axisMin: lowerRun.axisMin,
+    axisMax: axisBreak.start,
+    ticks: lowerRun.ticks.filter((tick) => tick <= axisBreak.start),
+  };
+  const upper: AxisTicks = {
+    axisMin: axisBreak.end,
+    axisMax: Math.max(upperRun.axisMax, axisBreak.end + Number.EPSILON),
+    ticks: upperRun.ticks.filter((tick) => tick >= axisBreak.end),
+  };
+
+  return {
+    axisMin: lower.axisMin,
+    axisMax: upper.axisMax,
+    ticks: [...lower.ticks, ...upper.ticks],
+    minorTicks: [],
+    lower,
+    upper,
+  };
+}
+
+/**
+ * Maps values onto a broken axis as a 0–1 ratio. `lowerShare` is the part of the
+ * drawable length given to the lower run, `gapRatio` the gap as a fraction of the
+ * whole axis. Values inside the gap sit at the top of the lower run. `invert` turns
+ * a ratio back into a value.
+ */
+export function createBrokenAxisRatio(ticks: BrokenAxisTicks, lowerShare: number, gapRatio: number) {
+  const gap = Math.min(Math.max(gapRatio, 0), 0.5);
+  const gapStart = Math.min(Math.max(lowerShare, 0.05), 0.95) * (1 - gap);
+  const gapEnd = gapStart + gap;
+  const clampRatio = (value: number) => Math.min(Math.max(value, 0), 1);
+  const lowerRange = Math.max(ticks.lower.axisMax - ticks.lower.axisMin, Number.EPSILON);
+  const upperRange = Math.max(ticks.upper.axisMax - ticks.upper.axisMin, Number.EPSILON);
+
+  const ratio = (value: number) => {
+    if (value <= ticks.lower.axisMax) {
+      return clampRatio((value - ticks.lower.axisMin) / lowerRange) * gapStart;
+    }
+    if (value < ticks.upper.axisMin) return gapStart;
+    return gapEnd + clampRatio((value - ticks.upper.axisMin) / upperRange) * (1 - gapEnd);
+  };
+
+  // Ratios inside the gap resolve to the top of the lower run; ratios outside 0–1 extrapolate
+  const invert = (position: number) => {
+    if (position <= gapStart) {
+      return ticks.lower.axisMin + (position / Math.max(gapStart, Number.EPSILON)) * lowerRange;
+    }
+    if (position < gapEnd) return ticks.lower.axisMax;
+    return ticks.upper.axisMin + ((position - gapEnd) / Math.max(1 - gapEnd, Number.EPSILON)) * upperRange;
+  };
+
+  return { ratio, invert, gapStart, gapEnd };
+}
+
+const SUPERSCRIPTS: Record<string, string> = {
+  "-": "⁻",
+  "0": "⁰",
+  "1": "¹",
+  "2": "²",
+  "3": "³",
+  "4": "⁴",
+  "5": "⁵",
+  "6": "⁶",
+  "7": "⁷",
+  "8": "⁸",
+  "9": "⁹",
+};
+
+function toSuperscript(exponent: number) {
+  return String(exponent)
+    .split("")
+    .map((character) => SUPERSCRIPTS[character] ?? character)
+    .join("");
+}
+
+/** Tick label for the scale, optionally as a power of its base (10³, 2⁵, e²). */
+export function formatScaleTick(tick: number, scale: AxisScaleType, powerLabels: boolean) {
+  if (scale === "linear") return formatTickLabel(tick);
+  if (tick === 0) return "0";
+
+  if (powerLabels) {
+    const base = scale === "symlog" ? 10 : logBase(scale);
+    const exponent = Math.log(Math.abs(tick)) / Math.log(base);
+    const rounded = Math.round(exponent);
+    if (Math.abs(exponent - rounded) < 1e-9) {
+      const sign = tick < 0 ? "−" : "";
+      return `${sign}${scale === "ln" ? "e" : base}${toSuperscript(rounded)}`;
+    }
+  }
+
+  // Significant digits rather than decimals so 0.001 does not round to 0
+  return tick.toLocaleString(undefined, { maximumSignificantDigits: 6 });
+}
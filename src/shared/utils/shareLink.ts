@@ -0,0 +1,113 @@
+export type ShareLink = {
+  url: string;
+  warnings: string[];
+  // False when the clipboard was unavailable and the link has to be copied by hand
+  copied?: boolean;
+};
+
+const FRAGMENT_KEY = "share";
+// Links longer than this are cut off by some chat apps and mail clients
+export const SHARE_LINK_WARN_LENGTH = 8000;
+
+// The first character of an encoded payload says how the rest was packed
+const COMPRESSED_PREFIX = "z";
+const PLAIN_PREFIX = "j";
+
+async function transform(bytes: Uint8Array, stream: CompressionStream | DecompressionStream) {
+  const piped = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(piped).arrayBuffer());
+}
+
+function toBase64Url(bytes: Uint8Array) {
+  let binary = "";
+  const chunkSize = 0x8000;
+  for (let index = 0; index < bytes.length; index += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(index, index + chunkSize));
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(text: string) {
+  const base64 = text.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, "="));
+  return Uint8Array.from(binary, (character) => character.charCodeAt(0));
+}
+
+/**
+ * Packs a JSON-serializable value into a URL-safe string. Browsers with compression
+ * streams deflate the JSON first, which typically shrinks chart settings by 80–90%.
+ */
+export async function encodeShareState(value: unknown): Promise<string> {
+  const bytes = new TextEncoder().encode(JSON.stringify(value));
+  if (typeof CompressionStream === "undefined") {
+    return `${PLAIN_PREFIX}${toBase64Url(bytes)}`;
+  }
+  return `${COMPRESSED_PREFIX}${toBase64Url(await transform(bytes, new CompressionStream("deflate-raw")))}`;
+}
+
+export async function decodeShareState(encoded: string): Promise<unknown> {
+  const prefix = encoded.charAt(0);
+  let bytes: Uint8Array;
+  try {
+    bytes = fromBase64Url(encoded.slice(1));
+  } catch {
+    throw new Error("The shared link is damaged; it may have been cut off when it was copied.");
+  }
+
+  if (prefix === COMPRESSED_PREFIX) {
+    if (typeof DecompressionStream === "undefined") {
+      throw new Error("This browser cannot read compressed share links.");
+    }
+    try {
+      bytes = await transform(bytes, new DecompressionStream("deflate-raw"));
+    } catch {
+      throw new Error("The shared link is damaged; it may have been cut off when it was copied.");
+    }
+  } else if (prefix !== PLAIN_PREFIX) {
+    throw new Error("The shared link was created by an unsupported version of the studio.");
+  }
+
+  try {
+    return JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    throw new Error("The shared link does not contain valid chart settings.");
+  }
+}
+
+// The encoded state in a `#share=…` location hash, or null when the page was opened normally
+export function readShareFragment(hash: string): string | null {
+  const params = new URLSearchParams(hash.replace(/^#/, ""));
+  return params.get(FRAGMENT_KEY) || null;
+}
+
+/**
+ * Builds a link to the current page that carries `value` in its fragment. Fragments are
+ * never sent to the server, so the shared chart stays between the people holding the link.
+ * `warnings` starts with `notes` from the caller (e.g. removed images) and gains one more
+ * when the link is long enough to be truncated by other apps.
+ */
+export async function createShareLink(value: unknown, notes: string[] = []): Promise<ShareLink> {
+  const encoded = await encodeShareState(value);
+  const { origin, pathname, search } = window.location;
+  const url = `${origin}${pathname}${search}#${FRAGMENT_KEY}=${encoded}`;
+
+  const warnings = [...notes];
+  if (url.length > SHARE_LINK_WARN_LENGTH) {
+    warnings.push(
+      `The link is ${url.length.toLocaleString()} characters long, so some apps may cut it off. Save a project file instead if it does not open for the recipient.`
+    );
+  }
+  return { url, warnings };
+}
+
+// Creates the link and puts it on the clipboard; the result says whether copying worked
+export async function copyShareLink(value: unknown, notes: string[] = []): Promise<ShareLink> {
+  const link = await createShareLink(value, notes);
+  try {
+    await navigator.clipboard.writeText(link.url);
+    return { ...link, copied: true };
+  } catch (error) {
+    console.warn("Failed to copy share link", error);
+    return { ...link, copied: false };
+  }
+}
@@ -0,0 +1,118 @@
+import type { BarDataPoint, SignificanceAnnotation, SignificanceLabelMode, SignificanceTest } from "../../types/bar";
+import { randomId } from "./randomId";
+import { mannWhitneyU, welchTTest } from "./statistics";
+
+export const significanceTestOptions: Array<{ value: SignificanceTest; label: string }> = [
+  { value: "manual", label: "Manual p-value" },
+  { value: "welch", label: "Welch t-test" },
+  { value: "mann-whitney", label: "Mann–Whitney U" },
+];
+
+export const significanceLabelModeOptions: Array<{ value: SignificanceLabelMode; label: string }> = [
+  { value: "stars", label: "Asterisks" },
+  { value: "p-value", label: "p-value" },
+];
+
+export function createSignificanceAnnotation(barA: string, barB: string): SignificanceAnnotation {
+  return {
+    id: randomId(),
+    barA,
+    barB,
+    test: "manual",
+    pValue: 0.05,
+    label: "",
+  };
+}
+
+/** p-value for the annotation, or null when the chosen test lacks enough replicates. */
+export function computeSignificancePValue(
+  annotation: SignificanceAnnotation,
+  barA: BarDataPoint,
+  barB: BarDataPoint
+): number | null {
+  if (annotation.test === "manual") {
+    return annotation.pValue;
+  }
+  const a = barA.replicates ?? [];
+  const b = barB.replicates ?? [];
+  const result = annotation.test === "welch" ? welchTTest(a, b) : mannWhitneyU(a, b);
+  return result ? result.pValue : null;
+}
+
+export function formatPValue(p: number) {
+  if (p < 0.001) return "p < 0.001";
+  return `p = ${Number.parseFloat(p.toPrecision(2))}`;
+}
+
+/** GraphPad-style thresholds: * < 0.05, ** < 0.01, *** < 0.001, **** < 0.0001. */
+export function pValueToStars(p: number) {
+  if (p < 0.0001) return "****";
+  if (p < 0.001) return "***";
+  if (p < 0.01) return "**";
+  if (p < 0.05) return "*";
+  return "ns";
+}
+
+export function getSignificanceLabel(annotation: SignificanceAnnotation, pValue: number | null, mode: SignificanceLabelMode) {
+  if (annotation.label.trim()) return annotation.label;
+  if (pValue === null || !Number.isFinite(pValue)) return "";
+  return mode === "p-value" ? formatPValue(pValue) : pValueToStars(pValue);
+}
+
+export type BracketSpan = {
+  id: string;
+  start: number; // Category-axis positions of the two bars (pixels)
+  end: number;
+};
+
+export type BracketObstacle = {
+  position: number; // Category-axis position (pixels)
+  extent: number; // Outward distance of the element's far edge from the value-axis origin (pixels)
+};
+
+function orderSpans(spans: BracketSpan[]) {
+  // Narrow comparisons sit closest to the bars, wider ones stack above them
+  return spans
+    .map((span) => ({ ...span, start: Math.min(span.start, span.end), end: Math.max(span.start, span.end) }))
+    .sort((a, b) => a.end - a.start - (b.end - b.start) || a.start - b.start);
+}
+
+const overlaps = (a: BracketSpan, b: BracketSpan) => a.start <= b.end && b.start <= a.end;
+
+/** How many brackets end up stacked on top of each other, independent of bar heights. */
+export function countBracketLevels(spans: BracketSpan[]) {
+  const placed: Array<BracketSpan & { level: number }> = [];
+  orderSpans(spans).forEach((span) => {
+    const level = placed.reduce((max, other) => (overlaps(span, other) ? Math.max(max, other.level + 1) : max), 1);
+    placed.push({ ...span, level });
+  });
+  return placed.reduce((max, span) => Math.max(max, span.level), 0);
+}
+
+/**
+ * Places each bracket just clear of the bars it spans and of any narrower
+ * bracket it overlaps. Returns the outward distance of every bracket line.
+ */
+export function stackSignificanceBrackets(
+  spans: BracketSpan[],
+  obstacles: BracketObstacle[],
+  gap: number,
+  spacing: number
+) {
+  const positions = new Map<string, number>();
+  const placed: Array<BracketSpan & { extent: number }> = [];
+
+  orderSpans(spans).forEach((span) => {
+    const barExtent = obstacles
+      .filter((obstacle) => obstacle.position >= span.start - 0.5 && obstacle.position <= span.end + 0.5)
+      .reduce((max, obstacle) => Math.max(max, obstacle.extent), 0);
+    const bracketExtent = placed
+      .filter((other) => overlaps(span, other))
+      .reduce((max, other) => Math.max(max, other.extent + spacing), 0);
+    const extent = Math.max(barExtent + gap, bracketExtent);
+    positions.set(span.id, extent);
+    placed.push({ ...span, extent });
+  });
+
+  return positions;
+}
@@ -0,0 +1,57 @@
+export type SnapBounds = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+export type SnapGuides = {
+  x: number[];
+  y: number[];
+};
+
+export type SnapResult = {
+  dx: number;
+  dy: number;
+  guideX: number | null;
+  guideY: number | null;
+};
+
+// Finds the guide closest to any of the box edges/center, returning the correction to apply
+function snapAxis(edges: number[], guides: number[], threshold: number) {
+  let best: { delta: number; guide: number } | null = null;
+  for (const guide of guides) {
+    for (const edge of edges) {
+      const delta = guide - edge;
+      if (Math.abs(delta) <= threshold && (!best || Math.abs(delta) < Math.abs(best.delta))) {
+        best = { delta, guide };
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * Adjusts a drag offset so that the moved box lines up with a guide. The start, center
+ * and end of the box are tested on each axis; the closest guide within `threshold`
+ * wins and is reported so the preview can draw it.
+ */
+export function snapToGuides(
+  bounds: SnapBounds,
+  dx: number,
+  dy: number,
+  guides: SnapGuides,
+  threshold: number
+): SnapResult {
+  const left = bounds.x + dx;
+  const top = bounds.y + dy;
+  const snapX = snapAxis([left, left + bounds.width / 2, left + bounds.width], guides.x, threshold);
+  const snapY = snapAxis([top, top + bounds.height / 2, top + bounds.height], guides.y, threshold);
+
+  return {
+    dx: dx + (snapX?.delta ?? 0),
+    dy: dy + (snapY?.delta ?? 0),
+    guideX: snapX?.guide ?? null,
+    guideY: snapY?.guide ?? null,
+  };
+}
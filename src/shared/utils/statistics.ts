@@ -0,0 +1,323 @@
+import type { WhiskerMode } from "../../types/box";
+import type { KdeKernel } from "../../types/histogram";
+
+export function mean(values: number[]) {
+  if (!values.length) return 0;
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/** Sample standard deviation (n - 1 in the denominator). */
+export function standardDeviation(values: number[]) {
+  if (values.length < 2) return 0;
+  const average = mean(values);
+  const squared = values.reduce((sum, value) => sum + (value - average) ** 2, 0);
+  return Math.sqrt(squared / (values.length - 1));
+}
+
+/** Linear-interpolated quantile of already sorted values (the R-7 / spreadsheet default). */
+export function quantileSorted(sorted: number[], p: number) {
+  if (!sorted.length) return 0;
+  const position = (sorted.length - 1) * Math.min(Math.max(p, 0), 1);
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+export function interquartileRange(sorted: number[]) {
+  return quantileSorted(sorted, 0.75) - quantileSorted(sorted, 0.25);
+}
+
+/** Silverman's rule of thumb, robust to outliers through the IQR term. */
+export function silvermanBandwidth(values: number[]) {
+  if (values.length < 2) return 1;
+  const sorted = [...values].sort((a, b) => a - b);
+  const spread = Math.min(standardDeviation(values), interquartileRange(sorted) / 1.34);
+  const scale = spread > 0 ? spread : standardDeviation(values) || Math.abs(sorted[0]) || 1;
+  return 0.9 * scale * values.length ** -0.2;
+}
+
+// Abramowitz & Stegun 7.1.26; accurate to about 1.5e-7, plenty for plotting
+function erf(x: number) {
+  const sign = x < 0 ? -1 : 1;
+  const t = 1 / (1 + 0.3275911 * Math.abs(x));
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  return sign * (1 - poly * Math.exp(-x * x));
+}
+
+function kernelValue(kernel: KdeKernel, u: number) {
+  if (kernel === "epanechnikov") {
+    return Math.abs(u) <= 1 ? 0.75 * (1 - u * u) : 0;
+  }
+  return Math.exp(-0.5 * u * u) / Math.sqrt(2 * Math.PI);
+}
+
+function kernelCumulative(kernel: KdeKernel, u: number) {
+  if (kernel === "epanechnikov") {
+    if (u <= -1) return 0;
+    if (u >= 1) return 1;
+    return 0.5 + 0.75 * u - 0.25 * u ** 3;
+  }
+  return 0.5 * (1 + erf(u / Math.SQRT2));
+}
+
+/** Kernel density estimate at `x`; integrates to 1 over the real line. */
+export function kernelDensity(values: number[], x: number, bandwidth: number, kernel: KdeKernel = "gaussian") {
+  if (!values.length || bandwidth <= 0) return 0;
+  const total = values.reduce((sum, value) => sum + kernelValue(kernel, (x - value) / bandwidth), 0);
+  return total / (values.length * bandwidth);
+}
+
+/** Share of the estimated distribution at or below `x` (0–1). */
+export function kernelDistribution(values: number[], x: number, bandwidth: number, kernel: KdeKernel = "gaussian") {
+  if (!values.length || bandwidth <= 0) return 0;
+  const total = values.reduce((sum, value) => sum + kernelCumulative(kernel, (x - value) / bandwidth), 0);
+  return total / values.length;
+}
+
+export type BoxStats = {
+  count: number;
+  min: number;
+  max: number;
+  q1: number;
+  median: number;
+  q3: number;
+  mean: number;
+  whiskerLow: number;
+  whiskerHigh: number;
+  outliers: number[];
+};
+
+/**
+ * Five-number summary plus whiskers. With Tukey whiskers the ends are the most
+ * extreme values within 1.5 × IQR of the box, and values beyond them are outliers.
+ */
+export function computeBoxStats(values: number[], whiskerMode: WhiskerMode): BoxStats | null {
+  const sorted = values.filter((value) => Number.isFinite(value)).sort((a, b) => a - b);
+  if (!sorted.length) return null;
+
+  const q1 = quantileSorted(sorted, 0.25);
+  const q3 = quantileSorted(sorted, 0.75);
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+
+  let whiskerLow = min;
+  let whiskerHigh = max;
+  let outliers: number[] = [];
+  if (whiskerMode === "tukey") {
+    const fence = 1.5 * (q3 - q1);
+    const inside = sorted.filter((value) => value >= q1 - fence && value <= q3 + fence);
+    whiskerLow = inside[0] ?? q1;
+    whiskerHigh = inside[inside.length - 1] ?? q3;
+    outliers = sorted.filter((value) => value < q1 - fence || value > q3 + fence);
+  }
+
+  return {
+    count: sorted.length,
+    min,
+    max,
+    q1,
+    median: quantileSorted(sorted, 0.5),
+    q3,
+    mean: mean(sorted),
+    whiskerLow,
+    whiskerHigh,
+    outliers,
+  };
+}
+
+export function median(values: number[]) {
+  return quantileSorted([...values].sort((a, b) => a - b), 0.5);
+}
+
+/** Standard error of the mean. */
+export function standardError(values: number[]) {
+  if (values.length < 2) return 0;
+  return standardDeviation(values) / Math.sqrt(values.length);
+}
+
+// Lanczos approximation (g = 7), good to ~15 significant digits for x > 0
+const LANCZOS = [
+  0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313, -176.61502916214059,
+  12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7,
+];
+
+function logGamma(x: number): number {
+  if (x < 0.5) {
+    return Math.log(Math.PI / Math.abs(Math.sin(Math.PI * x))) - logGamma(1 - x);
+  }
+  const z = x - 1;
+  let sum = LANCZOS[0];
+  for (let i = 1; i < LANCZOS.length; i += 1) {
+    sum += LANCZOS[i] / (z + i);
+  }
+  const t = z + 7.5;
+  return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(sum);
+}
+
+// Continued fraction for the incomplete beta function (modified Lentz, Numerical Recipes 6.4)
+function betaContinuedFraction(a: number, b: number, x: number) {
+  const tiny = 1e-300;
+  let c = 1;
+  let d = 1 - ((a + b) * x) / (a + 1);
+  if (Math.abs(d) < tiny) d = tiny;
+  d = 1 / d;
+  let result = d;
+  for (let m = 1; m <= 200; m += 1) {
+    const m2 = 2 * m;
+    let numerator = (m * (b - m) * x) / ((a + m2 - 1) * (a + m2));
+    d = 1 + numerator * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + numerator / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    result *= d * c;
+
+    numerator = (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1));
+    d = 1 + numerator * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + numerator / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    result *= delta;
+    if (Math.abs(delta - 1) < 1e-12) break;
+  }
+  return result;
+}
+
+/** Regularized incomplete beta function I_x(a, b). */
+function regularizedBeta(x: number, a: number, b: number) {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+  // The continued fraction converges quickly only on one side of the mean
+  if (x < (a + 1) / (a + b + 2)) {
+    return (front * betaContinuedFraction(a, b, x)) / a;
+  }
+  return 1 - (front * betaContinuedFraction(b, a, 1 - x)) / b;
+}
+
+/** Cumulative Student's t distribution; `df` may be fractional (Welch). */
+export function studentTDistribution(t: number, df: number) {
+  if (!(df > 0)) return Number.NaN;
+  const tail = 0.5 * regularizedBeta(df / (df + t * t), df / 2, 0.5);
+  return t >= 0 ? 1 - tail : tail;
+}
+
+/** Inverse of `studentTDistribution`, found by bisection. */
+export function studentTQuantile(p: number, df: number) {
+  if (!(df > 0) || p <= 0 || p >= 1) return Number.NaN;
+  if (p === 0.5) return 0;
+  let low = -1;
+  let high = 1;
+  while (studentTDistribution(low, df) > p) low *= 2;
+  while (studentTDistribution(high, df) < p) high *= 2;
+  for (let i = 0; i < 100; i += 1) {
+    const middle = (low + high) / 2;
+    if (studentTDistribution(middle, df) < p) {
+      low = middle;
+    } else {
+      high = middle;
+    }
+    if (high - low < 1e-10) break;
+  }
+  return (low + high) / 2;
+}
+
+/** Half-width of the two-sided t-based confidence interval of the mean. */
+export function confidenceHalfWidth(values: number[], level = 0.95) {
+  if (values.length < 2) return 0;
+  return studentTQuantile(1 - (1 - level) / 2, values.length - 1) * standardError(values);
+}
+
+export type TestResult = {
+  statistic: number;
+  pValue: number;
+};
+
+/** Two-sided Welch's t-test; needs at least two values in each sample. */
+export function welchTTest(a: number[], b: number[]): TestResult | null {
+  if (a.length < 2 || b.length < 2) return null;
+  const varianceA = standardDeviation(a) ** 2 / a.length;
+  const varianceB = standardDeviation(b) ** 2 / b.length;
+  const pooled = varianceA + varianceB;
+  if (pooled === 0) {
+    return { statistic: 0, pValue: mean(a) === mean(b) ? 1 : 0 };
+  }
+
+  const t = (mean(a) - mean(b)) / Math.sqrt(pooled);
+  // Welch–Satterthwaite degrees of freedom
+  const df = pooled ** 2 / (varianceA ** 2 / (a.length - 1) + varianceB ** 2 / (b.length - 1));
+  return { statistic: t, pValue: Math.min(2 * studentTDistribution(-Math.abs(t), df), 1) };
+}
+
+// Exact null distribution is only tabulated for small samples without ties
+const EXACT_MANN_WHITNEY_LIMIT = 50;
+
+/** Number of arrangements of sizes m and n giving each U value (index = U). */
+function mannWhitneyCounts(m: number, n: number) {
+  // counts[i][j] is the distribution for samples of size i and j, built up row by row
+  let previous: number[][] = Array.from({ length: n + 1 }, () => [1]);
+  for (let i = 1; i <= m; i += 1) {
+    const current: number[][] = [[1]];
+    for (let j = 1; j <= n; j += 1) {
+      const size = i * j + 1;
+      const counts = new Array<number>(size).fill(0);
+      // Either the largest value belongs to the first sample (adds j to U) or to the second
+      previous[j].forEach((count, u) => {
+        counts[u + j] += count;
+      });
+      current[j - 1].forEach((count, u) => {
+        counts[u] += count;
+      });
+      current.push(counts);
+    }
+    previous = current;
+  }
+  return previous[n];
+}
+
+function rankWithTies(values: number[]) {
+  const order = values.map((value, index) => ({ value, index })).sort((x, y) => x.value - y.value);
+  const ranks = new Array<number>(values.length);
+  let tieCorrection = 0;
+  let start = 0;
+  while (start < order.length) {
+    let end = start;
+    while (end + 1 < order.length && order[end + 1].value === order[start].value) end += 1;
+    const rank = (start + end) / 2 + 1;
+    for (let k = start; k <= end; k += 1) ranks[order[k].index] = rank;
+    const size = end - start + 1;
+    tieCorrection += size ** 3 - size;
+    start = end + 1;
+  }
+  return { ranks, tieCorrection };
+}
+
+/**
+ * Two-sided Mann–Whitney U test. Small samples without ties use the exact
+ * distribution; otherwise the normal approximation with tie and continuity
+ * corrections.
+ */
+export function mannWhitneyU(a: number[], b: number[]): TestResult | null {
+  if (!a.length || !b.length) return null;
+  const m = a.length;
+  const n = b.length;
+  const { ranks, tieCorrection } = rankWithTies([...a, ...b]);
+  const rankSumA = ranks.slice(0, m).reduce((sum, rank) => sum + rank, 0);
+  const u = rankSumA - (m * (m + 1)) / 2;
+  const uMin = Math.min(u, m * n - u);
+
+  if (tieCorrection === 0 && m + n <= EXACT_MANN_WHITNEY_LIMIT) {
+    const counts = mannWhitneyCounts(m, n);
+    const total = counts.reduce((sum, count) => sum + count, 0);
+    const tail = counts.slice(0, Math.floor(uMin) + 1).reduce((sum, count) => sum + count, 0);
+    return { statistic: u, pValue: Math.min((2 * tail) / total, 1) };
+  }
+
+  const total = m + n;
+  const variance = ((m * n) / 12) * (total + 1 - tieCorrection / (total * (total - 1)));
+  if (variance <= 0) return { statistic: u, pValue: 1 };
+  const z = (Math.abs(u - (m * n) / 2) - 0.5) / Math.sqrt(variance);
+  return { statistic: u, pValue: Math.min(2 * (1 - 0.5 * (1 + erf(Math.max(z, 0) / Math.SQRT2))), 1) };
+}
@@ -0,0 +1,923 @@
+import type { GState as GStateClass, jsPDF } from "jspdf";
+import { embedPdfFonts, type PdfFontRequest } from "./pdfFonts";
+
+// [a, b, c, d, e, f] as in SVGMatrix: x' = a·x + c·y + e, y' = b·x + d·y + f
+type Matrix = [number, number, number, number, number, number];
+
+type PathSegment =
+  | { type: "M" | "L"; x: number; y: number }
+  | { type: "C"; x1: number; y1: number; x2: number; y2: number; x: number; y: number }
+  | { type: "Z" };
+
+type Paint =
+  | { kind: "none" }
+  | { kind: "color"; rgb: [number, number, number]; alpha: number }
+  | { kind: "pattern"; element: SVGPatternElement };
+
+type DrawContext = {
+  pdf: jsPDF;
+  root: SVGSVGElement;
+  GState: typeof GStateClass;
+  gStates: Set<string>;
+  transparent: boolean;
+  imageDpi: number;
+  // Sets the font and returns the text adapted to it
+  selectFont: (request: PdfFontRequest, text: string) => string;
+};
+
+export type SvgToPdfOptions = {
+  // Page size in points; the chart is scaled to fill it
+  width: number;
+  height: number;
+  transparent: boolean;
+  // Resolution embedded images are redrawn at; defaults to 300 DPI
+  imageDpi?: number;
+};
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+// Distance of Bézier control points for a quarter circle of radius 1
+const KAPPA = 0.5522847498;
+// Embedded images are rasterized at print resolution, capped to keep the file size sane
+const DEFAULT_IMAGE_DPI = 300;
+const MAX_IMAGE_PIXELS = 4096;
+// Patterns are drawn tile by tile; huge fills with tiny tiles use the pattern's base color instead
+const MAX_PATTERN_TILES = 5000;
+
+const SKIPPED_ELEMENTS = new Set([
+  "defs",
+  "title",
+  "desc",
+  "metadata",
+  "clipPath",
+  "pattern",
+  "filter",
+  "mask",
+  "marker",
+  "symbol",
+  "style",
+  "script",
+  "linearGradient",
+  "radialGradient",
+  "foreignObject",
+]);
+const CONTAINER_ELEMENTS = new Set(["g", "a", "svg", "switch"]);
+const SHAPE_ELEMENTS = new Set(["path", "rect", "circle", "ellipse", "line", "polyline", "polygon"]);
+
+function multiply(m1: Matrix, m2: Matrix): Matrix {
+  return [
+    m1[0] * m2[0] + m1[2] * m2[1],
+    m1[1] * m2[0] + m1[3] * m2[1],
+    m1[0] * m2[2] + m1[2] * m2[3],
+    m1[1] * m2[2] + m1[3] * m2[3],
+    m1[0] * m2[4] + m1[2] * m2[5] + m1[4],
+    m1[1] * m2[4] + m1[3] * m2[5] + m1[5],
+  ];
+}
+
+function invert(m: Matrix): Matrix | null {
+  const det = m[0] * m[3] - m[1] * m[2];
+  if (!det) return null;
+  return [
+    m[3] / det,
+    -m[1] / det,
+    -m[2] / det,
+    m[0] / det,
+    (m[2] * m[5] - m[3] * m[4]) / det,
+    (m[1] * m[4] - m[0] * m[5]) / det,
+  ];
+}
+
+function apply(m: Matrix, x: number, y: number): [number, number] {
+  return [m[0] * x + m[2] * y + m[4], m[1] * x + m[3] * y + m[5]];
+}
+
+// Uniform scale factor of a matrix, used for stroke widths and font sizes
+function scaleOf(m: Matrix) {
+  return Math.sqrt(Math.abs(m[0] * m[3] - m[1] * m[2]));
+}
+
+function toMatrix(matrix: DOMMatrixReadOnly | SVGMatrix | null | undefined): Matrix {
+  return matrix ? [matrix.a, matrix.b, matrix.c, matrix.d, matrix.e, matrix.f] : IDENTITY;
+}
+
+function localTransform(element: Element) {
+  const transform = (element as SVGGraphicsElement).transform;
+  return transform ? toMatrix(transform.baseVal.consolidate()?.matrix) : IDENTITY;
+}
+
+function boundsOf(m: Matrix, x: number, y: number, width: number, height: number) {
+  const corners = [apply(m, x, y), apply(m, x + width, y), apply(m, x, y + height), apply(m, x + width, y + height)];
+  const xs = corners.map(([cx]) => cx);
+  const ys = corners.map(([, cy]) => cy);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  return { x: minX, y: minY, width: Math.max(...xs) - minX, height: Math.max(...ys) - minY };
+}
+
+const PATH_TOKEN = /[MmLlHhVvCcSsQqTtAaZz]|[-+]?(?:\d*\.\d+|\d+\.?)(?:[eE][-+]?\d+)?/g;
+
+function arcToCurves(
+  x1: number,
+  y1: number,
+  rxIn: number,
+  ryIn: number,
+  rotation: number,
+  largeArc: boolean,
+  sweep: boolean,
+  x2: number,
+  y2: number
+): PathSegment[] {
+  let rx = Math.abs(rxIn);
+  let ry = Math.abs(ryIn);
+  if (!rx || !ry) return [{ type: "L", x: x2, y: y2 }];
+  if (x1 === x2 && y1 === y2) return [];
+
+  const phi = (rotation * Math.PI) / 180;
+  const cos = Math.cos(phi);
+  const sin = Math.sin(phi);
+  const dx = (x1 - x2) / 2;
+  const dy = (y1 - y2) / 2;
+  const x1p = cos * dx + sin * dy;
+  const y1p = -sin * dx + cos * dy;
+
+  const lambda = (x1p * x1p) / (rx * rx) + (y1p * y1p) / (ry * ry);
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
+
+  const numerator = rx * rx * ry * ry - rx * rx * y1p * y1p - ry * ry * x1p * x1p;
+  const denominator = rx * rx * y1p * y1p + ry * ry * x1p * x1p;
+  const coefficient = (largeArc !== sweep ? 1 : -1) * Math.sqrt(Math.max(0, numerator / denominator));
+  const cxp = (coefficient * rx * y1p) / ry;
+  const cyp = (-coefficient * ry * x1p) / rx;
+  const cx = cos * cxp - sin * cyp + (x1 + x2) / 2;
+  const cy = sin * cxp + cos * cyp + (y1 + y2) / 2;
+
+  const angle = (ux: number, uy: number, vx: number, vy: number) => Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+  const startAngle = angle(1, 0, (x1p - cxp) / rx, (y1p - cyp) / ry);
+  let sweepAngle = angle((x1p - cxp) / rx, (y1p - cyp) / ry, (-x1p - cxp) / rx, (-y1p - cyp) / ry);
+  if (!sweep && sweepAngle > 0) sweepAngle -= 2 * Math.PI;
+  if (sweep && sweepAngle < 0) sweepAngle += 2 * Math.PI;
+
+  const count = Math.max(1, Math.ceil(Math.abs(sweepAngle) / (Math.PI / 2) - 1e-9));
+  const delta = sweepAngle / count;
+  const t = (4 / 3) * Math.tan(delta / 4);
+  const toPoint = (ux: number, uy: number): [number, number] => [
+    cx + rx * ux * cos - ry * uy * sin,
+    cy + rx * ux * sin + ry * uy * cos,
+  ];
+
+  const curves: PathSegment[] = [];
+  for (let index = 0; index < count; index += 1) {
+    const a1 = startAngle + index * delta;
+    const a2 = a1 + delta;
+    const [c1x, c1y] = toPoint(Math.cos(a1) - t * Math.sin(a1), Math.sin(a1) + t * Math.cos(a1));
+    const [c2x, c2y] = toPoint(Math.cos(a2) + t * Math.sin(a2), Math.sin(a2) - t * Math.cos(a2));
+    const [x, y] = index === count - 1 ? [x2, y2] : toPoint(Math.cos(a2), Math.sin(a2));
+    curves.push({ type: "C", x1: c1x, y1: c1y, x2: c2x, y2: c2y, x, y });
+  }
+  return curves;
+}
+
+/**
+ * Converts SVG path data to absolute move, line, cubic and close segments. Like browsers,
+ * it keeps everything up to the first malformed command and drops the rest.
+ */
+function parsePathData(d: string): PathSegment[] {
+  const tokens = d.match(PATH_TOKEN) ?? [];
+  const segments: PathSegment[] = [];
+  let index = 0;
+  let command = "";
+  let x = 0;
+  let y = 0;
+  let startX = 0;
+  let startY = 0;
+  // Reflected control points for S/T
+  let lastCubic: [number, number] | null = null;
+  let lastQuad: [number, number] | null = null;
+
+  const isCommand = (token: string | undefined) => token !== undefined && /^[a-z]$/i.test(token);
+  const readNumber = () => {
+    const token = tokens[index];
+    if (token === undefined || isCommand(token)) return null;
+    index += 1;
+    return Number(token);
+  };
+  // Arc flags may be written without separators ("a5 5 0 015 5")
+  const readFlag = () => {
+    const token = tokens[index];
+    if (token === undefined || !/^[01]/.test(token)) return null;
+    if (token.length > 1) {
+      tokens[index] = token.slice(1);
+    } else {
+      index += 1;
+    }
+    return token[0] === "1";
+  };
+  const readNumbers = (count: number) => {
+    const values: number[] = [];
+    for (let n = 0; n < count; n += 1) {
+      const value = readNumber();
+      if (value === null || !Number.isFinite(value)) return null;
+      values.push(value);
+    }
+    return values;
+  };
+
+  while (index < tokens.length) {
+    if (isCommand(tokens[index])) {
+      command = tokens[index];
+      index += 1;
+    } else if (!command) {
+      break;
+    }
+    const relative = command === command.toLowerCase();
+    const ox = relative ? x : 0;
+    const oy = relative ? y : 0;
+    const upper = command.toUpperCase();
+
+    if (upper === "Z") {
+      segments.push({ type: "Z" });
+      x = startX;
+      y = startY;
+      lastCubic = null;
+      lastQuad = null;
+      command = "";
+      continue;
+    }
+
+    let valid = true;
+    switch (upper) {
+      case "M": {
+        const values = readNumbers(2);
+        if (!values) {
+          valid = false;
+          break;
+        }
+        x = ox + values[0];
+        y = oy + values[1];
+        startX = x;
+        startY = y;
+        segments.push({ type: "M", x, y });
+        // Further coordinate pairs after a moveto are implicit linetos
+        command = relative ? "l" : "L";
+        lastCubic = null;
+        lastQuad = null;
+        break;
+      }
+      case "L":
+      case "H":
+      case "V": {
+        const values = readNumbers(upper === "L" ? 2 : 1);
+        if (!values) {
+          valid = false;
+          break;
+        }
+        if (upper === "L") {
+          x = ox + values[0];
+          y = oy + values[1];
+        } else if (upper === "H") {
+          x = ox + values[0];
+        } else {
+          y = oy + values[0];
+        }
+        segments.push({ type: "L", x, y });
+        lastCubic = null;
+        lastQuad = null;
+        break;
+      }
+      case "C":
+      case "S": {
+        const values = readNumbers(upper === "C" ? 6 : 4);
+        if (!values) {
+          valid = false;
+          break;
+        }
+        const [x1, y1]: [number, number] =
+          upper === "C"
+            ? [ox + values[0], oy + values[1]]
+            : lastCubic
+              ? [2 * x - lastCubic[0], 2 * y - lastCubic[1]]
+              : [x, y];
+        const rest = upper === "C" ? values.slice(2) : values;
+        const x2 = ox + rest[0];
+        const y2 = oy + rest[1];
+        x = ox + rest[2];
+        y = oy + rest[3];
+        segments.push({ type: "C", x1, y1, x2, y2, x, y });
+        lastCubic = [x2, y2];
+        lastQuad = null;
+        break;
+      }
+      case "Q":
+      case "T": {
+        const values = readNumbers(upper === "Q" ? 4 : 2);
+        if (!values) {
+          valid = false;
+          break;
+        }
+        const control: [number, number] =
+          upper === "Q"
+            ? [ox + values[0], oy + values[1]]
+            : lastQuad
+              ? [2 * x - lastQuad[0], 2 * y - lastQuad[1]]
+              : [x, y];
+        const [qx, qy] = control;
+        const rest = upper === "Q" ? values.slice(2) : values;
+        const endX = ox + rest[0];
+        const endY = oy + rest[1];
+        segments.push({
+          type: "C",
+          x1: x + (2 / 3) * (qx - x),
+          y1: y + (2 / 3) * (qy - y),
+          x2: endX + (2 / 3) * (qx - endX),
+          y2: endY + (2 / 3) * (qy - endY),
+          x: endX,
+          y: endY,
+        });
+        x = endX;
+        y = endY;
+        lastQuad = [qx, qy];
+        lastCubic = null;
+        break;
+      }
+      case "A": {
+        const radii = readNumbers(3);
+        const largeArc = radii ? readFlag() : null;
+        const sweep = largeArc !== null ? readFlag() : null;
+        const end = sweep !== null ? readNumbers(2) : null;
+        if (!radii || largeArc === null || sweep === null || !end) {
+          valid = false;
+          break;
+        }
+        const endX = ox + end[0];
+        const endY = oy + end[1];
+        segments.push(...arcToCurves(x, y, radii[0], radii[1], radii[2], largeArc, sweep, endX, endY));
+        x = endX;
+        y = endY;
+        lastCubic = null;
+        lastQuad = null;
+        break;
+      }
+      default:
+        valid = false;
+    }
+    if (!valid) break;
+  }
+
+  // A path has to start with a moveto to be rendered at all
+  return segments[0]?.type === "M" ? segments : [];
+}
+
+function rectSegments(x: number, y: number, width: number, height: number, rxIn = 0, ryIn = 0): PathSegment[] {
+  const rx = Math.min(rxIn || ryIn, width / 2);
+  const ry = Math.min(ryIn || rxIn, height / 2);
+  if (rx <= 0 || ry <= 0) {
+    return [
+      { type: "M", x, y },
+      { type: "L", x: x + width, y },
+      { type: "L", x: x + width, y: y + height },
+      { type: "L", x, y: y + height },
+      { type: "Z" },
+    ];
+  }
+  const kx = KAPPA * rx;
+  const ky = KAPPA * ry;
+  const right = x + width;
+  const bottom = y + height;
+  return [
+    { type: "M", x: x + rx, y },
+    { type: "L", x: right - rx, y },
+    { type: "C", x1: right - rx + kx, y1: y, x2: right, y2: y + ry - ky, x: right, y: y + ry },
+    { type: "L", x: right, y: bottom - ry },
+    { type: "C", x1: right, y1: bottom - ry + ky, x2: right - rx + kx, y2: bottom, x: right - rx, y: bottom },
+    { type: "L", x: x + rx, y: bottom },
+    { type: "C", x1: x + rx - kx, y1: bottom, x2: x, y2: bottom - ry + ky, x, y: bottom - ry },
+    { type: "L", x, y: y + ry },
+    { type: "C", x1: x, y1: y + ry - ky, x2: x + rx - kx, y2: y, x: x + rx, y },
+    { type: "Z" },
+  ];
+}
+
+function ellipseSegments(cx: number, cy: number, rx: number, ry: number): PathSegment[] {
+  const kx = KAPPA * rx;
+  const ky = KAPPA * ry;
+  return [
+    { type: "M", x: cx + rx, y: cy },
+    { type: "C", x1: cx + rx, y1: cy + ky, x2: cx + kx, y2: cy + ry, x: cx, y: cy + ry },
+    { type: "C", x1: cx - kx, y1: cy + ry, x2: cx - rx, y2: cy + ky, x: cx - rx, y: cy },
+    { type: "C", x1: cx - rx, y1: cy - ky, x2: cx - kx, y2: cy - ry, x: cx, y: cy - ry },
+    { type: "C", x1: cx + kx, y1: cy - ry, x2: cx + rx, y2: cy - ky, x: cx + rx, y: cy },
+    { type: "Z" },
+  ];
+}
+
+function shapeSegments(element: Element): PathSegment[] {
+  if (element instanceof SVGPathElement) {
+    return parsePathData(element.getAttribute("d") ?? "");
+  }
+  if (element instanceof SVGRectElement) {
+    const width = element.width.baseVal.value;
+    const height = element.height.baseVal.value;
+    if (width <= 0 || height <= 0) return [];
+    return rectSegments(
+      element.x.baseVal.value,
+      element.y.baseVal.value,
+      width,
+      height,
+      element.rx.baseVal.value,
+      element.ry.baseVal.value
+    );
+  }
+  if (element instanceof SVGCircleElement) {
+    const r = element.r.baseVal.value;
+    return r > 0 ? ellipseSegments(element.cx.baseVal.value, element.cy.baseVal.value, r, r) : [];
+  }
+  if (element instanceof SVGEllipseElement) {
+    const rx = element.rx.baseVal.value;
+    const ry = element.ry.baseVal.value;
+    return rx > 0 && ry > 0 ? ellipseSegments(element.cx.baseVal.value, element.cy.baseVal.value, rx, ry) : [];
+  }
+  if (element instanceof SVGLineElement) {
+    return [
+      { type: "M", x: element.x1.baseVal.value, y: element.y1.baseVal.value },
+      { type: "L", x: element.x2.baseVal.value, y: element.y2.baseVal.value },
+    ];
+  }
+  if (element instanceof SVGPolylineElement || element instanceof SVGPolygonElement) {
+    const points = Array.from(element.points);
+    if (!points.length) return [];
+    const segments: PathSegment[] = points.map((point, index) => ({ type: index === 0 ? "M" : "L", x: point.x, y: point.y }));
+    if (element instanceof SVGPolygonElement) segments.push({ type: "Z" });
+    return segments;
+  }
+  return [];
+}
+
+function emitPath(pdf: jsPDF, segments: PathSegment[], m: Matrix) {
+  segments.forEach((segment) => {
+    if (segment.type === "Z") {
+      pdf.close();
+    } else if (segment.type === "C") {
+      const [x1, y1] = apply(m, segment.x1, segment.y1);
+      const [x2, y2] = apply(m, segment.x2, segment.y2);
+      const [x, y] = apply(m, segment.x, segment.y);
+      pdf.curveTo(x1, y1, x2, y2, x, y);
+    } else {
+      const [x, y] = apply(m, segment.x, segment.y);
+      if (segment.type === "M") {
+        pdf.moveTo(x, y);
+      } else {
+        pdf.lineTo(x, y);
+      }
+    }
+  });
+}
+
+let colorContext: CanvasRenderingContext2D | null = null;
+
+function parseColor(value: string): { rgb: [number, number, number]; alpha: number } | null {
+  const functional = value.match(/rgba?\(([^)]+)\)/);
+  if (functional) {
+    const parts = functional[1].split(/[\s,/]+/).filter(Boolean);
+    const [r, g, b] = parts.slice(0, 3).map((part) => Number.parseFloat(part));
+    const alphaPart = parts[3];
+    const alpha = alphaPart === undefined ? 1 : alphaPart.endsWith("%") ? Number.parseFloat(alphaPart) / 100 : Number.parseFloat(alphaPart);
+    if (![r, g, b, alpha].every(Number.isFinite)) return null;
+    return { rgb: [r, g, b], alpha };
+  }
+
+  // Anything else (named colors, color(), hex) is normalized by the canvas
+  colorContext ??= document.createElement("canvas").getContext("2d");
+  if (!colorContext) return null;
+  colorContext.fillStyle = "#000000";
+  colorContext.fillStyle = value;
+  const normalized = String(colorContext.fillStyle);
+  const hex = normalized.match(/^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i);
+  if (hex) {
+    return { rgb: [Number.parseInt(hex[1], 16), Number.parseInt(hex[2], 16), Number.parseInt(hex[3], 16)], alpha: 1 };
+  }
+  return normalized.startsWith("rgba(") ? parseColor(normalized) : null;
+}
+
+function findReferencedElement(root: SVGSVGElement, value: string) {
+  const match = value.match(/url\(\s*["']?#([^"')]+)["']?\s*\)/);
+  if (!match) return null;
+  const id = match[1];
+  // Comparison mode renders several charts with the same ids; prefer the one inside this chart
+  return root.querySelector(`[id="${CSS.escape(id)}"]`) ?? root.ownerDocument.getElementById(id);
+}
+
+function readPaint(root: SVGSVGElement, value: string): Paint {
+  if (!value || value === "none") return { kind: "none" };
+  if (value.startsWith("url(")) {
+    const element = findReferencedElement(root, value);
+    return element instanceof SVGPatternElement ? { kind: "pattern", element } : { kind: "none" };
+  }
+  const color = parseColor(value);
+  return color && color.alpha > 0 ? { kind: "color", ...color } : { kind: "none" };
+}
+
+function numberOr(value: string, fallback: number) {
+  const parsed = Number.parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+function setOpacity(context: DrawContext, fill: number, stroke: number) {
+  const key = `${fill.toFixed(3)}-${stroke.toFixed(3)}`;
+  if (!context.gStates.has(key)) {
+    context.pdf.addGState(key, new context.GState({ opacity: fill, "stroke-opacity": stroke }));
+    context.gStates.add(key);
+  }
+  context.pdf.setGState(key);
+}
+
+function applyStrokeStyle(pdf: jsPDF, style: CSSStyleDeclaration, scale: number, width: number) {
+  pdf.setLineWidth(width * scale);
+  const dashes = style.strokeDasharray === "none"
+    ? []
+    : style.strokeDasharray.split(/[\s,]+/).filter(Boolean).map((part) => Math.max(numberOr(part, 0), 0) * scale);
+  const pattern = dashes.length % 2 ? [...dashes, ...dashes] : dashes;
+  pdf.setLineDashPattern(pattern.some((dash) => dash > 0) ? pattern : [], numberOr(style.strokeDashoffset, 0) * scale);
+  pdf.setLineCap(style.strokeLinecap === "round" || style.strokeLinecap === "square" ? style.strokeLinecap : "butt");
+  pdf.setLineJoin(style.strokeLinejoin === "round" || style.strokeLinejoin === "bevel" ? style.strokeLinejoin : "miter");
+  pdf.setLineMiterLimit(numberOr(style.strokeMiterlimit, 4));
+}
+
+function clipTo(context: DrawContext, segments: PathSegment[], m: Matrix, evenOdd = false) {
+  emitPath(context.pdf, segments, m);
+  context.pdf.clip(evenOdd ? "evenodd" : undefined);
+  context.pdf.discardPath();
+}
+
+// The color of the first painted element in a pattern, used when the pattern has too many tiles to draw
+function patternBaseColor(pattern: SVGPatternElement) {
+  for (const child of Array.from(pattern.children)) {
+    const style = getComputedStyle(child);
+    const color = parseColor(style.fill);
+    if (color && color.alpha > 0) {
+      return { ...color, alpha: color.alpha * numberOr(style.fillOpacity, 1) * numberOr(style.opacity, 1) };
+    }
+  }
+  return null;
+}
+
+async function drawPatternFill(
+  context: DrawContext,
+  element: SVGGraphicsElement,
+  segments: PathSegment[],
+  m: Matrix,
+  pattern: SVGPatternElement,
+  opacity: number,
+  evenOdd: boolean
+) {
+  const { pdf } = context;
+  const bbox = element.getBBox();
+  const objectUnits = pattern.patternUnits.baseVal === SVGUnitTypes.SVG_UNIT_TYPE_OBJECTBOUNDINGBOX;
+  const tileWidth = pattern.width.baseVal.value * (objectUnits ? bbox.width : 1);
+  const tileHeight = pattern.height.baseVal.value * (objectUnits ? bbox.height : 1);
+  const originX = objectUnits ? bbox.x + pattern.x.baseVal.value * bbox.width : pattern.x.baseVal.value;
+  const originY = objectUnits ? bbox.y + pattern.y.baseVal.value * bbox.height : pattern.y.baseVal.value;
+  if (!(tileWidth > 0) || !(tileHeight > 0)) return;
+
+  const patternTransform = toMatrix(pattern.patternTransform.baseVal.consolidate()?.matrix);
+  const inverse = invert(patternTransform);
+  if (!inverse) return;
+  // The filled area in pattern space decides which tiles are visible
+  const area = boundsOf(inverse, bbox.x, bbox.y, bbox.width, bbox.height);
+  const firstColumn = Math.floor((area.x - originX) / tileWidth);
+  const lastColumn = Math.ceil((area.x + area.width - originX) / tileWidth);
+  const firstRow = Math.floor((area.y - originY) / tileHeight);
+  const lastRow = Math.ceil((area.y + area.height - originY) / tileHeight);
+
+  pdf.saveGraphicsState();
+  clipTo(context, segments, m, evenOdd);
+
+  if ((lastColumn - firstColumn) * (lastRow - firstRow) > MAX_PATTERN_TILES) {
+    const base = patternBaseColor(pattern);
+    if (base) {
+      setOpacity(context, base.alpha * opacity, 1);
+      pdf.setFillColor(...base.rgb);
+      emitPath(pdf, segments, m);
+      pdf.fill();
+    }
+  } else {
+    const patternMatrix = multiply(m, patternTransform);
+    const contentMatrix: Matrix =
+      pattern.patternContentUnits.baseVal === SVGUnitTypes.SVG_UNIT_TYPE_OBJECTBOUNDINGBOX
+        ? [bbox.width, 0, 0, bbox.height, 0, 0]
+        : IDENTITY;
+    for (let row = firstRow; row < lastRow; row += 1) {
+      for (let column = firstColumn; column < lastColumn; column += 1) {
+        const tileMatrix = multiply(patternMatrix, [1, 0, 0, 1, originX + column * tileWidth, originY + row * tileHeight]);
+        pdf.saveGraphicsState();
+        clipTo(context, rectSegments(0, 0, tileWidth, tileHeight), tileMatrix);
+        await drawChildren(context, pattern, multiply(tileMatrix, contentMatrix), opacity);
+        pdf.restoreGraphicsState();
+      }
+    }
+  }
+  pdf.restoreGraphicsState();
+}
+
+async function drawShape(context: DrawContext, element: SVGGraphicsElement, m: Matrix, opacity: number, style: CSSStyleDeclaration) {
+  const segments = shapeSegments(element);
+  if (!segments.length) return;
+  const { pdf, root } = context;
+  const fill = readPaint(root, style.fill);
+  const stroke = readPaint(root, style.stroke);
+  const strokeWidth = numberOr(style.strokeWidth, 1);
+  const fillOpacity = opacity * numberOr(style.fillOpacity, 1);
+  const strokeOpacity = opacity * numberOr(style.strokeOpacity, 1);
+  const evenOdd = style.fillRule === "evenodd";
+
+  if (fill.kind === "pattern") {
+    await drawPatternFill(context, element, segments, m, fill.element, fillOpacity, evenOdd);
+  }
+
+  const hasFill = fill.kind === "color";
+  const hasStroke = stroke.kind === "color" && strokeWidth > 0;
+  if (!hasFill && !hasStroke) return;
+
+  setOpacity(context, hasFill ? fillOpacity * fill.alpha : 1, hasStroke ? strokeOpacity * stroke.alpha : 1);
+  if (hasFill) pdf.setFillColor(...fill.rgb);
+  if (hasStroke) {
+    pdf.setDrawColor(...stroke.rgb);
+    applyStrokeStyle(pdf, style, scaleOf(m), strokeWidth);
+  }
+  emitPath(pdf, segments, m);
+  if (hasFill && hasStroke) {
+    if (evenOdd) pdf.fillStrokeEvenOdd();
+    else pdf.fillStroke();
+  } else if (hasFill) {
+    if (evenOdd) pdf.fillEvenOdd();
+    else pdf.fill();
+  } else {
+    pdf.stroke();
+  }
+}
+
+function readFontRequest(style: CSSStyleDeclaration): PdfFontRequest {
+  const weight = style.fontWeight === "bold" ? 700 : style.fontWeight === "normal" ? 400 : numberOr(style.fontWeight, 400);
+  return { family: style.fontFamily, weight, italic: style.fontStyle !== "normal" };
+}
+
+// Offset from the SVG `y` to the alphabetic baseline, in ems, for the dominant-baseline values the charts use
+function baselineShift(value: string) {
+  switch (value) {
+    case "middle":
+    case "central":
+      return 0.35;
+    case "hanging":
+    case "text-before-edge":
+      return 0.8;
+    case "text-after-edge":
+    case "ideographic":
+      return -0.2;
+    default:
+      return 0;
+  }
+}
+
+function drawText(context: DrawContext, element: SVGTextElement, m: Matrix, opacity: number, style: CSSStyleDeclaration) {
+  const text = (element.textContent ?? "").replace(/\s+/g, " ").trim();
+  const fill = readPaint(context.root, style.fill);
+  const fontSize = numberOr(style.fontSize, 16);
+  if (!text || fill.kind !== "color" || fontSize <= 0) return;
+
+  const { pdf } = context;
+  const content = context.selectFont(readFontRequest(style), text);
+  // Measured with the font that ends up in the PDF so anchors stay right when a fallback is used
+  pdf.setFontSize(fontSize);
+  const width = pdf.getTextWidth(content);
+
+  const firstLength = (list: SVGAnimatedLengthList) => (list.baseVal.numberOfItems ? list.baseVal.getItem(0).value : 0);
+  let x = firstLength(element.x);
+  const y = firstLength(element.y) + baselineShift(style.dominantBaseline) * fontSize;
+  if (style.textAnchor === "middle") x -= width / 2;
+  if (style.textAnchor === "end") x -= width;
+
+  const scale = scaleOf(m);
+  const angle = (-Math.atan2(m[1], m[0]) * 180) / Math.PI;
+  const [pageX, pageY] = apply(m, x, y);
+  setOpacity(context, opacity * numberOr(style.fillOpacity, 1) * fill.alpha, 1);
+  pdf.setTextColor(...fill.rgb);
+  pdf.setFontSize(fontSize * scale);
+  pdf.text(content, pageX, pageY, Math.abs(angle) > 1e-6 ? { angle } : undefined);
+
+  const decorations = style.textDecorationLine || style.textDecoration;
+  const offsets = [
+    decorations.includes("underline") ? 0.12 : null,
+    decorations.includes("line-through") ? -0.3 : null,
+    decorations.includes("overline") ? -0.85 : null,
+  ].filter((offset): offset is number => offset !== null);
+  if (offsets.length) {
+    pdf.setDrawColor(...fill.rgb);
+    pdf.setLineWidth(fontSize * 0.07 * scale);
+    pdf.setLineDashPattern([], 0);
+    pdf.setLineCap("butt");
+    setOpacity(context, 1, opacity * numberOr(style.fillOpacity, 1) * fill.alpha);
+    offsets.forEach((offset) => {
+      emitPath(
+        pdf,
+        [
+          { type: "M", x, y: y + offset * fontSize },
+          { type: "L", x: x + width, y: y + offset * fontSize },
+        ],
+        m
+      );
+      pdf.stroke();
+    });
+  }
+}
+
+function loadImage(src: string) {
+  return new Promise<HTMLImageElement | null>((resolve) => {
+    const image = new Image();
+    if (!src.startsWith("data:") && !src.startsWith("blob:")) image.crossOrigin = "anonymous";
+    image.onload = () => resolve(image);
+    image.onerror = () => {
+      console.warn("Failed to load image for PDF export", src.slice(0, 80));
+      resolve(null);
+    };
+    image.src = src;
+  });
+}
+
+// Saturation of the chart's grayscale filter, the only filter the editors apply
+function readSaturation(root: SVGSVGElement, filter: string) {
+  if (!filter || filter === "none") return null;
+  const element = findReferencedElement(root, filter);
+  const matrix = element?.querySelector('feColorMatrix[type="saturate"]');
+  return matrix ? numberOr(matrix.getAttribute("values") ?? "", 1) : null;
+}
+
+/**
+ * Images stay raster data in a PDF. They are redrawn at print resolution with their
+ * transform, opacity and filter applied, then placed over their bounding box.
+ */
+async function drawImage(context: DrawContext, element: SVGImageElement, m: Matrix, opacity: number, style: CSSStyleDeclaration) {
+  const href = element.href.baseVal || element.getAttribute("xlink:href") || "";
+  const x = element.x.baseVal.value;
+  const y = element.y.baseVal.value;
+  const width = element.width.baseVal.value;
+  const height = element.height.baseVal.value;
+  if (!href || width <= 0 || height <= 0) return;
+  const image = await loadImage(href);
+  if (!image || !image.naturalWidth || !image.naturalHeight) return;
+
+  // preserveAspectRatio, default xMidYMid meet
+  const { align, meetOrSlice } = element.preserveAspectRatio.baseVal;
+  let drawX = x;
+  let drawY = y;
+  let drawWidth = width;
+  let drawHeight = height;
+  if (align !== SVGPreserveAspectRatio.SVG_PRESERVEASPECTRATIO_NONE) {
+    const fit = meetOrSlice === SVGPreserveAspectRatio.SVG_MEETORSLICE_SLICE ? Math.max : Math.min;
+    const ratio = fit(width / image.naturalWidth, height / image.naturalHeight);
+    const alignIndex = Math.max(align - SVGPreserveAspectRatio.SVG_PRESERVEASPECTRATIO_XMINYMIN, 0);
+    drawWidth = image.naturalWidth * ratio;
+    drawHeight = image.naturalHeight * ratio;
+    drawX = x + ((width - drawWidth) * (alignIndex % 3)) / 2;
+    drawY = y + ((height - drawHeight) * Math.floor(alignIndex / 3)) / 2;
+  }
+
+  const bounds = boundsOf(m, x, y, width, height);
+  if (bounds.width <= 0 || bounds.height <= 0) return;
+  const pixelsPerPoint = Math.min(context.imageDpi / 72, MAX_IMAGE_PIXELS / bounds.width, MAX_IMAGE_PIXELS / bounds.height);
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.ceil(bounds.width * pixelsPerPoint));
+  canvas.height = Math.max(1, Math.ceil(bounds.height * pixelsPerPoint));
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return;
+
+  ctx.setTransform(
+    m[0] * pixelsPerPoint,
+    m[1] * pixelsPerPoint,
+    m[2] * pixelsPerPoint,
+    m[3] * pixelsPerPoint,
+    (m[4] - bounds.x) * pixelsPerPoint,
+    (m[5] - bounds.y) * pixelsPerPoint
+  );
+  ctx.beginPath();
+  ctx.rect(x, y, width, height);
+  ctx.clip();
+  ctx.globalAlpha = opacity;
+  const saturation = readSaturation(context.root, style.filter);
+  if (saturation !== null) ctx.filter = `saturate(${saturation})`;
+  ctx.imageSmoothingQuality = "high";
+  ctx.drawImage(image, drawX, drawY, drawWidth, drawHeight);
+
+  let dataUrl: string;
+  try {
+    dataUrl = canvas.toDataURL("image/png");
+  } catch (error) {
+    // Images from servers without CORS headers cannot be read back from a canvas
+    console.warn("Skipped an image that cannot be embedded in the PDF", error);
+    return;
+  }
+  context.pdf.addImage(dataUrl, "PNG", bounds.x, bounds.y, bounds.width, bounds.height);
+}
+
+function shouldSkip(context: DrawContext, element: Element) {
+  if (element.getAttribute("data-role") === "editor") return true;
+  if (context.transparent && element.getAttribute("data-role") === "background") return true;
+  return SKIPPED_ELEMENTS.has(element.localName);
+}
+
+async function drawElement(context: DrawContext, element: Element, parentMatrix: Matrix, parentOpacity: number) {
+  if (shouldSkip(context, element)) return;
+  const style = getComputedStyle(element);
+  if (style.display === "none") return;
+
+  const m = multiply(parentMatrix, localTransform(element));
+  const opacity = parentOpacity * numberOr(style.opacity, 1);
+  if (opacity <= 0) return;
+
+  const clipPath = style.clipPath && style.clipPath !== "none" ? findReferencedElement(context.root, style.clipPath) : null;
+  if (clipPath instanceof SVGClipPathElement) {
+    const clipMatrix =
+      clipPath.clipPathUnits.baseVal === SVGUnitTypes.SVG_UNIT_TYPE_OBJECTBOUNDINGBOX
+        ? (() => {
+            const bbox = (element as SVGGraphicsElement).getBBox();
+            return multiply(m, [bbox.width, 0, 0, bbox.height, bbox.x, bbox.y]);
+          })()
+        : m;
+    context.pdf.saveGraphicsState();
+    Array.from(clipPath.children).forEach((child) => {
+      emitPath(context.pdf, shapeSegments(child), multiply(clipMatrix, localTransform(child)));
+    });
+    context.pdf.clip();
+    context.pdf.discardPath();
+  }
+
+  const visible = style.visibility === "visible";
+  if (CONTAINER_ELEMENTS.has(element.localName)) {
+    await drawChildren(context, element, m, opacity);
+  } else if (visible && SHAPE_ELEMENTS.has(element.localName)) {
+    await drawShape(context, element as SVGGraphicsElement, m, opacity, style);
+  } else if (visible && element instanceof SVGTextElement) {
+    drawText(context, element, m, opacity, style);
+  } else if (visible && element instanceof SVGImageElement) {
+    await drawImage(context, element, m, opacity, style);
+  }
+
+  if (clipPath instanceof SVGClipPathElement) {
+    context.pdf.restoreGraphicsState();
+  }
+}
+
+async function drawChildren(context: DrawContext, parent: Element, m: Matrix, opacity: number) {
+  for (const child of Array.from(parent.children)) {
+    await drawElement(context, child, m, opacity);
+  }
+}
+
+function collectFontRequests(svg: SVGSVGElement) {
+  return Array.from(svg.querySelectorAll("text"))
+    .filter((text) => !text.closest('[data-role="editor"]'))
+    .map((text) => readFontRequest(getComputedStyle(text)));
+}
+
+/**
+ * Draws a rendered chart into a new vector PDF page of `width` × `height` points. Shapes
+ * become PDF paths, text stays selectable with its fonts embedded, and patterns are drawn
+ * tile by tile, so the figure stays sharp at any zoom. Only embedded images are rasterized.
+ * `data-role="editor"` elements are skipped, as in the other export formats.
+ */
+export async function renderSvgToPdf(svg: SVGSVGElement, options: SvgToPdfOptions): Promise<jsPDF> {
+  const { jsPDF, GState } = await import("jspdf");
+  const { width, height } = options;
+  const pdf = new jsPDF({
+    orientation: width >= height ? "landscape" : "portrait",
+    unit: "pt",
+    format: [width, height],
+    compress: true,
+  });
+
+  const title = svg.querySelector(":scope > title")?.textContent?.trim();
+  if (title) pdf.setProperties({ title });
+
+  const viewBox = svg.viewBox.baseVal;
+  const bounds = svg.getBoundingClientRect();
+  const sourceWidth = viewBox && viewBox.width > 0 ? viewBox.width : bounds.width;
+  const sourceHeight = viewBox && viewBox.height > 0 ? viewBox.height : bounds.height;
+  if (sourceWidth <= 0 || sourceHeight <= 0) {
+    throw new Error("Chart has no size to export");
+  }
+  const scale = Math.min(width / sourceWidth, height / sourceHeight);
+  const rootMatrix: Matrix = [scale, 0, 0, scale, -(viewBox?.x ?? 0) * scale, -(viewBox?.y ?? 0) * scale];
+
+  const context: DrawContext = {
+    pdf,
+    root: svg,
+    GState,
+    gStates: new Set(),
+    transparent: options.transparent,
+    imageDpi: options.imageDpi ?? DEFAULT_IMAGE_DPI,
+    selectFont: await embedPdfFonts(pdf, collectFontRequests(svg)),
+  };
+  await drawChildren(context, svg, rootMatrix, 1);
+  return pdf;
+}
@@ -0,0 +1,117 @@
+export type AxisTicks = {
+  axisMin: number;
+  axisMax: number;
+  ticks: number[];
+};
+
+export function generateTicksRange(minValue: number, maxValue: number, count = 6) {
+  if (!Number.isFinite(minValue) || !Number.isFinite(maxValue)) {
+    return [0, 1];
+  }
+
+  if (minValue === maxValue) {
+    const step = Math.abs(minValue) > 1 ? Math.abs(minValue) * 0.2 : 1;
+    return [minValue - step, minValue + step];
+  }
+
+  const niceNumber = (range: number, round: boolean) => {
+    const exponent = Math.floor(Math.log10(range));
+    const fraction = range / 10 ** exponent;
+    let niceFraction: number;
+
+    if (round) {
+      if (fraction < 1.5) niceFraction = 1;
+      else if (fraction < 3) niceFraction = 2;
+      else if (fraction < 7) niceFraction = 5;
+      else niceFraction = 10;
+    } else {
+      if (fraction <= 1) niceFraction = 1;
+      else if (fraction <= 2) niceFraction = 2;
+      else if (fraction <= 5) niceFraction = 5;
+      else niceFraction = 10;
+    }
+
+    return niceFraction * 10 ** exponent;
+  };
+
+  const rawRange = maxValue - minValue;
+  const niceRange = niceNumber(Math.abs(rawRange), false);
+  const spacing = niceNumber(niceRange / Math.max(count - 1, 1), true);
+  const niceMin = Math.floor(minValue / spacing) * spacing;
+  const niceMax = Math.ceil(maxValue / spacing) * spacing;
+
+  const ticks: number[] = [];
+  for (let tick = niceMin; tick <= niceMax + spacing / 2; tick += spacing) {
+    ticks.push(Number.parseFloat(tick.toPrecision(12)));
+  }
+
+  return ticks;
+}
+
+/**
+ * Resolves the final axis range and tick positions for a linear axis.
+ * Manual min/max/step values take precedence over the data extent.
+ */
+export function computeAxisTicks(
+  dataMin: number,
+  dataMax: number,
+  options: { min: number | null; max: number | null; step: number | null }
+): AxisTicks {
+  const desiredMin = options.min ?? dataMin;
+  const desiredMax = options.max ?? Math.max(dataMax, dataMin + 1);
+
+  let minValue = Number.isFinite(desiredMin) ? desiredMin : dataMin;
+  let maxValue = Number.isFinite(desiredMax) ? desiredMax : dataMax;
+
+  if (minValue === maxValue) {
+    maxValue = minValue + 1;
+  }
+  if (minValue > maxValue) {
+    const temp = minValue;
+    minValue = maxValue;
+    maxValue = temp;
+  }
+
+  let tickValues: number[];
+  const step = options.step;
+
+  if (step && Number.isFinite(step) && step > 0) {
+    const clampedStep = Math.max(step, Number.EPSILON);
+    const firstTick = Math.ceil(minValue / clampedStep) * clampedStep;
+    const ticksArray: number[] = [];
+    for (let tick = firstTick; tick <= maxValue + clampedStep / 2; tick += clampedStep) {
+      ticksArray.push(Number.parseFloat(tick.toFixed(6)));
+    }
+    if (ticksArray.length === 0 || ticksArray[0] > minValue) {
+      ticksArray.unshift(Number.parseFloat(minValue.toFixed(6)));
+    }
+    if (ticksArray[ticksArray.length - 1] < maxValue) {
+      ticksArray.push(Number.parseFloat(maxValue.toFixed(6)));
+    }
+    tickValues = ticksArray;
+  } else {
+    tickValues = generateTicksRange(minValue, maxValue);
+  }
+  const finalMin = tickValues[0] ?? minValue;
+  const finalMax = tickValues[tickValues.length - 1] ?? maxValue;
+
+  return {
+    axisMin: finalMin,
+    axisMax: finalMax,
+    ticks: tickValues.length > 0 ? tickValues : [finalMin, finalMax],
+  };
+}
+
+export function formatTickLabel(tick: number) {
+  return tick.toLocaleString(undefined, { maximumFractionDigits: 2 });
+}
+
+/**
+ * Rounds a value to the nearest multiple of `step`, trimming the floating point
+ * noise that multiplying by fractional steps (0.1, 0.25…) leaves behind.
+ */
+export function roundToStep(value: number, step: number) {
+  if (!Number.isFinite(step) || step <= 0) return value;
+  const decimals = Math.min(Math.max(Math.ceil(-Math.log10(step)) + 1, 0), 12);
+  return Number((Math.round(value / step) * step).toFixed(decimals));
+}
@@ -0,0 +1,289 @@
+export type TiffCompression = "lzw" | "none";
+export type TiffColorSpace = "rgb" | "cmyk";
+
+export type TiffOptions = {
+  compression: TiffCompression;
+  colorSpace: TiffColorSpace;
+};
+
+type TiffImage = {
+  width: number;
+  height: number;
+  // Unpremultiplied RGBA, as returned by CanvasRenderingContext2D.getImageData
+  data: Uint8ClampedArray;
+};
+
+// Tag data types
+const SHORT = 3;
+const LONG = 4;
+const RATIONAL = 5;
+const ASCII = 2;
+
+// Strips of about this many bytes keep LZW tables warm without one huge allocation per image
+const STRIP_TARGET_BYTES = 64 * 1024;
+
+const LZW_CLEAR = 256;
+const LZW_END = 257;
+// The table is cleared when it would need a code past 12 bits
+const LZW_TABLE_FULL = 4094;
+
+class ByteWriter {
+  private buffer: Uint8Array;
+  length = 0;
+
+  constructor(initialSize: number) {
+    this.buffer = new Uint8Array(Math.max(initialSize, 1024));
+  }
+
+  private reserve(extra: number) {
+    if (this.length + extra <= this.buffer.length) return;
+    const next = new Uint8Array(Math.max(this.buffer.length * 2, this.length + extra));
+    next.set(this.buffer.subarray(0, this.length));
+    this.buffer = next;
+  }
+
+  byte(value: number) {
+    this.reserve(1);
+    this.buffer[this.length] = value;
+    this.length += 1;
+  }
+
+  result() {
+    return this.buffer.subarray(0, this.length);
+  }
+}
+
+// Lookup of (prefix code, next byte) → code; entries from before the last clear code are ignored by generation
+const lzwCodes = new Uint16Array(4096 * 256);
+const lzwGenerations = new Uint16Array(4096 * 256);
+let lzwGeneration = 0;
+
+function nextLzwGeneration() {
+  lzwGeneration += 1;
+  if (lzwGeneration > 0xffff) {
+    lzwGenerations.fill(0);
+    lzwGeneration = 1;
+  }
+}
+
+/**
+ * LZW as specified for TIFF: MSB-first codes of 9–12 bits and a clear code whenever the
+ * table is full. Code widths change at the points TIFF readers expect ("early change").
+ */
+function lzwEncode(input: Uint8Array): Uint8Array {
+  const output = new ByteWriter(input.length / 2);
+  let bitBuffer = 0;
+  let bitCount = 0;
+  let codeWidth = 9;
+  let nextCode = 258;
+
+  const write = (code: number) => {
+    bitBuffer = (bitBuffer << codeWidth) | code;
+    bitCount += codeWidth;
+    while (bitCount >= 8) {
+      bitCount -= 8;
+      output.byte((bitBuffer >>> bitCount) & 0xff);
+    }
+    bitBuffer &= (1 << bitCount) - 1;
+  };
+
+  // Counts the entry added for the code just written, widening codes or clearing the table
+  const advance = () => {
+    nextCode += 1;
+    if (nextCode === LZW_TABLE_FULL) {
+      write(LZW_CLEAR);
+      nextLzwGeneration();
+      codeWidth = 9;
+      nextCode = 258;
+    } else if (nextCode > (1 << codeWidth) - 1) {
+      codeWidth += 1;
+    }
+  };
+
+  nextLzwGeneration();
+  write(LZW_CLEAR);
+  if (!input.length) {
+    write(LZW_END);
+    if (bitCount > 0) output.byte((bitBuffer << (8 - bitCount)) & 0xff);
+    return output.result();
+  }
+
+  let prefix = input[0];
+  for (let index = 1; index < input.length; index += 1) {
+    const value = input[index];
+    const key = (prefix << 8) | value;
+    if (lzwGenerations[key] === lzwGeneration) {
+      prefix = lzwCodes[key];
+      continue;
+    }
+    write(prefix);
+    lzwCodes[key] = nextCode;
+    lzwGenerations[key] = lzwGeneration;
+    advance();
+    prefix = value;
+  }
+  write(prefix);
+  // Readers add a table entry for the last code too, which can widen the end code
+  advance();
+  write(LZW_END);
+  if (bitCount > 0) output.byte((bitBuffer << (8 - bitCount)) & 0xff);
+  return output.result();
+}
+
+// Per-pixel samples in file order; CMYK uses a simple uncalibrated conversion on a white page
+function toSamples(image: TiffImage, colorSpace: TiffColorSpace, keepAlpha: boolean) {
+  const { width, height, data } = image;
+  const samplesPerPixel = colorSpace === "cmyk" ? 4 : keepAlpha ? 4 : 3;
+  const samples = new Uint8Array(width * height * samplesPerPixel);
+  for (let pixel = 0, out = 0; pixel < width * height; pixel += 1) {
+    const source = pixel * 4;
+    const alpha = data[source + 3] / 255;
+    if (colorSpace === "cmyk") {
+      const r = (data[source] * alpha + 255 * (1 - alpha)) / 255;
+      const g = (data[source + 1] * alpha + 255 * (1 - alpha)) / 255;
+      const b = (data[source + 2] * alpha + 255 * (1 - alpha)) / 255;
+      const k = 1 - Math.max(r, g, b);
+      const scale = k < 1 ? 1 / (1 - k) : 0;
+      samples[out++] = Math.round((1 - r - k) * scale * 255);
+      samples[out++] = Math.round((1 - g - k) * scale * 255);
+      samples[out++] = Math.round((1 - b - k) * scale * 255);
+      samples[out++] = Math.round(k * 255);
+    } else {
+      samples[out++] = data[source];
+      samples[out++] = data[source + 1];
+      samples[out++] = data[source + 2];
+      if (keepAlpha) samples[out++] = data[source + 3];
+    }
+  }
+  return { samples, samplesPerPixel };
+}
+
+// Horizontal differencing (TIFF predictor 2), which lets LZW find the long flat runs in charts
+function applyPredictor(strip: Uint8Array, rowBytes: number, samplesPerPixel: number) {
+  const result = new Uint8Array(strip.length);
+  for (let rowStart = 0; rowStart < strip.length; rowStart += rowBytes) {
+    for (let index = 0; index < rowBytes; index += 1) {
+      const position = rowStart + index;
+      result[position] = index < samplesPerPixel ? strip[position] : (strip[position] - strip[position - samplesPerPixel]) & 0xff;
+    }
+  }
+  return result;
+}
+
+type TiffTag = { tag: number; type: number; values: number[] | string };
+
+/**
+ * Encodes an RGBA image as a baseline TIFF with 8 bits per sample. The DPI is written to the
+ * resolution tags; RGB files keep transparency as an unassociated alpha channel when the
+ * image has any, CMYK files are flattened onto white.
+ */
+export function encodeTiff(image: TiffImage, dpi: number, options: TiffOptions): Uint8Array {
+  const { width, height } = image;
+  let hasAlpha = false;
+  for (let index = 3; index < image.data.length; index += 4) {
+    if (image.data[index] < 255) {
+      hasAlpha = true;
+      break;
+    }
+  }
+  const keepAlpha = hasAlpha && options.colorSpace === "rgb";
+  const { samples, samplesPerPixel } = toSamples(image, options.colorSpace, keepAlpha);
+  const rowBytes = width * samplesPerPixel;
+  const rowsPerStrip = Math.max(1, Math.min(height, Math.floor(STRIP_TARGET_BYTES / rowBytes)));
+
+  const strips: Uint8Array[] = [];
+  for (let row = 0; row < height; row += rowsPerStrip) {
+    const strip = samples.subarray(row * rowBytes, Math.min(height, row + rowsPerStrip) * rowBytes);
+    strips.push(options.compression === "lzw" ? lzwEncode(applyPredictor(strip, rowBytes, samplesPerPixel)) : strip);
+  }
+
+  // Filled in once the layout of the file is known
+  const stripOffsetsTag: TiffTag = { tag: 273, type: LONG, values: new Array(strips.length).fill(0) };
+  // Resolution as a rational with two decimals of precision
+  const resolution = [Math.round(dpi * 100), 100];
+  const tags: TiffTag[] = [
+    { tag: 256, type: LONG, values: [width] },
+    { tag: 257, type: LONG, values: [height] },
+    { tag: 258, type: SHORT, values: new Array(samplesPerPixel).fill(8) },
+    { tag: 259, type: SHORT, values: [options.compression === "lzw" ? 5 : 1] },
+    { tag: 262, type: SHORT, values: [options.colorSpace === "cmyk" ? 5 : 2] },
+    stripOffsetsTag,
+    { tag: 277, type: SHORT, values: [samplesPerPixel] },
+    { tag: 278, type: LONG, values: [rowsPerStrip] },
+    { tag: 279, type: LONG, values: strips.map((strip) => strip.length) },
+    { tag: 282, type: RATIONAL, values: resolution },
+    { tag: 283, type: RATIONAL, values: resolution },
+    { tag: 284, type: SHORT, values: [1] },
+    { tag: 296, type: SHORT, values: [2] },
+    { tag: 305, type: ASCII, values: "Chart Studio" },
+  ];
+  if (options.compression === "lzw") tags.push({ tag: 317, type: SHORT, values: [2] });
+  if (options.colorSpace === "cmyk") tags.push({ tag: 332, type: SHORT, values: [1] });
+  if (keepAlpha) tags.push({ tag: 338, type: SHORT, values: [2] });
+
+  const typeSize = (type: number) => (type === RATIONAL ? 8 : type === LONG ? 4 : type === SHORT ? 2 : 1);
+  const valueBytes = (entry: TiffTag) =>
+    typeof entry.values === "string"
+      ? entry.values.length + 1
+      : entry.type === RATIONAL
+        ? (entry.values.length / 2) * 8
+        : entry.values.length * typeSize(entry.type);
+  const count = (entry: TiffTag) =>
+    typeof entry.values === "string" ? entry.values.length + 1 : entry.type === RATIONAL ? entry.values.length / 2 : entry.values.length;
+
+  // Layout: header, image directory, values that do not fit in an entry, then the strips
+  const directoryOffset = 8;
+  const directorySize = 2 + tags.length * 12 + 4;
+  let extraOffset = directoryOffset + directorySize;
+  const extraOffsets = tags.map((entry) => {
+    const size = valueBytes(entry);
+    if (size <= 4) return -1;
+    const offset = extraOffset;
+    extraOffset += size + (size % 2);
+    return offset;
+  });
+  let stripOffset = extraOffset;
+  const stripOffsets = strips.map((strip) => {
+    const offset = stripOffset;
+    stripOffset += strip.length;
+    return offset;
+  });
+  stripOffsetsTag.values = stripOffsets;
+
+  const file = new Uint8Array(stripOffset);
+  const view = new DataView(file.buffer);
+  file.set([0x49, 0x49, 42, 0]);
+  view.setUint32(4, directoryOffset, true);
+  view.setUint16(directoryOffset, tags.length, true);
+
+  const writeValues = (entry: TiffTag, offset: number) => {
+    if (typeof entry.values === "string") {
+      for (let index = 0; index < entry.values.length; index += 1) {
+        file[offset + index] = entry.values.charCodeAt(index);
+      }
+      return;
+    }
+    entry.values.forEach((value, index) => {
+      if (entry.type === SHORT) view.setUint16(offset + index * 2, value, true);
+      else view.setUint32(offset + index * 4, value, true);
+    });
+  };
+
+  tags.forEach((entry, index) => {
+    const position = directoryOffset + 2 + index * 12;
+    view.setUint16(position, entry.tag, true);
+    view.setUint16(position + 2, entry.type, true);
+    view.setUint32(position + 4, count(entry), true);
+    const offset = extraOffsets[index];
+    if (offset === -1) {
+      writeValues(entry, position + 8);
+    } else {
+      view.setUint32(position + 8, offset, true);
+      writeValues(entry, offset);
+    }
+  });
+  view.setUint32(directoryOffset + 2 + tags.length * 12, 0, true);
+
+  strips.forEach((strip, index) => file.set(strip, stripOffsets[index]));
+  return file;
+}
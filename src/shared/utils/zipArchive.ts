@@ -0,0 +1,84 @@
+import { crc32 } from "./crc32";
+
+export type ZipEntry = {
+  name: string;
+  data: Uint8Array;
+};
+
+// General purpose flag: file names are UTF-8
+const UTF8_FLAG = 0x0800;
+
+// MS-DOS date and time fields, which have a two-second resolution
+function dosDateTime(date: Date) {
+  const time = (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2);
+  const day = ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate();
+  return { time, day };
+}
+
+/**
+ * Packs files into a ZIP archive without compression. Exported images and PDFs are already
+ * compressed, so storing them keeps the archive small enough while avoiding a deflate
+ * implementation; any unzip tool or operating system can open the result.
+ */
+export function createZipArchive(entries: ZipEntry[], modified = new Date()): Blob {
+  const encoder = new TextEncoder();
+  const { time, day } = dosDateTime(modified);
+  const parts: Uint8Array[] = [];
+  const centralDirectory: Uint8Array[] = [];
+  let offset = 0;
+
+  entries.forEach((entry) => {
+    const name = encoder.encode(entry.name);
+    const checksum = crc32(entry.data);
+    const size = entry.data.length;
+
+    const local = new Uint8Array(30 + name.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034b50, true);
+    localView.setUint16(4, 20, true);
+    localView.setUint16(6, UTF8_FLAG, true);
+    localView.setUint16(8, 0, true);
+    localView.setUint16(10, time, true);
+    localView.setUint16(12, day, true);
+    localView.setUint32(14, checksum, true);
+    localView.setUint32(18, size, true);
+    localView.setUint32(22, size, true);
+    localView.setUint16(26, name.length, true);
+    local.set(name, 30);
+
+    const central = new Uint8Array(46 + name.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, 0x02014b50, true);
+    centralView.setUint16(4, 20, true);
+    centralView.setUint16(6, 20, true);
+    centralView.setUint16(8, UTF8_FLAG, true);
+    centralView.setUint16(10, 0, true);
+    centralView.setUint16(12, time, true);
+    centralView.setUint16(14, day, true);
+    centralView.setUint32(16, checksum, true);
+    centralView.setUint32(20, size, true);
+    centralView.setUint32(24, size, true);
+    centralView.setUint16(28, name.length, true);
+    centralView.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    parts.push(local, entry.data);
+    centralDirectory.push(central);
+    offset += local.length + size;
+  });
+
+  const directorySize = centralDirectory.reduce((total, part) => total + part.length, 0);
+  if (offset + directorySize > 0xffffffff || entries.length > 0xffff) {
+    throw new Error("The export is too large for a ZIP file. Choose fewer formats or sizes.");
+  }
+
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true);
+  endView.setUint16(8, entries.length, true);
+  endView.setUint16(10, entries.length, true);
+  endView.setUint32(12, directorySize, true);
+  endView.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...centralDirectory, end], { type: "application/zip" });
+}
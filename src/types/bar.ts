@@ -1,4 +1,6 @@
-import type { BaseDataPoint, PlotSettings } from "./base";
+import type { AxisScaleType, AxisSettings, BaseDataPoint, PlotSettings } from "./base";
+import type { LineDashStyle } from "./line";
+import type { ScatterPointShape } from "./scatter";
 import type { DataTableRow } from "../shared/components/DataTable";
 
 export type BarPattern =
@@ -10,6 +12,87 @@ export type BarPattern =
 
 export type BarOrientation = "vertical" | "horizontal";
 
+// How bars sharing a label are laid out along the category axis
+export type BarLayoutMode = "flat" | "grouped" | "stacked" | "stacked100";
+
+// Which value labels are drawn when bars are stacked
+export type StackLabelMode = "segment" | "total" | "both";
+
+// Statistic a bar shows when it is computed from replicates
+export type ReplicateCenter = "mean" | "median";
+export type ReplicateSpread = "sd" | "sem" | "ci95" | "range";
+
+// Which sides of the bar end an error bar extends to; "outward" points away from zero
+export type ErrorBarDirection = "both" | "outward" | "upper" | "lower";
+
+// Where a significance bracket's p-value comes from
+export type SignificanceTest = "manual" | "welch" | "mann-whitney";
+export type SignificanceLabelMode = "stars" | "p-value";
+
+// Comparison bracket between two bars, referenced by id so it follows them around
+export interface SignificanceAnnotation {
+  id: string;
+  barA: string;
+  barB: string;
+  test: SignificanceTest;
+  pValue: number | null; // Used by the manual test
+  label: string; // Overrides the computed text when not empty
+}
+
+export type ReferenceKind = "line" | "band";
+// "value" elements sit at data values on the value axis, "category" ones at positions along the categories
+export type ReferenceAxis = "value" | "category";
+export type ReferenceLabelPosition = "start" | "end";
+
+// Reference line or shaded band anchored in data coordinates rather than pixels
+export interface ReferenceElement {
+  id: string;
+  kind: ReferenceKind;
+  axis: ReferenceAxis;
+  value: number; // Data value, or 1-based category position (1.5 lies between the first two categories)
+  endValue: number; // Other edge of a band
+  label: string;
+  labelPosition: ReferenceLabelPosition;
+  color: string;
+  opacity: number;
+  lineWidth: number; // Line stroke, or the edge stroke of a band (0 hides the edges)
+  dashStyle: LineDashStyle;
+}
+
+// What a bar value dragged in the preview is rounded to: the axis tick step or a number of decimals
+export type ValueDragSnap = "tick" | "precision";
+
+export type CalloutAnchorType = "bar" | "point";
+export type CalloutConnector = "straight" | "elbow" | "curved";
+export type CalloutArrowhead = "none" | "arrow" | "open" | "dot";
+
+// Label pointing at a bar or a data coordinate. The label position is an offset from
+// the anchor in pixels, so it follows the anchor when the data or canvas change.
+export interface CalloutAnnotation {
+  id: string;
+  text: string;
+  anchorType: CalloutAnchorType;
+  barId: string; // Bar anchors point at the end of this bar
+  category: number; // Point anchors: 1-based category position
+  value: number; // Point anchors: data value
+  offsetX: number;
+  offsetY: number;
+  connector: CalloutConnector;
+  arrowhead: CalloutArrowhead;
+  arrowSize: number;
+  lineColor: string;
+  lineWidth: number;
+  fontSize: number;
+  textColor: string;
+  showBox: boolean;
+  boxColor: string;
+  boxOpacity: number;
+  boxBorderColor: string;
+  boxBorderWidth: number;
+  boxPadding: number;
+  boxRadius: number;
+}
+
 // Additional elements for text and images
 export interface AdditionalTextElement {
   id: string;
@@ -47,6 +130,13 @@ export interface BarDataPoint extends BaseDataPoint, DataTableRow {
   opacity: number;
   borderOpacity: number;
   error: number;
+  // Per-direction overrides of `error` for asymmetric error bars
+  errorLower?: number;
+  errorUpper?: number;
+  // Raw measurements; when present, value and error are computed from them
+  replicates?: number[];
+  // Value of the overlay series at this bar's category, plotted on the secondary axis
+  secondaryValue?: number | null;
   group?: string;
   pattern: BarPattern;
   patternColor: string;
@@ -54,6 +144,8 @@ export interface BarDataPoint extends BaseDataPoint, DataTableRow {
   patternSize: number;
 }
 
+export type SecondarySeriesStyle = "line" | "markers" | "line-markers";
+
 export type LegendPosition = "top" | "bottom" | "left" | "right" | "top-left" | "top-right" | "bottom-left" | "bottom-right";
 
 export interface LegendSettings {
@@ -83,6 +175,10 @@ export interface BarChartSettings extends PlotSettings<BarDataPoint> {
   showValueLabels: boolean;
   // Chart orientation
   orientation: BarOrientation;
+  // Bar layout (flat bands, clusters or stacks per category, one bar per group)
+  layoutMode: BarLayoutMode;
+  groupGap: number; // Spacing between bars inside a cluster (fraction of the slot)
+  stackLabelMode: StackLabelMode;
   // Additional elements
   additionalTextElements: AdditionalTextElement[];
   additionalImageElements: AdditionalImageElement[];
@@ -110,9 +206,63 @@ export interface BarChartSettings extends PlotSettings<BarDataPoint> {
   valueLabelOffsetX: number;
   // Error bars
   errorBarMode: "global" | "match";
+  errorBarDirection: ErrorBarDirection;
   errorBarColor: string;
   errorBarWidth: number;
   errorBarCapWidth: number;
+  // Dragging bar ends and error caps in the preview
+  valueDragEnabled: boolean;
+  valueDragSnap: ValueDragSnap;
+  valueDragPrecision: number; // Decimals kept when snapping to precision
+  // Replicates
+  replicateCenter: ReplicateCenter;
+  replicateSpread: ReplicateSpread;
+  showReplicatePoints: boolean;
+  replicatePointSize: number;
+  replicatePointColor: string;
+  replicatePointOpacity: number;
+  replicateJitterWidth: number; // Fraction of the bar thickness
+  // Significance brackets
+  significanceAnnotations: SignificanceAnnotation[];
+  significanceLabelMode: SignificanceLabelMode;
+  significanceLineColor: string;
+  significanceLineWidth: number;
+  significanceTickLength: number;
+  significanceFontSize: number;
+  significanceTextColor: string;
+  significanceSpacing: number; // Vertical distance between stacked brackets (px)
+  // Reference lines and bands
+  referenceElements: ReferenceElement[];
+  referenceLabelFontSize: number;
+  // Callout annotations
+  calloutAnnotations: CalloutAnnotation[];
+  // Value axis scale
+  yAxisScale: AxisScaleType;
+  yAxisSymlogConstant: number; // Half-width of the linear region around zero
+  yAxisPowerLabels: boolean;
+  yAxisMinorTicks: boolean;
+  // Value axis break
+  yAxisBreakEnabled: boolean;
+  yAxisBreakStart: number; // Values between start and end are cut out of the axis
+  yAxisBreakEnd: number;
+  yAxisBreakGap: number; // Gap drawn at the break (px)
+  yAxisBreakRatio: number; // Share of the axis length given to the part below the break
+  // Secondary (right-hand) value axis with an overlay series
+  showSecondaryAxis: boolean;
+  secondaryAxis: AxisSettings;
+  secondaryAxisMin: number | null;
+  secondaryAxisMax: number | null;
+  secondaryAxisTickStep: number | null;
+  secondaryAxisTitleFontSize: number;
+  secondaryAxisTickFontSize: number;
+  secondaryAxisTitleOffsetX: number;
+  secondarySeriesName: string;
+  secondarySeriesColor: string;
+  secondarySeriesStyle: SecondarySeriesStyle;
+  secondaryLineWidth: number;
+  secondaryDashStyle: LineDashStyle;
+  secondaryMarkerShape: ScatterPointShape;
+  secondaryMarkerSize: number;
   // Axis synchronization setting
   axesSynced: boolean;
   // Plot box border settings
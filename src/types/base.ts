@@ -1,8 +1,21 @@
 // Base types for all plot types
-export type PlotType = "bar" | "scatter";
+export type PlotType = "bar" | "scatter" | "line" | "histogram" | "box";
 
 export type PaletteKey = "vibrant" | "cool" | "warm" | "pastel";
 
+export type PageUnit = "mm" | "in";
+
+// A named output size for figures, defined in physical units like a journal's column widths
+export type ExportPreset = {
+  id: string;
+  name: string;
+  width: number;
+  unit: PageUnit;
+  dpi: number;
+  // Smallest text size the target accepts, in points
+  minFontSize: number;
+};
+
 export type HighlightKey =
   | "chartBasics"
   | "yAxis"
@@ -12,7 +25,9 @@ export type HighlightKey =
   | "design"
   | "barDesign" // Legacy compatibility
   | "valueLabels"
-  | "errorBars";
+  | "errorBars"
+  | "significance"
+  | "secondaryAxis";
 
 export type FocusTarget =
   | { type: "chartTitle" }
@@ -29,6 +44,9 @@ export type FocusRequest = {
   requestId: number;
 };
 
+// How values map onto a value axis; symlog stays linear around zero so it can cross it
+export type AxisScaleType = "linear" | "log10" | "log2" | "ln" | "symlog";
+
 // Base axis settings that all plot types can use
 export type AxisSettings = {
   showAxisLines: boolean;
@@ -83,6 +101,10 @@ export type BaseChartSettings = {
   exportScale: number;
   exportTransparent: boolean;
   exportFileName: string;
+  // Saved with the chart so a project keeps the sizes its figures were made for
+  exportPresets: ExportPreset[];
+  // Built-in or user preset used for the last export; null exports at on-screen size
+  exportPresetId: string | null;
   paletteName: PaletteKey;
   xAxis: AxisSettings;
   yAxis: AxisSettings;
@@ -0,0 +1,41 @@
+import type { BaseDataPoint, PlotSettings } from "./base";
+import type { LegendSettings } from "./bar";
+import type { KdeKernel } from "./histogram";
+import type { ScatterPointShape } from "./scatter";
+import type { DataTableRow } from "../shared/components/DataTable";
+
+export type BoxPlotDisplay = "box" | "violin" | "violin-box";
+
+// Tukey whiskers stop at the last value inside 1.5 × IQR; anything beyond is an outlier
+export type WhiskerMode = "tukey" | "min-max";
+
+// One category with its raw replicate values; statistics are computed when drawing
+export interface BoxCategory extends BaseDataPoint, DataTableRow {
+  values: number[];
+  fillColor: string;
+  borderColor: string;
+}
+
+export interface BoxPlotSettings extends PlotSettings<BoxCategory> {
+  display: BoxPlotDisplay;
+  whiskerMode: WhiskerMode;
+  boxWidth: number;
+  boxOpacity: number;
+  boxBorderWidth: number;
+  whiskerCapWidth: number;
+  medianColor: string;
+  medianWidth: number;
+  showMean: boolean;
+  showOutliers: boolean;
+  outlierShape: ScatterPointShape;
+  outlierSize: number;
+  violinKernel: KdeKernel;
+  violinBandwidth: number | null;
+  violinOpacity: number;
+  showPoints: boolean;
+  pointSize: number;
+  pointOpacity: number;
+  jitterWidth: number;
+  legend: LegendSettings;
+  axesSynced: boolean;
+}
@@ -0,0 +1,39 @@
+import type { BaseDataPoint, PlotSettings } from "./base";
+import type { LineDashStyle } from "./line";
+import type { DataTableRow } from "../shared/components/DataTable";
+
+export type BinningRule = "sturges" | "scott" | "freedman-diaconis" | "fixed-width" | "fixed-count";
+
+export type HistogramYMode = "count" | "density" | "cumulative";
+
+export type KdeKernel = "gaussian" | "epanechnikov";
+
+// A single raw observation; the chart bins these itself
+export interface HistogramObservation extends BaseDataPoint, DataTableRow {
+  value: number;
+}
+
+export interface HistogramSettings extends PlotSettings<HistogramObservation> {
+  binningRule: BinningRule;
+  binWidth: number;
+  binCount: number;
+  binStart: number | null;
+  yMode: HistogramYMode;
+  barFillColor: string;
+  barOpacity: number;
+  barBorderColor: string;
+  barBorderWidth: number;
+  barCornerRadius: number;
+  barCornerStyle: "top" | "both";
+  barGap: number;
+  showKde: boolean;
+  kdeKernel: KdeKernel;
+  kdeBandwidth: number | null;
+  kdeColor: string;
+  kdeLineWidth: number;
+  kdeDashStyle: LineDashStyle;
+  xAxisMin: number | null;
+  xAxisMax: number | null;
+  xAxisTickStep: number | null;
+  axesSynced: boolean;
+}
@@ -1,4 +1,7 @@
 // Re-export all types for easy importing
 export * from "./bar";
 export * from "./base";
+export * from "./box";
+export * from "./histogram";
+export * from "./line";
 export * from "./scatter";
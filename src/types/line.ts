@@ -0,0 +1,37 @@
+import type { BaseDataPoint, PlotSettings } from "./base";
+import type { LegendSettings } from "./bar";
+import type { ScatterPointShape } from "./scatter";
+import type { DataTableRow } from "../shared/components/DataTable";
+
+export type LineInterpolation = "linear" | "step" | "monotone";
+
+export type LineDashStyle = "solid" | "dashed" | "dotted" | "dash-dot";
+
+export interface LineSeries {
+  id: string;
+  name: string;
+  color: string;
+  lineWidth: number;
+  dashStyle: LineDashStyle;
+  interpolation: LineInterpolation;
+  showMarkers: boolean;
+  markerShape: ScatterPointShape;
+  markerSize: number;
+  showArea: boolean;
+  areaOpacity: number;
+}
+
+// One row per X value; a null (or missing) series value leaves a gap in that line
+export interface LineDataPoint extends BaseDataPoint, DataTableRow {
+  x: number;
+  values: Record<string, number | null>;
+}
+
+export interface LineChartSettings extends PlotSettings<LineDataPoint> {
+  series: LineSeries[];
+  legend: LegendSettings;
+  xAxisMin: number | null;
+  xAxisMax: number | null;
+  xAxisTickStep: number | null;
+  axesSynced: boolean;
+}
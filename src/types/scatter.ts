@@ -1,6 +1,7 @@
 import type { BaseDataPoint, PlotSettings } from "./base";
+import type { DataTableRow } from "../shared/components/DataTable";
 
-export interface ScatterDataPoint extends BaseDataPoint {
+export interface ScatterDataPoint extends BaseDataPoint, DataTableRow {
   x: number;
   y: number;
   size: number;
@@ -27,4 +28,5 @@ export interface ScatterPlotSettings extends PlotSettings<ScatterDataPoint> {
   xAxisMin: number | null;
   xAxisMax: number | null;
   xAxisTickStep: number | null;
+  axesSynced: boolean;
 }